@@ -5,6 +5,7 @@
 
 import type { ApiClient } from './client.js';
 import type { AccountSummary, TrafficBalanceBreakdown, Notification, PaginatedResponse } from './types.js';
+import { paginate, type PageIterator, type PaginateOptions } from './pagination.js';
 
 export class AccountApi {
   constructor(private readonly client: ApiClient) {}
@@ -41,6 +42,17 @@ export class AccountApi {
     });
   }
 
+  /**
+   * Iterate over all notifications (most recent first)
+   * Required scope: account:read
+   */
+  iterateNotifications(
+    filters?: { unreadOnly?: boolean },
+    options?: PaginateOptions
+  ): PageIterator<Notification> {
+    return paginate(({ offset, limit }) => this.getNotifications({ ...filters, offset, limit }), options);
+  }
+
   /**
    * Mark notification as read
    * Required scope: account:write
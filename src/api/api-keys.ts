@@ -0,0 +1,67 @@
+/**
+ * API Keys API Module
+ * Endpoints for the API keys of the account
+ */
+
+import type { ApiClient } from './client.js';
+import type { ApiKey, ApiKeyScope, CreateApiKeyRequest, CreatedApiKey } from './types.js';
+
+/**
+ * Every API key scope; admin:full grants all of them
+ */
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = [
+  'ports:read',
+  'ports:write',
+  'ports:rotate',
+  'billing:read',
+  'billing:write',
+  'account:read',
+  'account:write',
+  'traffic:read',
+  'tickets:read',
+  'tickets:write',
+  'admin:full',
+];
+
+/**
+ * Whether a string is a known API key scope
+ */
+export function isApiKeyScope(value: string): value is ApiKeyScope {
+  return (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+export class ApiKeysApi {
+  constructor(private readonly client: ApiClient) {}
+
+  /**
+   * Get the API key this client authenticates with (name, scopes, expiry)
+   * Required scope: none
+   */
+  async getCurrent(): Promise<ApiKey> {
+    return this.client.get<ApiKey>('/v1/api-keys/current');
+  }
+
+  /**
+   * List the API keys of the account (prefixes only, never the secrets)
+   * Required scope: account:read
+   */
+  async list(): Promise<ApiKey[]> {
+    return this.client.get<ApiKey[]>('/v1/api-keys');
+  }
+
+  /**
+   * Create an API key. The response is the only time the secret is returned.
+   * Required scope: account:write
+   */
+  async create(request: CreateApiKeyRequest): Promise<CreatedApiKey> {
+    return this.client.post<CreatedApiKey>('/v1/api-keys', request);
+  }
+
+  /**
+   * Revoke an API key; requests made with it are rejected from then on
+   * Required scope: account:write
+   */
+  async revoke(keyId: string): Promise<ApiKey> {
+    return this.client.delete<ApiKey>(`/v1/api-keys/${keyId}`);
+  }
+}
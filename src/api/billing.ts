@@ -8,7 +8,10 @@
  * - Use getPricing() and calculatePrice() for new pricing info
  */
 
+import { randomUUID } from 'crypto';
 import type { ApiClient } from './client.js';
+import type { IdempotencyKeyStore } from './idempotency.js';
+import { paginate, type PageIterator, type PaginateOptions } from './pagination.js';
 import type {
   Tariff,
   Purchase,
@@ -25,7 +28,29 @@ export interface PurchaseParams {
 }
 
 export class BillingApi {
-  constructor(private readonly client: ApiClient) {}
+  constructor(
+    private readonly client: ApiClient,
+    private readonly idempotencyKeys?: IdempotencyKeyStore
+  ) {}
+
+  /**
+   * Send a purchase with an Idempotency-Key header.
+   * With a key store, a purchase whose outcome is unknown (timeout, 5xx) keeps its key,
+   * and repeating the same purchase resends it so the API charges at most once.
+   * Such a replay is marked `replayed`: its result may be the earlier purchase.
+   */
+  private async purchase(endpoint: string, operation: string, body: unknown): Promise<PurchaseResponse> {
+    const send = (idempotencyKey: string) =>
+      this.client.post<PurchaseResponse>(endpoint, body, undefined, { idempotencyKey });
+
+    if (!this.idempotencyKeys) {
+      return send(randomUUID());
+    }
+
+    const replayed = this.idempotencyKeys.isPending(operation);
+    const result = await this.idempotencyKeys.run(operation, send);
+    return replayed ? { ...result, replayed } : result;
+  }
 
   // ============================================================================
   // NEW PRICING ENDPOINTS (Jan 2026 Business Model)
@@ -118,7 +143,7 @@ export class BillingApi {
    */
   async purchaseSharedSlots(quantity: number): Promise<PurchaseResponse> {
     console.warn('[DEPRECATED] purchaseSharedSlots: Slots are now FREE! They unlock based on cumulative GB purchases. Use getPricing() to see tier progression.');
-    return this.client.post<PurchaseResponse>('/v1/billing/purchase-ports', {
+    return this.purchase('/v1/billing/purchase-ports', `purchase-slots:shared:${quantity}`, {
       amount: quantity,
     });
   }
@@ -129,7 +154,7 @@ export class BillingApi {
    * Endpoint: POST /v1/billing/purchase-traffic
    */
   async purchaseSharedTraffic(quantityGB: number): Promise<PurchaseResponse> {
-    return this.client.post<PurchaseResponse>('/v1/billing/purchase-traffic', {
+    return this.purchase('/v1/billing/purchase-traffic', `purchase-traffic:shared:${quantityGB}`, {
       amount: quantityGB,
     });
   }
@@ -144,7 +169,7 @@ export class BillingApi {
    */
   async purchasePrivateSlots(quantity: number): Promise<PurchaseResponse> {
     console.warn('[DEPRECATED] purchasePrivateSlots: Slots are now FREE! They unlock based on cumulative GB purchases. Use getPricing() to see tier progression.');
-    return this.client.post<PurchaseResponse>('/v1/billing/purchase-ports-private', {
+    return this.purchase('/v1/billing/purchase-ports-private', `purchase-slots:private:${quantity}`, {
       amount: quantity,
     });
   }
@@ -155,7 +180,7 @@ export class BillingApi {
    * Endpoint: POST /v1/billing/purchase-traffic-private
    */
   async purchasePrivateTraffic(quantityGB: number): Promise<PurchaseResponse> {
-    return this.client.post<PurchaseResponse>('/v1/billing/purchase-traffic-private', {
+    return this.purchase('/v1/billing/purchase-traffic-private', `purchase-traffic:private:${quantityGB}`, {
       amount: quantityGB,
     });
   }
@@ -178,6 +203,17 @@ export class BillingApi {
     });
   }
 
+  /**
+   * Iterate over the full purchase history (most recent first)
+   * Required scope: billing:read
+   */
+  iteratePurchases(
+    filters?: { type?: 'slots' | 'traffic'; category?: 'shared' | 'private' },
+    options?: PaginateOptions
+  ): PageIterator<Purchase> {
+    return paginate(({ offset, limit }) => this.getPurchases({ ...filters, offset, limit }), options);
+  }
+
   /**
    * Get purchase by ID
    * Required scope: billing:read
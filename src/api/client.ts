@@ -3,6 +3,7 @@
  * HTTP client with API key or JWT authentication
  */
 
+import { recordAuditEndpoint } from '../audit/index.js';
 import type { ApiError } from './types.js';
 
 export type AuthType = 'apiKey' | 'jwt';
@@ -12,6 +13,89 @@ export interface ApiClientConfig {
   token: string;
   authType: AuthType;
   timeout?: number;
+  retry?: Partial<RetryPolicy>;
+}
+
+/**
+ * Retry policy for transient failures (rate limits, gateway errors, network resets)
+ */
+export interface RetryPolicy {
+  /** Retries after the first attempt (0 disables retrying) */
+  maxRetries: number;
+  /** Backoff before the first retry; doubles on each further retry */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number;
+  /** Longest Retry-After the client will wait for; longer waits fail immediately */
+  maxRetryAfterMs: number;
+  /** HTTP statuses treated as transient */
+  retryStatuses: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 60000,
+  retryStatuses: [408, 429, 502, 503, 504],
+};
+
+/**
+ * Per-request options
+ */
+export interface RequestOptions {
+  /**
+   * Whether the request is safe to repeat. Defaults to true for GET, PUT and DELETE.
+   * Non-idempotent requests are only retried when the server cannot have processed them
+   * (429 responses, refused connections).
+   */
+  idempotent?: boolean;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /**
+   * Sent as the Idempotency-Key header. The key lets a caller repeat a request
+   * whose outcome is unknown; it does not make the request retry automatically.
+   */
+  idempotencyKey?: string;
+}
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+const IDEMPOTENT_METHODS = new Set<HttpMethod>(['GET', 'PUT', 'DELETE']);
+
+/**
+ * Network error codes raised before the request reached the server
+ */
+const NOT_SENT_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+
+/**
+ * Wait for the given number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (value.trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Error code of a fetch failure (undici puts the socket error in cause)
+ */
+function networkErrorCode(error: unknown): string | undefined {
+  const cause = (error as { cause?: { code?: unknown } })?.cause;
+  return typeof cause?.code === 'string' ? cause.code : undefined;
 }
 
 export class ApiClientError extends Error {
@@ -39,12 +123,14 @@ export class ApiClient {
   private readonly token: string;
   private readonly authType: AuthType;
   private readonly timeout: number;
+  private readonly retryPolicy: RetryPolicy;
 
   constructor(config: ApiClientConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, ''); // Remove trailing slash
     this.token = config.token;
     this.authType = config.authType;
     this.timeout = config.timeout ?? 30000; // 30 seconds default
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.retry };
   }
 
   /**
@@ -104,6 +190,62 @@ export class ApiClient {
     }
   }
 
+  /**
+   * Exponential backoff with jitter for the given retry (0-based)
+   */
+  private backoffDelay(retry: number): number {
+    const { baseDelayMs, maxDelayMs } = this.retryPolicy;
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** retry);
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
+  /**
+   * Send a request, retrying transient failures according to the retry policy
+   */
+  private async request<T>(
+    method: HttpMethod,
+    url: string,
+    init: RequestInit,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const { maxRetries, maxRetryAfterMs, retryStatuses } = this.retryPolicy;
+    const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.has(method);
+    const headers = { ...(init.headers as Record<string, string>), ...options.headers };
+    if (options.idempotencyKey) {
+      headers['Idempotency-Key'] = options.idempotencyKey;
+    }
+    recordAuditEndpoint(method, url);
+
+    for (let retry = 0; ; retry++) {
+      const canRetry = retry < maxRetries;
+
+      let response: Response;
+      try {
+        response = await this.fetchWithTimeout(url, { ...init, method, headers });
+      } catch (error) {
+        const notSent = NOT_SENT_ERROR_CODES.has(networkErrorCode(error) ?? '');
+        if (canRetry && (idempotent || notSent)) {
+          await sleep(this.backoffDelay(retry));
+          continue;
+        }
+        throw error;
+      }
+
+      // A 429 means the request was rejected unprocessed, so it is safe to repeat
+      const transient = retryStatuses.includes(response.status) && (idempotent || response.status === 429);
+      if (canRetry && transient) {
+        const delay = parseRetryAfter(response.headers.get('retry-after')) ?? this.backoffDelay(retry);
+        if (delay <= maxRetryAfterMs) {
+          await response.body?.cancel().catch(() => undefined);
+          await sleep(delay);
+          continue;
+        }
+      }
+
+      return this.handleResponse<T>(response);
+    }
+  }
+
   /**
    * Handle API response
    */
@@ -150,28 +292,25 @@ export class ApiClient {
     headers?: Record<string, string>
   ): Promise<T> {
     const url = this.buildUrl(endpoint, queryParams);
-    const response = await this.fetchWithTimeout(url, {
-      method: 'GET',
+    return this.request<T>('GET', url, {
       headers: this.buildHeaders(headers),
     });
-    return this.handleResponse<T>(response);
   }
 
   /**
-   * POST request
+   * POST request (transient failures are only retried when safe, see RequestOptions)
    */
   async post<T>(
     endpoint: string,
     body?: unknown,
-    queryParams?: Record<string, string | number | boolean | undefined>
+    queryParams?: Record<string, string | number | boolean | undefined>,
+    options?: RequestOptions
   ): Promise<T> {
     const url = this.buildUrl(endpoint, queryParams);
-    const response = await this.fetchWithTimeout(url, {
-      method: 'POST',
+    return this.request<T>('POST', url, {
       headers: this.buildHeaders(),
       body: body ? JSON.stringify(body) : undefined,
-    });
-    return this.handleResponse<T>(response);
+    }, options);
   }
 
   /**
@@ -183,29 +322,26 @@ export class ApiClient {
     queryParams?: Record<string, string | number | boolean | undefined>
   ): Promise<T> {
     const url = this.buildUrl(endpoint, queryParams);
-    const response = await this.fetchWithTimeout(url, {
-      method: 'PUT',
+    return this.request<T>('PUT', url, {
       headers: this.buildHeaders(),
       body: body ? JSON.stringify(body) : undefined,
     });
-    return this.handleResponse<T>(response);
   }
 
   /**
-   * PATCH request
+   * PATCH request (transient failures are only retried when safe, see RequestOptions)
    */
   async patch<T>(
     endpoint: string,
     body?: unknown,
-    queryParams?: Record<string, string | number | boolean | undefined>
+    queryParams?: Record<string, string | number | boolean | undefined>,
+    options?: RequestOptions
   ): Promise<T> {
     const url = this.buildUrl(endpoint, queryParams);
-    const response = await this.fetchWithTimeout(url, {
-      method: 'PATCH',
+    return this.request<T>('PATCH', url, {
       headers: this.buildHeaders(),
       body: body ? JSON.stringify(body) : undefined,
-    });
-    return this.handleResponse<T>(response);
+    }, options);
   }
 
   /**
@@ -216,11 +352,9 @@ export class ApiClient {
     queryParams?: Record<string, string | number | boolean | undefined>
   ): Promise<T> {
     const url = this.buildUrl(endpoint, queryParams);
-    const response = await this.fetchWithTimeout(url, {
-      method: 'DELETE',
+    return this.request<T>('DELETE', url, {
       headers: this.buildHeaders(),
     });
-    return this.handleResponse<T>(response);
   }
 }
 
@@ -0,0 +1,175 @@
+/**
+ * Idempotency Key Store
+ * Persists the idempotency key of each purchase until its outcome is known,
+ * so a purchase retried after a timeout reuses the key instead of charging twice
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { randomUUID } from 'crypto';
+import { homedir } from 'os';
+import { join, dirname } from 'path';
+import { ApiClientError } from './client.js';
+
+/**
+ * Default store location (shared with the x402 caches)
+ */
+const DEFAULT_STORE_DIR = join(homedir(), '.proxies-sx');
+const DEFAULT_STORE_FILE = 'idempotency-keys.json';
+
+/**
+ * How long an unresolved key is reused before a retry counts as a new purchase
+ */
+const DEFAULT_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Key issued for a logical operation
+ */
+export interface IdempotencyKeyEntry {
+  key: string;
+  createdAt: string;
+}
+
+/**
+ * Idempotency key store structure
+ */
+interface IdempotencyKeyData {
+  keys: Record<string, IdempotencyKeyEntry>;
+  lastUpdated: string;
+}
+
+/**
+ * Whether a failed request may still have been processed by the API
+ * (timeouts, network errors, 5xx and conflicting in-flight requests)
+ */
+export function isOutcomeUnknown(error: unknown): boolean {
+  if (!(error instanceof ApiClientError)) {
+    return true;
+  }
+  return error.statusCode >= 500 || error.statusCode === 408 || error.statusCode === 409;
+}
+
+/**
+ * Idempotency Key Store
+ * Keys are keyed by an operation fingerprint such as "purchase-traffic:shared:5"
+ */
+export class IdempotencyKeyStore {
+  private storePath: string;
+  private ttlMs: number;
+  private data: IdempotencyKeyData;
+
+  constructor(storePath?: string, ttlMs: number = DEFAULT_KEY_TTL_MS) {
+    this.storePath = storePath || join(DEFAULT_STORE_DIR, DEFAULT_STORE_FILE);
+    this.ttlMs = ttlMs;
+    this.data = this.load();
+  }
+
+  /**
+   * Load store from disk, dropping expired keys
+   */
+  private load(): IdempotencyKeyData {
+    try {
+      if (existsSync(this.storePath)) {
+        const data = JSON.parse(readFileSync(this.storePath, 'utf-8'));
+        const keys: Record<string, IdempotencyKeyEntry> = {};
+        for (const [operation, entry] of Object.entries<IdempotencyKeyEntry>(data.keys || {})) {
+          if (!this.isExpired(entry)) {
+            keys[operation] = entry;
+          }
+        }
+        return { keys, lastUpdated: data.lastUpdated || new Date().toISOString() };
+      }
+    } catch (error) {
+      console.error('Failed to load idempotency keys:', error);
+    }
+
+    return {
+      keys: {},
+      lastUpdated: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Save store to disk
+   */
+  private save(): void {
+    try {
+      const dir = dirname(this.storePath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+
+      this.data.lastUpdated = new Date().toISOString();
+      writeFileSync(this.storePath, JSON.stringify(this.data, null, 2));
+    } catch (error) {
+      console.error('Failed to save idempotency keys:', error);
+    }
+  }
+
+  /**
+   * Whether a key is too old to be reused
+   */
+  private isExpired(entry: IdempotencyKeyEntry): boolean {
+    return Date.now() - new Date(entry.createdAt).getTime() > this.ttlMs;
+  }
+
+  /**
+   * Whether an earlier attempt at an operation left an unresolved key,
+   * i.e. the next attempt resends it and may get that attempt's result back
+   */
+  isPending(operation: string): boolean {
+    const existing = this.data.keys[operation];
+    return !!existing && !this.isExpired(existing);
+  }
+
+  /**
+   * Get the key for an operation: the unresolved key of an earlier attempt,
+   * or a new key that is persisted before the request is sent
+   */
+  acquire(operation: string): string {
+    const existing = this.data.keys[operation];
+    if (existing && !this.isExpired(existing)) {
+      return existing.key;
+    }
+
+    const entry = { key: randomUUID(), createdAt: new Date().toISOString() };
+    this.data.keys[operation] = entry;
+    this.save();
+    return entry.key;
+  }
+
+  /**
+   * Forget an operation's key once its outcome is known
+   */
+  release(operation: string): void {
+    if (operation in this.data.keys) {
+      delete this.data.keys[operation];
+      this.save();
+    }
+  }
+
+  /**
+   * Run an operation with its idempotency key.
+   * The key is kept for the next attempt only when the outcome is unknown.
+   */
+  async run<T>(operation: string, send: (idempotencyKey: string) => Promise<T>): Promise<T> {
+    const key = this.acquire(operation);
+
+    try {
+      const result = await send(key);
+      this.release(operation);
+      return result;
+    } catch (error) {
+      if (!isOutcomeUnknown(error)) {
+        this.release(operation);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Create idempotency key store instance
+ */
+export function createIdempotencyKeyStore(storePath?: string, ttlMs?: number): IdempotencyKeyStore {
+  return new IdempotencyKeyStore(storePath, ttlMs);
+}
@@ -10,16 +10,29 @@ import { RotationApi } from './rotation.js';
 import { BillingApi } from './billing.js';
 import { ReferenceApi } from './reference.js';
 import { PaymentsApi } from './payments.js';
+import { ApiKeysApi } from './api-keys.js';
+import { createIdempotencyKeyStore } from './idempotency.js';
 
 export * from './types.js';
 export * from './client.js';
 export * from './auth.js';
+export * from './idempotency.js';
+export * from './pagination.js';
 export { AccountApi } from './account.js';
-export { PortsApi } from './ports.js';
+export { PortsApi, type ListPortsParams } from './ports.js';
 export { RotationApi } from './rotation.js';
 export { BillingApi } from './billing.js';
 export { ReferenceApi } from './reference.js';
 export { PaymentsApi } from './payments.js';
+export { ApiKeysApi, API_KEY_SCOPES, isApiKeyScope } from './api-keys.js';
+
+/**
+ * Configuration for the combined API client
+ */
+export interface ProxiesApiConfig extends ApiClientConfig {
+  /** Idempotency key store path (default: ~/.proxies-sx/idempotency-keys.json) */
+  idempotencyStorePath?: string;
+}
 
 /**
  * Combined Proxies.sx API Client
@@ -32,21 +45,23 @@ export class ProxiesApi {
   public readonly billing: BillingApi;
   public readonly reference: ReferenceApi;
   public readonly payments: PaymentsApi;
+  public readonly apiKeys: ApiKeysApi;
 
-  constructor(config: ApiClientConfig) {
+  constructor(config: ProxiesApiConfig) {
     this.client = createApiClient(config);
     this.account = new AccountApi(this.client);
     this.ports = new PortsApi(this.client);
     this.rotation = new RotationApi(this.client);
-    this.billing = new BillingApi(this.client);
+    this.billing = new BillingApi(this.client, createIdempotencyKeyStore(config.idempotencyStorePath));
     this.reference = new ReferenceApi(this.client);
     this.payments = new PaymentsApi(this.client);
+    this.apiKeys = new ApiKeysApi(this.client);
   }
 }
 
 /**
  * Create Proxies.sx API client
  */
-export function createProxiesApi(config: ApiClientConfig): ProxiesApi {
+export function createProxiesApi(config: ProxiesApiConfig): ProxiesApi {
   return new ProxiesApi(config);
 }
@@ -0,0 +1,102 @@
+/**
+ * Pagination
+ * Async iteration over paginated API endpoints
+ */
+
+import type { PaginatedResponse } from './types.js';
+
+/**
+ * Page requested from an endpoint. Both page-based and offset-based
+ * endpoints are covered: offset is always (page - 1) * limit.
+ */
+export interface PageRequest {
+  page: number;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Fetch one page. Endpoints that return a plain array are treated as a single page.
+ */
+export type PageFetcher<T> = (request: PageRequest) => Promise<PaginatedResponse<T> | T[]>;
+
+export interface PaginateOptions {
+  /** Items requested per page (default: 100) */
+  pageSize?: number;
+  /** Items to skip before the first yielded item (default: 0) */
+  offset?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Async iterator over every item of a paginated endpoint.
+ * Pages are fetched lazily, so breaking out of a loop stops further requests.
+ */
+export class PageIterator<T> implements AsyncIterable<T> {
+  private reportedTotal?: number;
+
+  constructor(
+    private readonly fetchPage: PageFetcher<T>,
+    private readonly options: PaginateOptions = {}
+  ) {}
+
+  /**
+   * Total item count reported by the API (known once the first page was fetched)
+   */
+  get total(): number | undefined {
+    return this.reportedTotal;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    const limit = this.options.pageSize ?? DEFAULT_PAGE_SIZE;
+    const offset = this.options.offset ?? 0;
+
+    // Start at the page containing the offset and skip the items before it
+    let page = Math.floor(offset / limit) + 1;
+    let skip = offset % limit;
+
+    for (;;) {
+      const result = await this.fetchPage({ page, offset: (page - 1) * limit, limit });
+
+      if (Array.isArray(result)) {
+        this.reportedTotal = result.length;
+        yield* result.slice(offset);
+        return;
+      }
+
+      this.reportedTotal = result.total;
+      yield* result.data.slice(skip);
+      skip = 0;
+
+      const lastPage =
+        result.data.length < limit ||
+        (typeof result.total === 'number' && page * limit >= result.total) ||
+        (typeof result.totalPages === 'number' && page >= result.totalPages);
+      if (lastPage) return;
+
+      page++;
+    }
+  }
+
+  /**
+   * Collect up to `count` items
+   */
+  async take(count: number): Promise<T[]> {
+    const items: T[] = [];
+    if (count <= 0) return items;
+
+    for await (const item of this) {
+      items.push(item);
+      if (items.length >= count) break;
+    }
+    return items;
+  }
+}
+
+/**
+ * Iterate over a paginated endpoint
+ */
+export function paginate<T>(fetchPage: PageFetcher<T>, options?: PaginateOptions): PageIterator<T> {
+  return new PageIterator(fetchPage, options);
+}
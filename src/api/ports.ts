@@ -4,6 +4,7 @@
  */
 
 import type { ApiClient } from './client.js';
+import { paginate, type PageIterator, type PaginateOptions } from './pagination.js';
 import type {
   Port,
   PortStatusInfo,
@@ -57,6 +58,17 @@ export class PortsApi {
     return result;
   }
 
+  /**
+   * Iterate over all ports matching the filters, fetching pages as needed
+   * Required scope: ports:read
+   */
+  iterate(
+    filters?: Omit<ListPortsParams, 'page' | 'limit'>,
+    options?: PaginateOptions
+  ): PageIterator<Port> {
+    return paginate(({ page, limit }) => this.list({ ...filters, page, limit }), options);
+  }
+
   /**
    * Get port by ID
    * Required scope: ports:read
@@ -95,9 +107,10 @@ export class PortsApi {
    * Required scope: ports:write
    */
   async updateOsFingerprint(portId: string, osFingerprint: string): Promise<Port> {
+    // Sets an absolute value, so repeating it is safe
     return this.client.patch<Port>(`/v1/ports/${portId}/os-fingerprint`, {
       osFingerprint,
-    });
+    }, undefined, { idempotent: true });
   }
 
   /**
@@ -4,6 +4,7 @@
  */
 
 import type { ApiClient } from './client.js';
+import { paginate, type PageIterator, type PaginateOptions } from './pagination.js';
 import type {
   Port,
   RotationHistoryEntry,
@@ -53,6 +54,14 @@ export class RotationApi {
     });
   }
 
+  /**
+   * Iterate over the full rotation history for port (most recent first)
+   * Required scope: ports:read
+   */
+  iterateHistory(portId: string, options?: PaginateOptions): PageIterator<RotationHistoryEntry> {
+    return paginate(({ offset, limit }) => this.getHistory(portId, { offset, limit }), options);
+  }
+
   /**
    * Enable auto-rotation
    * Required scope: ports:write
@@ -370,6 +370,8 @@ export interface PurchaseResponse {
   requiresAction?: boolean;
   clientSecret?: string;
   message?: string;
+  /** Set by the client when the idempotency key of an earlier attempt with an unknown outcome was resent */
+  replayed?: boolean;
 }
 
 // ============================================================================
@@ -467,6 +469,19 @@ export interface ApiKey {
   createdAt: string;
 }
 
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: string;
+}
+
+/**
+ * A newly created key; the API returns the full secret only in this response
+ */
+export interface CreatedApiKey extends ApiKey {
+  key: string;
+}
+
 // ============================================================================
 // Traffic Types
 // ============================================================================
@@ -0,0 +1,254 @@
+/**
+ * Audit Log
+ * Append-only JSONL record of every tool call and payment: tool, redacted
+ * arguments, outcome, duration, API endpoints and on-chain transactions.
+ * The file is rotated by size and kept next to the other local state.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, rmSync, statSync } from 'fs';
+import { homedir } from 'os';
+import { join, dirname } from 'path';
+import type { ToolResult } from '../utils/output.js';
+import { createAuditContext, runWithAuditContext, type AuditTransaction } from './context.js';
+
+/**
+ * Default log location
+ */
+const DEFAULT_AUDIT_DIR = join(homedir(), '.proxies-sx');
+const DEFAULT_AUDIT_FILE = 'audit-log.jsonl';
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+
+/**
+ * Argument names whose values are never written to the log
+ */
+const SECRET_KEY_PATTERN = /password|secret|token|private|api_?key|authorization|mnemonic|seed/i;
+
+/**
+ * Longest error message kept per entry
+ */
+const MAX_ERROR_LENGTH = 300;
+
+/**
+ * ok: the tool succeeded; failed: it reported a failure; error: it threw
+ */
+export type AuditOutcome = 'ok' | 'failed' | 'error';
+
+export interface AuditEntry {
+  at: string;
+  kind: 'tool_call' | 'payment';
+  /** Tool name (tool calls only) */
+  tool?: string;
+  args?: Record<string, unknown>;
+  dryRun?: boolean;
+  outcome: AuditOutcome;
+  durationMs: number;
+  error?: string;
+  endpoints: string[];
+  endpointsOmitted?: number;
+  transactions: AuditTransaction[];
+}
+
+export interface AuditQuery {
+  since?: string;
+  until?: string;
+  tool?: string;
+  outcome?: AuditOutcome;
+  /** Newest entries returned (default: 50) */
+  limit?: number;
+}
+
+export interface AuditLogOptions {
+  /** Rotate once the file reaches this size (default: 10 MB) */
+  maxBytes?: number;
+  /** Log files kept, including the current one (default: 5) */
+  maxFiles?: number;
+}
+
+/**
+ * Replace the values of secret-looking keys, recursively
+ */
+export function redactArgs(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactArgs);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, SECRET_KEY_PATTERN.test(key) ? '[redacted]' : redactArgs(entry)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Audit Log
+ * Entries are appended synchronously so a crash cannot lose a recorded payment
+ */
+export class AuditLog {
+  private logPath: string;
+  private maxBytes: number;
+  private maxFiles: number;
+
+  constructor(logPath?: string, options: AuditLogOptions = {}) {
+    this.logPath = logPath || join(DEFAULT_AUDIT_DIR, DEFAULT_AUDIT_FILE);
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.maxFiles = Math.max(1, options.maxFiles ?? DEFAULT_MAX_FILES);
+  }
+
+  /**
+   * Get log path
+   */
+  getPath(): string {
+    return this.logPath;
+  }
+
+  /**
+   * Append an entry, rotating the file first if it would grow past maxBytes
+   */
+  append(entry: AuditEntry): void {
+    const line = JSON.stringify(entry) + '\n';
+
+    try {
+      const dir = dirname(this.logPath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+
+      if (existsSync(this.logPath) && statSync(this.logPath).size + Buffer.byteLength(line) > this.maxBytes) {
+        this.rotate();
+      }
+
+      appendFileSync(this.logPath, line, { mode: 0o600 });
+    } catch (error) {
+      console.error('Failed to write audit log:', error);
+    }
+  }
+
+  /**
+   * Shift audit-log.jsonl -> .1 -> .2 ..., dropping the oldest file
+   */
+  private rotate(): void {
+    if (this.maxFiles === 1) {
+      rmSync(this.logPath, { force: true });
+      return;
+    }
+
+    rmSync(this.rotatedPath(this.maxFiles - 1), { force: true });
+    for (let i = this.maxFiles - 2; i >= 1; i--) {
+      if (existsSync(this.rotatedPath(i))) {
+        renameSync(this.rotatedPath(i), this.rotatedPath(i + 1));
+      }
+    }
+    renameSync(this.logPath, this.rotatedPath(1));
+  }
+
+  private rotatedPath(index: number): string {
+    return `${this.logPath}.${index}`;
+  }
+
+  /**
+   * Run a tool call and record it. The result is returned (or the error rethrown) unchanged.
+   */
+  async recordToolCall(
+    tool: string,
+    args: Record<string, unknown>,
+    run: () => Promise<string | ToolResult>,
+    dryRun = false
+  ): Promise<string | ToolResult> {
+    const at = new Date().toISOString();
+    const started = Date.now();
+    const context = createAuditContext();
+
+    const record = (outcome: AuditOutcome, error?: string) => this.append({
+      at,
+      kind: 'tool_call',
+      tool,
+      args: redactArgs(args) as Record<string, unknown>,
+      ...(dryRun ? { dryRun } : {}),
+      outcome,
+      durationMs: Date.now() - started,
+      ...(error ? { error: error.slice(0, MAX_ERROR_LENGTH) } : {}),
+      endpoints: context.endpoints,
+      ...(context.endpointsOmitted > 0 ? { endpointsOmitted: context.endpointsOmitted } : {}),
+      transactions: context.transactions,
+    });
+
+    try {
+      const result = await runWithAuditContext(context, run);
+      if (typeof result !== 'string' && result.failed) {
+        record('failed', result.text.split('\n')[0]);
+      } else {
+        record('ok');
+      }
+      return result;
+    } catch (error) {
+      record('error', error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
+  /**
+   * Record a payment made outside a tool call (e.g. a session policy renewal)
+   */
+  recordPayment(transaction: AuditTransaction): void {
+    this.append({
+      at: new Date().toISOString(),
+      kind: 'payment',
+      outcome: 'ok',
+      durationMs: 0,
+      endpoints: [],
+      transactions: [transaction],
+    });
+  }
+
+  /**
+   * Newest matching entries first, searching the rotated files as needed
+   */
+  query(query: AuditQuery = {}): AuditEntry[] {
+    const limit = query.limit ?? 50;
+    const since = query.since ? new Date(query.since).getTime() : undefined;
+    const until = query.until ? new Date(query.until).getTime() : undefined;
+    const matches: AuditEntry[] = [];
+
+    const files = [this.logPath, ...Array.from({ length: this.maxFiles - 1 }, (_, i) => this.rotatedPath(i + 1))];
+    for (const file of files) {
+      if (!existsSync(file)) continue;
+
+      let lines: string[];
+      try {
+        lines = readFileSync(file, 'utf-8').split('\n').filter(Boolean).reverse();
+      } catch (error) {
+        console.error('Failed to read audit log:', error);
+        continue;
+      }
+
+      for (const line of lines) {
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          continue; // A torn write leaves at most one partial line
+        }
+
+        const time = new Date(entry.at).getTime();
+        if (since !== undefined && time < since) continue;
+        if (until !== undefined && time > until) continue;
+        if (query.tool && entry.tool !== query.tool) continue;
+        if (query.outcome && entry.outcome !== query.outcome) continue;
+
+        matches.push(entry);
+        if (matches.length >= limit) return matches;
+      }
+    }
+
+    return matches;
+  }
+}
+
+/**
+ * Create audit log instance
+ */
+export function createAuditLog(logPath?: string, options?: AuditLogOptions): AuditLog {
+  return new AuditLog(logPath, options);
+}
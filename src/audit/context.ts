@@ -0,0 +1,113 @@
+/**
+ * Audit Context
+ * Collects the API endpoints and on-chain transactions of the tool call in
+ * progress. The API and x402 clients report here; calls made outside a tool
+ * call (background policies, monitors) are not attributed to one.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * An on-chain payment made during a tool call
+ */
+export interface AuditTransaction {
+  hash: string;
+  network: string;
+  /** Amount sent, 0 when an earlier payment's proof was re-submitted */
+  amountUSDC: number;
+  purpose: string;
+}
+
+/**
+ * What one tool call touched
+ */
+export interface AuditCallContext {
+  endpoints: string[];
+  /** Endpoints beyond MAX_ENDPOINTS that were not kept */
+  endpointsOmitted: number;
+  transactions: AuditTransaction[];
+}
+
+/**
+ * Endpoints kept per call (bulk tools can hit hundreds)
+ */
+const MAX_ENDPOINTS = 100;
+
+const storage = new AsyncLocalStorage<AuditCallContext>();
+const unattributedListeners = new Set<(transaction: AuditTransaction) => void>();
+
+/**
+ * Run a tool call with an audit context; `context` collects what it touches
+ */
+export function runWithAuditContext<T>(context: AuditCallContext, run: () => Promise<T>): Promise<T> {
+  return storage.run(context, run);
+}
+
+/**
+ * Create an empty audit context
+ */
+export function createAuditContext(): AuditCallContext {
+  return { endpoints: [], endpointsOmitted: 0, transactions: [] };
+}
+
+/**
+ * Describe a request as "METHOD host/path" without query string or secrets in the path
+ */
+export function describeEndpoint(method: string, url: string): string {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname
+      .split('/')
+      .map((segment) => (segment.startsWith('x402s_') || segment.length >= 32 ? ':redacted' : segment))
+      .join('/');
+    return `${method.toUpperCase()} ${parsed.host}${path}`;
+  } catch {
+    return `${method.toUpperCase()} ${url.split('?')[0]}`;
+  }
+}
+
+/**
+ * Record an HTTP request made by the current tool call
+ */
+export function recordAuditEndpoint(method: string, url: string): void {
+  const context = storage.getStore();
+  if (!context) return;
+
+  if (context.endpoints.length < MAX_ENDPOINTS) {
+    context.endpoints.push(describeEndpoint(method, url));
+  } else {
+    context.endpointsOmitted++;
+  }
+}
+
+/**
+ * Record an on-chain payment. Payments outside a tool call go to the
+ * unattributed listeners so they are still logged.
+ */
+export function recordAuditTransaction(transaction: AuditTransaction): void {
+  const context = storage.getStore();
+  if (context) {
+    context.transactions.push(transaction);
+    return;
+  }
+
+  for (const listener of unattributedListeners) {
+    listener(transaction);
+  }
+}
+
+/**
+ * Listen for payments made outside a tool call. Returns an unsubscribe function.
+ */
+export function onUnattributedTransaction(listener: (transaction: AuditTransaction) => void): () => void {
+  unattributedListeners.add(listener);
+  return () => unattributedListeners.delete(listener);
+}
+
+/**
+ * fetch() that records the request on the current tool call
+ */
+export function auditedFetch(input: string | URL, init?: RequestInit): Promise<Response> {
+  recordAuditEndpoint(init?.method || 'GET', input.toString());
+  return fetch(input, init);
+}
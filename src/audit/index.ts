@@ -0,0 +1,26 @@
+/**
+ * Audit Module
+ * Local record of tool calls and payments
+ */
+
+export {
+  AuditLog,
+  createAuditLog,
+  redactArgs,
+  type AuditEntry,
+  type AuditOutcome,
+  type AuditQuery,
+  type AuditLogOptions,
+} from './audit-log.js';
+
+export {
+  auditedFetch,
+  createAuditContext,
+  describeEndpoint,
+  onUnattributedTransaction,
+  recordAuditEndpoint,
+  recordAuditTransaction,
+  runWithAuditContext,
+  type AuditCallContext,
+  type AuditTransaction,
+} from './context.js';
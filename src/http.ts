@@ -0,0 +1,327 @@
+/**
+ * HTTP Transport
+ * Serves the MCP server over Streamable HTTP (with legacy SSE fallback)
+ * so several agents can share one instance over the network
+ *
+ * Endpoints:
+ *   POST/GET/DELETE /mcp   - Streamable HTTP (current MCP spec)
+ *   GET /sse               - Legacy SSE stream (MCP 2024-11-05 clients)
+ *   POST /messages         - Legacy SSE message endpoint (?sessionId=...)
+ *   GET /health            - Unauthenticated liveness probe
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse, type Server as NodeHttpServer } from 'http';
+import type { AddressInfo } from 'net';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * HTTP transport options
+ */
+export interface HttpTransportOptions {
+  /** Port to listen on */
+  port: number;
+  /** Interface to bind (default: 127.0.0.1) */
+  host?: string;
+  /** Bearer token required on every MCP request */
+  authToken?: string;
+  /** Close sessions without requests for this long (default: 30 minutes, 0 keeps them) */
+  sessionIdleTimeoutMs?: number;
+}
+
+/**
+ * Running HTTP transport handle
+ */
+export interface HttpTransportHandle {
+  /** Underlying Node HTTP server */
+  httpServer: NodeHttpServer;
+  /** Close all sessions and stop listening */
+  close(): Promise<void>;
+}
+
+/**
+ * Session entry - each connected client gets its own MCP server instance
+ */
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  /** Time of the last request (ms) */
+  lastActivity: number;
+}
+
+/**
+ * Default bind address (loopback only)
+ */
+const DEFAULT_HOST = '127.0.0.1';
+
+/**
+ * Max accepted JSON-RPC body size
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Idle sessions are closed after this long by default
+ */
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Longest wait between idle session sweeps
+ */
+const MAX_IDLE_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Check whether a host only accepts local connections
+ */
+function isLoopbackHost(host: string): boolean {
+  return host === '127.0.0.1' || host === '::1' || host === 'localhost';
+}
+
+/**
+ * Host names a browser uses to reach a loopback server
+ */
+const LOOPBACK_NAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Check the Host and Origin headers of a request to a tokenless loopback server.
+ * A web page can point its own domain at 127.0.0.1 (DNS rebinding); its requests
+ * then carry that domain as Host and its own Origin.
+ */
+function isLoopbackRequest(req: IncomingMessage, port: number): boolean {
+  const hosts = LOOPBACK_NAMES.map((name) => `${name}:${port}`);
+  if (!req.headers.host || !hosts.includes(req.headers.host.toLowerCase())) {
+    return false;
+  }
+
+  const origin = req.headers.origin;
+  return !origin || hosts.some((host) => origin.toLowerCase() === `http://${host}`);
+}
+
+/**
+ * Constant-time bearer token check
+ */
+function isAuthorized(req: IncomingMessage, authToken: string | undefined): boolean {
+  if (!authToken) return true;
+
+  const header = req.headers['authorization'];
+  if (!header || !header.startsWith('Bearer ')) return false;
+
+  const provided = Buffer.from(header.slice('Bearer '.length).trim());
+  const expected = Buffer.from(authToken);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Write a JSON-RPC error response
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, code: number = -32000): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Start the HTTP transport
+ * @param createSessionServer - Factory returning a fresh MCP server for each client session
+ */
+export async function startHttpTransport(
+  createSessionServer: () => Server,
+  options: HttpTransportOptions
+): Promise<HttpTransportHandle> {
+  const host = options.host || DEFAULT_HOST;
+
+  if (!options.authToken && !isLoopbackHost(host)) {
+    throw new Error(
+      `Refusing to listen on ${host} without authentication. ` +
+      'Set MCP_HTTP_TOKEN (or --token) or bind to 127.0.0.1.'
+    );
+  }
+
+  const sessions = new Map<string, HttpSession>();
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  const closeSession = async (sessionId: string): Promise<void> => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    await session.server.close().catch(() => undefined);
+  };
+
+  /**
+   * Look up a session and record the request as activity
+   */
+  const touchSession = (sessionId: string): HttpSession | undefined => {
+    const session = sessions.get(sessionId);
+    if (session) {
+      session.lastActivity = Date.now();
+    }
+    return session;
+  };
+
+  // Clients that disappear without closing their session would otherwise keep it forever
+  let idleSweep: NodeJS.Timeout | undefined;
+  if (idleTimeoutMs > 0) {
+    idleSweep = setInterval(() => {
+      const cutoff = Date.now() - idleTimeoutMs;
+      for (const [id, session] of sessions) {
+        if (session.lastActivity < cutoff) {
+          void closeSession(id);
+        }
+      }
+    }, Math.min(idleTimeoutMs, MAX_IDLE_SWEEP_INTERVAL_MS));
+    idleSweep.unref();
+  }
+
+  /**
+   * Streamable HTTP endpoint (/mcp)
+   */
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = touchSession(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    // New session
+    const server = createSessionServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport, lastActivity: Date.now() });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        void closeSession(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  /**
+   * Legacy SSE stream (/sse)
+   */
+  const handleSseStream = async (res: ServerResponse): Promise<void> => {
+    const server = createSessionServer();
+    const transport = new SSEServerTransport('/messages', res);
+    sessions.set(transport.sessionId, { server, transport, lastActivity: Date.now() });
+
+    res.on('close', () => {
+      void closeSession(transport.sessionId);
+    });
+
+    await server.connect(transport);
+  };
+
+  /**
+   * Legacy SSE message endpoint (/messages?sessionId=...)
+   */
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> => {
+    const sessionId = url.searchParams.get('sessionId') || '';
+    const session = touchSession(sessionId);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    await session.transport.handlePostMessage(req, res, body);
+  };
+
+  const httpServer = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    try {
+      if (url.pathname === '/health' && req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'ok', sessions: sessions.size }));
+        return;
+      }
+
+      // Without a token, only local clients may reach the server
+      if (!options.authToken && !isLoopbackRequest(req, (httpServer.address() as AddressInfo).port)) {
+        sendJsonRpcError(res, 403, 'Forbidden: invalid Host or Origin header');
+        return;
+      }
+
+      if (!isAuthorized(req, options.authToken)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendJsonRpcError(res, 401, 'Unauthorized');
+        return;
+      }
+
+      if (url.pathname === '/mcp' && ['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+        await handleStreamable(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseStream(res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJsonRpcError(res, 404, 'Not found');
+      }
+    } catch (error) {
+      console.error('HTTP transport error:', error instanceof Error ? error.message : error);
+      if (!res.headersSent) {
+        const isParseError = error instanceof SyntaxError;
+        sendJsonRpcError(res, isParseError ? 400 : 500, isParseError ? 'Parse error' : 'Internal server error', isParseError ? -32700 : -32603);
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  console.error(
+    `MCP HTTP transport listening on http://${host}:${options.port}/mcp` +
+    (options.authToken ? ' (bearer token required)' : ' (no auth, loopback only)')
+  );
+
+  return {
+    httpServer,
+    async close(): Promise<void> {
+      clearInterval(idleSweep);
+      await Promise.all([...sessions.keys()].map((id) => closeSession(id)));
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
@@ -9,6 +9,9 @@
  * Usage:
  *   PROXIES_API_KEY=psx_xxx npx proxies-sx-mcp
  *
+ * Shared HTTP server (Streamable HTTP on /mcp, SSE fallback on /sse):
+ *   MCP_HTTP_TOKEN=secret PROXIES_API_KEY=psx_xxx npx proxies-sx-mcp --http --port 3000
+ *
  * Or add to Claude Desktop config:
  *   {
  *     "mcpServers": {
@@ -28,8 +31,11 @@ import { startMcpServer, getConfigFromEnv } from './server.js';
 // Re-export everything for programmatic usage
 export * from './api/index.js';
 export * from './tools/index.js';
+export * from './resources/index.js';
+export * from './prompts/index.js';
 export * from './utils/index.js';
 export * from './server.js';
+export * from './http.js';
 
 /**
  * Main entry point
@@ -0,0 +1,318 @@
+/**
+ * Alert Monitor
+ * Periodically evaluates expiry and traffic thresholds for ports, the
+ * account traffic balance and x402 sessions. Each condition is raised once
+ * (and again if it becomes critical) and re-armed when it clears.
+ */
+
+import type { ProxiesApi } from '../api/index.js';
+import type { X402Client, X402SessionCache } from '../x402/index.js';
+
+/**
+ * Default time between evaluations
+ */
+const DEFAULT_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Default thresholds
+ */
+const DEFAULT_THRESHOLDS: AlertThresholds = {
+  portExpiryHours: 24,
+  minTrafficGB: 2,
+  x402SessionExpiryMinutes: 60,
+  x402SessionMinTrafficPercent: 10,
+};
+
+/**
+ * An alert becomes critical once the value falls to this fraction of its threshold
+ */
+const CRITICAL_FRACTION = 0.25;
+
+/**
+ * Upper bound on ports checked for expiry
+ */
+const MAX_PORTS_CHECKED = 500;
+
+/**
+ * Webhook request timeout
+ */
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Thresholds; 0 disables a check
+ */
+export interface AlertThresholds {
+  /** Port slot expires within this many hours */
+  portExpiryHours: number;
+  /** Account traffic balance below this many GB */
+  minTrafficGB: number;
+  /** x402 session expires within this many minutes */
+  x402SessionExpiryMinutes: number;
+  /** x402 session has less than this percentage of its traffic left */
+  x402SessionMinTrafficPercent: number;
+}
+
+export type AlertKind = 'port_expiry' | 'traffic_low' | 'x402_session_expiry' | 'x402_session_traffic';
+export type AlertSeverity = 'warning' | 'critical';
+
+/**
+ * A raised alert
+ */
+export interface Alert {
+  /** Stable per condition, e.g. port_expiry:<portId> */
+  id: string;
+  kind: AlertKind;
+  severity: AlertSeverity;
+  message: string;
+  subject: { type: 'port' | 'account' | 'x402_session'; id?: string; name?: string };
+  value: number;
+  threshold: number;
+  raisedAt: string;
+}
+
+export interface AlertMonitorOptions {
+  /** Time between evaluations (default: 10 minutes) */
+  intervalMs?: number;
+  thresholds?: Partial<AlertThresholds>;
+  /** POST every raised alert to this URL as JSON */
+  webhookUrl?: string;
+}
+
+/**
+ * Data sources; checks whose source is missing are skipped
+ */
+export interface AlertSources {
+  api?: ProxiesApi | null;
+  sessionCache?: X402SessionCache;
+  x402Client?: Pick<X402Client, 'getSessionStatus'>;
+}
+
+/**
+ * Alert condition found by one evaluation
+ */
+type AlertCondition = Omit<Alert, 'severity' | 'raisedAt'>;
+
+function severityFor(value: number, threshold: number): AlertSeverity {
+  return value <= threshold * CRITICAL_FRACTION ? 'critical' : 'warning';
+}
+
+function formatHours(hours: number): string {
+  return hours < 1 ? `${Math.max(0, Math.round(hours * 60))}m` : `${hours.toFixed(1)}h`;
+}
+
+/**
+ * Alert Monitor
+ */
+export class AlertMonitor {
+  private readonly active = new Map<string, Alert>();
+  private readonly listeners = new Set<(alert: Alert) => void>();
+  private readonly thresholds: AlertThresholds;
+  private readonly intervalMs: number;
+  private readonly webhookUrl?: string;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly sources: AlertSources,
+    options: AlertMonitorOptions = {}
+  ) {
+    this.thresholds = { ...DEFAULT_THRESHOLDS, ...options.thresholds };
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.webhookUrl = options.webhookUrl;
+  }
+
+  /**
+   * Register a listener for raised alerts. Returns an unsubscribe function.
+   */
+  onAlert(listener: (alert: Alert) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Alerts whose condition still holds
+   */
+  getActiveAlerts(): Alert[] {
+    return [...this.active.values()];
+  }
+
+  getThresholds(): AlertThresholds {
+    return { ...this.thresholds };
+  }
+
+  /**
+   * Start periodic evaluation (evaluates once right away)
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.evaluate(), this.intervalMs);
+    this.timer.unref();
+    void this.evaluate();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Evaluate every check once. Returns the alerts raised by this evaluation.
+   * A failing check keeps its previous alerts instead of clearing them.
+   */
+  async evaluate(): Promise<Alert[]> {
+    const checks: Array<[AlertKind[], () => Promise<AlertCondition[]>]> = [
+      [['port_expiry'], () => this.checkPortExpiry()],
+      [['traffic_low'], () => this.checkAccountTraffic()],
+      [['x402_session_expiry', 'x402_session_traffic'], () => this.checkX402Sessions()],
+    ];
+
+    const found = new Map<string, AlertCondition>();
+    const failedKinds = new Set<AlertKind>();
+
+    for (const [kinds, check] of checks) {
+      try {
+        for (const condition of await check()) {
+          found.set(condition.id, condition);
+        }
+      } catch (error) {
+        kinds.forEach(kind => failedKinds.add(kind));
+        console.error(`Alert check (${kinds.join(', ')}) failed:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    // Re-arm conditions that cleared
+    for (const [id, alert] of this.active) {
+      if (!found.has(id) && !failedKinds.has(alert.kind)) this.active.delete(id);
+    }
+
+    const raised: Alert[] = [];
+    for (const condition of found.values()) {
+      const severity = severityFor(condition.value, condition.threshold);
+      const previous = this.active.get(condition.id);
+      if (previous && (previous.severity === severity || severity === 'warning')) continue;
+
+      const alert: Alert = { ...condition, severity, raisedAt: new Date().toISOString() };
+      this.active.set(alert.id, alert);
+      raised.push(alert);
+    }
+
+    for (const alert of raised) {
+      for (const listener of this.listeners) {
+        listener(alert);
+      }
+      await this.postWebhook(alert);
+    }
+
+    return raised;
+  }
+
+  private async checkPortExpiry(): Promise<AlertCondition[]> {
+    const { portExpiryHours } = this.thresholds;
+    if (!this.sources.api || portExpiryHours <= 0) return [];
+
+    const ports = await this.sources.api.ports.iterate({ status: 'active' }).take(MAX_PORTS_CHECKED);
+    const now = Date.now();
+
+    return ports.flatMap(port => {
+      const hoursLeft = (port.expiresAt - now) / (60 * 60 * 1000);
+      if (hoursLeft > portExpiryHours) return [];
+
+      const name = port.displayName || port.name;
+      return [{
+        id: `port_expiry:${port._id}`,
+        kind: 'port_expiry' as const,
+        message: `Port ${name} slot expires in ${formatHours(hoursLeft)} (${new Date(port.expiresAt).toISOString()})`,
+        subject: { type: 'port' as const, id: port._id, name },
+        value: Math.max(0, hoursLeft),
+        threshold: portExpiryHours,
+      }];
+    });
+  }
+
+  private async checkAccountTraffic(): Promise<AlertCondition[]> {
+    const { minTrafficGB } = this.thresholds;
+    if (!this.sources.api || minTrafficGB <= 0) return [];
+
+    const breakdown = await this.sources.api.account.getTrafficBreakdown();
+    if (breakdown.availableTrafficGB >= minTrafficGB) return [];
+
+    return [{
+      id: 'traffic_low:account',
+      kind: 'traffic_low',
+      message: `Account traffic balance is ${breakdown.availableTrafficGB.toFixed(2)} GB (below ${minTrafficGB} GB)`,
+      subject: { type: 'account' },
+      value: Math.max(0, breakdown.availableTrafficGB),
+      threshold: minTrafficGB,
+    }];
+  }
+
+  private async checkX402Sessions(): Promise<AlertCondition[]> {
+    const { sessionCache, x402Client } = this.sources;
+    const { x402SessionExpiryMinutes, x402SessionMinTrafficPercent } = this.thresholds;
+    if (!sessionCache) return [];
+
+    const conditions: AlertCondition[] = [];
+
+    if (x402SessionExpiryMinutes > 0) {
+      for (const session of sessionCache.getExpiringSoon(x402SessionExpiryMinutes)) {
+        const minutesLeft = (new Date(session.expiresAt).getTime() - Date.now()) / (60 * 1000);
+        conditions.push({
+          id: `x402_session_expiry:${session.id}`,
+          kind: 'x402_session_expiry',
+          message: `x402 session ${session.id} expires in ${formatHours(minutesLeft / 60)} - extend it with x402_extend_session`,
+          subject: { type: 'x402_session', id: session.id },
+          value: Math.max(0, minutesLeft),
+          threshold: x402SessionExpiryMinutes,
+        });
+      }
+    }
+
+    if (x402Client && x402SessionMinTrafficPercent > 0) {
+      for (const cached of sessionCache.getActiveSessions()) {
+        const session = await x402Client.getSessionStatus(cached.id);
+        const percentLeft = 100 - session.traffic.percentUsed;
+        if (percentLeft >= x402SessionMinTrafficPercent) continue;
+
+        conditions.push({
+          id: `x402_session_traffic:${session.id}`,
+          kind: 'x402_session_traffic',
+          message: `x402 session ${session.id} has ${percentLeft.toFixed(1)}% of its traffic left (${session.traffic.remainingGB.toFixed(2)} GB) - top it up with x402_extend_session`,
+          subject: { type: 'x402_session', id: session.id },
+          value: Math.max(0, percentLeft),
+          threshold: x402SessionMinTrafficPercent,
+        });
+      }
+    }
+
+    return conditions;
+  }
+
+  /**
+   * POST an alert to the configured webhook. Failures are logged, not retried.
+   */
+  private async postWebhook(alert: Alert): Promise<void> {
+    if (!this.webhookUrl) return;
+
+    try {
+      const response = await fetch(this.webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ source: 'proxies-sx-mcp', alert }),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        console.error(`Alert webhook returned ${response.status} for ${alert.id}`);
+      }
+    } catch (error) {
+      console.error(`Alert webhook failed for ${alert.id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+/**
+ * Create an alert monitor (idle until started)
+ */
+export function createAlertMonitor(sources: AlertSources, options?: AlertMonitorOptions): AlertMonitor {
+  return new AlertMonitor(sources, options);
+}
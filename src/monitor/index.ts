@@ -0,0 +1,25 @@
+/**
+ * Monitor Module
+ * Background monitoring of the account's ports
+ */
+
+export {
+  PortHealthMonitor,
+  createPortHealthMonitor,
+  type PortHealthMonitorOptions,
+  type PortHealthSample,
+  type PortThroughputSample,
+  type PortHealthEvent,
+  type PortHealthSummary,
+} from './port-health.js';
+
+export {
+  AlertMonitor,
+  createAlertMonitor,
+  type Alert,
+  type AlertKind,
+  type AlertSeverity,
+  type AlertThresholds,
+  type AlertMonitorOptions,
+  type AlertSources,
+} from './alerts.js';
@@ -0,0 +1,471 @@
+/**
+ * Port Health Monitor
+ * Probes selected ports on a schedule and keeps a rolling window of
+ * online state, ping latency and throughput per port. Can rotate a port
+ * automatically after a run of failed pings.
+ */
+
+import type { ProxiesApi } from '../api/index.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+
+/**
+ * Default probe interval
+ */
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Probes kept per port (24h at the default interval)
+ */
+const DEFAULT_WINDOW_SIZE = 288;
+
+/**
+ * Run a speed test every Nth probe (hourly at the default interval)
+ */
+const DEFAULT_SPEED_TEST_EVERY = 12;
+
+/**
+ * Ports probed in parallel
+ */
+const PROBE_CONCURRENCY = 3;
+
+/**
+ * Upper bound on ports watched in "all active ports" mode
+ */
+const MAX_MONITORED_PORTS = 100;
+
+/**
+ * Events kept per port
+ */
+const MAX_EVENTS = 20;
+
+/**
+ * Degradation thresholds
+ */
+const MIN_UPTIME_PERCENT = 99;
+const MIN_PING_SUCCESS_PERCENT = 95;
+const LATENCY_SPIKE_FACTOR = 2;
+const THROUGHPUT_DROP_FACTOR = 0.5;
+
+/**
+ * One probe of a port
+ */
+export interface PortHealthSample {
+  at: string;
+  online: boolean;
+  pingOk: boolean;
+  latencyMs?: number;
+  error?: string;
+}
+
+/**
+ * One speed test of a port
+ */
+export interface PortThroughputSample {
+  at: string;
+  downloadMbps: number;
+  uploadMbps: number;
+}
+
+/**
+ * State change worth reporting
+ */
+export interface PortHealthEvent {
+  at: string;
+  type: 'offline' | 'online' | 'auto_rotated' | 'auto_rotate_skipped';
+  detail: string;
+}
+
+/**
+ * Health summary of one port over the rolling window
+ */
+export interface PortHealthSummary {
+  portId: string;
+  name?: string;
+  probes: number;
+  lastCheckedAt?: string;
+  online?: boolean;
+  uptimePercent?: number;
+  pingSuccessPercent?: number;
+  avgLatencyMs?: number;
+  p95LatencyMs?: number;
+  consecutivePingFailures: number;
+  throughput?: { downloadMbps: number; uploadMbps: number; tests: number; lastTestedAt: string };
+  degradations: string[];
+  events: PortHealthEvent[];
+}
+
+export interface PortHealthMonitorOptions {
+  /** Time between probes (default: 5 minutes) */
+  intervalMs?: number;
+  /** Probes kept per port (default: 288) */
+  windowSize?: number;
+  /** Run a speed test every Nth probe, 0 disables (default: 12) */
+  speedTestEvery?: number;
+  /** Rotate a port after this many consecutive failed pings, 0 disables (default: 0) */
+  autoRotateAfter?: number;
+  /** Record the rotations that would be made instead of rotating, for dry-run and read-only mode (default: false) */
+  dryRun?: boolean;
+}
+
+/**
+ * Rolling state of one watched port
+ */
+interface PortHealthState {
+  portId: string;
+  name?: string;
+  probes: number;
+  samples: PortHealthSample[];
+  throughput: PortThroughputSample[];
+  events: PortHealthEvent[];
+  consecutivePingFailures: number;
+  rotationAttempted: boolean;
+}
+
+/**
+ * Push onto a bounded list, dropping the oldest entries
+ */
+function pushBounded<T>(list: T[], item: T, max: number): void {
+  list.push(item);
+  if (list.length > max) list.splice(0, list.length - max);
+}
+
+function percent(part: number, total: number): number {
+  return Math.round(part / total * 1000) / 10;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Port Health Monitor
+ * Watches either an explicit list of ports or every active port
+ */
+export class PortHealthMonitor {
+  private readonly ports = new Map<string, PortHealthState>();
+  private readonly rotateListeners = new Set<(portId: string) => void>();
+  private watchAll = false;
+  private timer: NodeJS.Timeout | null = null;
+  private probing: Promise<void> | null = null;
+  private options: Required<PortHealthMonitorOptions>;
+
+  constructor(
+    private readonly api: ProxiesApi,
+    options: PortHealthMonitorOptions = {}
+  ) {
+    this.options = {
+      intervalMs: options.intervalMs ?? DEFAULT_INTERVAL_MS,
+      windowSize: options.windowSize ?? DEFAULT_WINDOW_SIZE,
+      speedTestEvery: options.speedTestEvery ?? DEFAULT_SPEED_TEST_EVERY,
+      autoRotateAfter: options.autoRotateAfter ?? 0,
+      dryRun: options.dryRun ?? false,
+    };
+  }
+
+  /**
+   * Current settings and watched ports
+   */
+  getSettings(): Required<PortHealthMonitorOptions> & { running: boolean; watchAll: boolean; portIds: string[] } {
+    return { ...this.options, running: this.timer !== null, watchAll: this.watchAll, portIds: [...this.ports.keys()] };
+  }
+
+  /**
+   * Change settings. A new interval takes effect immediately.
+   */
+  configure(options: PortHealthMonitorOptions): void {
+    const intervalChanged = options.intervalMs !== undefined && options.intervalMs !== this.options.intervalMs;
+    this.options = {
+      intervalMs: options.intervalMs ?? this.options.intervalMs,
+      windowSize: options.windowSize ?? this.options.windowSize,
+      speedTestEvery: options.speedTestEvery ?? this.options.speedTestEvery,
+      autoRotateAfter: options.autoRotateAfter ?? this.options.autoRotateAfter,
+      dryRun: options.dryRun ?? this.options.dryRun,
+    };
+
+    if (intervalChanged && this.timer) {
+      this.stop();
+      this.start();
+    }
+  }
+
+  /**
+   * Watch ports by ID, or every active port with 'all'. Starts probing.
+   */
+  watch(portIds: string[] | 'all'): void {
+    if (portIds === 'all') {
+      this.watchAll = true;
+    } else {
+      for (const portId of portIds) {
+        if (!this.ports.has(portId)) this.ports.set(portId, this.createState(portId));
+      }
+    }
+    this.start();
+  }
+
+  /**
+   * Stop watching the given ports, or every port when omitted.
+   * Probing stops once nothing is watched.
+   */
+  unwatch(portIds?: string[]): void {
+    if (!portIds) {
+      this.watchAll = false;
+      this.ports.clear();
+    } else {
+      for (const portId of portIds) this.ports.delete(portId);
+    }
+
+    if (!this.watchAll && this.ports.size === 0) this.stop();
+  }
+
+  /**
+   * Register a listener for automatic rotations. Returns an unsubscribe function.
+   */
+  onAutoRotate(listener: (portId: string) => void): () => void {
+    this.rotateListeners.add(listener);
+    return () => this.rotateListeners.delete(listener);
+  }
+
+  /**
+   * Start the probe schedule (probes once right away)
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.probeAll(), this.options.intervalMs);
+    this.timer.unref();
+    void this.probeAll();
+  }
+
+  /**
+   * Stop the probe schedule (collected data is kept)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Probe every watched port once. A probe round still in progress is reused.
+   */
+  probeAll(): Promise<void> {
+    if (!this.probing) {
+      this.probing = this.runProbeRound().finally(() => {
+        this.probing = null;
+      });
+    }
+    return this.probing;
+  }
+
+  /**
+   * Health summaries for every watched port, or one port
+   */
+  report(portId?: string): PortHealthSummary[] {
+    const states = portId ? [this.ports.get(portId)].filter((s): s is PortHealthState => !!s) : [...this.ports.values()];
+    return states.map(state => this.summarize(state));
+  }
+
+  private createState(portId: string, name?: string): PortHealthState {
+    return {
+      portId,
+      name,
+      probes: 0,
+      samples: [],
+      throughput: [],
+      events: [],
+      consecutivePingFailures: 0,
+      rotationAttempted: false,
+    };
+  }
+
+  private async runProbeRound(): Promise<void> {
+    try {
+      if (this.watchAll) await this.refreshActivePorts();
+      await mapWithConcurrency([...this.ports.values()], PROBE_CONCURRENCY, state => this.probePort(state));
+    } catch (error) {
+      console.error('Port health probe failed:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * In "all" mode, follow the account's active ports
+   */
+  private async refreshActivePorts(): Promise<void> {
+    const active = await this.api.ports.iterate({ status: 'active' }).take(MAX_MONITORED_PORTS);
+
+    for (const port of active) {
+      const state = this.ports.get(port._id);
+      if (state) {
+        state.name = port.displayName || port.name;
+      } else {
+        this.ports.set(port._id, this.createState(port._id, port.displayName || port.name));
+      }
+    }
+
+    const activeIds = new Set(active.map(port => port._id));
+    for (const portId of this.ports.keys()) {
+      if (!activeIds.has(portId)) this.ports.delete(portId);
+    }
+  }
+
+  private async probePort(state: PortHealthState): Promise<void> {
+    const [status, ping] = await Promise.allSettled([
+      this.api.ports.getStatus(state.portId),
+      this.api.ports.ping(state.portId),
+    ]);
+
+    const online = status.status === 'fulfilled' && status.value.isOnline;
+    const pingOk = ping.status === 'fulfilled' && ping.value.success;
+    const sample: PortHealthSample = { at: new Date().toISOString(), online, pingOk };
+
+    if (ping.status === 'fulfilled') {
+      const latency = ping.value.responseTime ?? ping.value.latencyMs;
+      if (pingOk && latency !== undefined) sample.latencyMs = latency;
+      if (!pingOk) sample.error = ping.value.error || 'Ping failed';
+    } else {
+      sample.error = ping.reason instanceof Error ? ping.reason.message : 'Ping failed';
+    }
+
+    const previous = state.samples[state.samples.length - 1];
+    if (previous && previous.online !== online) {
+      this.recordEvent(state, online ? 'online' : 'offline', online ? 'Port is back online' : 'Port went offline');
+    }
+
+    state.probes++;
+    pushBounded(state.samples, sample, this.options.windowSize);
+
+    if (pingOk) {
+      state.consecutivePingFailures = 0;
+      state.rotationAttempted = false;
+    } else {
+      state.consecutivePingFailures++;
+    }
+
+    const { speedTestEvery, autoRotateAfter } = this.options;
+    if (online && speedTestEvery > 0 && (state.probes - 1) % speedTestEvery === 0) {
+      try {
+        const result = await this.api.ports.speedTest(state.portId);
+        pushBounded(state.throughput, {
+          at: result.testedAt || sample.at,
+          downloadMbps: result.downloadMbps,
+          uploadMbps: result.uploadMbps,
+        }, this.options.windowSize);
+      } catch {
+        // A failed speed test is not a health signal on its own
+      }
+    }
+
+    if (autoRotateAfter > 0 && state.consecutivePingFailures >= autoRotateAfter && !state.rotationAttempted) {
+      await this.autoRotate(state);
+    }
+  }
+
+  /**
+   * Rotate a port after repeated ping failures (once per failure streak)
+   */
+  private async autoRotate(state: PortHealthState): Promise<void> {
+    state.rotationAttempted = true;
+    const failures = state.consecutivePingFailures;
+
+    try {
+      const availability = await this.api.rotation.canRotate(state.portId);
+      if (!availability.canRotate) {
+        this.recordEvent(state, 'auto_rotate_skipped', `${failures} failed pings, but rotation is unavailable: ${availability.reason || 'unknown reason'}`);
+        return;
+      }
+
+      if (this.options.dryRun) {
+        this.recordEvent(state, 'auto_rotate_skipped', `${failures} failed pings - would rotate (dry-run or read-only mode)`);
+        return;
+      }
+
+      await this.api.rotation.rotate(state.portId);
+      state.consecutivePingFailures = 0;
+      this.recordEvent(state, 'auto_rotated', `Rotated after ${failures} consecutive failed pings`);
+      console.error(`Port health: rotated ${state.name || state.portId} after ${failures} consecutive failed pings`);
+
+      for (const listener of this.rotateListeners) {
+        listener(state.portId);
+      }
+    } catch (error) {
+      this.recordEvent(state, 'auto_rotate_skipped', `Rotation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private recordEvent(state: PortHealthState, type: PortHealthEvent['type'], detail: string): void {
+    pushBounded(state.events, { at: new Date().toISOString(), type, detail }, MAX_EVENTS);
+  }
+
+  private summarize(state: PortHealthState): PortHealthSummary {
+    const summary: PortHealthSummary = {
+      portId: state.portId,
+      name: state.name,
+      probes: state.samples.length,
+      consecutivePingFailures: state.consecutivePingFailures,
+      degradations: [],
+      events: [...state.events],
+    };
+
+    const samples = state.samples;
+    if (samples.length === 0) return summary;
+
+    const latest = samples[samples.length - 1];
+    const latencies = samples.filter(s => s.latencyMs !== undefined).map(s => s.latencyMs!);
+
+    summary.lastCheckedAt = latest.at;
+    summary.online = latest.online;
+    summary.uptimePercent = percent(samples.filter(s => s.online).length, samples.length);
+    summary.pingSuccessPercent = percent(samples.filter(s => s.pingOk).length, samples.length);
+
+    if (latencies.length > 0) {
+      const sorted = [...latencies].sort((a, b) => a - b);
+      summary.avgLatencyMs = Math.round(latencies.reduce((sum, l) => sum + l, 0) / latencies.length);
+      summary.p95LatencyMs = sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * 0.95) - 1)];
+    }
+
+    if (state.throughput.length > 0) {
+      const tests = state.throughput;
+      summary.throughput = {
+        downloadMbps: Math.round(tests.reduce((sum, t) => sum + t.downloadMbps, 0) / tests.length * 100) / 100,
+        uploadMbps: Math.round(tests.reduce((sum, t) => sum + t.uploadMbps, 0) / tests.length * 100) / 100,
+        tests: tests.length,
+        lastTestedAt: tests[tests.length - 1].at,
+      };
+    }
+
+    const degradations = summary.degradations;
+    if (!latest.online) {
+      degradations.push('Offline at the last probe');
+    }
+    if (summary.uptimePercent < MIN_UPTIME_PERCENT) {
+      degradations.push(`Uptime ${summary.uptimePercent}% over the last ${samples.length} probes`);
+    }
+    if (summary.pingSuccessPercent < MIN_PING_SUCCESS_PERCENT) {
+      degradations.push(`Only ${summary.pingSuccessPercent}% of pings succeeded`);
+    }
+    if (state.consecutivePingFailures > 1) {
+      degradations.push(`${state.consecutivePingFailures} consecutive failed pings${latest.error ? ` (${latest.error})` : ''}`);
+    }
+    if (latencies.length >= 5 && latest.latencyMs !== undefined && latest.latencyMs > LATENCY_SPIKE_FACTOR * median(latencies)) {
+      degradations.push(`Latency spike: ${latest.latencyMs}ms vs. ${Math.round(median(latencies))}ms median`);
+    }
+    if (state.throughput.length >= 3) {
+      const last = state.throughput[state.throughput.length - 1];
+      const typical = median(state.throughput.map(t => t.downloadMbps));
+      if (last.downloadMbps < THROUGHPUT_DROP_FACTOR * typical) {
+        degradations.push(`Download speed dropped to ${last.downloadMbps.toFixed(2)} Mbps vs. ${typical.toFixed(2)} Mbps median`);
+      }
+    }
+
+    return summary;
+  }
+}
+
+/**
+ * Create a port health monitor (idle until ports are watched)
+ */
+export function createPortHealthMonitor(api: ProxiesApi, options?: PortHealthMonitorOptions): PortHealthMonitor {
+  return new PortHealthMonitor(api, options);
+}
@@ -0,0 +1,63 @@
+/**
+ * Prompt Registry
+ * Exposes workflow prompts (shown as slash commands by MCP clients)
+ */
+
+import { workflowPrompts, type WorkflowPrompt } from './workflows.js';
+
+// Export everything
+export * from './workflows.js';
+
+/**
+ * Prompt registry bound to the tools available in this server
+ */
+export interface PromptRegistry {
+  /** Prompts usable with the available tools */
+  list(): Array<Pick<WorkflowPrompt, 'name' | 'title' | 'description' | 'arguments'>>;
+  /** Build a prompt's messages. Throws if the prompt is unknown or a required argument is missing. */
+  get(name: string, args: Record<string, string>): {
+    description: string;
+    messages: Array<{ role: 'user'; content: { type: 'text'; text: string } }>;
+  };
+}
+
+/**
+ * Create the prompt registry for the given tool names
+ */
+export function createPromptRegistry(toolNames: string[]): PromptRegistry {
+  const tools = new Set(toolNames);
+  const prompts = workflowPrompts.filter((prompt) => prompt.isAvailable(tools));
+
+  return {
+    list() {
+      return prompts.map(({ name, title, description, arguments: args }) => ({
+        name,
+        title,
+        description,
+        arguments: args,
+      }));
+    },
+
+    get(name, args) {
+      const prompt = prompts.find((p) => p.name === name);
+      if (!prompt) {
+        throw new Error(`Unknown prompt: ${name}`);
+      }
+
+      const missing = prompt.arguments.filter((a) => a.required && !args[a.name]?.trim());
+      if (missing.length > 0) {
+        throw new Error(`Missing required argument${missing.length > 1 ? 's' : ''}: ${missing.map((a) => a.name).join(', ')}`);
+      }
+
+      return {
+        description: prompt.description,
+        messages: [
+          {
+            role: 'user',
+            content: { type: 'text', text: prompt.build(args, tools) },
+          },
+        ],
+      };
+    },
+  };
+}
@@ -0,0 +1,199 @@
+/**
+ * Workflow Prompts
+ * Parameterised prompts that walk an agent through common proxy workflows
+ * using the existing tools. Each prompt adapts to the tools available in
+ * the current auth mode (API key, x402 or both).
+ */
+
+/**
+ * Prompt argument definition (MCP prompts/list)
+ */
+export interface PromptArgumentDefinition {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+/**
+ * Workflow prompt definition
+ */
+export interface WorkflowPrompt {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgumentDefinition[];
+  /** Whether the prompt can run with the available tools */
+  isAvailable(tools: Set<string>): boolean;
+  /** Build the user message text */
+  build(args: Record<string, string>, tools: Set<string>): string;
+}
+
+/**
+ * Resolve a YYYY-MM month into an inclusive date range (defaults to the current month)
+ */
+function monthRange(month?: string): { label: string; from: string; to: string } {
+  const now = new Date();
+  const [year, monthIndex] = month && /^\d{4}-\d{2}$/.test(month)
+    ? [Number(month.slice(0, 4)), Number(month.slice(5, 7)) - 1]
+    : [now.getUTCFullYear(), now.getUTCMonth()];
+
+  const first = new Date(Date.UTC(year, monthIndex, 1));
+  const last = new Date(Date.UTC(year, monthIndex + 1, 0));
+  const day = (d: Date) => d.toISOString().slice(0, 10);
+
+  return { label: day(first).slice(0, 7), from: day(first), to: day(last) };
+}
+
+/**
+ * Number each non-empty step
+ */
+function steps(lines: Array<string | false>): string {
+  return lines
+    .filter((line): line is string => Boolean(line))
+    .map((line, i) => `${i + 1}. ${line}`)
+    .join('\n');
+}
+
+/**
+ * Buy a proxy in a country within a budget
+ */
+const buyProxyPrompt: WorkflowPrompt = {
+  name: 'buy_proxy',
+  title: 'Buy a proxy within budget',
+  description: 'Buy a mobile proxy in a country without exceeding a USD budget',
+  arguments: [
+    { name: 'country', description: 'Country code (ISO 3166-1 alpha-2), e.g. US, DE', required: true },
+    { name: 'budget_usd', description: 'Maximum total spend in USD', required: true },
+    { name: 'tier', description: 'shared or private (default: shared)' },
+  ],
+  isAvailable: (tools) => tools.has('x402_get_proxy') || tools.has('create_port'),
+  build(args, tools) {
+    const tier = args.tier === 'private' ? 'private' : 'shared';
+    const country = args.country.toUpperCase();
+    const intro = `Buy a ${tier} mobile proxy in ${country} for at most $${args.budget_usd} USD in total. Do not spend more than the budget; if it cannot be met, stop and explain why.`;
+
+    if (tools.has('x402_get_proxy')) {
+      return `${intro}\n\n${steps([
+        `Call x402_list_countries and confirm ${country} is available.`,
+        `Call x402_get_pricing with tier="${tier}" and work out the largest traffic_gb (minimum 0.1) whose total cost fits within $${args.budget_usd}.`,
+        'Call x402_wallet_balance and confirm the wallet holds enough USDC (and respects any spend limits shown).',
+        `Call x402_get_proxy with country="${country}", tier="${tier}" and the traffic_gb you chose.`,
+        'Report the proxy credentials, amount paid and session expiry.',
+      ])}`;
+    }
+
+    const isPrivate = tier === 'private';
+    return `${intro}\n\n${steps([
+      `Call list_available_countries${isPrivate ? ' with isPrivate=true' : ''} and find the country ID for ${country}.`,
+      'Call get_account_summary to see the balance and whether enough traffic is already available.',
+      `If more traffic is needed, call calculate_price with isPrivate=${isPrivate} to find the largest whole GB amount within $${args.budget_usd}, then call purchase_${tier}_traffic with that quantityGB.`,
+      `Call create_port with that countryId and type="${tier}".`,
+      'Call get_proxy_connection_string for the new port and report it with the amount spent.',
+    ])}`;
+  },
+};
+
+/**
+ * Diagnose a slow or failing port
+ */
+const diagnoseSlowPortPrompt: WorkflowPrompt = {
+  name: 'diagnose_slow_port',
+  title: 'Diagnose a slow port',
+  description: 'Check status, latency and speed of a port and fix it by rotating or replacing it',
+  arguments: [
+    { name: 'port_id', description: 'Port ID (API key mode) or x402 session ID (x402 mode)', required: true },
+  ],
+  isAvailable: (tools) => tools.has('get_port_status') || tools.has('x402_check_session'),
+  build(args, tools) {
+    const intro = `The proxy ${args.port_id} is slow or failing. Find out why and fix it, explaining each finding.`;
+
+    if (tools.has('get_port_status')) {
+      return `${intro}\n\n${steps([
+        `Call get_port_status with portId="${args.port_id}" and check whether the port and its device are online and not suspended or expired.`,
+        tools.has('get_port_health_report') && `Call get_port_health_report with portId="${args.port_id}" to see uptime, latency and throughput history if the health monitor watches this port.`,
+        `Call ping_port and speed_test_port for portId="${args.port_id}" to measure latency and throughput.`,
+        `Call get_rotation_history for portId="${args.port_id}" to look for failed or very frequent rotations.`,
+        `If the device looks degraded, call check_rotation_availability and then rotate_port to move to a new device/IP, and re-run speed_test_port to compare.`,
+        'If the port is suspended, expired or out of traffic, say so and suggest the fix (renewal or a traffic purchase) instead of rotating.',
+        tools.has('create_support_ticket') && 'If nothing helps, offer to open a support ticket with create_support_ticket, including the measurements.',
+      ])}`;
+    }
+
+    return `${intro}\n\n${steps([
+      `Call x402_check_session with session_id="${args.port_id}" and check remaining time and traffic.`,
+      tools.has('list_x402_ports') && 'Call list_x402_ports to see which ports in the session are offline.',
+      `Call x402_rotate_ip with session_id="${args.port_id}" to move to a new IP and check again.`,
+      tools.has('replace_x402_port') && 'If a port stays offline, call replace_x402_port to move it to a different device (free, max 3 per session).',
+      'If traffic or time has run out, suggest x402_extend_session instead.',
+    ])}`;
+  },
+};
+
+/**
+ * Rotate every port in a country
+ */
+const rotateCountryPortsPrompt: WorkflowPrompt = {
+  name: 'rotate_country_ports',
+  title: 'Rotate all ports in a country',
+  description: 'Rotate the IP of every active port located in a country',
+  arguments: [
+    { name: 'country', description: 'Country code or name, e.g. US or Germany', required: true },
+    { name: 'type', description: 'Only rotate shared or private ports (default: both)' },
+  ],
+  isAvailable: (tools) => tools.has('rotate_port') && tools.has('list_ports'),
+  build(args, tools) {
+    const typeFilter = args.type === 'shared' || args.type === 'private' ? args.type : undefined;
+
+    if (tools.has('bulk_rotate_ports')) {
+      return `Rotate the IP of every active ${typeFilter ? `${typeFilter} ` : ''}port in ${args.country}.\n\n${steps([
+        `Call list_available_countries and find the country ID for ${args.country}.`,
+        `Call bulk_rotate_ports with status="active"${typeFilter ? `, type="${typeFilter}"` : ''} and that countryId. Ports in a rotation cooldown are skipped automatically.`,
+        'Show the per-port result table and explain any skipped or failed ports.',
+      ])}`;
+    }
+
+    return `Rotate the IP of every active ${typeFilter ? `${typeFilter} ` : ''}port in ${args.country}.\n\n${steps([
+      `Call list_available_countries and find the country ID for ${args.country}.`,
+      `Call list_ports with status="active"${typeFilter ? `, type="${typeFilter}"` : ''} and that countryId.`,
+      'For each port, call check_rotation_availability; skip ports that cannot rotate right now and note why.',
+      'Call rotate_port for each remaining port, one at a time.',
+      'Finish with a table of port name, result (rotated / skipped / failed) and reason.',
+    ])}`;
+  },
+};
+
+/**
+ * Review a month of spending
+ */
+const monthlySpendReviewPrompt: WorkflowPrompt = {
+  name: 'monthly_spend_review',
+  title: 'Monthly spend review',
+  description: 'Summarise what was bought and paid in a month, and flag anything unusual',
+  arguments: [
+    { name: 'month', description: 'Month as YYYY-MM (default: current month)' },
+  ],
+  isAvailable: (tools) => tools.has('list_purchases') || tools.has('x402_wallet_balance'),
+  build(args, tools) {
+    const { label, from, to } = monthRange(args.month);
+
+    return `Review proxy spending for ${label} (${from} to ${to}) and write a short report for finance.\n\n${steps([
+      tools.has('list_purchases') && `Call list_purchases with from="${from}" and to="${to}" (page with offset if needed) and total completed purchases by category (shared/private) and type.`,
+      tools.has('get_crypto_payment_history') && 'Call get_crypto_payment_history and sum the crypto top-ups made during the month.',
+      tools.has('get_crypto_reconciliation_report') && 'Call get_crypto_reconciliation_report and include any flagged orders.',
+      tools.has('get_account_usage') && 'Call get_account_usage to compare purchased traffic with traffic actually used.',
+      tools.has('x402_wallet_balance') && 'Call x402_wallet_balance for x402 spend, remaining budget and wallet balances.',
+      'Summarise: total spent, breakdown by category, unused traffic, and anything that needs attention.',
+      tools.has('export_purchases') && `Offer an export of the month via export_purchases with from="${from}" and to="${to}".`,
+    ])}`;
+  },
+};
+
+/**
+ * All workflow prompts
+ */
+export const workflowPrompts: WorkflowPrompt[] = [
+  buyProxyPrompt,
+  diagnoseSlowPortPrompt,
+  rotateCountryPortsPrompt,
+  monthlySpendReviewPrompt,
+];
@@ -0,0 +1,51 @@
+/**
+ * Account Resources
+ * Exposes account balance and resource usage as an MCP resource
+ */
+
+import type { ProxiesApi } from '../api/index.js';
+import type { ResourceProvider } from './types.js';
+
+/**
+ * Account summary URI
+ */
+export const ACCOUNT_SUMMARY_URI = 'proxies://account/summary';
+
+/**
+ * Tools that change balance, slots or traffic
+ */
+const ACCOUNT_MUTATING_TOOLS = new Set([
+  'purchase_shared_traffic',
+  'purchase_private_traffic',
+  'create_port',
+  'delete_port',
+]);
+
+/**
+ * Create the account resource provider
+ */
+export function createAccountResourceProvider(api: ProxiesApi): ResourceProvider {
+  return {
+    resources: [
+      {
+        uri: ACCOUNT_SUMMARY_URI,
+        name: 'account-summary',
+        title: 'Account summary',
+        description: 'Balance, slot usage and traffic for shared and private categories',
+        mimeType: 'application/json',
+      },
+    ],
+
+    async read(uri) {
+      if (uri !== ACCOUNT_SUMMARY_URI) return undefined;
+      const summary = await api.account.getSummary();
+      return { mimeType: 'application/json', text: JSON.stringify(summary, null, 2) };
+    },
+
+    toolEffects(toolName, args) {
+      // An executed purchase plan buys traffic and creates ports
+      const executedPlan = toolName === 'plan_proxy_purchase' && args.execute === true;
+      return ACCOUNT_MUTATING_TOOLS.has(toolName) || executedPlan ? { updated: [ACCOUNT_SUMMARY_URI] } : undefined;
+    },
+  };
+}
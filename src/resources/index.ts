@@ -0,0 +1,183 @@
+/**
+ * Resource Registry
+ * Combines all MCP resource providers and routes change notifications
+ * to the sessions subscribed to them
+ */
+
+import type { ProxiesApi } from '../api/index.js';
+import type { X402SessionCache } from '../x402/session-cache.js';
+import type {
+  ResourceChangeNotifier,
+  ResourceContents,
+  ResourceDefinition,
+  ResourceProvider,
+  ResourceTemplateDefinition,
+} from './types.js';
+
+import { createAccountResourceProvider } from './account.js';
+import { createNotificationResourceProvider } from './notifications.js';
+import { createPortResourceProvider } from './ports.js';
+import { createX402SessionResourceProvider } from './x402-sessions.js';
+
+// Export everything
+export * from './types.js';
+export * from './account.js';
+export * from './notifications.js';
+export * from './ports.js';
+export * from './x402-sessions.js';
+
+/**
+ * Resource Registry
+ * One instance per process, shared by every MCP session
+ */
+export class ResourceRegistry implements ResourceChangeNotifier {
+  private providers: ResourceProvider[] = [];
+  private updateListeners = new Set<(uri: string) => void>();
+  private listChangedListeners = new Set<() => void>();
+
+  /**
+   * Register a provider
+   */
+  add(provider: ResourceProvider): void {
+    this.providers.push(provider);
+  }
+
+  /**
+   * Whether any resources are available
+   */
+  hasResources(): boolean {
+    return this.providers.length > 0;
+  }
+
+  /**
+   * Fixed resources plus those that exist right now
+   */
+  async listResources(): Promise<ResourceDefinition[]> {
+    const lists = await Promise.all(
+      this.providers.map(async (provider) => {
+        const dynamic = provider.list
+          ? await provider.list().catch((error) => {
+            console.error('Failed to list resources:', error instanceof Error ? error.message : error);
+            return [];
+          })
+          : [];
+        return [...(provider.resources || []), ...dynamic];
+      })
+    );
+
+    return lists.flat();
+  }
+
+  /**
+   * Parameterized resources
+   */
+  listTemplates(): ResourceTemplateDefinition[] {
+    return this.providers.flatMap((provider) => provider.templates || []);
+  }
+
+  /**
+   * Read a resource, or return undefined if no provider owns the URI
+   */
+  async read(uri: string): Promise<ResourceContents | undefined> {
+    for (const provider of this.providers) {
+      const contents = await provider.read(uri);
+      if (contents) return contents;
+    }
+    return undefined;
+  }
+
+  /**
+   * Listen for changes to one URI. Polled resources start polling while subscribed.
+   * Returns an unsubscribe function.
+   */
+  subscribe(uri: string, listener: () => void): () => void {
+    const watcher = this.providers.find((provider) => provider.watchers?.[uri])?.watchers?.[uri];
+    const stopWatching = watcher?.subscribe(listener);
+
+    const onUpdate = (updatedUri: string) => {
+      if (updatedUri === uri) listener();
+    };
+    this.updateListeners.add(onUpdate);
+
+    return () => {
+      stopWatching?.();
+      this.updateListeners.delete(onUpdate);
+    };
+  }
+
+  /**
+   * Listen for resources being added or removed. Returns an unsubscribe function.
+   */
+  onListChanged(listener: () => void): () => void {
+    this.listChangedListeners.add(listener);
+    return () => {
+      this.listChangedListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Report that a resource changed. Polled resources re-fetch and only notify if their contents differ.
+   */
+  updated(uri: string): void {
+    const watcher = this.providers.find((provider) => provider.watchers?.[uri])?.watchers?.[uri];
+    if (watcher) {
+      void watcher.refresh();
+      return;
+    }
+
+    for (const listener of this.updateListeners) {
+      listener(uri);
+    }
+  }
+
+  /**
+   * Report that resources were added or removed
+   */
+  listChanged(): void {
+    for (const listener of this.listChangedListeners) {
+      listener();
+    }
+  }
+
+  /**
+   * Apply the resource effects of a successful tool call
+   */
+  afterToolCall(toolName: string, args: Record<string, unknown>): void {
+    let listChanged = false;
+
+    for (const provider of this.providers) {
+      const effects = provider.toolEffects?.(toolName, args);
+      if (!effects) continue;
+
+      effects.updated?.forEach((uri) => this.updated(uri));
+      listChanged = listChanged || !!effects.listChanged;
+    }
+
+    if (listChanged) {
+      this.listChanged();
+    }
+  }
+}
+
+/**
+ * Create the resource registry for the available backends.
+ * Account, port and notification resources need an API key; x402 sessions need a wallet.
+ */
+export function createResourceRegistry(options: {
+  api?: ProxiesApi | null;
+  sessionCache?: X402SessionCache;
+}): ResourceRegistry {
+  const registry = new ResourceRegistry();
+
+  if (options.api) {
+    registry.add(createAccountResourceProvider(options.api));
+    registry.add(createPortResourceProvider(options.api));
+    registry.add(createNotificationResourceProvider(options.api));
+  }
+
+  if (options.sessionCache) {
+    registry.add(createX402SessionResourceProvider(options.sessionCache, registry));
+  }
+
+  return registry;
+}
@@ -0,0 +1,161 @@
+/**
+ * Notification Resources
+ * Exposes the unread notification feed as a subscribable MCP resource
+ */
+
+import type { ProxiesApi } from '../api/index.js';
+import type { Notification } from '../api/types.js';
+import type { ResourceProvider } from './types.js';
+
+/**
+ * Unread notification feed URI
+ */
+export const UNREAD_NOTIFICATIONS_URI = 'proxies://notifications/unread';
+
+/**
+ * How often subscribed feeds are polled for changes
+ */
+const POLL_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Max unread notifications included in the feed
+ */
+const FEED_LIMIT = 100;
+
+/**
+ * Tools that change the unread feed
+ */
+const FEED_MUTATING_TOOLS = new Set(['read_notification', 'mark_all_notifications_read', 'dismiss_notification']);
+
+/**
+ * Unread feed contents
+ */
+interface UnreadFeed {
+  unreadCount: number;
+  notifications: Array<Pick<Notification, '_id' | 'type' | 'category' | 'title' | 'message' | 'entityType' | 'entityId' | 'actionLink' | 'createdAt'>>;
+}
+
+/**
+ * Fetch the unread feed
+ */
+async function fetchUnreadFeed(api: ProxiesApi): Promise<UnreadFeed> {
+  const result = await api.account.getNotifications({ limit: FEED_LIMIT, unreadOnly: true });
+
+  return {
+    unreadCount: result.total,
+    notifications: result.data.map(n => ({
+      _id: n._id,
+      type: n.type,
+      category: n.category,
+      title: n.title,
+      message: n.message,
+      entityType: n.entityType,
+      entityId: n.entityId,
+      actionLink: n.actionLink,
+      createdAt: n.createdAt,
+    })),
+  };
+}
+
+/**
+ * Identify feed contents so unchanged polls are not reported
+ */
+function fingerprint(feed: UnreadFeed): string {
+  return `${feed.unreadCount}:${feed.notifications.map(n => n._id).join(',')}`;
+}
+
+/**
+ * Unread Notification Watcher
+ * Polls the unread feed while at least one client is subscribed
+ * and calls listeners when its contents change
+ */
+export class UnreadNotificationWatcher {
+  private listeners = new Set<() => void>();
+  private timer: NodeJS.Timeout | null = null;
+  private lastFingerprint: string | null = null;
+
+  constructor(
+    private readonly api: ProxiesApi,
+    private readonly intervalMs: number = POLL_INTERVAL_MS
+  ) {}
+
+  /**
+   * Read the feed as resource text (also records it as the latest seen state)
+   */
+  async read(): Promise<string> {
+    const feed = await fetchUnreadFeed(this.api);
+    this.lastFingerprint = fingerprint(feed);
+    return JSON.stringify(feed, null, 2);
+  }
+
+  /**
+   * Register a change listener. Returns an unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.refresh(), this.intervalMs);
+      this.timer.unref();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.timer) {
+        clearInterval(this.timer);
+        this.timer = null;
+      }
+    };
+  }
+
+  /**
+   * Re-fetch the feed and notify listeners if it changed
+   */
+  async refresh(): Promise<void> {
+    if (this.listeners.size === 0) return;
+
+    try {
+      const next = fingerprint(await fetchUnreadFeed(this.api));
+      if (next === this.lastFingerprint) return;
+
+      this.lastFingerprint = next;
+      for (const listener of this.listeners) {
+        listener();
+      }
+    } catch (error) {
+      console.error('Failed to refresh unread notifications:', error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+/**
+ * Create the notification resource provider
+ */
+export function createNotificationResourceProvider(api: ProxiesApi): ResourceProvider {
+  const unread = new UnreadNotificationWatcher(api);
+
+  return {
+    resources: [
+      {
+        uri: UNREAD_NOTIFICATIONS_URI,
+        name: 'unread-notifications',
+        title: 'Unread notifications',
+        description: 'Unread account notifications (port suspensions, billing warnings, account and system notices). Subscribe to be told when it changes.',
+        mimeType: 'application/json',
+      },
+    ],
+
+    async read(uri) {
+      if (uri !== UNREAD_NOTIFICATIONS_URI) return undefined;
+      return { mimeType: 'application/json', text: await unread.read() };
+    },
+
+    watchers: {
+      [UNREAD_NOTIFICATIONS_URI]: unread,
+    },
+
+    toolEffects(toolName) {
+      return FEED_MUTATING_TOOLS.has(toolName) ? { updated: [UNREAD_NOTIFICATIONS_URI] } : undefined;
+    },
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Port Resources
+ * Exposes proxy ports as MCP resources
+ */
+
+import type { ProxiesApi } from '../api/index.js';
+import type { ResourceProvider } from './types.js';
+
+/**
+ * Port list URI and per-port URI prefix
+ */
+export const PORTS_URI = 'proxies://ports';
+const PORT_URI_PREFIX = `${PORTS_URI}/`;
+
+/**
+ * Max ports advertised in resources/list
+ */
+const LIST_LIMIT = 100;
+
+/**
+ * Tools that change a single port (all take portId)
+ */
+const PORT_MUTATING_TOOLS = new Set([
+  'rotate_port',
+  'configure_auto_rotation',
+  'update_port_credentials',
+  'update_os_fingerprint',
+  'reconfigure_port',
+]);
+
+/**
+ * Tools that change many ports at once (selector, no single portId)
+ */
+const BULK_PORT_TOOLS = new Set([
+  'bulk_rotate_ports',
+  'bulk_update_os_fingerprint',
+  'bulk_configure_auto_rotation',
+]);
+
+/**
+ * Tools that add or remove ports
+ */
+const PORT_LIST_TOOLS = new Set(['create_port', 'delete_port']);
+
+/**
+ * Build the resource URI for a port
+ */
+export function portResourceUri(portId: string): string {
+  return `${PORT_URI_PREFIX}${encodeURIComponent(portId)}`;
+}
+
+/**
+ * Create the port resource provider
+ */
+export function createPortResourceProvider(api: ProxiesApi): ResourceProvider {
+  return {
+    resources: [
+      {
+        uri: PORTS_URI,
+        name: 'ports',
+        title: 'Proxy ports',
+        description: 'All proxy ports with status, location and expiry',
+        mimeType: 'application/json',
+      },
+    ],
+
+    templates: [
+      {
+        uriTemplate: `${PORT_URI_PREFIX}{portId}`,
+        name: 'port',
+        title: 'Proxy port',
+        description: 'A single proxy port: status, location, credentials, rotation settings and expiry',
+        mimeType: 'application/json',
+      },
+    ],
+
+    async list() {
+      const result = await api.ports.list({ limit: LIST_LIMIT });
+      return result.data.map(port => ({
+        uri: portResourceUri(port._id),
+        name: `port-${port._id}`,
+        title: port.displayName || port.name,
+        description: `${port.slotType} port, ${port.status}${port.countryName ? `, ${port.countryName}` : ''}`,
+        mimeType: 'application/json',
+      }));
+    },
+
+    async read(uri) {
+      if (uri === PORTS_URI) {
+        const result = await api.ports.list({ limit: LIST_LIMIT });
+        return { mimeType: 'application/json', text: JSON.stringify(result, null, 2) };
+      }
+
+      if (uri.startsWith(PORT_URI_PREFIX)) {
+        const portId = decodeURIComponent(uri.slice(PORT_URI_PREFIX.length));
+        const port = await api.ports.get(portId);
+        return { mimeType: 'application/json', text: JSON.stringify(port, null, 2) };
+      }
+
+      return undefined;
+    },
+
+    toolEffects(toolName, args) {
+      if (PORT_MUTATING_TOOLS.has(toolName) && typeof args.portId === 'string') {
+        return { updated: [portResourceUri(args.portId), PORTS_URI] };
+      }
+
+      if (BULK_PORT_TOOLS.has(toolName)) {
+        return { updated: [PORTS_URI] };
+      }
+
+      if (toolName === 'plan_proxy_purchase' && args.execute === true) {
+        return { updated: [PORTS_URI], listChanged: true };
+      }
+
+      if (PORT_LIST_TOOLS.has(toolName)) {
+        const updated = [PORTS_URI];
+        if (typeof args.portId === 'string') {
+          updated.push(portResourceUri(args.portId));
+        }
+        return { updated, listChanged: true };
+      }
+
+      return undefined;
+    },
+  };
+}
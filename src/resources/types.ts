@@ -0,0 +1,78 @@
+/**
+ * Resource Types
+ * Shared shapes for MCP resource providers
+ */
+
+/**
+ * Concrete resource advertised in resources/list
+ */
+export interface ResourceDefinition {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType: string;
+}
+
+/**
+ * Parameterized resource advertised in resources/templates/list
+ */
+export interface ResourceTemplateDefinition {
+  uriTemplate: string;
+  name: string;
+  title?: string;
+  description: string;
+  mimeType: string;
+}
+
+/**
+ * Resource contents returned by a provider
+ */
+export interface ResourceContents {
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * Polled resource - notifies listeners when its contents change
+ */
+export interface ResourceWatcher {
+  subscribe(listener: () => void): () => void;
+  refresh(): Promise<void>;
+}
+
+/**
+ * Resources a successful tool call changed
+ */
+export interface ToolResourceEffects {
+  /** URIs whose contents changed */
+  updated?: string[];
+  /** Whether resources were added or removed */
+  listChanged?: boolean;
+}
+
+/**
+ * Resource provider - owns a family of URIs
+ */
+export interface ResourceProvider {
+  /** Fixed resources */
+  resources?: ResourceDefinition[];
+  /** Parameterized resources */
+  templates?: ResourceTemplateDefinition[];
+  /** Resources that exist right now (e.g. one per port) */
+  list?(): Promise<ResourceDefinition[]>;
+  /** Read a resource, or return undefined if the URI belongs to another provider */
+  read(uri: string): Promise<ResourceContents | undefined>;
+  /** Polled resources, keyed by URI */
+  watchers?: Record<string, ResourceWatcher>;
+  /** Resources changed by a successful tool call */
+  toolEffects?(toolName: string, args: Record<string, unknown>): ToolResourceEffects | undefined;
+}
+
+/**
+ * Push channel for providers whose state changes outside tool calls
+ */
+export interface ResourceChangeNotifier {
+  updated(uri: string): void;
+  listChanged(): void;
+}
@@ -0,0 +1,106 @@
+/**
+ * x402 Session Resources
+ * Exposes locally cached x402 sessions as MCP resources
+ */
+
+import type { X402SessionCache } from '../x402/session-cache.js';
+import type { ResourceChangeNotifier, ResourceProvider } from './types.js';
+
+/**
+ * Session list URI and per-session URI prefix
+ */
+export const X402_SESSIONS_URI = 'proxies://x402/sessions';
+const SESSION_URI_PREFIX = `${X402_SESSIONS_URI}/`;
+
+/**
+ * How often the cache is checked for expired sessions
+ */
+const EXPIRY_CHECK_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Build the resource URI for a session
+ */
+export function x402SessionResourceUri(sessionId: string): string {
+  return `${SESSION_URI_PREFIX}${encodeURIComponent(sessionId)}`;
+}
+
+/**
+ * Create the x402 session resource provider.
+ * Cache changes (purchases, extensions, expiry) are pushed to the notifier.
+ */
+export function createX402SessionResourceProvider(
+  cache: X402SessionCache,
+  notifier: ResourceChangeNotifier
+): ResourceProvider {
+  cache.onChange((change) => {
+    notifier.updated(x402SessionResourceUri(change.sessionId));
+    notifier.updated(X402_SESSIONS_URI);
+    if (change.type !== 'updated') {
+      notifier.listChanged();
+    }
+  });
+
+  // Reading active sessions drops expired ones, which emits 'removed'
+  const expiryTimer = setInterval(() => cache.getActiveSessions(), EXPIRY_CHECK_INTERVAL_MS);
+  expiryTimer.unref();
+
+  const describe = (sessionId: string) => {
+    const session = cache.getSession(sessionId);
+    if (!session) return undefined;
+
+    return {
+      ...session,
+      timeRemaining: cache.getTimeRemaining(sessionId)?.display ?? 'Expired',
+    };
+  };
+
+  return {
+    resources: [
+      {
+        uri: X402_SESSIONS_URI,
+        name: 'x402-sessions',
+        title: 'x402 sessions',
+        description: 'Active x402 proxy sessions purchased by this wallet',
+        mimeType: 'application/json',
+      },
+    ],
+
+    templates: [
+      {
+        uriTemplate: `${SESSION_URI_PREFIX}{sessionId}`,
+        name: 'x402-session',
+        title: 'x402 session',
+        description: 'A single x402 session: proxy credentials, location, rotation URL and time remaining',
+        mimeType: 'application/json',
+      },
+    ],
+
+    async list() {
+      return cache.getActiveSessions().map((session) => ({
+        uri: x402SessionResourceUri(session.id),
+        name: `x402-session-${session.id}`,
+        title: `x402 session ${session.location.countryCode || ''}`.trim(),
+        description: `Expires ${session.expiresAt}`,
+        mimeType: 'application/json',
+      }));
+    },
+
+    async read(uri) {
+      if (uri === X402_SESSIONS_URI) {
+        const sessions = cache.getActiveSessions().map((session) => describe(session.id));
+        return { mimeType: 'application/json', text: JSON.stringify(sessions, null, 2) };
+      }
+
+      if (uri.startsWith(SESSION_URI_PREFIX)) {
+        const sessionId = decodeURIComponent(uri.slice(SESSION_URI_PREFIX.length));
+        const session = describe(sessionId);
+        if (!session) {
+          throw new Error(`Session ${sessionId} not found or expired`);
+        }
+        return { mimeType: 'application/json', text: JSON.stringify(session, null, 2) };
+      }
+
+      return undefined;
+    },
+  };
+}
@@ -5,26 +5,84 @@
  * Supports two authentication modes:
  * 1. API Key Mode: Traditional API key authentication (PROXIES_API_KEY)
  * 2. x402 Mode: Wallet-based payment authentication (AGENT_WALLET_KEY)
+ *
+ * Supports two transports:
+ * 1. stdio (default): one client per process
+ * 2. HTTP (MCP_TRANSPORT=http or --http): Streamable HTTP + SSE fallback, shared by many clients
  */
 
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   ErrorCode,
   McpError,
 } from '@modelcontextprotocol/sdk/types.js';
 
-import { createProxiesApi, getAuthToken } from './api/index.js';
-import { allToolDefinitions, allSchemas, createAllToolHandlers } from './tools/index.js';
+import { createProxiesApi, getAuthToken, isApiKeyScope, type ApiKeyScope, type ProxiesApi } from './api/index.js';
+import { startHttpTransport } from './http.js';
+import {
+  allToolDefinitions,
+  allSchemas,
+  createAllToolHandlers,
+  createAllToolPreviews,
+  createPlannerToolHandlers,
+  createPlannerToolPreviews,
+  plannerToolDefinitions,
+  plannerSchemas,
+  createAuditToolHandlers,
+  auditToolDefinitions,
+  auditSchemas,
+  createToolAccessPolicy,
+  createToolConfirmations,
+  confirmationSchema,
+  confirmationTokenProperty,
+  describePreview,
+  type PlannerSources,
+  type ToolDefinition,
+  type ToolHandlers,
+  type ToolInputSchema,
+} from './tools/index.js';
+import { createResourceRegistry } from './resources/index.js';
+import { createAuditLog, onUnattributedTransaction } from './audit/index.js';
+import { createAlertMonitor, createPortHealthMonitor, type Alert, type PortHealthMonitor } from './monitor/index.js';
+import { createPromptRegistry } from './prompts/index.js';
+import {
+  dryRunProperty,
+  outputFormatProperty,
+  renderToolResult,
+  toErrorEnvelope,
+  toOutputEnvelope,
+  toolFailure,
+  toolOutputSchema,
+  type OutputFormat,
+  type ToolResult,
+} from './utils/output.js';
 
 // x402 imports
 import {
-  createAgentWallet,
+  createX402Wallets,
   createX402Client,
   createSessionCache,
+  type X402Client,
+  type X402SessionCache,
+  createSpendGuard,
+  createPendingPayments,
+  formatPendingPaymentReport,
+  createSessionPolicies,
   createX402ToolHandlers,
+  createX402ToolPreviews,
   x402ToolDefinitions,
   x402Schemas,
 } from './x402/index.js';
@@ -40,24 +98,115 @@ export interface McpServerConfig {
   password?: string;
   // Base URL (optional)
   baseUrl?: string;
+  // Retries for transient API failures (default: 3, 0 disables)
+  apiMaxRetries?: number;
+  // Scopes of the API key (default: read from the API at startup); tools needing other scopes are hidden
+  apiKeyScopes?: ApiKeyScope[];
 
   // x402 wallet authentication (Mode 2)
   walletPrivateKey?: string;
   preferredNetwork?: 'base' | 'solana';
   baseRpcUrl?: string;
+  // Optional Solana wallet alongside a Base walletPrivateKey
+  solanaWalletPrivateKey?: string;
+  solanaRpcUrl?: string;
+
+  // x402 spend limits (USDC, all optional)
+  maxTransactionUSDC?: number;
+  maxDailySpendUSDC?: number;
+  maxTotalSpendUSDC?: number;
+
+  // Transport (default: stdio)
+  transport?: 'stdio' | 'http';
+  httpPort?: number;
+  httpHost?: string;
+  httpAuthToken?: string;
+  // Close HTTP sessions idle for this long (default: 30, 0 keeps them)
+  httpSessionIdleMinutes?: number;
+
+  // Default tool output format (default: text); tools also accept a per-call format argument
+  outputFormat?: OutputFormat;
+
+  // Preview every state-changing tool instead of running it (default: false); tools also accept a per-call dry_run argument
+  dryRun?: boolean;
+
+  // Ask the user before destructive and paid tools run (default: off); x402 payments up to confirmAboveUSDC run without asking
+  confirm?: boolean;
+  confirmAboveUSDC?: number;
+
+  // Tool access: hide every state-changing tool, or expose only / never the named tools or groups
+  readOnly?: boolean;
+  allowTools?: string[];
+  denyTools?: string[];
+
+  // Audit log of tool calls and payments (default: on, ~/.proxies-sx/audit-log.jsonl rotated at 10 MB, 5 files kept)
+  auditLog?: boolean;
+  auditLogPath?: string;
+  auditLogMaxMB?: number;
+  auditLogMaxFiles?: number;
+
+  // Port health monitor (API key mode): ports watched from startup ('all' = every active port)
+  healthMonitorPorts?: string[] | 'all';
+  healthMonitorIntervalSeconds?: number;
+  healthMonitorSpeedTestEvery?: number;
+  // Rotate a port after this many consecutive failed pings (default: off)
+  healthMonitorAutoRotateAfter?: number;
+
+  // Expiry and traffic alerts (0 disables a threshold; alertIntervalSeconds 0 disables alerts)
+  alertIntervalSeconds?: number;
+  alertPortExpiryHours?: number;
+  alertMinTrafficGB?: number;
+  alertX402ExpiryMinutes?: number;
+  alertX402MinTrafficPercent?: number;
+  alertWebhookUrl?: string;
 }
 
+/**
+ * Default HTTP transport port
+ */
+const DEFAULT_HTTP_PORT = 3000;
+
 /**
  * Default API base URL
  */
 const DEFAULT_BASE_URL = 'https://api.proxies.sx';
 
+/**
+ * Add the per-call output format argument to a tool's input schema
+ */
+function withFormatProperty(inputSchema: ToolDefinition['inputSchema']): ToolDefinition['inputSchema'] {
+  return {
+    ...inputSchema,
+    properties: { ...inputSchema.properties, format: outputFormatProperty },
+  };
+}
+
+/**
+ * Add the per-call dry_run argument to the input schema of a tool that has a preview
+ */
+function withDryRunProperty(inputSchema: ToolDefinition['inputSchema']): ToolDefinition['inputSchema'] {
+  return {
+    ...inputSchema,
+    properties: { ...inputSchema.properties, dry_run: dryRunProperty },
+  };
+}
+
+/**
+ * Add the confirmation_token argument to the input schema of a tool that needs confirmation
+ */
+function withConfirmationProperty(inputSchema: ToolDefinition['inputSchema']): ToolDefinition['inputSchema'] {
+  return {
+    ...inputSchema,
+    properties: { ...inputSchema.properties, confirmation_token: confirmationTokenProperty },
+  };
+}
+
 /**
  * Determine which mode to use based on config
  */
 function getAuthMode(config: McpServerConfig): 'apiKey' | 'x402' | 'hybrid' {
   const hasApiKey = !!(config.apiKey || (config.email && config.password));
-  const hasWallet = !!config.walletPrivateKey;
+  const hasWallet = !!(config.walletPrivateKey || config.solanaWalletPrivateKey);
 
   if (hasApiKey && hasWallet) return 'hybrid';
   if (hasWallet) return 'x402';
@@ -70,6 +219,22 @@ function getAuthMode(config: McpServerConfig): 'apiKey' | 'x402' | 'hybrid' {
   );
 }
 
+/**
+ * Read the scopes of the API key. Undefined (no tool hidden) if the API cannot tell.
+ */
+async function discoverApiKeyScopes(api: ProxiesApi): Promise<ApiKeyScope[] | undefined> {
+  try {
+    const key = await api.apiKeys.getCurrent();
+    return key.scopes.filter(scope => isApiKeyScope(scope));
+  } catch (error) {
+    console.error(
+      `Could not read the API key scopes (${error instanceof Error ? error.message : 'Unknown error'}); ` +
+      'all tools are exposed. Set PROXIES_API_KEY_SCOPES to hide the tools the key cannot use.'
+    );
+    return undefined;
+  }
+}
+
 /**
  * Create and configure the MCP server
  */
@@ -78,9 +243,16 @@ export async function createMcpServer(config: McpServerConfig) {
   const authMode = getAuthMode(config);
 
   let api: ReturnType<typeof createProxiesApi> | null = null;
-  let toolHandlers: Record<string, (args: Record<string, unknown>) => Promise<string>> = {};
-  let combinedToolDefinitions: Array<{ name: string; description: string; inputSchema: object }> = [];
-  let combinedSchemas: Record<string, { safeParse: (data: unknown) => { success: boolean; data?: unknown; error?: { message: string } } }> = {};
+  let toolHandlers: ToolHandlers = {};
+  // Dry-run previews of the state-changing tools
+  let toolPreviews: ToolHandlers = {};
+  let combinedToolDefinitions: ToolDefinition[] = [];
+  let combinedSchemas: Record<string, ToolInputSchema> = {};
+  let sessionCache: X402SessionCache | undefined;
+  let healthMonitor: PortHealthMonitor | undefined;
+  let x402Client: X402Client | undefined;
+  let x402PlannerSource: PlannerSources['x402'];
+  let apiKeyScopes: ApiKeyScope[] | undefined;
 
   // Initialize API key mode if available
   if (authMode === 'apiKey' || authMode === 'hybrid') {
@@ -96,10 +268,25 @@ export async function createMcpServer(config: McpServerConfig) {
         baseUrl: baseUrl,
         token: auth.token,
         authType: auth.type,
+        retry: config.apiMaxRetries !== undefined ? { maxRetries: config.apiMaxRetries } : undefined,
       });
 
-      const apiHandlers = createAllToolHandlers(api, baseUrl);
+      // Logins with email/password are not limited by scopes
+      if (auth.type === 'apiKey') {
+        apiKeyScopes = config.apiKeyScopes ?? await discoverApiKeyScopes(api);
+      }
+
+      healthMonitor = createPortHealthMonitor(api, {
+        intervalMs: config.healthMonitorIntervalSeconds !== undefined ? config.healthMonitorIntervalSeconds * 1000 : undefined,
+        speedTestEvery: config.healthMonitorSpeedTestEvery,
+        autoRotateAfter: config.healthMonitorAutoRotateAfter,
+        // Also set below when the tool access policy hides rotate_port
+        dryRun: config.dryRun,
+      });
+
+      const apiHandlers = createAllToolHandlers(api, baseUrl, healthMonitor);
       toolHandlers = { ...toolHandlers, ...apiHandlers };
+      toolPreviews = { ...toolPreviews, ...createAllToolPreviews(api, healthMonitor) };
       combinedToolDefinitions = [...allToolDefinitions];
       combinedSchemas = { ...allSchemas };
     } catch (error) {
@@ -113,25 +300,52 @@ export async function createMcpServer(config: McpServerConfig) {
 
   // Initialize x402 mode if wallet is available
   if (authMode === 'x402' || authMode === 'hybrid') {
-    const wallet = createAgentWallet(
-      config.walletPrivateKey!,
-      config.baseRpcUrl
-    );
+    const preferredNetwork = config.preferredNetwork || 'base';
+    const wallets = createX402Wallets({
+      walletPrivateKey: config.walletPrivateKey,
+      solanaWalletPrivateKey: config.solanaWalletPrivateKey,
+      baseRpcUrl: config.baseRpcUrl,
+      solanaRpcUrl: config.solanaRpcUrl,
+    });
+    const wallet = wallets.find((w) => w.getNetwork() === preferredNetwork) || wallets[0];
+
+    // Local state covers every configured wallet, so changing the preferred network keeps it
+    const walletAddresses = wallets.map((w) => w.address);
 
-    const cache = createSessionCache(wallet.address);
+    const cache = createSessionCache(walletAddresses);
+    sessionCache = cache;
+
+    const spendGuard = createSpendGuard(walletAddresses, {
+      maxTransactionUSDC: config.maxTransactionUSDC,
+      maxDailySpendUSDC: config.maxDailySpendUSDC,
+      maxTotalSpendUSDC: config.maxTotalSpendUSDC,
+    });
+
+    const pendingPayments = createPendingPayments(walletAddresses);
 
     const client = createX402Client(
-      wallet,
+      wallets,
       baseUrl,
-      config.preferredNetwork || 'base'
+      preferredNetwork,
+      spendGuard,
+      pendingPayments
     );
 
-    const x402Handlers = createX402ToolHandlers(client, wallet, cache, baseUrl);
+    x402Client = client;
+
+    // Auto-renew/top-up policies are enforced in the background (they pay, so not in dry-run or read-only mode)
+    const sessionPolicies = createSessionPolicies(walletAddresses, client, cache);
+    if (!config.dryRun && !config.readOnly) {
+      sessionPolicies.start();
+    }
+
+    const x402Handlers = createX402ToolHandlers(client, wallet, cache, baseUrl, sessionPolicies);
+    x402PlannerSource = { client, handlers: x402Handlers };
 
     // Add x402 handlers
     toolHandlers = {
       ...toolHandlers,
-      x402_get_proxy: (args) => x402Handlers.x402_get_proxy(args as Parameters<typeof x402Handlers.x402_get_proxy>[0]),
+      x402_get_proxy: (args, options) => x402Handlers.x402_get_proxy(args as Parameters<typeof x402Handlers.x402_get_proxy>[0], options),
       x402_get_pricing: (args) => x402Handlers.x402_get_pricing(args as Parameters<typeof x402Handlers.x402_get_pricing>[0]),
       x402_list_sessions: () => x402Handlers.x402_list_sessions(),
       x402_check_session: (args) => x402Handlers.x402_check_session(args as Parameters<typeof x402Handlers.x402_check_session>[0]),
@@ -140,146 +354,762 @@ export async function createMcpServer(config: McpServerConfig) {
       x402_list_countries: () => x402Handlers.x402_list_countries(),
       x402_list_cities: (args) => x402Handlers.x402_list_cities(args as Parameters<typeof x402Handlers.x402_list_cities>[0]),
       x402_list_carriers: (args) => x402Handlers.x402_list_carriers(args as Parameters<typeof x402Handlers.x402_list_carriers>[0]),
-      x402_extend_session: (args) => x402Handlers.x402_extend_session(args as Parameters<typeof x402Handlers.x402_extend_session>[0]),
+      x402_extend_session: (args, options) => x402Handlers.x402_extend_session(args as Parameters<typeof x402Handlers.x402_extend_session>[0], options),
+      x402_resume_pending: (args) => x402Handlers.x402_resume_pending(args as Parameters<typeof x402Handlers.x402_resume_pending>[0]),
+      x402_set_session_policy: (args) => x402Handlers.x402_set_session_policy(args as Parameters<typeof x402Handlers.x402_set_session_policy>[0]),
+      x402_list_session_policies: () => x402Handlers.x402_list_session_policies(),
+      x402_remove_session_policy: (args) => x402Handlers.x402_remove_session_policy(args as Parameters<typeof x402Handlers.x402_remove_session_policy>[0]),
       x402_service_status: () => x402Handlers.x402_service_status(),
     };
 
+    const x402Previews = createX402ToolPreviews(client, wallet, cache, sessionPolicies);
+    toolPreviews = {
+      ...toolPreviews,
+      x402_get_proxy: (args) => x402Previews.x402_get_proxy(args as Parameters<typeof x402Previews.x402_get_proxy>[0]),
+      x402_rotate_ip: (args) => x402Previews.x402_rotate_ip(args as Parameters<typeof x402Previews.x402_rotate_ip>[0]),
+      x402_extend_session: (args) => x402Previews.x402_extend_session(args as Parameters<typeof x402Previews.x402_extend_session>[0]),
+      x402_resume_pending: (args) => x402Previews.x402_resume_pending(args as Parameters<typeof x402Previews.x402_resume_pending>[0]),
+      x402_set_session_policy: (args) => x402Previews.x402_set_session_policy(args as Parameters<typeof x402Previews.x402_set_session_policy>[0]),
+      x402_remove_session_policy: (args) => x402Previews.x402_remove_session_policy(args as Parameters<typeof x402Previews.x402_remove_session_policy>[0]),
+    };
+
     // Add x402 tool definitions
     combinedToolDefinitions = [...combinedToolDefinitions, ...x402ToolDefinitions];
     combinedSchemas = { ...combinedSchemas, ...x402Schemas };
 
     // Log x402 mode info
-    console.error(`x402 mode enabled. Wallet: ${wallet.address}`);
-  }
+    for (const w of wallets) {
+      console.error(`x402 mode enabled. Wallet (${w.getNetwork()}): ${w.address}`);
+    }
 
-  // Create MCP server
-  const server = new Server(
-    {
-      name: 'proxies-sx-mcp',
-      version: '2.0.0',
-    },
-    {
-      capabilities: {
-        tools: {},
-      },
+    // Report payments that were sent but never became a session
+    const unrecovered = pendingPayments.list();
+    if (unrecovered.length > 0) {
+      console.error(formatPendingPaymentReport(unrecovered, pendingPayments.getPath()));
     }
-  );
+  }
 
-  // Register tools/list handler
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return {
-      tools: combinedToolDefinitions.map(tool => ({
-        name: tool.name,
-        description: tool.description,
-        inputSchema: tool.inputSchema,
-      })),
+  // The purchase planner prices and buys with whichever payment methods are configured
+  if (api || x402PlannerSource) {
+    const plannerHandlers = createPlannerToolHandlers({ api, x402: x402PlannerSource });
+    const plannerPreviews = createPlannerToolPreviews({ api, x402: x402PlannerSource });
+    toolHandlers = {
+      ...toolHandlers,
+      plan_proxy_purchase: (args) => plannerHandlers.plan_proxy_purchase(args as Parameters<typeof plannerHandlers.plan_proxy_purchase>[0]),
     };
+    toolPreviews = {
+      ...toolPreviews,
+      plan_proxy_purchase: (args) => plannerPreviews.plan_proxy_purchase(args as Parameters<typeof plannerPreviews.plan_proxy_purchase>[0]),
+    };
+    combinedToolDefinitions = [...combinedToolDefinitions, ...plannerToolDefinitions];
+    combinedSchemas = { ...combinedSchemas, ...plannerSchemas };
+  }
+
+  // Audit log of every tool call, plus payments made outside a tool call (session policies)
+  const auditLog = config.auditLog === false ? undefined : createAuditLog(config.auditLogPath, {
+    maxBytes: config.auditLogMaxMB !== undefined ? config.auditLogMaxMB * 1024 * 1024 : undefined,
+    maxFiles: config.auditLogMaxFiles,
   });
+  if (auditLog) {
+    onUnattributedTransaction((transaction) => auditLog.recordPayment(transaction));
+    const auditHandlers = createAuditToolHandlers(auditLog);
+    toolHandlers = {
+      ...toolHandlers,
+      get_audit_log: (args) => auditHandlers.get_audit_log(args as Parameters<typeof auditHandlers.get_audit_log>[0]),
+    };
+    combinedToolDefinitions = [...combinedToolDefinitions, ...auditToolDefinitions];
+    combinedSchemas = { ...combinedSchemas, ...auditSchemas };
+  }
+
+  // Every declared tool must have a handler
+  const unhandled = combinedToolDefinitions.filter(tool => !toolHandlers[tool.name]).map(tool => tool.name);
+  if (unhandled.length > 0) {
+    throw new Error(`No handler registered for tool(s): ${unhandled.join(', ')}`);
+  }
+
+  // Hidden tools are left out of tools/list and rejected by tools/call
+  const accessPolicy = createToolAccessPolicy({
+    readOnly: config.readOnly,
+    allow: config.allowTools,
+    deny: config.denyTools,
+    scopes: apiKeyScopes,
+  });
+  const toolDefinitionsByName = new Map(combinedToolDefinitions.map(tool => [tool.name, tool]));
+  const exposedToolDefinitions = combinedToolDefinitions.filter(tool => accessPolicy.isExposed(tool));
+  const accessDescription = accessPolicy.describe();
+  if (accessDescription) {
+    console.error(`Tool access (${accessDescription}): ${exposedToolDefinitions.length} of ${combinedToolDefinitions.length} tools exposed`);
+  }
+
+  // Resources (account, ports, notifications, x402 sessions) shared by every session
+  const resources = createResourceRegistry({ api, sessionCache });
 
-  // Register tools/call handler
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
-
-    // Get tool handler
-    const handler = toolHandlers[name];
-    if (!handler) {
-      throw new McpError(
-        ErrorCode.MethodNotFound,
-        `Unknown tool: ${name}`
-      );
+  // Start the port health monitor; its automatic rotations update port resources like rotate_port does
+  if (healthMonitor) {
+    // Read-only mode, allow/deny lists and key scopes that hide rotate_port also stop the monitor from rotating
+    const rotatePort = toolDefinitionsByName.get('rotate_port');
+    if (!rotatePort || !accessPolicy.isExposed(rotatePort)) {
+      healthMonitor.configure({ dryRun: true });
     }
 
-    // Get validation schema
-    const schema = combinedSchemas[name as keyof typeof combinedSchemas];
-    if (!schema) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        `No schema found for tool: ${name}`
-      );
+    healthMonitor.onAutoRotate((portId) => resources.afterToolCall('rotate_port', { portId }));
+    if (config.healthMonitorPorts) {
+      healthMonitor.watch(config.healthMonitorPorts);
     }
+  }
 
-    // Validate arguments
-    const parseResult = schema.safeParse(args || {});
-    if (!parseResult.success) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        `Invalid arguments for ${name}: ${parseResult.error?.message || 'Validation failed'}`
-      );
+  // Expiry and traffic alerts, sent to every session as logging notifications
+  const alerts = config.alertIntervalSeconds === 0 ? undefined : createAlertMonitor(
+    { api, sessionCache, x402Client },
+    {
+      intervalMs: config.alertIntervalSeconds !== undefined ? config.alertIntervalSeconds * 1000 : undefined,
+      thresholds: {
+        portExpiryHours: config.alertPortExpiryHours,
+        minTrafficGB: config.alertMinTrafficGB,
+        x402SessionExpiryMinutes: config.alertX402ExpiryMinutes,
+        x402SessionMinTrafficPercent: config.alertX402MinTrafficPercent,
+      },
+      webhookUrl: config.alertWebhookUrl,
     }
+  );
+  alerts?.start();
 
-    try {
-      // Execute tool
-      const result = await handler(parseResult.data as Record<string, unknown>);
+  // Workflow prompts built from the tools available in this mode
+  const prompts = createPromptRegistry(exposedToolDefinitions.map(tool => tool.name));
+
+  const defaultOutputFormat: OutputFormat = config.outputFormat || 'text';
+
+  if (config.dryRun) {
+    console.error('Dry-run mode: state-changing tools only describe what they would do');
+  }
+
+  // Destructive and paid tools show their preview and wait for the user
+  const confirmations = config.confirm
+    ? createToolConfirmations({ aboveUSDC: config.confirmAboveUSDC })
+    : undefined;
+  if (confirmations) {
+    console.error(`Confirmations on: ${combinedToolDefinitions.filter(tool => tool.confirm).map(tool => tool.name).join(', ')}`);
+  }
+
+  /**
+   * Build an MCP server instance bound to the shared tool handlers.
+   * stdio uses a single instance; the HTTP transport builds one per client session.
+   */
+  const createSessionServer = (): Server => {
+    // Create MCP server
+    const server = new Server(
+      {
+        name: 'proxies-sx-mcp',
+        version: '2.0.0',
+      },
+      {
+        capabilities: {
+          tools: {},
+          prompts: {},
+          logging: {},
+          ...(resources.hasResources() && {
+            resources: { subscribe: true, listChanged: true },
+          }),
+        },
+      }
+    );
 
+    // Active resource subscriptions for this session (URI -> unsubscribe)
+    const subscriptions = new Map<string, () => void>();
+    const stopListChanged = resources.onListChanged(() => {
+      server.sendResourceListChanged().catch(() => undefined);
+    });
+
+    // Alerts are logging notifications; a new session is sent the ones still active
+    const sendAlert = (alert: Alert) => {
+      server.sendLoggingMessage({ level: alert.severity, logger: 'proxies-sx-alerts', data: alert }).catch(() => undefined);
+    };
+    const stopAlerts = alerts?.onAlert(sendAlert);
+    server.oninitialized = () => {
+      alerts?.getActiveAlerts().forEach(sendAlert);
+    };
+
+    server.onclose = () => {
+      for (const unsubscribe of subscriptions.values()) {
+        unsubscribe();
+      }
+      subscriptions.clear();
+      stopListChanged();
+      stopAlerts?.();
+    };
+
+    /**
+     * Run a tool that needs confirmation: with a valid token, or after the user
+     * accepts its preview (elicitation). Otherwise return the preview with a token.
+     */
+    const runConfirmed = async (
+      name: string,
+      definition: ToolDefinition,
+      args: Record<string, unknown>,
+      token: string | undefined
+    ): Promise<{ result: string | ToolResult; ran: boolean }> => {
+      const handler = toolHandlers[name];
+      if (token !== undefined) {
+        const options = confirmations!.redeem(token, name, args);
+        return { result: await handler(args, options), ran: true };
+      }
+
+      const preview = await toolPreviews[name](args);
+      if (typeof preview === 'string' || preview.failed) {
+        return { result: preview, ran: false };
+      }
+
+      // A payment may not cost more than its preview showed
+      const options = { maxAmountUSDC: confirmations!.paymentLimit(definition, preview) };
+      if (!confirmations!.isRequired(definition, preview, args)) {
+        return { result: await handler(args, options), ran: true };
+      }
+
+      if (server.getClientCapabilities()?.elicitation?.form) {
+        const answer = await server.elicitInput({
+          message: `Confirm ${name}:\n\n${describePreview(preview)}`,
+          requestedSchema: confirmationSchema,
+        });
+        if (answer.action === 'accept' && answer.content?.confirm === true) {
+          return { result: await handler(args, options), ran: true };
+        }
+        return {
+          result: toolFailure(`${name} was not run: the user did not confirm it.`, { confirmed: false, action: answer.action }),
+          ran: false,
+        };
+      }
+
+      return { result: confirmations!.request(name, args, preview, options.maxAmountUSDC), ran: false };
+    };
+
+    // Register tools/list handler
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
-        content: [
-          {
-            type: 'text',
-            text: result,
-          },
-        ],
+        tools: exposedToolDefinitions.map(tool => {
+          let inputSchema = withFormatProperty(tool.inputSchema);
+          if (toolPreviews[tool.name]) inputSchema = withDryRunProperty(inputSchema);
+          if (confirmations && tool.confirm) inputSchema = withConfirmationProperty(inputSchema);
+
+          return {
+            name: tool.name,
+            description: tool.description,
+            annotations: tool.annotations,
+            inputSchema,
+            outputSchema: toolOutputSchema,
+            ...(tool.scopes && { _meta: { 'proxies.sx/requiredScopes': tool.scopes } }),
+          };
+        }),
       };
-    } catch (error) {
-      // Handle API errors
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    });
+
+    // Register tools/call handler
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: rawArgs } = request.params;
+
+      // The output format, dry run and confirmation are handled here, not by the tool
+      const { format: requestedFormat, dry_run: requestedDryRun, confirmation_token: confirmationToken, ...args } = rawArgs || {};
+      if (requestedFormat !== undefined && requestedFormat !== 'text' && requestedFormat !== 'json') {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid arguments for ${name}: format must be "text" or "json"`
+        );
+      }
+      if (requestedDryRun !== undefined && typeof requestedDryRun !== 'boolean') {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid arguments for ${name}: dry_run must be a boolean`
+        );
+      }
+      if (confirmationToken !== undefined && typeof confirmationToken !== 'string') {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid arguments for ${name}: confirmation_token must be a string`
+        );
+      }
+      const format: OutputFormat = requestedFormat ?? defaultOutputFormat;
+
+      // Server-wide dry-run mode cannot be switched off per call.
+      // Read-only tools have no preview and run as usual.
+      const dryRun = config.dryRun || requestedDryRun === true;
+      const preview = dryRun ? toolPreviews[name] : undefined;
+
+      // Get tool handler
+      const handler = preview ?? toolHandlers[name];
+      if (!handler) {
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          `Unknown tool: ${name}`
+        );
+      }
+
+      const definition = toolDefinitionsByName.get(name);
+      const hiddenReason = definition && accessPolicy.hiddenReason(definition);
+      if (hiddenReason) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Tool ${name} is not available: ${hiddenReason}`
+        );
+      }
 
+      // A state-changing tool without a preview must not run for real in a dry run
+      if (dryRun && !preview && definition?.annotations.readOnlyHint === false) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Tool ${name} has no dry-run preview; it was not run`
+        );
+      }
+
+      // Get validation schema
+      const schema = combinedSchemas[name as keyof typeof combinedSchemas];
+      if (!schema) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          `No schema found for tool: ${name}`
+        );
+      }
+
+      // Validate arguments
+      const parseResult = schema.safeParse(args);
+      if (!parseResult.success) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid arguments for ${name}: ${parseResult.error?.message || 'Validation failed'}`
+        );
+      }
+
+      try {
+        // Execute tool (recorded in the audit log when enabled)
+        const toolArgs = parseResult.data as Record<string, unknown>;
+        const needsConfirmation = !preview && !!confirmations && !!definition?.confirm;
+        let ran = !preview;
+        const run = async () => {
+          if (!needsConfirmation) return handler(toolArgs);
+          const confirmed = await runConfirmed(name, definition!, toolArgs, confirmationToken);
+          ran = confirmed.ran;
+          return confirmed.result;
+        };
+        const result = auditLog
+          ? await auditLog.recordToolCall(name, toolArgs, run, !!preview)
+          : await run();
+
+        // Let subscribers know about resources this tool changed
+        if (ran) {
+          resources.afterToolCall(name, toolArgs);
+        }
+
+        const envelope = toOutputEnvelope(name, result);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: renderToolResult(envelope, result, format),
+            },
+          ],
+          structuredContent: { ...envelope },
+        };
+      } catch (error) {
+        // Handle API errors
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const envelope = toErrorEnvelope(name, errorMessage);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: format === 'json' ? JSON.stringify(envelope, null, 2) : `Error: ${errorMessage}`,
+            },
+          ],
+          structuredContent: { ...envelope },
+          isError: true,
+        };
+      }
+    });
+
+    // Register prompts/list handler
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
       return {
-        content: [
-          {
-            type: 'text',
-            text: `Error: ${errorMessage}`,
-          },
-        ],
-        isError: true,
+        prompts: prompts.list(),
       };
+    });
+
+    // Register prompts/get handler
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+
+      try {
+        return prompts.get(name, args || {});
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          error instanceof Error ? error.message : 'Invalid prompt request'
+        );
+      }
+    });
+
+    if (resources.hasResources()) {
+      // Register resources/list handler
+      server.setRequestHandler(ListResourcesRequestSchema, async () => {
+        return {
+          resources: await resources.listResources(),
+        };
+      });
+
+      // Register resources/templates/list handler
+      server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+        return {
+          resourceTemplates: resources.listTemplates(),
+        };
+      });
+
+      // Register resources/read handler
+      server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+        const { uri } = request.params;
+
+        let contents;
+        try {
+          contents = await resources.read(uri);
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to read ${uri}: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+
+        if (!contents) {
+          throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+        }
+
+        return {
+          contents: [{ uri, mimeType: contents.mimeType, text: contents.text }],
+        };
+      });
+
+      // Register resources/subscribe handler
+      server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        const { uri } = request.params;
+
+        if (!subscriptions.has(uri)) {
+          subscriptions.set(uri, resources.subscribe(uri, () => {
+            server.sendResourceUpdated({ uri }).catch(() => undefined);
+          }));
+        }
+
+        return {};
+      });
+
+      // Register resources/unsubscribe handler
+      server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        const { uri } = request.params;
+
+        subscriptions.get(uri)?.();
+        subscriptions.delete(uri);
+
+        return {};
+      });
     }
-  });
 
-  return { server, api, toolHandlers };
+    return server;
+  };
+
+  const server = createSessionServer();
+
+  return { server, api, toolHandlers, createSessionServer };
 }
 
 /**
- * Start the MCP server with stdio transport
+ * Start the MCP server with the configured transport (stdio or HTTP)
  */
 export async function startMcpServer(config: McpServerConfig): Promise<void> {
-  const { server } = await createMcpServer(config);
+  const { server, createSessionServer } = await createMcpServer(config);
 
-  // Create stdio transport
-  const transport = new StdioServerTransport();
+  let shutdown: () => Promise<void>;
 
-  // Connect server to transport
-  await server.connect(transport);
+  if (config.transport === 'http') {
+    // HTTP transport: one server instance per client session
+    await server.close();
+    const http = await startHttpTransport(createSessionServer, {
+      port: config.httpPort ?? DEFAULT_HTTP_PORT,
+      host: config.httpHost,
+      authToken: config.httpAuthToken,
+      sessionIdleTimeoutMs: config.httpSessionIdleMinutes !== undefined ? config.httpSessionIdleMinutes * 60 * 1000 : undefined,
+    });
+    shutdown = () => http.close();
+  } else {
+    // Create stdio transport
+    const transport = new StdioServerTransport();
+
+    // Connect server to transport
+    await server.connect(transport);
+    shutdown = () => server.close();
+  }
 
   // Handle graceful shutdown
   process.on('SIGINT', async () => {
-    await server.close();
+    await shutdown();
     process.exit(0);
   });
 
   process.on('SIGTERM', async () => {
-    await server.close();
+    await shutdown();
     process.exit(0);
   });
 }
 
 /**
- * Get configuration from environment variables
+ * Parse transport CLI flags: --http, --stdio, --port <n>, --host <addr>, --token <secret>
+ * (also accepted in --flag=value form)
+ */
+function parseTransportArgs(argv: string[]): {
+  transport?: 'stdio' | 'http';
+  port?: string;
+  host?: string;
+  token?: string;
+} {
+  const result: { transport?: 'stdio' | 'http'; port?: string; host?: string; token?: string } = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inlineValue] = argv[i].split('=', 2);
+    const takeValue = (): string | undefined => inlineValue ?? argv[++i];
+
+    switch (flag) {
+      case '--http':
+        result.transport = 'http';
+        break;
+      case '--stdio':
+        result.transport = 'stdio';
+        break;
+      case '--port':
+        result.port = takeValue();
+        break;
+      case '--host':
+        result.host = takeValue();
+        break;
+      case '--token':
+        result.token = takeValue();
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse an optional USDC amount from an environment variable
+ */
+function parseUsdcEnv(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return undefined;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid ${name}: expected a non-negative USDC amount, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Parse an optional non-negative number from an environment variable
+ */
+function parseNumberEnv(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return undefined;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid ${name}: expected a non-negative number, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Parse an optional non-negative integer from an environment variable
+ */
+function parseIntegerEnv(name: string, min: number = 0): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return undefined;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`Invalid ${name}: expected an integer of at least ${min}, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Parse an optional boolean ("true"/"1" or "false"/"0") from an environment variable
+ */
+function parseBooleanEnv(name: string): boolean | undefined {
+  const raw = process.env[name]?.trim().toLowerCase();
+  if (raw === undefined || raw === '') {
+    return undefined;
+  }
+
+  if (raw === 'true' || raw === '1') return true;
+  if (raw === 'false' || raw === '0') return false;
+  throw new Error(`Invalid ${name}: expected "true" or "false", got "${process.env[name]}"`);
+}
+
+/**
+ * Parse an optional comma-separated list from an environment variable
+ */
+function parseListEnv(name: string): string[] | undefined {
+  const raw = process.env[name]?.trim();
+  if (!raw) {
+    return undefined;
+  }
+  return raw.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+/**
+ * Settings accepted in the config file
+ */
+type FileConfig = Pick<McpServerConfig, 'readOnly' | 'allowTools' | 'denyTools'>;
+
+/**
+ * Default config file, read when present
+ */
+const DEFAULT_CONFIG_FILE = join(homedir(), '.proxies-sx', 'mcp-config.json');
+
+/**
+ * Load the JSON config file (MCP_CONFIG_FILE, or the default file if it exists)
+ */
+function loadConfigFile(path: string | undefined): FileConfig {
+  const file = path || DEFAULT_CONFIG_FILE;
+  if (!path && !existsSync(file)) {
+    return {};
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid config file ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const isStringList = (value: unknown) => Array.isArray(value) && value.every(entry => typeof entry === 'string');
+  for (const [key, value] of Object.entries(data)) {
+    const valid = key === 'readOnly' ? typeof value === 'boolean'
+      : key === 'allowTools' || key === 'denyTools' ? isStringList(value)
+      : undefined;
+    if (valid === undefined) {
+      throw new Error(`Invalid config file ${file}: unknown setting "${key}" (expected readOnly, allowTools or denyTools)`);
+    }
+    if (!valid) {
+      throw new Error(`Invalid config file ${file}: "${key}" must be ${key === 'readOnly' ? 'true or false' : 'a list of tool or group names'}`);
+    }
+  }
+
+  return data as FileConfig;
+}
+
+/**
+ * Get configuration from environment variables (CLI transport flags take precedence)
  */
-export function getConfigFromEnv(): McpServerConfig {
+export function getConfigFromEnv(argv: string[] = process.argv.slice(2)): McpServerConfig {
   // API key auth
   const apiKey = process.env.PROXIES_API_KEY;
   const email = process.env.PROXIES_EMAIL;
   const password = process.env.PROXIES_PASSWORD;
   const baseUrl = process.env.PROXIES_API_URL;
+  const rawMaxRetries = process.env.PROXIES_API_MAX_RETRIES;
+  const apiMaxRetries = rawMaxRetries ? Number(rawMaxRetries) : undefined;
+  if (apiMaxRetries !== undefined && (!Number.isInteger(apiMaxRetries) || apiMaxRetries < 0)) {
+    throw new Error(`Invalid PROXIES_API_MAX_RETRIES: expected a non-negative integer, got "${rawMaxRetries}"`);
+  }
+  const rawScopes = parseListEnv('PROXIES_API_KEY_SCOPES');
+  const unknownScopes = rawScopes?.filter(scope => !isApiKeyScope(scope)) ?? [];
+  if (unknownScopes.length > 0) {
+    throw new Error(`Invalid PROXIES_API_KEY_SCOPES: unknown scope(s) ${unknownScopes.join(', ')}`);
+  }
+  const apiKeyScopes = rawScopes as ApiKeyScope[] | undefined;
 
   // x402 wallet auth
   const walletPrivateKey = process.env.AGENT_WALLET_KEY;
   const preferredNetwork = process.env.PREFERRED_NETWORK as 'base' | 'solana' | undefined;
   const baseRpcUrl = process.env.BASE_RPC_URL;
+  const solanaWalletPrivateKey = process.env.SOLANA_WALLET_KEY;
+  const solanaRpcUrl = process.env.SOLANA_RPC_URL;
+
+  // x402 spend limits
+  const maxTransactionUSDC = parseUsdcEnv('X402_MAX_TRANSACTION_USDC');
+  const maxDailySpendUSDC = parseUsdcEnv('X402_MAX_DAILY_SPEND_USDC');
+  const maxTotalSpendUSDC = parseUsdcEnv('X402_MAX_TOTAL_SPEND_USDC');
+
+  // Transport
+  const cli = parseTransportArgs(argv);
+  const transportName = cli.transport || process.env.MCP_TRANSPORT || 'stdio';
+  if (transportName !== 'stdio' && transportName !== 'http') {
+    throw new Error(`Invalid MCP_TRANSPORT: expected "stdio" or "http", got "${transportName}"`);
+  }
+  const rawPort = cli.port || process.env.MCP_HTTP_PORT;
+  const httpPort = rawPort ? Number(rawPort) : undefined;
+  if (httpPort !== undefined && (!Number.isInteger(httpPort) || httpPort < 0 || httpPort > 65535)) {
+    throw new Error(`Invalid MCP_HTTP_PORT: expected a port number, got "${rawPort}"`);
+  }
+  const httpHost = cli.host || process.env.MCP_HTTP_HOST;
+  const httpAuthToken = cli.token || process.env.MCP_HTTP_TOKEN;
+  const httpSessionIdleMinutes = parseIntegerEnv('MCP_HTTP_SESSION_IDLE_MINUTES');
+
+  // Tool output format
+  const outputFormat = process.env.MCP_OUTPUT_FORMAT || 'text';
+  if (outputFormat !== 'text' && outputFormat !== 'json') {
+    throw new Error(`Invalid MCP_OUTPUT_FORMAT: expected "text" or "json", got "${outputFormat}"`);
+  }
+
+  // Dry-run mode
+  const dryRun = parseBooleanEnv('MCP_DRY_RUN');
+
+  // Tool access (environment overrides the config file)
+  const fileConfig = loadConfigFile(process.env.MCP_CONFIG_FILE);
+  const readOnly = parseBooleanEnv('MCP_READ_ONLY') ?? fileConfig.readOnly;
+  const allowTools = parseListEnv('MCP_ALLOW_TOOLS') ?? fileConfig.allowTools;
+  const denyTools = parseListEnv('MCP_DENY_TOOLS') ?? fileConfig.denyTools;
+
+  // Confirmations
+  const confirm = parseBooleanEnv('MCP_CONFIRM');
+  const confirmAboveUSDC = parseUsdcEnv('MCP_CONFIRM_ABOVE_USDC');
+
+  // Audit log
+  const auditLog = parseBooleanEnv('MCP_AUDIT_LOG');
+  const auditLogPath = process.env.MCP_AUDIT_LOG_PATH || undefined;
+  const auditLogMaxMB = parseNumberEnv('MCP_AUDIT_LOG_MAX_MB');
+  const auditLogMaxFiles = parseIntegerEnv('MCP_AUDIT_LOG_MAX_FILES', 1);
+
+  // Port health monitor
+  const rawHealthPorts = process.env.PORT_HEALTH_PORTS?.trim();
+  const healthMonitorPorts = !rawHealthPorts
+    ? undefined
+    : rawHealthPorts === 'all'
+      ? 'all' as const
+      : rawHealthPorts.split(',').map(id => id.trim()).filter(Boolean);
+  const healthMonitorIntervalSeconds = parseIntegerEnv('PORT_HEALTH_INTERVAL_SECONDS', 60);
+  const healthMonitorSpeedTestEvery = parseIntegerEnv('PORT_HEALTH_SPEED_TEST_EVERY');
+  const healthMonitorAutoRotateAfter = parseIntegerEnv('PORT_HEALTH_AUTO_ROTATE_AFTER');
+
+  // Alerts
+  const alertIntervalSeconds = parseIntegerEnv('ALERT_CHECK_INTERVAL_SECONDS');
+  if (alertIntervalSeconds !== undefined && alertIntervalSeconds > 0 && alertIntervalSeconds < 60) {
+    throw new Error(`Invalid ALERT_CHECK_INTERVAL_SECONDS: expected 0 (disabled) or at least 60, got "${alertIntervalSeconds}"`);
+  }
+  const alertPortExpiryHours = parseNumberEnv('ALERT_PORT_EXPIRY_HOURS');
+  const alertMinTrafficGB = parseNumberEnv('ALERT_MIN_TRAFFIC_GB');
+  const alertX402ExpiryMinutes = parseNumberEnv('ALERT_X402_EXPIRY_MINUTES');
+  const alertX402MinTrafficPercent = parseNumberEnv('ALERT_X402_MIN_TRAFFIC_PERCENT');
+  const alertWebhookUrl = process.env.ALERT_WEBHOOK_URL || undefined;
+  if (alertWebhookUrl && !/^https?:\/\//.test(alertWebhookUrl)) {
+    throw new Error(`Invalid ALERT_WEBHOOK_URL: expected an http(s) URL, got "${alertWebhookUrl}"`);
+  }
 
   // Validate that we have at least one form of authentication
   const hasApiKey = !!(apiKey || (email && password));
-  const hasWallet = !!walletPrivateKey;
+  const hasWallet = !!(walletPrivateKey || solanaWalletPrivateKey);
 
   if (!hasApiKey && !hasWallet) {
     throw new Error(
@@ -288,7 +1118,8 @@ export function getConfigFromEnv(): McpServerConfig {
       '    - PROXIES_API_KEY: Your API key from https://client.proxies.sx/account\n' +
       '    - Or PROXIES_EMAIL and PROXIES_PASSWORD: Your login credentials\n' +
       '  Mode 2 (x402 Wallet - No API key needed):\n' +
-      '    - AGENT_WALLET_KEY: Your wallet private key for USDC payments\n' +
+      '    - AGENT_WALLET_KEY: Your wallet private key for USDC payments (EVM hex for Base, base58 for Solana)\n' +
+      '    - Optional: SOLANA_WALLET_KEY to pay on Solana alongside a Base key\n' +
       '    - Optional: PREFERRED_NETWORK=base or solana (default: base)'
     );
   }
@@ -298,8 +1129,41 @@ export function getConfigFromEnv(): McpServerConfig {
     email,
     password,
     baseUrl,
+    apiMaxRetries,
+    apiKeyScopes,
     walletPrivateKey,
     preferredNetwork,
     baseRpcUrl,
+    solanaWalletPrivateKey,
+    solanaRpcUrl,
+    maxTransactionUSDC,
+    maxDailySpendUSDC,
+    maxTotalSpendUSDC,
+    transport: transportName,
+    httpPort,
+    httpHost,
+    httpAuthToken,
+    httpSessionIdleMinutes,
+    outputFormat,
+    dryRun,
+    readOnly,
+    allowTools,
+    denyTools,
+    confirm,
+    confirmAboveUSDC,
+    auditLog,
+    auditLogPath,
+    auditLogMaxMB,
+    auditLogMaxFiles,
+    healthMonitorPorts,
+    healthMonitorIntervalSeconds,
+    healthMonitorSpeedTestEvery,
+    healthMonitorAutoRotateAfter,
+    alertIntervalSeconds,
+    alertPortExpiryHours,
+    alertMinTrafficGB,
+    alertX402ExpiryMinutes,
+    alertX402MinTrafficPercent,
+    alertWebhookUrl,
   };
 }
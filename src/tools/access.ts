@@ -0,0 +1,134 @@
+/**
+ * Tool Access Policy
+ * Decides which tools a server exposes: read-only mode, allow-list,
+ * deny-list and the scopes of the API key. List entries are tool names or
+ * tool group names.
+ */
+
+import type { ApiKeyScope } from '../api/types.js';
+import { x402ToolDefinitions } from '../x402/tools.js';
+import type { ToolDefinition } from './define.js';
+import { accountToolDefinitions } from './account.js';
+import { apiKeyToolDefinitions } from './api-keys.js';
+import { portToolDefinitions } from './ports.js';
+import { statusToolDefinitions } from './status.js';
+import { rotationToolDefinitions } from './rotation.js';
+import { bulkToolDefinitions } from './bulk.js';
+import { healthToolDefinitions } from './health.js';
+import { billingToolDefinitions } from './billing.js';
+import { referenceToolDefinitions } from './reference.js';
+import { utilityToolDefinitions } from './utilities.js';
+import { paymentToolDefinitions } from './payments.js';
+import { supportToolDefinitions } from './support.js';
+import { x402SessionToolDefinitions } from './x402-session.js';
+import { plannerToolDefinitions } from './planner.js';
+import { auditToolDefinitions } from './audit.js';
+
+/**
+ * Tool groups usable in allow- and deny-lists
+ */
+export const toolGroups = {
+  account: [...accountToolDefinitions, ...apiKeyToolDefinitions],
+  ports: [...portToolDefinitions, ...statusToolDefinitions, ...rotationToolDefinitions, ...bulkToolDefinitions, ...healthToolDefinitions],
+  billing: [...billingToolDefinitions, ...paymentToolDefinitions],
+  reference: [...referenceToolDefinitions, ...utilityToolDefinitions],
+  support: supportToolDefinitions,
+  x402: [...x402ToolDefinitions, ...x402SessionToolDefinitions],
+  planner: plannerToolDefinitions,
+  audit: auditToolDefinitions,
+} satisfies Record<string, ToolDefinition[]>;
+
+export type ToolGroup = keyof typeof toolGroups;
+
+export interface ToolAccessConfig {
+  /** Hide every tool that changes state or spends money */
+  readOnly?: boolean;
+  /** Expose only these tools or groups */
+  allow?: string[];
+  /** Never expose these tools or groups */
+  deny?: string[];
+  /** Scopes of the API key; tools needing others are hidden (undefined: not known, nothing hidden) */
+  scopes?: ApiKeyScope[];
+}
+
+/**
+ * Expand tool and group names to tool names, rejecting unknown entries
+ */
+function expandEntries(entries: string[], setting: string): Set<string> {
+  const known = new Set(Object.values(toolGroups).flat().map(t => t.name));
+  const names = new Set<string>();
+
+  for (const entry of entries) {
+    const group = toolGroups[entry as ToolGroup];
+    if (group) {
+      group.forEach(t => names.add(t.name));
+    } else if (known.has(entry)) {
+      names.add(entry);
+    } else {
+      throw new Error(
+        `Unknown tool or group in ${setting}: "${entry}". Groups: ${Object.keys(toolGroups).join(', ')}`
+      );
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Tool access policy
+ */
+export class ToolAccessPolicy {
+  private readonly allowed?: Set<string>;
+  private readonly denied: Set<string>;
+
+  constructor(private readonly config: ToolAccessConfig = {}) {
+    this.allowed = config.allow?.length ? expandEntries(config.allow, 'the tool allow-list') : undefined;
+    this.denied = expandEntries(config.deny ?? [], 'the tool deny-list');
+  }
+
+  /**
+   * Why a tool is hidden, or undefined if it is exposed
+   */
+  hiddenReason(tool: ToolDefinition): string | undefined {
+    if (this.config.readOnly && !tool.annotations.readOnlyHint) return 'the server is in read-only mode';
+    if (this.denied.has(tool.name)) return `${tool.name} is on the deny-list`;
+    if (this.allowed && !this.allowed.has(tool.name)) return `${tool.name} is not on the allow-list`;
+
+    const missing = this.missingScopes(tool);
+    if (missing.length > 0) return `the API key lacks the ${missing.join(', ')} scope${missing.length === 1 ? '' : 's'}`;
+    return undefined;
+  }
+
+  /**
+   * Scopes the tool needs that the API key does not have
+   */
+  missingScopes(tool: ToolDefinition): ApiKeyScope[] {
+    const scopes = this.config.scopes;
+    if (!scopes || !tool.scopes || scopes.includes('admin:full')) return [];
+    return tool.scopes.filter(scope => !scopes.includes(scope));
+  }
+
+  isExposed(tool: ToolDefinition): boolean {
+    return this.hiddenReason(tool) === undefined;
+  }
+
+  /**
+   * One-line description for the startup log, or undefined when every tool is exposed
+   */
+  describe(): string | undefined {
+    const parts = [
+      this.config.readOnly && 'read-only',
+      this.allowed && `allow: ${this.config.allow!.join(', ')}`,
+      this.denied.size > 0 && `deny: ${this.config.deny!.join(', ')}`,
+      this.config.scopes && `API key scopes: ${this.config.scopes.join(', ') || 'none'}`,
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join('; ') : undefined;
+  }
+}
+
+/**
+ * Create a tool access policy
+ */
+export function createToolAccessPolicy(config?: ToolAccessConfig): ToolAccessPolicy {
+  return new ToolAccessPolicy(config);
+}
@@ -5,47 +5,87 @@
 
 import { z } from 'zod';
 import type { ProxiesApi } from '../api/index.js';
-import { formatAccountSummary, formatGB } from '../utils/formatting.js';
+import type { Notification, NotificationCategory } from '../api/types.js';
+import { formatAccountSummary, formatGB, formatNotification, formatNotificationEntry } from '../utils/formatting.js';
+import { toolPreview, toolResult, type ToolResult } from '../utils/output.js';
+import { defineTools, toToolDefinitions, toToolSchemas } from './define.js';
+import { cursorParam, decodeCursor, encodeCursor } from './pagination.js';
 
 /**
- * Tool definitions for account management
+ * Upper bound on notifications scanned when filtering by category client-side
+ * (the API only filters by read status)
+ */
+const CATEGORY_SCAN_LIMIT = 1000;
+
+/**
+ * Account tools (description and input schema)
  */
-export const accountToolDefinitions = [
-  {
-    name: 'get_account_summary',
+export const accountTools = defineTools({
+  get_account_summary: {
     description: 'Get account summary including balance, email, and resource usage (slots and traffic for shared/private categories)',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {},
-      required: [] as string[],
-    },
+    schema: z.object({}),
+    scopes: ['account:read'],
   },
-  {
-    name: 'get_account_usage',
+  get_account_usage: {
     description: 'Get detailed traffic usage breakdown by category (shared vs private)',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {},
-      required: [] as string[],
-    },
+    schema: z.object({}),
+    scopes: ['traffic:read'],
+  },
+  list_notifications: {
+    description: 'List account notifications (port suspensions, billing warnings, account and system notices). Unread entries are marked with *.',
+    schema: z.object({
+      category: z.enum(['port', 'billing', 'account', 'system']).optional().describe('Filter by notification category'),
+      unreadOnly: z.boolean().optional().describe('Only return unread notifications (default: false)'),
+      limit: z.number().min(1).max(100).optional().describe('Maximum number of notifications to return (default: 20)'),
+      offset: z.number().min(0).optional().describe('Number of notifications to skip (default: 0, ignored with cursor)'),
+      cursor: cursorParam,
+    }),
+    scopes: ['account:read'],
+  },
+  read_notification: {
+    description: 'Show the full message of a notification and mark it as read',
+    schema: z.object({
+      notificationId: z.string().describe('The notification ID (from list_notifications)'),
+    }),
+    scopes: ['account:write'],
+    mutating: true,
   },
-] as const;
+  mark_all_notifications_read: {
+    description: 'Mark every unread notification as read',
+    schema: z.object({}),
+    scopes: ['account:write'],
+    mutating: true,
+  },
+  dismiss_notification: {
+    description: 'Delete a notification so it no longer appears in the list',
+    schema: z.object({
+      notificationId: z.string().describe('The notification ID to dismiss'),
+    }),
+    scopes: ['account:write'],
+    mutating: true,
+  },
+});
+
+/**
+ * Tool definitions for account management
+ */
+export const accountToolDefinitions = toToolDefinitions(accountTools);
 
 /**
  * Account tools handler
  */
 export function createAccountToolHandlers(api: ProxiesApi) {
   return {
-    async get_account_summary(): Promise<string> {
+    async get_account_summary(): Promise<ToolResult> {
       try {
         const account = await api.account.getSummary();
-        return formatAccountSummary(account);
+        return toolResult(formatAccountSummary(account), { account });
       } catch (error) {
         throw new Error(`Failed to get account summary: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     },
 
-    async get_account_usage(): Promise<string> {
+    async get_account_usage(): Promise<ToolResult> {
       try {
         const breakdown = await api.account.getTrafficBreakdown();
 
@@ -65,18 +105,141 @@ export function createAccountToolHandlers(api: ProxiesApi) {
           `  Balance: $${breakdown.balance.toFixed(2)} ${breakdown.currency}`,
         ];
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), { breakdown });
       } catch (error) {
         throw new Error(`Failed to get traffic breakdown: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     },
+
+    async list_notifications(args: {
+      category?: NotificationCategory;
+      unreadOnly?: boolean;
+      limit?: number;
+      offset?: number;
+      cursor?: string;
+    }): Promise<ToolResult> {
+      try {
+        const limit = args.limit ?? 20;
+        const query = { category: args.category, unreadOnly: args.unreadOnly };
+        const offset = args.cursor ? decodeCursor(args.cursor, query) : args.offset ?? 0;
+
+        let notifications: Notification[];
+        let total: number;
+        let scanned: number | undefined;
+
+        if (args.category) {
+          // Offsets and totals refer to the filtered list, so scan from the start
+          const iterator = api.account.iterateNotifications({ unreadOnly: args.unreadOnly });
+          const all = await iterator.take(CATEGORY_SCAN_LIMIT);
+          const matching = all.filter(n => n.category === args.category);
+          notifications = matching.slice(offset, offset + limit);
+          total = matching.length;
+          scanned = all.length < (iterator.total ?? all.length) ? all.length : undefined;
+        } else {
+          const iterator = api.account.iterateNotifications({ unreadOnly: args.unreadOnly }, { offset });
+          notifications = await iterator.take(limit);
+          total = iterator.total ?? offset + notifications.length;
+        }
+
+        const nextOffset = offset + notifications.length;
+        const nextCursor = notifications.length > 0 && nextOffset < total ? encodeCursor(nextOffset, query) : undefined;
+
+        if (notifications.length === 0) {
+          return toolResult(args.unreadOnly ? 'No unread notifications.' : 'No notifications found.', { total, notifications, nextCursor: null });
+        }
+
+        const unreadCount = notifications.filter(n => !n.isRead).length;
+        const header = `Found ${total} ${args.category ? `${args.category} ` : ''}notifications (showing ${offset + 1}-${nextOffset}, ${unreadCount} unread):`;
+
+        const lines = [header, '', ...notifications.map(formatNotificationEntry)];
+        if (scanned !== undefined) {
+          lines.push('', `Only the ${scanned} most recent notifications were scanned for this category.`);
+        }
+        if (nextCursor) {
+          lines.push('', `More notifications available - call list_notifications again with cursor="${nextCursor}".`);
+        }
+
+        return toolResult(lines.join('\n'), { total, unreadCount, notifications, nextCursor: nextCursor ?? null });
+      } catch (error) {
+        throw new Error(`Failed to list notifications: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    async read_notification(args: { notificationId: string }): Promise<ToolResult> {
+      try {
+        const notification = await api.account.markNotificationRead(args.notificationId);
+        return toolResult(formatNotification(notification), { notification });
+      } catch (error) {
+        throw new Error(`Failed to read notification: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    async mark_all_notifications_read(): Promise<ToolResult> {
+      try {
+        const result = await api.account.markAllNotificationsRead();
+        return toolResult(`Marked ${result.count} notification${result.count === 1 ? '' : 's'} as read.`, { markedRead: result.count });
+      } catch (error) {
+        throw new Error(`Failed to mark notifications as read: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    async dismiss_notification(args: { notificationId: string }): Promise<ToolResult> {
+      try {
+        await api.account.deleteNotification(args.notificationId);
+        return toolResult(`Notification ${args.notificationId} dismissed.`, { notificationId: args.notificationId, dismissed: true });
+      } catch (error) {
+        throw new Error(`Failed to dismiss notification: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+  };
+}
+
+/**
+ * Dry-run previews for the account tools that change state
+ */
+export function createAccountToolPreviews(api: ProxiesApi) {
+  const findNotification = async (notificationId: string): Promise<Notification> => {
+    for await (const notification of api.account.iterateNotifications()) {
+      if (notification._id === notificationId) return notification;
+    }
+    throw new Error(`Notification ${notificationId} not found`);
+  };
+
+  return {
+    async read_notification(args: { notificationId: string }): Promise<ToolResult> {
+      try {
+        const notification = await findNotification(args.notificationId);
+        const effect = notification.isRead ? 'It is already read.' : 'Reading it would mark it as read.';
+        return toolPreview(`${effect}\n\n${formatNotification(notification)}`, { action: 'read_notification', notification });
+      } catch (error) {
+        throw new Error(`Failed to read notification: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    async mark_all_notifications_read(): Promise<ToolResult> {
+      try {
+        const unread = await api.account.iterateNotifications({ unreadOnly: true }).take(CATEGORY_SCAN_LIMIT);
+        return toolPreview(
+          `Would mark ${unread.length} unread notification${unread.length === 1 ? '' : 's'} as read.`,
+          { action: 'mark_all_notifications_read', unread: unread.length }
+        );
+      } catch (error) {
+        throw new Error(`Failed to count unread notifications: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    async dismiss_notification(args: { notificationId: string }): Promise<ToolResult> {
+      try {
+        const notification = await findNotification(args.notificationId);
+        return toolPreview(`Would permanently dismiss this notification:\n\n${formatNotification(notification)}`, { action: 'dismiss_notification', notification });
+      } catch (error) {
+        throw new Error(`Failed to dismiss notification: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
   };
 }
 
 /**
  * Zod schemas for validation
  */
-export const accountSchemas = {
-  get_account_summary: z.object({}),
-  get_account_usage: z.object({}),
-};
+export const accountSchemas = toToolSchemas(accountTools);
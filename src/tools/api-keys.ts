@@ -0,0 +1,237 @@
+/**
+ * API Key Tools
+ * MCP tools for listing, creating and revoking the account's API keys.
+ * A new key's secret is returned once, in the create_api_key result, and is
+ * never stored or logged by the server.
+ */
+
+import { z } from 'zod';
+import { API_KEY_SCOPES, type ApiKey, type ApiKeyScope, type ProxiesApi } from '../api/index.js';
+import { formatRelativeTime } from '../utils/formatting.js';
+import { toolFailure, toolPreview, toolResult, type ToolResult } from '../utils/output.js';
+import { defineTools, toToolDefinitions, toToolSchemas } from './define.js';
+
+/**
+ * Expiry of new keys when none is given
+ */
+const DEFAULT_EXPIRES_IN_DAYS = 30;
+
+const scopeSchema = z.enum(API_KEY_SCOPES as [ApiKeyScope, ...ApiKeyScope[]]);
+
+/**
+ * API key tools (description and input schema)
+ */
+export const apiKeyTools = defineTools({
+  list_api_keys: {
+    description: 'List the API keys of the account with their scopes, expiry and last use. Only key prefixes are shown, never the secrets.',
+    schema: z.object({
+      includeRevoked: z.boolean().optional().describe('Include revoked and expired keys (default: false)'),
+    }),
+    scopes: ['account:read'],
+  },
+  create_api_key: {
+    description: 'Create a narrowly scoped API key with an expiry, e.g. a ports:read-only key for a sub-agent. The secret is shown once in the result and cannot be retrieved again. The key cannot get scopes the server\'s own key lacks.',
+    schema: z.object({
+      name: z.string().min(1).max(100).describe('Name that identifies the key and its holder'),
+      scopes: z.array(scopeSchema).min(1).describe('Scopes to grant, as few as the holder needs'),
+      expiresInDays: z.number().int().min(1).max(365).optional().describe(`Days until the key expires (default: ${DEFAULT_EXPIRES_IN_DAYS})`),
+    }),
+    scopes: ['account:write'],
+    mutating: true,
+    confirm: 'always',
+  },
+  revoke_api_key: {
+    description: 'Revoke an API key by ID. Requests made with it are rejected from then on. The key this server uses cannot be revoked here.',
+    schema: z.object({
+      keyId: z.string().min(1).describe('The API key ID (from list_api_keys)'),
+    }),
+    scopes: ['account:write'],
+    mutating: true,
+    confirm: 'always',
+  },
+});
+
+/**
+ * Tool definitions for API keys
+ */
+export const apiKeyToolDefinitions = toToolDefinitions(apiKeyTools);
+
+/**
+ * Whether a key can still be used
+ */
+function isUsable(key: ApiKey): boolean {
+  return key.isActive && (!key.expiresAt || new Date(key.expiresAt).getTime() > Date.now());
+}
+
+/**
+ * One line per key: name, prefix, scopes, expiry and last use
+ */
+function formatApiKey(key: ApiKey): string {
+  const status = !key.isActive ? 'revoked' : isUsable(key) ? 'active' : 'expired';
+  const expiry = key.expiresAt ? `expires ${key.expiresAt}` : 'no expiry';
+  const lastUsed = key.lastUsedAt ? `last used ${formatRelativeTime(key.lastUsedAt)}` : 'never used';
+  return `${key.name} (${key.keyPrefix}…, ${key._id}) [${status}]\n  Scopes: ${key.scopes.join(', ')}\n  ${expiry}, ${lastUsed}`;
+}
+
+/**
+ * The key this server authenticates with, or undefined if the API cannot tell
+ */
+async function getCurrentKey(api: ProxiesApi): Promise<ApiKey | undefined> {
+  try {
+    return await api.apiKeys.getCurrent();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Why the server's key cannot grant these scopes, if it cannot.
+ * Unknown scopes of the server's key cannot be checked, so nothing is granted.
+ */
+async function ungrantableScopes(
+  api: ProxiesApi,
+  scopes: ApiKeyScope[]
+): Promise<{ error: string; message: string; scopes: ApiKeyScope[] } | undefined> {
+  const current = await getCurrentKey(api);
+  if (!current) {
+    return {
+      error: 'scopes_unverifiable',
+      message: "the scopes of the server's key could not be read, so the new key's scopes cannot be checked",
+      scopes,
+    };
+  }
+  if (current.scopes.includes('admin:full')) return undefined;
+
+  const beyond = scopes.filter(scope => !current.scopes.includes(scope));
+  if (beyond.length === 0) return undefined;
+  return {
+    error: 'scopes_not_grantable',
+    message: `the server's key lacks ${beyond.join(', ')}, so it cannot grant ${beyond.length === 1 ? 'it' : 'them'}`,
+    scopes: beyond,
+  };
+}
+
+/**
+ * Find a key of the account by ID
+ */
+async function findKey(api: ProxiesApi, keyId: string): Promise<ApiKey> {
+  const key = (await api.apiKeys.list()).find(k => k._id === keyId);
+  if (!key) {
+    throw new Error(`API key ${keyId} not found. Use list_api_keys to see the account's keys.`);
+  }
+  return key;
+}
+
+/**
+ * Check a revocation before it is made
+ */
+async function checkRevocation(api: ProxiesApi, keyId: string): Promise<ApiKey> {
+  const current = await getCurrentKey(api);
+  if (current?._id === keyId) {
+    throw new Error('This is the key the server uses; revoking it would cut off every tool. Revoke it from client.proxies.sx instead.');
+  }
+  return findKey(api, keyId);
+}
+
+/**
+ * API key tools handler
+ */
+export function createApiKeyToolHandlers(api: ProxiesApi) {
+  return {
+    async list_api_keys(args: { includeRevoked?: boolean }): Promise<ToolResult> {
+      try {
+        const all = await api.apiKeys.list();
+        const keys = args.includeRevoked ? all : all.filter(isUsable);
+        if (keys.length === 0) {
+          return toolResult(args.includeRevoked ? 'No API keys found.' : 'No active API keys found.', { keys });
+        }
+
+        return toolResult(
+          [`API keys (${keys.length}):`, '', ...keys.map(formatApiKey)].join('\n'),
+          { keys }
+        );
+      } catch (error) {
+        throw new Error(`Failed to list API keys: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    async create_api_key(args: { name: string; scopes: ApiKeyScope[]; expiresInDays?: number }): Promise<ToolResult> {
+      try {
+        const scopes = [...new Set(args.scopes)];
+        const ungrantable = await ungrantableScopes(api, scopes);
+        if (ungrantable) {
+          throw new Error(ungrantable.message);
+        }
+
+        const expiresInDays = args.expiresInDays ?? DEFAULT_EXPIRES_IN_DAYS;
+        const created = await api.apiKeys.create({
+          name: args.name,
+          scopes,
+          expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+        });
+
+        const lines = [
+          `API key created: ${created.name} (${created._id})`,
+          `Scopes: ${created.scopes.join(', ')}`,
+          `Expires: ${created.expiresAt ?? 'never'}`,
+          '',
+          `Key: ${created.key}`,
+          '',
+          'This is the only time the key is shown. Hand it to its holder now; it cannot be retrieved again.',
+        ];
+
+        return toolResult(lines.join('\n'), { apiKey: created });
+      } catch (error) {
+        throw new Error(`Failed to create API key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    async revoke_api_key(args: { keyId: string }): Promise<ToolResult> {
+      try {
+        const key = await checkRevocation(api, args.keyId);
+        await api.apiKeys.revoke(args.keyId);
+        return toolResult(`API key revoked: ${key.name} (${key.keyPrefix}…). Requests made with it are now rejected.`, { apiKey: { ...key, isActive: false } });
+      } catch (error) {
+        throw new Error(`Failed to revoke API key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+  };
+}
+
+/**
+ * Dry-run previews for the API key tools that change state
+ */
+export function createApiKeyToolPreviews(api: ProxiesApi) {
+  return {
+    async create_api_key(args: { name: string; scopes: ApiKeyScope[]; expiresInDays?: number }): Promise<ToolResult> {
+      const scopes = [...new Set(args.scopes)];
+      const expiresInDays = args.expiresInDays ?? DEFAULT_EXPIRES_IN_DAYS;
+      const ungrantable = await ungrantableScopes(api, scopes);
+      if (ungrantable) {
+        return toolFailure(
+          `Would not create API key: ${ungrantable.message}.`,
+          { action: 'create_api_key', error: ungrantable.error, scopes: ungrantable.scopes }
+        );
+      }
+
+      return toolPreview(
+        `Would create API key "${args.name}" with scopes ${scopes.join(', ')}, expiring in ${expiresInDays} day${expiresInDays === 1 ? '' : 's'}.`,
+        { action: 'create_api_key', name: args.name, scopes, expiresInDays }
+      );
+    },
+
+    async revoke_api_key(args: { keyId: string }): Promise<ToolResult> {
+      try {
+        const key = await checkRevocation(api, args.keyId);
+        return toolPreview(`Would revoke this API key; requests made with it would be rejected:\n\n${formatApiKey(key)}`, { action: 'revoke_api_key', apiKey: key });
+      } catch (error) {
+        throw new Error(`Failed to revoke API key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+  };
+}
+
+/**
+ * Zod schemas for validation
+ */
+export const apiKeySchemas = toToolSchemas(apiKeyTools);
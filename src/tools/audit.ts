@@ -0,0 +1,90 @@
+/**
+ * Audit Log Tools
+ * MCP tool for querying the local record of tool calls and payments
+ */
+
+import { z } from 'zod';
+import type { AuditEntry, AuditLog, AuditOutcome } from '../audit/index.js';
+import { toolResult, type ToolResult } from '../utils/output.js';
+import { defineTools, toToolDefinitions, toToolSchemas } from './define.js';
+
+/**
+ * Format audit entries as a table, newest first
+ */
+function formatAuditTable(entries: AuditEntry[]): string {
+  const headers = ['Time', 'Tool', 'Outcome', 'Duration', 'Endpoints', 'Transactions'];
+  const rows = entries.map(e => [
+    e.at,
+    e.tool ? `${e.tool}${e.dryRun ? ' (dry run)' : ''}` : `[${e.kind}]`,
+    e.outcome,
+    `${e.durationMs}ms`,
+    String(e.endpoints.length + (e.endpointsOmitted ?? 0)),
+    e.transactions.map(t => `${t.hash.slice(0, 10)}… $${t.amountUSDC.toFixed(2)}`).join(', ') || '-',
+  ]);
+
+  const widths = headers.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  const headerRow = headers.map((h, i) => h.padEnd(widths[i])).join(' | ');
+  const separator = widths.map(w => '-'.repeat(w)).join('-+-');
+  const dataRows = rows.map(row => row.map((cell, i) => cell.padEnd(widths[i])).join(' | '));
+
+  return [headerRow, separator, ...dataRows].join('\n');
+}
+
+/**
+ * Audit log tools (description and input schema)
+ */
+export const auditTools = defineTools({
+  get_audit_log: {
+    description: 'Query the local audit log of tool calls and USDC payments, newest first. Each entry has the tool, redacted arguments, outcome, duration, API endpoints called and on-chain transaction hashes.',
+    schema: z.object({
+      since: z.string().datetime({ offset: true }).optional().describe('Only entries at or after this time (ISO 8601)'),
+      until: z.string().datetime({ offset: true }).optional().describe('Only entries at or before this time (ISO 8601)'),
+      tool: z.string().min(1).optional().describe('Only calls of this tool'),
+      outcome: z.enum(['ok', 'failed', 'error']).optional().describe('ok = succeeded, failed = the tool reported a failure, error = the call threw'),
+      limit: z.number().int().min(1).max(500).optional().describe('Maximum entries to return (default: 50)'),
+    }),
+  },
+});
+
+/**
+ * Tool definitions for the audit log
+ */
+export const auditToolDefinitions = toToolDefinitions(auditTools);
+
+/**
+ * Audit log tools handler
+ */
+export function createAuditToolHandlers(log: AuditLog) {
+  return {
+    async get_audit_log(args: {
+      since?: string;
+      until?: string;
+      tool?: string;
+      outcome?: AuditOutcome;
+      limit?: number;
+    }): Promise<ToolResult> {
+      const entries = log.query(args);
+      if (entries.length === 0) {
+        return toolResult(`No audit log entries match. Log file: ${log.getPath()}`, { entries, path: log.getPath() });
+      }
+
+      const payments = entries.flatMap(e => e.transactions).filter(t => t.amountUSDC > 0);
+      const lines = [
+        `Audit log: ${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}${args.limit && entries.length === args.limit ? ' (limit reached)' : ''}`,
+        '',
+        formatAuditTable(entries),
+      ];
+      if (payments.length > 0) {
+        const total = payments.reduce((sum, t) => sum + t.amountUSDC, 0);
+        lines.push('', `Payments: ${payments.length}, $${total.toFixed(2)} USDC`, ...payments.map(t => `  ${t.hash} (${t.network}) ${t.purpose}`));
+      }
+
+      return toolResult(lines.join('\n'), { entries, path: log.getPath() });
+    },
+  };
+}
+
+/**
+ * Zod schemas for validation
+ */
+export const auditSchemas = toToolSchemas(auditTools);
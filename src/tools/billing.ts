@@ -11,75 +11,209 @@
 
 import { z } from 'zod';
 import type { ProxiesApi } from '../api/index.js';
-import { formatCurrency, formatGB } from '../utils/formatting.js';
+import type { Purchase, PurchaseType, PurchaseCategory, PaymentStatus } from '../api/types.js';
+import { formatCurrency, formatGB, formatPurchaseEntry, formatPurchaseReceipt } from '../utils/formatting.js';
+import { toolPreview, toolResult, type ToolResult } from '../utils/output.js';
+import { defineTools, toToolDefinitions, toToolSchemas } from './define.js';
+import { cursorParam, decodeCursor, encodeCursor } from './pagination.js';
 
 /**
- * Tool definitions for billing
+ * Purchase history filters shared by list_purchases and export_purchases
+ */
+interface PurchaseFilters {
+  type?: PurchaseType;
+  category?: PurchaseCategory;
+  status?: PaymentStatus;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Upper bound on purchases scanned for one request
+ */
+const MAX_PURCHASES_SCANNED = 5000;
+
+/**
+ * Max rows in one export
+ */
+const MAX_EXPORT_ROWS = 1000;
+
+/**
+ * Shown when a purchase resent the idempotency key of an identical earlier purchase whose outcome was unknown
+ */
+const REPLAYED_PURCHASE_NOTE =
+  'Replayed earlier purchase: an identical purchase with an unknown outcome was retried with the same idempotency key. ' +
+  'If that purchase had gone through, this is its result and nothing new was bought - purchase again to buy more.';
+
+/**
+ * Parse a date filter. Date-only `to` values include the whole day.
+ */
+function parseDateBound(value: string, endOfDay: boolean): number {
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const time = new Date(isDateOnly ? `${value}T00:00:00.000Z` : value).getTime();
+  return isDateOnly && endOfDay ? time + 24 * 60 * 60 * 1000 - 1 : time;
+}
+
+/**
+ * Collect purchases matching the filters.
+ * type and category are filtered by the API; status and date range are applied here.
+ * Stops once more than `offset + limit` matches are found or history is exhausted.
+ */
+async function collectPurchases(
+  api: ProxiesApi,
+  filters: PurchaseFilters,
+  offset: number,
+  limit: number
+): Promise<{ purchases: Purchase[]; matched: number; complete: boolean }> {
+  const from = filters.from ? parseDateBound(filters.from, false) : -Infinity;
+  const to = filters.to ? parseDateBound(filters.to, true) : Infinity;
+
+  const matches: Purchase[] = [];
+  let scanned = 0;
+  let complete = true;
+
+  for await (const purchase of api.billing.iteratePurchases({ type: filters.type, category: filters.category })) {
+    if (scanned >= MAX_PURCHASES_SCANNED || matches.length > offset + limit) {
+      complete = false;
+      break;
+    }
+    scanned++;
+
+    const createdAt = new Date(purchase.createdAt).getTime();
+    if (filters.status && purchase.paymentStatus !== filters.status) continue;
+    if (createdAt < from || createdAt > to) continue;
+    matches.push(purchase);
+  }
+
+  return {
+    purchases: matches.slice(offset, offset + limit),
+    matched: matches.length,
+    complete,
+  };
+}
+
+/**
+ * Describe active purchase filters for output headers
  */
-export const billingToolDefinitions = [
-  {
-    name: 'get_pricing',
+function describeFilters(filters: PurchaseFilters): string {
+  const parts = [
+    filters.type && `type=${filters.type}`,
+    filters.category && `category=${filters.category}`,
+    filters.status && `status=${filters.status}`,
+    filters.from && `from=${filters.from}`,
+    filters.to && `to=${filters.to}`,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? ` (${parts.join(', ')})` : '';
+}
+
+/**
+ * Escape a CSV field
+ */
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize purchases as CSV
+ */
+function purchasesToCsv(purchases: Purchase[]): string {
+  const columns: Array<keyof Purchase> = [
+    '_id', 'createdAt', 'completedAt', 'type', 'category', 'quantity',
+    'pricePerUnit', 'totalPrice', 'paymentMethod', 'paymentStatus',
+  ];
+
+  const rows = purchases.map(p => columns.map(c => csvField(p[c] as string | number | undefined)).join(','));
+  return [columns.join(','), ...rows].join('\n');
+}
+
+/**
+ * Purchase history filter validation
+ */
+const dateFilter = z.string().refine(v => !isNaN(new Date(v).getTime()), {
+  message: 'Expected a date (YYYY-MM-DD or ISO 8601)',
+});
+
+const purchaseFilterSchema = z.object({
+  type: z.enum(['slots', 'traffic']).optional().describe('Filter by purchase type'),
+  category: z.enum(['shared', 'private']).optional().describe('Filter by category'),
+  status: z.enum(['pending', 'completed', 'failed', 'refunded']).optional().describe('Filter by payment status'),
+  from: dateFilter.optional().describe('Only purchases on or after this date (YYYY-MM-DD or ISO 8601)'),
+  to: dateFilter.optional().describe('Only purchases on or before this date (YYYY-MM-DD includes the whole day, or ISO 8601)'),
+});
+
+/**
+ * Billing tools (description and input schema)
+ */
+export const billingTools = defineTools({
+  get_pricing: {
     description: 'Get current pricing including base prices ($4/GB shared, $8/GB private), volume discounts (10-40%), slot tiers, and your current tier progression. Slots are FREE and unlock based on cumulative GB purchases.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {},
-      required: [] as string[],
-    },
+    schema: z.object({}),
+    scopes: ['billing:read'],
   },
-  {
-    name: 'calculate_price',
+  calculate_price: {
     description: 'Calculate the price for a specific GB amount with volume discounts applied',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        amount: {
-          type: 'number',
-          description: 'Amount of traffic in GB to calculate price for',
-        },
-        isPrivate: {
-          type: 'boolean',
-          description: 'true for private traffic ($8/GB base), false for shared ($4/GB base)',
-        },
-      },
-      required: ['amount'],
-    },
+    schema: z.object({
+      amount: z.number().min(1).describe('Amount of traffic in GB to calculate price for'),
+      isPrivate: z.boolean().optional().describe('true for private traffic ($8/GB base), false for shared ($4/GB base)'),
+    }),
+    scopes: ['billing:read'],
   },
-  {
-    name: 'purchase_shared_traffic',
+  purchase_shared_traffic: {
     description: 'Purchase shared traffic in GB using account balance. Buying traffic also unlocks more FREE slot capacity based on tier thresholds.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        quantityGB: {
-          type: 'number',
-          description: 'Amount of traffic in GB to purchase',
-        },
-      },
-      required: ['quantityGB'],
-    },
+    schema: z.object({
+      quantityGB: z.number().min(1).describe('Amount of traffic in GB to purchase'),
+    }),
+    scopes: ['billing:read', 'billing:write'],
+    mutating: true,
+    confirm: 'always',
   },
-  {
-    name: 'purchase_private_traffic',
+  purchase_private_traffic: {
     description: 'Purchase private traffic in GB using account balance. Buying traffic also unlocks more FREE slot capacity based on tier thresholds.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        quantityGB: {
-          type: 'number',
-          description: 'Amount of traffic in GB to purchase',
-        },
-      },
-      required: ['quantityGB'],
-    },
+    schema: z.object({
+      quantityGB: z.number().min(1).describe('Amount of traffic in GB to purchase'),
+    }),
+    scopes: ['billing:read', 'billing:write'],
+    mutating: true,
+    confirm: 'always',
   },
-] as const;
+  list_purchases: {
+    description: 'List purchase history with optional filters by type, category, payment status and date range. Shows the total spent for the matching purchases.',
+    schema: purchaseFilterSchema.extend({
+      limit: z.number().min(1).max(100).optional().describe('Maximum number of purchases to return (default: 20)'),
+      offset: z.number().min(0).optional().describe('Number of matching purchases to skip (default: 0, ignored with cursor)'),
+      cursor: cursorParam,
+    }),
+    scopes: ['billing:read'],
+  },
+  get_purchase_receipt: {
+    description: 'Get a detailed receipt for a purchase: item, quantity, unit price, total, payment method and status',
+    schema: z.object({
+      purchaseId: z.string().describe('The purchase ID (from list_purchases)'),
+    }),
+    scopes: ['billing:read'],
+  },
+  export_purchases: {
+    description: 'Export purchase history matching the filters as CSV or JSON (up to 1000 rows), e.g. for accounting',
+    schema: purchaseFilterSchema.extend({
+      exportFormat: z.enum(['csv', 'json']).optional().describe('Export file format (default: csv)'),
+    }),
+    scopes: ['billing:read'],
+  },
+});
+
+/**
+ * Tool definitions for billing
+ */
+export const billingToolDefinitions = toToolDefinitions(billingTools);
 
 /**
  * Billing tools handler
  */
 export function createBillingToolHandlers(api: ProxiesApi) {
   return {
-    async get_pricing(): Promise<string> {
+    async get_pricing(): Promise<ToolResult> {
       try {
         const pricing = await api.billing.getPricing();
 
@@ -119,13 +253,13 @@ export function createBillingToolHandlers(api: ProxiesApi) {
           }
         }
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), { pricing });
       } catch (error) {
         throw new Error(`Failed to get pricing: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     },
 
-    async calculate_price(args: { amount: number; isPrivate?: boolean }): Promise<string> {
+    async calculate_price(args: { amount: number; isPrivate?: boolean }): Promise<ToolResult> {
       try {
         const calculation = await api.billing.calculatePrice(args.amount, args.isPrivate || false);
 
@@ -145,13 +279,13 @@ export function createBillingToolHandlers(api: ProxiesApi) {
           lines.push(`💵 You Save: $${savings.toFixed(2)}`);
         }
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), { calculation });
       } catch (error) {
         throw new Error(`Failed to calculate price: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     },
 
-    async purchase_shared_traffic(args: { quantityGB: number }): Promise<string> {
+    async purchase_shared_traffic(args: { quantityGB: number }): Promise<ToolResult> {
       try {
         // Get current tier info before purchase
         let tierBefore: string | null = null;
@@ -175,19 +309,20 @@ export function createBillingToolHandlers(api: ProxiesApi) {
           }
         } catch { /* ignore */ }
 
-        return [
-          '✅ Purchase successful!',
+        return toolResult([
+          result.replayed ? '✅ Purchase successful (replayed earlier purchase)' : '✅ Purchase successful!',
           '',
           `Purchased: ${formatGB(args.quantityGB)} shared traffic`,
           `Total: ${formatCurrency(purchase.totalPrice || 0)}`,
           tierMessage,
-        ].filter(Boolean).join('\n');
+          result.replayed && `\n${REPLAYED_PURCHASE_NOTE}`,
+        ].filter(Boolean).join('\n'), { purchase, replayed: result.replayed === true });
       } catch (error) {
         throw new Error(`Failed to purchase shared traffic: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     },
 
-    async purchase_private_traffic(args: { quantityGB: number }): Promise<string> {
+    async purchase_private_traffic(args: { quantityGB: number }): Promise<ToolResult> {
       try {
         // Get current tier info before purchase
         let tierBefore: string | null = null;
@@ -211,34 +346,136 @@ export function createBillingToolHandlers(api: ProxiesApi) {
           }
         } catch { /* ignore */ }
 
-        return [
-          '✅ Purchase successful!',
+        return toolResult([
+          result.replayed ? '✅ Purchase successful (replayed earlier purchase)' : '✅ Purchase successful!',
           '',
           `Purchased: ${formatGB(args.quantityGB)} private traffic`,
           `Total: ${formatCurrency(purchase.totalPrice || 0)}`,
           tierMessage,
-        ].filter(Boolean).join('\n');
+          result.replayed && `\n${REPLAYED_PURCHASE_NOTE}`,
+        ].filter(Boolean).join('\n'), { purchase, replayed: result.replayed === true });
       } catch (error) {
         throw new Error(`Failed to purchase private traffic: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     },
 
+    async list_purchases(args: PurchaseFilters & { limit?: number; offset?: number; cursor?: string }): Promise<ToolResult> {
+      try {
+        const limit = args.limit ?? 20;
+        const query = { type: args.type, category: args.category, status: args.status, from: args.from, to: args.to };
+        const offset = args.cursor ? decodeCursor(args.cursor, query) : args.offset ?? 0;
+        const { purchases, matched, complete } = await collectPurchases(api, args, offset, limit);
+        const filterText = describeFilters(args);
+
+        if (purchases.length === 0) {
+          return toolResult(`No purchases found${filterText}.`, { offset, purchases, matched, complete, nextCursor: null });
+        }
+
+        const pageTotal = purchases
+          .filter(p => p.paymentStatus === 'completed')
+          .reduce((sum, p) => sum + p.totalPrice, 0);
+
+        const lines = [
+          `Purchases${filterText}: showing ${offset + 1}-${offset + purchases.length}${complete ? ` of ${matched}` : ''}`,
+          '',
+          ...purchases.map(formatPurchaseEntry),
+          '',
+          `Completed total (shown): ${formatCurrency(pageTotal)}`,
+        ];
+
+        const nextCursor = !complete || matched > offset + purchases.length
+          ? encodeCursor(offset + purchases.length, query)
+          : undefined;
+        if (nextCursor) {
+          lines.push(`More purchases available - call list_purchases again with cursor="${nextCursor}".`);
+        }
+
+        return toolResult(lines.join('\n'), { offset, purchases, matched, complete, nextCursor: nextCursor ?? null });
+      } catch (error) {
+        throw new Error(`Failed to list purchases: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    async get_purchase_receipt(args: { purchaseId: string }): Promise<ToolResult> {
+      try {
+        const purchase = await api.billing.getPurchase(args.purchaseId);
+        return toolResult(formatPurchaseReceipt(purchase), { purchase });
+      } catch (error) {
+        throw new Error(`Failed to get purchase receipt: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    async export_purchases(args: PurchaseFilters & { exportFormat?: 'csv' | 'json' }): Promise<ToolResult> {
+      try {
+        const exportFormat = args.exportFormat ?? 'csv';
+        const { purchases, complete } = await collectPurchases(api, args, 0, MAX_EXPORT_ROWS);
+
+        if (purchases.length === 0) {
+          return toolResult(`No purchases found${describeFilters(args)}.`, { exportFormat, purchases, complete });
+        }
+
+        const body = exportFormat === 'json'
+          ? JSON.stringify(purchases, null, 2)
+          : purchasesToCsv(purchases);
+
+        const note = complete
+          ? `Exported ${purchases.length} purchases${describeFilters(args)}.`
+          : `Exported the ${purchases.length} most recent purchases${describeFilters(args)}; narrow the date range to export older ones.`;
+
+        return toolResult(`${note}\n\n${body}`, { exportFormat, purchases, complete });
+      } catch (error) {
+        throw new Error(`Failed to export purchases: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+  };
+}
+
+/**
+ * Describe a traffic purchase: price with volume discount, balance and tier progress
+ */
+async function previewTrafficPurchase(api: ProxiesApi, tier: 'shared' | 'private', quantityGB: number): Promise<ToolResult> {
+  try {
+    const [calculation, summary, pricing] = await Promise.all([
+      api.billing.calculatePrice(quantityGB, tier === 'private'),
+      api.account.getSummary(),
+      api.billing.getPricing(),
+    ]);
+    const tierInfo = pricing.userTierInfo;
+    const balanceAfter = summary.balance - calculation.totalPrice;
+
+    const lines = [
+      `Would purchase ${formatGB(quantityGB)} ${tier} traffic from the account balance.`,
+      '',
+      `Price: ${formatCurrency(calculation.pricePerGB)}/GB${calculation.discountPercent > 0 ? ` (${calculation.discountPercent}% volume discount)` : ''}`,
+      `Total: ${formatCurrency(calculation.totalPrice)}`,
+      `Balance: ${formatCurrency(summary.balance)} -> ${formatCurrency(balanceAfter)}`,
+    ];
+    if (tierInfo?.nextTier) {
+      lines.push(quantityGB >= tierInfo.gbToNextTier
+        ? `Slot tier: ${tierInfo.currentTier.name} -> ${tierInfo.nextTier.name}`
+        : `Slot tier: ${tierInfo.currentTier.name} (${(tierInfo.gbToNextTier - quantityGB).toFixed(1)} GB more to ${tierInfo.nextTier.name})`);
+    }
+    if (balanceAfter < 0) {
+      lines.push('', 'This call would fail: insufficient balance. Top up with create_crypto_payment first.');
+    }
+
+    return toolPreview(lines.join('\n'), { action: `purchase_${tier}_traffic`, calculation, balance: summary.balance, balanceAfter });
+  } catch (error) {
+    throw new Error(`Failed to preview ${tier} traffic purchase: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Dry-run previews for the billing tools that change state
+ */
+export function createBillingToolPreviews(api: ProxiesApi) {
+  return {
+    purchase_shared_traffic: (args: { quantityGB: number }) => previewTrafficPurchase(api, 'shared', args.quantityGB),
+    purchase_private_traffic: (args: { quantityGB: number }) => previewTrafficPurchase(api, 'private', args.quantityGB),
   };
 }
 
 /**
  * Zod schemas for validation
  */
-export const billingSchemas = {
-  get_pricing: z.object({}),
-  calculate_price: z.object({
-    amount: z.number().min(1),
-    isPrivate: z.boolean().optional(),
-  }),
-  purchase_shared_traffic: z.object({
-    quantityGB: z.number().min(1),
-  }),
-  purchase_private_traffic: z.object({
-    quantityGB: z.number().min(1),
-  }),
-};
+export const billingSchemas = toToolSchemas(billingTools);
@@ -0,0 +1,342 @@
+/**
+ * Bulk Port Tools
+ * MCP tools that apply a port operation to every port matching a selector
+ */
+
+import { z } from 'zod';
+import type { ProxiesApi, ListPortsParams, Port } from '../api/index.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { toolPreview, toolResult, type ToolResult } from '../utils/output.js';
+import { defineTools, toToolDefinitions, toToolSchemas } from './define.js';
+
+/**
+ * Upper bound on ports one bulk operation can touch
+ */
+const MAX_SELECTED_PORTS = 500;
+
+/**
+ * Operations in flight at once (default)
+ */
+const DEFAULT_CONCURRENCY = 5;
+
+/**
+ * Port selector: list_ports filters plus a name pattern.
+ * A selector without filters is rejected unless `all` is set.
+ */
+export interface PortSelector extends Pick<ListPortsParams, 'type' | 'status' | 'countryId' | 'carrierId'> {
+  /** Glob matched against the port's display name and name (case-insensitive, * and ?) */
+  namePattern?: string;
+  /** Select every port of the account when no filter is given */
+  all?: boolean;
+}
+
+/**
+ * Outcome of a bulk operation on one port
+ */
+export interface BulkPortResult {
+  portId: string;
+  name: string;
+  status: 'succeeded' | 'skipped' | 'failed';
+  detail: string;
+}
+
+/**
+ * Convert a name glob to a case-insensitive regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(ch => (ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Collect the ports matching a selector.
+ * List filters are applied by the API; the name pattern is applied here.
+ */
+export async function selectPorts(api: ProxiesApi, selector: PortSelector): Promise<Port[]> {
+  const filtered = [selector.type, selector.status, selector.countryId, selector.carrierId, selector.namePattern].some(Boolean);
+  if (!filtered && !selector.all) {
+    throw new Error('No selector given. Filter by type, status, countryId, carrierId or namePattern, or pass all: true to select every port.');
+  }
+
+  const nameMatcher = selector.namePattern ? globToRegExp(selector.namePattern) : undefined;
+  const selected: Port[] = [];
+
+  const ports = api.ports.iterate({
+    type: selector.type,
+    status: selector.status,
+    countryId: selector.countryId,
+    carrierId: selector.carrierId,
+  });
+
+  for await (const port of ports) {
+    if (nameMatcher && !nameMatcher.test(port.displayName || '') && !nameMatcher.test(port.name)) continue;
+    selected.push(port);
+
+    if (selected.length > MAX_SELECTED_PORTS) {
+      throw new Error(`Selector matches more than ${MAX_SELECTED_PORTS} ports. Narrow it down with filters or namePattern.`);
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Run an operation on every selected port with bounded concurrency.
+ * Operation errors are recorded per port instead of aborting the batch.
+ */
+async function runBulk(
+  ports: Port[],
+  concurrency: number,
+  operation: (port: Port) => Promise<Omit<BulkPortResult, 'portId' | 'name'>>
+): Promise<BulkPortResult[]> {
+  return mapWithConcurrency(ports, concurrency, async port => {
+    const base = { portId: port._id, name: port.displayName || port.name };
+    try {
+      return { ...base, ...(await operation(port)) };
+    } catch (error) {
+      return { ...base, status: 'failed' as const, detail: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  });
+}
+
+/**
+ * Format bulk results as a per-port table with totals.
+ * For a dry run, `succeeded` means the port would be changed.
+ */
+function formatBulkResults(title: string, results: BulkPortResult[], dryRun = false): ToolResult {
+  const count = (status: BulkPortResult['status']) => results.filter(r => r.status === status).length;
+  const summary = {
+    matched: results.length,
+    succeeded: count('succeeded'),
+    skipped: count('skipped'),
+    failed: count('failed'),
+  };
+
+  const result = dryRun ? toolPreview : toolResult;
+
+  if (results.length === 0) {
+    return result(`${title}: no ports match the selector.`, { ...summary, results });
+  }
+
+  const icons = { succeeded: '✅', skipped: '⏭️', failed: '❌' };
+  const labels = dryRun
+    ? { succeeded: 'would change', skipped: 'would skip', failed: 'check failed' }
+    : { succeeded: 'succeeded', skipped: 'skipped', failed: 'failed' };
+  const headers = ['Port', 'Port ID', 'Result', 'Detail'];
+  const rows = results.map(r => [r.name, r.portId, `${icons[r.status]} ${labels[r.status]}`, r.detail]);
+
+  const widths = headers.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  const headerRow = headers.map((h, i) => h.padEnd(widths[i])).join(' | ');
+  const separator = widths.map(w => '-'.repeat(w)).join('-+-');
+  const dataRows = rows.map(row => row.map((cell, i) => cell.padEnd(widths[i])).join(' | '));
+
+  return result([
+    `${title}: ${summary.succeeded} ${labels.succeeded}, ${summary.skipped} ${labels.skipped}, ${summary.failed} ${labels.failed} (${summary.matched} ports matched)`,
+    '',
+    headerRow,
+    separator,
+    ...dataRows,
+  ].join('\n'), { ...summary, results });
+}
+
+/**
+ * Selector and concurrency parameters shared by all bulk tools
+ */
+const portSelectorSchema = z.object({
+  type: z.enum(['shared', 'private']).optional().describe('Only ports of this type'),
+  status: z.enum(['active', 'suspended', 'expired']).optional().describe('Only ports with this status'),
+  countryId: z.string().optional().describe('Only ports in this country (country ID)'),
+  carrierId: z.string().optional().describe('Only ports on this carrier (carrier ID)'),
+  namePattern: z.string().min(1).optional().describe('Only ports whose name matches this glob, e.g. "us-*" (case-insensitive)'),
+  all: z.boolean().optional().describe('Select every port when no filter is given (required without filters)'),
+  concurrency: z.number().int().min(1).max(10).optional().describe(`Ports processed in parallel (default: ${DEFAULT_CONCURRENCY})`),
+});
+
+/**
+ * Bulk port tools (description and input schema)
+ */
+export const bulkTools = defineTools({
+  bulk_rotate_ports: {
+    description: 'Rotate every port matching a selector (type, status, country, carrier, name pattern, or all: true for every port). Ports in a rotation cooldown are skipped. Returns a per-port result table.',
+    schema: portSelectorSchema,
+    scopes: ['ports:read', 'ports:rotate'],
+    mutating: true,
+  },
+  bulk_update_os_fingerprint: {
+    description: 'Set the OS fingerprint (p0f) on every port matching a selector (filters, or all: true for every port). Returns a per-port result table.',
+    schema: portSelectorSchema.extend({
+      osFingerprint: z.enum(['', 'windows:1', 'macosx:3', 'macosx:4', 'ios:2', 'ios:1', 'android:3', 'android:1']).describe('OS fingerprint value (empty string to disable)'),
+    }),
+    scopes: ['ports:read', 'ports:write'],
+    mutating: true,
+  },
+  bulk_configure_auto_rotation: {
+    description: 'Configure automatic rotation on every port matching a selector (filters, or all: true for every port). Returns a per-port result table.',
+    schema: portSelectorSchema.extend({
+      enabled: z.boolean().describe('Enable or disable auto-rotation'),
+      intervalMinutes: z.number().min(5).max(1440).optional().describe('Rotation interval in minutes'),
+      matchCarrier: z.boolean().optional().describe('Only rotate to devices with the same carrier'),
+      matchCity: z.boolean().optional().describe('Only rotate to devices in the same city'),
+    }),
+    scopes: ['ports:read', 'ports:write'],
+    mutating: true,
+  },
+});
+
+/**
+ * Tool definitions for bulk port operations
+ */
+export const bulkToolDefinitions = toToolDefinitions(bulkTools);
+
+type BulkArgs = z.infer<typeof portSelectorSchema>;
+
+/**
+ * Bulk port tools handler
+ */
+export function createBulkToolHandlers(api: ProxiesApi) {
+  return {
+    async bulk_rotate_ports(args: BulkArgs): Promise<ToolResult> {
+      try {
+        const ports = await selectPorts(api, args);
+
+        const results = await runBulk(ports, args.concurrency ?? DEFAULT_CONCURRENCY, async port => {
+          const availability = await api.rotation.canRotate(port._id);
+          if (!availability.canRotate) {
+            const next = availability.nextAvailableRotation || availability.cooldownEndsAt;
+            return { status: 'skipped', detail: `${availability.reason || 'Cannot rotate'}${next ? ` (next: ${next})` : ''}` };
+          }
+
+          const rotated = await api.rotation.rotate(port._id);
+          return { status: 'succeeded', detail: `Rotated${rotated.carrierName ? ` (${rotated.carrierName})` : ''}` };
+        });
+
+        return formatBulkResults('Bulk rotation', results);
+      } catch (error) {
+        throw new Error(`Failed to rotate ports: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    async bulk_update_os_fingerprint(args: BulkArgs & { osFingerprint: string }): Promise<ToolResult> {
+      try {
+        const ports = await selectPorts(api, args);
+
+        const results = await runBulk(ports, args.concurrency ?? DEFAULT_CONCURRENCY, async port => {
+          await api.ports.updateOsFingerprint(port._id, args.osFingerprint);
+          return { status: 'succeeded', detail: args.osFingerprint ? `Set to ${args.osFingerprint}` : 'Disabled' };
+        });
+
+        return formatBulkResults('Bulk OS fingerprint update', results);
+      } catch (error) {
+        throw new Error(`Failed to update OS fingerprints: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    async bulk_configure_auto_rotation(args: BulkArgs & {
+      enabled: boolean;
+      intervalMinutes?: number;
+      matchCarrier?: boolean;
+      matchCity?: boolean;
+    }): Promise<ToolResult> {
+      try {
+        const ports = await selectPorts(api, args);
+        const intervalSeconds = args.intervalMinutes ? args.intervalMinutes * 60 : undefined;
+
+        const results = await runBulk(ports, args.concurrency ?? DEFAULT_CONCURRENCY, async port => {
+          await api.rotation.updateSettings(port._id, {
+            enabled: args.enabled,
+            intervalSeconds,
+            matchCarrier: args.matchCarrier,
+            matchCity: args.matchCity,
+          });
+          return {
+            status: 'succeeded',
+            detail: args.enabled ? `Enabled${args.intervalMinutes ? `, every ${args.intervalMinutes} min` : ''}` : 'Disabled',
+          };
+        });
+
+        return formatBulkResults('Bulk auto-rotation update', results);
+      } catch (error) {
+        throw new Error(`Failed to configure auto-rotation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+  };
+}
+
+/**
+ * Dry-run previews: select the ports and report per port what would change
+ */
+export function createBulkToolPreviews(api: ProxiesApi) {
+  return {
+    async bulk_rotate_ports(args: BulkArgs): Promise<ToolResult> {
+      try {
+        const ports = await selectPorts(api, args);
+
+        const results = await runBulk(ports, args.concurrency ?? DEFAULT_CONCURRENCY, async port => {
+          const availability = await api.rotation.canRotate(port._id);
+          if (!availability.canRotate) {
+            const next = availability.nextAvailableRotation || availability.cooldownEndsAt;
+            return { status: 'skipped', detail: `${availability.reason || 'Cannot rotate'}${next ? ` (next: ${next})` : ''}` };
+          }
+          return { status: 'succeeded', detail: `Rotate${port.carrierName ? ` (now ${port.carrierName})` : ''}` };
+        });
+
+        return formatBulkResults('Bulk rotation', results, true);
+      } catch (error) {
+        throw new Error(`Failed to preview rotation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    async bulk_update_os_fingerprint(args: BulkArgs & { osFingerprint: string }): Promise<ToolResult> {
+      try {
+        const ports = await selectPorts(api, args);
+        const next = args.osFingerprint || 'disabled';
+
+        const results = ports.map((port): BulkPortResult => {
+          const current = port.osFingerprint || '';
+          return {
+            portId: port._id,
+            name: port.displayName || port.name,
+            status: current === args.osFingerprint ? 'skipped' : 'succeeded',
+            detail: current === args.osFingerprint ? `Already ${next}` : `${current || 'disabled'} -> ${next}`,
+          };
+        });
+
+        return formatBulkResults('Bulk OS fingerprint update', results, true);
+      } catch (error) {
+        throw new Error(`Failed to preview OS fingerprint update: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    async bulk_configure_auto_rotation(args: BulkArgs & {
+      enabled: boolean;
+      intervalMinutes?: number;
+      matchCarrier?: boolean;
+      matchCity?: boolean;
+    }): Promise<ToolResult> {
+      try {
+        const ports = await selectPorts(api, args);
+
+        const results = ports.map((port): BulkPortResult => {
+          const current = port.rotationSettings;
+          const currentText = current?.enabled ? `every ${Math.round((current.intervalSeconds || 1200) / 60)} min` : 'disabled';
+          const nextText = args.enabled
+            ? `every ${args.intervalMinutes ?? Math.round((current?.intervalSeconds || 1200) / 60)} min`
+            : 'disabled';
+          return { portId: port._id, name: port.displayName || port.name, status: 'succeeded', detail: `${currentText} -> ${nextText}` };
+        });
+
+        return formatBulkResults('Bulk auto-rotation update', results, true);
+      } catch (error) {
+        throw new Error(`Failed to preview auto-rotation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+  };
+}
+
+/**
+ * Zod schemas for validation
+ */
+export const bulkSchemas = toToolSchemas(bulkTools);
@@ -0,0 +1,180 @@
+/**
+ * Tool Confirmations
+ * Destructive and paid tools can require a human to confirm them. The dry-run
+ * preview of the call is shown first: via MCP elicitation when the client
+ * supports it, otherwise the call returns a short-lived token that must be
+ * passed back, with the same arguments, to run it.
+ */
+
+import { randomBytes } from 'crypto';
+import { toolResult, type ToolResult } from '../utils/output.js';
+import type { ToolDefinition } from './define.js';
+
+/**
+ * How long a confirmation token stays valid
+ */
+const DEFAULT_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Text toolPreview() puts in front of every dry-run result
+ */
+const DRY_RUN_NOTICE = 'Dry run - nothing was changed.\n\n';
+
+/**
+ * confirmation_token argument added to the input schema of tools that need confirmation
+ */
+export const confirmationTokenProperty = {
+  type: 'string',
+  description: 'Token from an earlier call that required confirmation; repeat the call with the same arguments plus this token to run it',
+};
+
+/**
+ * Elicitation form: a single yes/no field
+ */
+export const confirmationSchema = {
+  type: 'object' as const,
+  properties: {
+    confirm: { type: 'boolean' as const, title: 'Proceed', description: 'Run this action now' },
+  },
+  required: ['confirm'],
+};
+
+export interface ToolConfirmationConfig {
+  /** x402 payments up to this amount run without confirmation (default: 0, every payment) */
+  aboveUSDC?: number;
+  /** Token lifetime (default: 5 minutes) */
+  tokenTtlMs?: number;
+}
+
+interface PendingConfirmation {
+  tool: string;
+  fingerprint: string;
+  expiresAt: number;
+  /** Most the confirmed payment may cost (its previewed amount) */
+  maxAmountUSDC?: number;
+}
+
+/**
+ * Stable JSON of the call arguments, so a token cannot be used for different ones
+ */
+function fingerprintArgs(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(fingerprintArgs).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, entry]) => entry !== undefined).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${fingerprintArgs(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Preview text without the dry-run notice
+ */
+export function describePreview(preview: ToolResult): string {
+  return preview.text.startsWith(DRY_RUN_NOTICE) ? preview.text.slice(DRY_RUN_NOTICE.length) : preview.text;
+}
+
+/**
+ * Tool Confirmations
+ * Tokens are kept in memory and can be used once
+ */
+export class ToolConfirmations {
+  private pending = new Map<string, PendingConfirmation>();
+  private aboveUSDC: number;
+  private tokenTtlMs: number;
+
+  constructor(config: ToolConfirmationConfig = {}) {
+    this.aboveUSDC = config.aboveUSDC ?? 0;
+    this.tokenTtlMs = config.tokenTtlMs ?? DEFAULT_TOKEN_TTL_MS;
+  }
+
+  /**
+   * Whether the call described by its preview needs confirmation.
+   * Payments previewed at or below the threshold (e.g. a re-submitted proof at
+   * costUSDC 0) run as usual; other confirmed tools always ask, unless they have
+   * an `execute` parameter and it is not true (e.g. a plan that is not executed).
+   */
+  isRequired(tool: ToolDefinition, preview: ToolResult, args: Record<string, unknown> = {}): boolean {
+    if (!tool.confirm) return false;
+    if ('execute' in tool.inputSchema.properties && args.execute !== true) return false;
+
+    if (tool.confirm === 'payment') {
+      const cost = (preview.data as { costUSDC?: unknown }).costUSDC;
+      return typeof cost !== 'number' || cost > this.aboveUSDC;
+    }
+    return true;
+  }
+
+  /**
+   * Most a payment tool may spend on the previewed call: the amount its preview showed
+   */
+  paymentLimit(tool: ToolDefinition, preview: ToolResult): number | undefined {
+    const cost = (preview.data as { costUSDC?: unknown }).costUSDC;
+    return tool.confirm === 'payment' && typeof cost === 'number' ? cost : undefined;
+  }
+
+  /**
+   * Issue a token for this exact call
+   */
+  issue(tool: string, args: Record<string, unknown>, maxAmountUSDC?: number): { token: string; expiresAt: string } {
+    this.prune();
+    const token = `cfm_${randomBytes(12).toString('hex')}`;
+    const expiresAt = Date.now() + this.tokenTtlMs;
+    this.pending.set(token, { tool, fingerprint: fingerprintArgs(args), expiresAt, maxAmountUSDC });
+    return { token, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * Use a token; throws if it is unknown, expired or was issued for another call.
+   * Returns the payment limit the token was issued with.
+   */
+  redeem(token: string, tool: string, args: Record<string, unknown>): { maxAmountUSDC?: number } {
+    const pending = this.pending.get(token);
+    this.pending.delete(token);
+
+    if (!pending || pending.expiresAt < Date.now()) {
+      throw new Error(`Confirmation token is unknown or expired. Call ${tool} again without confirmation_token to get a new one.`);
+    }
+    if (pending.tool !== tool || pending.fingerprint !== fingerprintArgs(args)) {
+      throw new Error(`Confirmation token was issued for a different call. Call ${tool} again without confirmation_token to get a new one.`);
+    }
+    return { maxAmountUSDC: pending.maxAmountUSDC };
+  }
+
+  /**
+   * Result asking the agent to confirm the previewed call with a token
+   */
+  request(tool: string, args: Record<string, unknown>, preview: ToolResult, maxAmountUSDC?: number): ToolResult {
+    const { token, expiresAt } = this.issue(tool, args, maxAmountUSDC);
+    const { dryRun: _dryRun, ...data } = preview.data as { dryRun?: boolean };
+    const minutes = Math.round(this.tokenTtlMs / 60000);
+
+    return toolResult([
+      'Confirmation required - nothing was changed.',
+      '',
+      describePreview(preview),
+      '',
+      `Show this to the user. To proceed, call ${tool} again with the same arguments and confirmation_token: "${token}" (valid for ${minutes} min, once).`,
+    ].join('\n'), {
+      ...data,
+      confirmationRequired: true,
+      confirmationToken: token,
+      expiresAt,
+    });
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt < now) this.pending.delete(token);
+    }
+  }
+}
+
+/**
+ * Create tool confirmations
+ */
+export function createToolConfirmations(config?: ToolConfirmationConfig): ToolConfirmations {
+  return new ToolConfirmations(config);
+}
@@ -0,0 +1,100 @@
+/**
+ * Tool Definition Helpers
+ * Tools are declared once with a zod schema; the MCP inputSchema is derived from it
+ */
+
+import type { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { ApiKeyScope } from '../api/types.js';
+
+/**
+ * Zod object schema accepted as tool input
+ */
+export type ToolInputSchema = z.ZodObject<z.ZodRawShape>;
+
+/**
+ * When a tool needs human confirmation (if confirmations are on): always, or
+ * only for payments above the configured threshold
+ */
+export type ToolConfirmation = 'always' | 'payment';
+
+/**
+ * Tool declaration: description plus zod input schema.
+ * Parameter descriptions and constraints live on the zod schema (.describe(), .min(), ...).
+ */
+export interface ToolSpec<S extends ToolInputSchema = ToolInputSchema> {
+  description: string;
+  schema: S;
+  /** API key scopes the tool needs (API key mode) */
+  scopes?: ApiKeyScope[];
+  /** Changes account, port or wallet state, or spends money (hidden in read-only mode) */
+  mutating?: boolean;
+  /** Needs confirmation before it runs */
+  confirm?: ToolConfirmation;
+}
+
+/**
+ * MCP tool definition (tools/list)
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, object>;
+    required: string[];
+  };
+  annotations: {
+    readOnlyHint: boolean;
+  };
+  /** Published in tools/list as _meta */
+  scopes?: ApiKeyScope[];
+  /** Server-side only, not published in tools/list */
+  confirm?: ToolConfirmation;
+}
+
+/**
+ * Declare a module's tools, keyed by tool name
+ */
+export function defineTools<T extends Record<string, ToolSpec>>(tools: T): T {
+  return tools;
+}
+
+/**
+ * Derive the MCP inputSchema (JSON Schema) from a zod object schema
+ */
+export function toInputSchema(schema: ToolInputSchema): ToolDefinition['inputSchema'] {
+  const jsonSchema = zodToJsonSchema(schema, { $refStrategy: 'none' }) as {
+    properties?: Record<string, object>;
+    required?: string[];
+  };
+
+  return {
+    type: 'object',
+    properties: jsonSchema.properties || {},
+    required: jsonSchema.required || [],
+  };
+}
+
+/**
+ * MCP tool definitions for declared tools
+ */
+export function toToolDefinitions(tools: Record<string, ToolSpec>): ToolDefinition[] {
+  return Object.entries(tools).map(([name, tool]) => ({
+    name,
+    description: tool.description,
+    inputSchema: toInputSchema(tool.schema),
+    annotations: { readOnlyHint: !tool.mutating },
+    ...(tool.scopes && { scopes: tool.scopes }),
+    ...(tool.confirm && { confirm: tool.confirm }),
+  }));
+}
+
+/**
+ * Validation schemas for declared tools, keyed by tool name
+ */
+export function toToolSchemas<T extends Record<string, ToolSpec>>(tools: T): { [K in keyof T]: T[K]['schema'] } {
+  return Object.fromEntries(
+    Object.entries(tools).map(([name, tool]) => [name, tool.schema])
+  ) as { [K in keyof T]: T[K]['schema'] };
+}
@@ -0,0 +1,191 @@
+/**
+ * Port Health Tools
+ * MCP tools for the background port health monitor
+ */
+
+import { z } from 'zod';
+import type { PortHealthMonitor, PortHealthSummary } from '../monitor/index.js';
+import { toolPreview, toolResult, type ToolResult } from '../utils/output.js';
+import { defineTools, toToolDefinitions, toToolSchemas } from './define.js';
+
+/**
+ * Format health summaries as a table
+ */
+function formatHealthTable(summaries: PortHealthSummary[]): string {
+  const pct = (value?: number) => (value === undefined ? '-' : `${value}%`);
+  const ms = (value?: number) => (value === undefined ? '-' : `${value}ms`);
+
+  const headers = ['Port', 'State', 'Uptime', 'Ping OK', 'Avg Latency', 'p95', 'Down/Up Mbps', 'Probes'];
+  const rows = summaries.map(s => [
+    s.name || s.portId,
+    s.online === undefined ? 'pending' : s.degradations.length > 0 ? 'degraded' : s.online ? 'healthy' : 'offline',
+    pct(s.uptimePercent),
+    pct(s.pingSuccessPercent),
+    ms(s.avgLatencyMs),
+    ms(s.p95LatencyMs),
+    s.throughput ? `${s.throughput.downloadMbps.toFixed(1)}/${s.throughput.uploadMbps.toFixed(1)}` : '-',
+    String(s.probes),
+  ]);
+
+  const widths = headers.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  const headerRow = headers.map((h, i) => h.padEnd(widths[i])).join(' | ');
+  const separator = widths.map(w => '-'.repeat(w)).join('-+-');
+  const dataRows = rows.map(row => row.map((cell, i) => cell.padEnd(widths[i])).join(' | '));
+
+  return [headerRow, separator, ...dataRows].join('\n');
+}
+
+type MonitorSettings = ReturnType<PortHealthMonitor['getSettings']>;
+
+/**
+ * Arguments of configure_port_health_monitor
+ */
+interface ConfigureMonitorArgs {
+  watch?: string[];
+  watchAllActive?: boolean;
+  unwatch?: string[];
+  stop?: boolean;
+  intervalSeconds?: number;
+  speedTestEvery?: number;
+  autoRotateAfter?: number;
+}
+
+/**
+ * Describe the monitor settings in one line
+ */
+function describeSettings(settings: MonitorSettings): string {
+  const watching = settings.watchAll ? 'all active ports' : `${settings.portIds.length} port(s)`;
+  return [
+    `Monitor ${settings.running ? 'running' : 'stopped'}: ${watching}`,
+    `every ${Math.round(settings.intervalMs / 1000)}s`,
+    settings.speedTestEvery > 0 ? `speed test every ${settings.speedTestEvery} probes` : 'no speed tests',
+    settings.autoRotateAfter > 0 ? `auto-rotate after ${settings.autoRotateAfter} failed pings` : 'auto-rotate off',
+  ].join(', ');
+}
+
+/**
+ * Port health tools (description and input schema)
+ */
+export const healthTools = defineTools({
+  get_port_health_report: {
+    description: 'Summarise the background health monitor: uptime and ping success percentages, latency, throughput and degradations per watched port, plus recent events such as outages and automatic rotations.',
+    schema: z.object({
+      portId: z.string().min(1).optional().describe('Only report this port'),
+    }),
+    scopes: ['ports:read'],
+  },
+  configure_port_health_monitor: {
+    description: 'Choose which ports the background health monitor probes and how. Probing starts as soon as a port is watched and stops when none are left.',
+    schema: z.object({
+      watch: z.array(z.string().min(1)).optional().describe('Port IDs to start watching'),
+      watchAllActive: z.boolean().optional().describe('Watch every active port (follows the account as ports are added or removed)'),
+      unwatch: z.array(z.string().min(1)).optional().describe('Port IDs to stop watching'),
+      stop: z.boolean().optional().describe('Stop watching all ports (collected data is discarded)'),
+      intervalSeconds: z.number().int().min(60).max(3600).optional().describe('Seconds between probes (default: 300)'),
+      speedTestEvery: z.number().int().min(0).max(1000).optional().describe('Run a speed test every Nth probe, 0 disables (default: 12)'),
+      autoRotateAfter: z.number().int().min(0).max(100).optional().describe('Rotate a port after this many consecutive failed pings, 0 disables (default: 0)'),
+    }),
+    scopes: ['ports:read'],
+    mutating: true,
+  },
+});
+
+/**
+ * Tool definitions for port health monitoring
+ */
+export const healthToolDefinitions = toToolDefinitions(healthTools);
+
+/**
+ * Port health tools handler
+ */
+export function createHealthToolHandlers(monitor: PortHealthMonitor) {
+  return {
+    async get_port_health_report(args: { portId?: string }): Promise<ToolResult> {
+      const summaries = monitor.report(args.portId);
+      const settings = monitor.getSettings();
+
+      if (summaries.length === 0) {
+        const text = args.portId
+          ? `Port ${args.portId} is not watched by the health monitor. Add it with configure_port_health_monitor.`
+          : `No ports are watched yet. ${settings.watchAll ? 'The first probe round is still running.' : 'Use configure_port_health_monitor to start monitoring.'}`;
+        return toolResult(text, { settings, ports: summaries });
+      }
+
+      const lines = [describeSettings(settings), '', formatHealthTable(summaries)];
+
+      const degraded = summaries.filter(s => s.degradations.length > 0);
+      if (degraded.length > 0) {
+        lines.push('', 'Degradations:');
+        for (const s of degraded) {
+          lines.push(`  ${s.name || s.portId}:`, ...s.degradations.map(d => `    - ${d}`));
+        }
+      }
+
+      const events = summaries
+        .flatMap(s => s.events.map(e => ({ ...e, port: s.name || s.portId })))
+        .sort((a, b) => b.at.localeCompare(a.at))
+        .slice(0, 10);
+      if (events.length > 0) {
+        lines.push('', 'Recent events:', ...events.map(e => `  ${e.at}  ${e.port}: ${e.detail}`));
+      }
+
+      return toolResult(lines.join('\n'), { settings, ports: summaries });
+    },
+
+    async configure_port_health_monitor(args: ConfigureMonitorArgs): Promise<ToolResult> {
+      monitor.configure({
+        intervalMs: args.intervalSeconds !== undefined ? args.intervalSeconds * 1000 : undefined,
+        speedTestEvery: args.speedTestEvery,
+        autoRotateAfter: args.autoRotateAfter,
+      });
+
+      if (args.stop) {
+        monitor.unwatch();
+      } else {
+        if (args.unwatch?.length) monitor.unwatch(args.unwatch);
+        if (args.watchAllActive) monitor.watch('all');
+        if (args.watch?.length) monitor.watch(args.watch);
+      }
+
+      const settings = monitor.getSettings();
+      return toolResult(describeSettings(settings), { settings });
+    },
+  };
+}
+
+/**
+ * Dry-run previews: work out the settings a change would lead to without applying it
+ */
+export function createHealthToolPreviews(monitor: PortHealthMonitor) {
+  return {
+    async configure_port_health_monitor(args: ConfigureMonitorArgs): Promise<ToolResult> {
+      const current = monitor.getSettings();
+      const portIds = new Set(args.stop ? [] : current.portIds);
+      if (!args.stop) {
+        for (const portId of args.unwatch ?? []) portIds.delete(portId);
+        for (const portId of args.watch ?? []) portIds.add(portId);
+      }
+      const watchAll = !args.stop && (current.watchAll || !!args.watchAllActive);
+
+      const next: MonitorSettings = {
+        ...current,
+        intervalMs: args.intervalSeconds !== undefined ? args.intervalSeconds * 1000 : current.intervalMs,
+        speedTestEvery: args.speedTestEvery ?? current.speedTestEvery,
+        autoRotateAfter: args.autoRotateAfter ?? current.autoRotateAfter,
+        running: watchAll || portIds.size > 0,
+        watchAll,
+        portIds: [...portIds],
+      };
+
+      return toolPreview(
+        `Would change the health monitor\n  from: ${describeSettings(current)}\n  to:   ${describeSettings(next)}`,
+        { action: 'configure_port_health_monitor', current, settings: next }
+      );
+    },
+  };
+}
+
+/**
+ * Zod schemas for validation
+ */
+export const healthSchemas = toToolSchemas(healthTools);
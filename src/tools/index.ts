@@ -4,39 +4,55 @@
  */
 
 import type { ProxiesApi } from '../api/index.js';
+import { createPortHealthMonitor, type PortHealthMonitor } from '../monitor/index.js';
+import type { ToolResult } from '../utils/output.js';
 
 // Import tool definitions
-import { accountToolDefinitions, createAccountToolHandlers, accountSchemas } from './account.js';
-import { portToolDefinitions, createPortToolHandlers, portSchemas } from './ports.js';
+import { accountToolDefinitions, createAccountToolHandlers, createAccountToolPreviews, accountSchemas } from './account.js';
+import { apiKeyToolDefinitions, createApiKeyToolHandlers, createApiKeyToolPreviews, apiKeySchemas } from './api-keys.js';
+import { portToolDefinitions, createPortToolHandlers, createPortToolPreviews, portSchemas } from './ports.js';
 import { statusToolDefinitions, createStatusToolHandlers, statusSchemas } from './status.js';
-import { rotationToolDefinitions, createRotationToolHandlers, rotationSchemas } from './rotation.js';
-import { billingToolDefinitions, createBillingToolHandlers, billingSchemas } from './billing.js';
+import { rotationToolDefinitions, createRotationToolHandlers, createRotationToolPreviews, rotationSchemas } from './rotation.js';
+import { bulkToolDefinitions, createBulkToolHandlers, createBulkToolPreviews, bulkSchemas } from './bulk.js';
+import { healthToolDefinitions, createHealthToolHandlers, createHealthToolPreviews, healthSchemas } from './health.js';
+import { billingToolDefinitions, createBillingToolHandlers, createBillingToolPreviews, billingSchemas } from './billing.js';
 import { referenceToolDefinitions, createReferenceToolHandlers, referenceSchemas } from './reference.js';
 import { utilityToolDefinitions, createUtilityToolHandlers, utilitySchemas } from './utilities.js';
-import { paymentToolDefinitions, createPaymentToolHandlers, paymentSchemas } from './payments.js';
-import { supportToolDefinitions, createSupportToolHandlers, supportSchemas } from './support.js';
-import { x402SessionToolDefinitions, createX402SessionToolHandlers, x402SessionSchemas } from './x402-session.js';
+import { paymentToolDefinitions, createPaymentToolHandlers, createPaymentToolPreviews, paymentSchemas } from './payments.js';
+import { supportToolDefinitions, createSupportToolHandlers, createSupportToolPreviews, supportSchemas } from './support.js';
+import { x402SessionToolDefinitions, createX402SessionToolHandlers, createX402SessionToolPreviews, x402SessionSchemas } from './x402-session.js';
 
 // Export everything
+export * from './define.js';
 export * from './account.js';
+export * from './api-keys.js';
 export * from './ports.js';
 export * from './status.js';
 export * from './rotation.js';
+export * from './bulk.js';
+export * from './health.js';
 export * from './billing.js';
 export * from './reference.js';
 export * from './utilities.js';
 export * from './payments.js';
 export * from './support.js';
 export * from './x402-session.js';
+export * from './planner.js';
+export * from './audit.js';
+export * from './access.js';
+export * from './confirmation.js';
 
 /**
  * All tool definitions combined
  */
 export const allToolDefinitions = [
   ...accountToolDefinitions,
+  ...apiKeyToolDefinitions,
   ...portToolDefinitions,
   ...statusToolDefinitions,
   ...rotationToolDefinitions,
+  ...bulkToolDefinitions,
+  ...healthToolDefinitions,
   ...billingToolDefinitions,
   ...referenceToolDefinitions,
   ...utilityToolDefinitions,
@@ -50,9 +66,12 @@ export const allToolDefinitions = [
  */
 export const allSchemas = {
   ...accountSchemas,
+  ...apiKeySchemas,
   ...portSchemas,
   ...statusSchemas,
   ...rotationSchemas,
+  ...bulkSchemas,
+  ...healthSchemas,
   ...billingSchemas,
   ...referenceSchemas,
   ...utilitySchemas,
@@ -61,10 +80,18 @@ export const allSchemas = {
   ...x402SessionSchemas,
 } as const;
 
+/**
+ * Limits the server sets on one tool call
+ */
+export interface ToolCallOptions {
+  /** Most a paid tool may spend (the amount the user confirmed) */
+  maxAmountUSDC?: number;
+}
+
 /**
  * Tool handler type
  */
-export type ToolHandler = (args: Record<string, unknown>) => Promise<string>;
+export type ToolHandler = (args: Record<string, unknown>, options?: ToolCallOptions) => Promise<string | ToolResult>;
 
 /**
  * Tool handlers map type
@@ -72,13 +99,21 @@ export type ToolHandler = (args: Record<string, unknown>) => Promise<string>;
 export type ToolHandlers = Record<string, ToolHandler>;
 
 /**
- * Create all tool handlers
+ * Create all tool handlers. The health tools use `healthMonitor` when given
+ * (so the server can configure and start it), otherwise an idle monitor.
  */
-export function createAllToolHandlers(api: ProxiesApi, baseUrl: string): ToolHandlers {
+export function createAllToolHandlers(
+  api: ProxiesApi,
+  baseUrl: string,
+  healthMonitor: PortHealthMonitor = createPortHealthMonitor(api)
+): ToolHandlers {
   const accountHandlers = createAccountToolHandlers(api);
+  const apiKeyHandlers = createApiKeyToolHandlers(api);
   const portHandlers = createPortToolHandlers(api);
   const statusHandlers = createStatusToolHandlers(api);
   const rotationHandlers = createRotationToolHandlers(api, baseUrl);
+  const bulkHandlers = createBulkToolHandlers(api);
+  const healthHandlers = createHealthToolHandlers(healthMonitor);
   const billingHandlers = createBillingToolHandlers(api);
   const referenceHandlers = createReferenceToolHandlers(api);
   const utilityHandlers = createUtilityToolHandlers(api, baseUrl);
@@ -90,6 +125,15 @@ export function createAllToolHandlers(api: ProxiesApi, baseUrl: string): ToolHan
     // Account tools
     get_account_summary: () => accountHandlers.get_account_summary(),
     get_account_usage: () => accountHandlers.get_account_usage(),
+    list_notifications: (args) => accountHandlers.list_notifications(args as Parameters<typeof accountHandlers.list_notifications>[0]),
+    read_notification: (args) => accountHandlers.read_notification(args as Parameters<typeof accountHandlers.read_notification>[0]),
+    mark_all_notifications_read: () => accountHandlers.mark_all_notifications_read(),
+    dismiss_notification: (args) => accountHandlers.dismiss_notification(args as Parameters<typeof accountHandlers.dismiss_notification>[0]),
+
+    // API key tools
+    list_api_keys: (args) => apiKeyHandlers.list_api_keys(args as Parameters<typeof apiKeyHandlers.list_api_keys>[0]),
+    create_api_key: (args) => apiKeyHandlers.create_api_key(args as Parameters<typeof apiKeyHandlers.create_api_key>[0]),
+    revoke_api_key: (args) => apiKeyHandlers.revoke_api_key(args as Parameters<typeof apiKeyHandlers.revoke_api_key>[0]),
 
     // Port tools
     list_ports: (args) => portHandlers.list_ports(args as Parameters<typeof portHandlers.list_ports>[0]),
@@ -113,11 +157,23 @@ export function createAllToolHandlers(api: ProxiesApi, baseUrl: string): ToolHan
     get_rotation_history: (args) => rotationHandlers.get_rotation_history(args as Parameters<typeof rotationHandlers.get_rotation_history>[0]),
     get_rotation_token_url: (args) => rotationHandlers.get_rotation_token_url(args as Parameters<typeof rotationHandlers.get_rotation_token_url>[0]),
 
+    // Bulk port tools
+    bulk_rotate_ports: (args) => bulkHandlers.bulk_rotate_ports(args as Parameters<typeof bulkHandlers.bulk_rotate_ports>[0]),
+    bulk_update_os_fingerprint: (args) => bulkHandlers.bulk_update_os_fingerprint(args as Parameters<typeof bulkHandlers.bulk_update_os_fingerprint>[0]),
+    bulk_configure_auto_rotation: (args) => bulkHandlers.bulk_configure_auto_rotation(args as Parameters<typeof bulkHandlers.bulk_configure_auto_rotation>[0]),
+
+    // Port health tools
+    get_port_health_report: (args) => healthHandlers.get_port_health_report(args as Parameters<typeof healthHandlers.get_port_health_report>[0]),
+    configure_port_health_monitor: (args) => healthHandlers.configure_port_health_monitor(args as Parameters<typeof healthHandlers.configure_port_health_monitor>[0]),
+
     // Billing tools (Slots are FREE - Jan 2026 business model update)
     get_pricing: () => billingHandlers.get_pricing(),
     calculate_price: (args) => billingHandlers.calculate_price(args as Parameters<typeof billingHandlers.calculate_price>[0]),
     purchase_shared_traffic: (args) => billingHandlers.purchase_shared_traffic(args as Parameters<typeof billingHandlers.purchase_shared_traffic>[0]),
     purchase_private_traffic: (args) => billingHandlers.purchase_private_traffic(args as Parameters<typeof billingHandlers.purchase_private_traffic>[0]),
+    list_purchases: (args) => billingHandlers.list_purchases(args as Parameters<typeof billingHandlers.list_purchases>[0]),
+    get_purchase_receipt: (args) => billingHandlers.get_purchase_receipt(args as Parameters<typeof billingHandlers.get_purchase_receipt>[0]),
+    export_purchases: (args) => billingHandlers.export_purchases(args as Parameters<typeof billingHandlers.export_purchases>[0]),
 
     // Reference tools (cities, carriers, regions removed - 2026-01-03)
     list_available_countries: (args) => referenceHandlers.list_available_countries(args as Parameters<typeof referenceHandlers.list_available_countries>[0]),
@@ -133,6 +189,8 @@ export function createAllToolHandlers(api: ProxiesApi, baseUrl: string): ToolHan
     get_pending_crypto_payments: () => paymentHandlers.get_pending_crypto_payments(),
     cancel_crypto_payment: (args) => paymentHandlers.cancel_crypto_payment(args as Parameters<typeof paymentHandlers.cancel_crypto_payment>[0]),
     get_crypto_payment_info: () => paymentHandlers.get_crypto_payment_info(),
+    get_crypto_payment_history: (args) => paymentHandlers.get_crypto_payment_history(args as Parameters<typeof paymentHandlers.get_crypto_payment_history>[0]),
+    get_crypto_reconciliation_report: () => paymentHandlers.get_crypto_reconciliation_report(),
 
     // Support tools (tickets)
     create_support_ticket: (args) => supportHandlers.create_support_ticket(args as Parameters<typeof supportHandlers.create_support_ticket>[0]),
@@ -153,6 +211,74 @@ export function createAllToolHandlers(api: ProxiesApi, baseUrl: string): ToolHan
   };
 }
 
+/**
+ * Create dry-run previews for every state-changing tool. A preview validates
+ * the input and reads current state and price, but never calls the mutating
+ * endpoint. The health preview reads the settings of `healthMonitor`.
+ */
+export function createAllToolPreviews(
+  api: ProxiesApi,
+  healthMonitor: PortHealthMonitor = createPortHealthMonitor(api)
+): ToolHandlers {
+  const accountPreviews = createAccountToolPreviews(api);
+  const apiKeyPreviews = createApiKeyToolPreviews(api);
+  const portPreviews = createPortToolPreviews(api);
+  const rotationPreviews = createRotationToolPreviews(api);
+  const bulkPreviews = createBulkToolPreviews(api);
+  const healthPreviews = createHealthToolPreviews(healthMonitor);
+  const billingPreviews = createBillingToolPreviews(api);
+  const paymentPreviews = createPaymentToolPreviews(api);
+  const supportPreviews = createSupportToolPreviews(api);
+  const x402SessionPreviews = createX402SessionToolPreviews(api);
+
+  return {
+    // Account tools
+    read_notification: (args) => accountPreviews.read_notification(args as Parameters<typeof accountPreviews.read_notification>[0]),
+    mark_all_notifications_read: () => accountPreviews.mark_all_notifications_read(),
+    dismiss_notification: (args) => accountPreviews.dismiss_notification(args as Parameters<typeof accountPreviews.dismiss_notification>[0]),
+
+    // API key tools
+    create_api_key: (args) => apiKeyPreviews.create_api_key(args as Parameters<typeof apiKeyPreviews.create_api_key>[0]),
+    revoke_api_key: (args) => apiKeyPreviews.revoke_api_key(args as Parameters<typeof apiKeyPreviews.revoke_api_key>[0]),
+
+    // Port tools
+    create_port: (args) => portPreviews.create_port(args as Parameters<typeof portPreviews.create_port>[0]),
+    delete_port: (args) => portPreviews.delete_port(args as Parameters<typeof portPreviews.delete_port>[0]),
+    update_port_credentials: (args) => portPreviews.update_port_credentials(args as Parameters<typeof portPreviews.update_port_credentials>[0]),
+    update_os_fingerprint: (args) => portPreviews.update_os_fingerprint(args as Parameters<typeof portPreviews.update_os_fingerprint>[0]),
+    reconfigure_port: (args) => portPreviews.reconfigure_port(args as Parameters<typeof portPreviews.reconfigure_port>[0]),
+
+    // Rotation tools
+    rotate_port: (args) => rotationPreviews.rotate_port(args as Parameters<typeof rotationPreviews.rotate_port>[0]),
+    configure_auto_rotation: (args) => rotationPreviews.configure_auto_rotation(args as Parameters<typeof rotationPreviews.configure_auto_rotation>[0]),
+
+    // Bulk port tools
+    bulk_rotate_ports: (args) => bulkPreviews.bulk_rotate_ports(args as Parameters<typeof bulkPreviews.bulk_rotate_ports>[0]),
+    bulk_update_os_fingerprint: (args) => bulkPreviews.bulk_update_os_fingerprint(args as Parameters<typeof bulkPreviews.bulk_update_os_fingerprint>[0]),
+    bulk_configure_auto_rotation: (args) => bulkPreviews.bulk_configure_auto_rotation(args as Parameters<typeof bulkPreviews.bulk_configure_auto_rotation>[0]),
+
+    // Port health tools
+    configure_port_health_monitor: (args) => healthPreviews.configure_port_health_monitor(args as Parameters<typeof healthPreviews.configure_port_health_monitor>[0]),
+
+    // Billing tools
+    purchase_shared_traffic: (args) => billingPreviews.purchase_shared_traffic(args as Parameters<typeof billingPreviews.purchase_shared_traffic>[0]),
+    purchase_private_traffic: (args) => billingPreviews.purchase_private_traffic(args as Parameters<typeof billingPreviews.purchase_private_traffic>[0]),
+
+    // Payment tools (CoinGate crypto)
+    create_crypto_payment: (args) => paymentPreviews.create_crypto_payment(args as Parameters<typeof paymentPreviews.create_crypto_payment>[0]),
+    cancel_crypto_payment: (args) => paymentPreviews.cancel_crypto_payment(args as Parameters<typeof paymentPreviews.cancel_crypto_payment>[0]),
+
+    // Support tools (tickets)
+    create_support_ticket: (args) => supportPreviews.create_support_ticket(args as Parameters<typeof supportPreviews.create_support_ticket>[0]),
+    reply_to_ticket: (args) => supportPreviews.reply_to_ticket(args as Parameters<typeof supportPreviews.reply_to_ticket>[0]),
+    close_ticket: (args) => supportPreviews.close_ticket(args as Parameters<typeof supportPreviews.close_ticket>[0]),
+
+    // X402 Session Management tools
+    replace_x402_port: (args) => x402SessionPreviews.replace_x402_port(args as Parameters<typeof x402SessionPreviews.replace_x402_port>[0]),
+    topup_x402_session: (args) => x402SessionPreviews.topup_x402_session(args as Parameters<typeof x402SessionPreviews.topup_x402_session>[0]),
+  };
+}
+
 /**
  * Get tool names list
  */
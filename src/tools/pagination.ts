@@ -0,0 +1,65 @@
+/**
+ * Cursor Pagination Helpers
+ * Opaque continuation cursors for list tools
+ *
+ * A cursor records the offset of the next item and a fingerprint of the
+ * query (filters and sort order) it belongs to, so it cannot silently be
+ * applied to a different listing.
+ */
+
+import { createHash } from 'crypto';
+import { z } from 'zod';
+
+/**
+ * Cursor payload
+ */
+interface CursorData {
+  offset: number;
+  query: string;
+}
+
+/**
+ * Fingerprint of the query a cursor belongs to
+ */
+function queryFingerprint(query: object): string {
+  const normalized = Object.entries(query)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex').slice(0, 12);
+}
+
+/**
+ * Encode a cursor for continuing a listing at `offset`
+ */
+export function encodeCursor(offset: number, query: object): string {
+  const data: CursorData = { offset, query: queryFingerprint(query) };
+  return Buffer.from(JSON.stringify(data)).toString('base64url');
+}
+
+/**
+ * Decode a cursor into the offset to continue from (0 without a cursor).
+ * Throws if the cursor is malformed or was issued for a different query.
+ */
+export function decodeCursor(cursor: string | undefined, query: object): number {
+  if (!cursor) return 0;
+
+  let data: Partial<CursorData>;
+  try {
+    data = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  if (typeof data.offset !== 'number' || data.offset < 0 || typeof data.query !== 'string') {
+    throw new Error('Invalid cursor');
+  }
+  if (data.query !== queryFingerprint(query)) {
+    throw new Error('Cursor belongs to a different query - repeat the call with the same filters and sort order');
+  }
+  return data.offset;
+}
+
+/**
+ * Cursor parameter shared by list tools
+ */
+export const cursorParam = z.string().optional().describe('Continuation cursor (nextCursor from the previous call with the same filters)');
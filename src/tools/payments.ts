@@ -5,84 +5,132 @@
 
 import { z } from 'zod';
 import type { ProxiesApi } from '../api/index.js';
+import type { OrderStatus } from '../api/payments.js';
+import type { Purchase } from '../api/types.js';
 import { formatCurrency } from '../utils/formatting.js';
+import { toolPreview, toolResult, type ToolResult } from '../utils/output.js';
+import { defineTools, toToolDefinitions, toToolSchemas } from './define.js';
 
 /**
- * Tool definitions for crypto payments
+ * Cap on purchases scanned for reconciliation
+ */
+const MAX_PURCHASES_SCANNED = 5000;
+
+/**
+ * Received amounts this far below the order price count as underpaid (USD)
+ */
+const UNDERPAYMENT_TOLERANCE = 0.01;
+
+/**
+ * Amount credited to balance for an order
  */
-export const paymentToolDefinitions = [
-  {
-    name: 'create_crypto_payment',
+function creditedAmount(order: OrderStatus): number {
+  return order.receiveAmount ?? order.priceAmount;
+}
+
+/**
+ * Reconciliation issues for a single crypto order
+ */
+function findOrderIssues(order: OrderStatus): string[] {
+  const issues: string[] = [];
+
+  if (order.status === 'paid' && !order.balanceCredited) {
+    issues.push('PAID BUT NOT CREDITED');
+  }
+
+  if (order.status === 'expired') {
+    issues.push(order.payAmount && order.paidAt ? 'EXPIRED AFTER PAYMENT STARTED' : 'EXPIRED');
+  }
+
+  if (order.status === 'invalid') {
+    issues.push('INVALID (likely underpaid)');
+  } else if (
+    order.status === 'paid' &&
+    order.receiveAmount !== undefined &&
+    order.receiveAmount < order.priceAmount - UNDERPAYMENT_TOLERANCE
+  ) {
+    issues.push(`UNDERPAID (received ${formatCurrency(order.receiveAmount)} of ${formatCurrency(order.priceAmount)})`);
+  }
+
+  return issues;
+}
+
+/**
+ * Fetch all purchases (bounded) for reconciliation
+ */
+async function fetchAllPurchases(api: ProxiesApi): Promise<{ purchases: Purchase[]; complete: boolean }> {
+  const iterator = api.billing.iteratePurchases();
+  const purchases = await iterator.take(MAX_PURCHASES_SCANNED);
+  return { purchases, complete: purchases.length < MAX_PURCHASES_SCANNED || purchases.length >= (iterator.total ?? 0) };
+}
+
+/**
+ * Crypto payment tools (description and input schema)
+ */
+export const paymentTools = defineTools({
+  create_crypto_payment: {
     description: 'Create a crypto payment order to top up balance. Returns a payment URL where the user can pay with BTC, ETH, USDT, and 50+ other cryptocurrencies. After payment, balance is credited automatically.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        amount: {
-          type: 'number',
-          description: 'Amount to top up in USD (10-1000)',
-        },
-      },
-      required: ['amount'],
-    },
+    schema: z.object({
+      amount: z.number().min(10).max(1000).describe('Amount to top up in USD'),
+    }),
+    scopes: ['billing:write'],
+    mutating: true,
   },
-  {
-    name: 'check_crypto_payment_status',
+  check_crypto_payment_status: {
     description: 'Check the status of a crypto payment order',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        orderId: {
-          type: 'string',
-          description: 'The order ID to check (e.g., topup_abc123_1702134567890)',
-        },
-      },
-      required: ['orderId'],
-    },
+    schema: z.object({
+      orderId: z.string().min(1).describe('The order ID to check (e.g., topup_abc123_1702134567890)'),
+    }),
+    scopes: ['billing:read'],
   },
-  {
-    name: 'get_pending_crypto_payments',
+  get_pending_crypto_payments: {
     description: 'Get all pending crypto payments (new, pending, or confirming status)',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {},
-      required: [] as string[],
-    },
+    schema: z.object({}),
+    scopes: ['billing:read'],
   },
-  {
-    name: 'cancel_crypto_payment',
+  cancel_crypto_payment: {
     description: 'Cancel a pending crypto payment order. Only orders with "new" status (awaiting payment) can be canceled.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        orderId: {
-          type: 'string',
-          description: 'The order ID to cancel',
-        },
-      },
-      required: ['orderId'],
-    },
+    schema: z.object({
+      orderId: z.string().min(1).describe('The order ID to cancel'),
+    }),
+    scopes: ['billing:write'],
+    mutating: true,
   },
-  {
-    name: 'get_crypto_payment_info',
+  get_crypto_payment_info: {
     description: 'Get information about crypto payment availability and supported currencies',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {},
-      required: [] as string[],
-    },
+    schema: z.object({}),
+    scopes: ['billing:read'],
+  },
+  get_crypto_payment_history: {
+    description: 'Get crypto top-up history (all CoinGate orders): amount, status, crypto paid, and whether the balance was credited',
+    schema: z.object({
+      status: z.enum(['new', 'pending', 'confirming', 'paid', 'expired', 'canceled', 'invalid']).optional().describe('Filter by order status'),
+      limit: z.number().min(1).max(100).optional().describe('Maximum number of orders to return, newest first (default: 20)'),
+    }),
+    scopes: ['billing:read'],
   },
-] as const;
+  get_crypto_reconciliation_report: {
+    description: 'Reconcile crypto top-ups against balance credits and purchases. Flags orders that are paid but not credited, expired, or underpaid, and compares credits minus balance-paid purchases with the current account balance.',
+    schema: z.object({}),
+    scopes: ['account:read', 'billing:read'],
+  },
+});
+
+/**
+ * Tool definitions for crypto payments
+ */
+export const paymentToolDefinitions = toToolDefinitions(paymentTools);
 
 /**
  * Payment tools handler
  */
 export function createPaymentToolHandlers(api: ProxiesApi) {
   return {
-    async create_crypto_payment(args: { amount: number }): Promise<string> {
+    async create_crypto_payment(args: { amount: number }): Promise<ToolResult> {
       try {
         const result = await api.payments.createCryptoOrder(args.amount);
 
-        return [
+        return toolResult([
           '═══════════════════════════════════════════════════════════════',
           '                    CRYPTO PAYMENT ORDER CREATED',
           '═══════════════════════════════════════════════════════════════',
@@ -127,13 +175,13 @@ export function createPaymentToolHandlers(api: ProxiesApi) {
           '═══════════════════════════════════════════════════════════════',
           '',
           `To check payment status: check_crypto_payment_status("${result.orderId}")`,
-        ].join('\n');
+        ].join('\n'), { order: result });
       } catch (error) {
         throw new Error(`Failed to create crypto payment: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     },
 
-    async check_crypto_payment_status(args: { orderId: string }): Promise<string> {
+    async check_crypto_payment_status(args: { orderId: string }): Promise<ToolResult> {
       try {
         const result = await api.payments.getCryptoOrderStatus(args.orderId);
 
@@ -211,18 +259,18 @@ export function createPaymentToolHandlers(api: ProxiesApi) {
           lines.push(result.paymentUrl);
         }
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), { order: result });
       } catch (error) {
         throw new Error(`Failed to check payment status: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     },
 
-    async get_pending_crypto_payments(): Promise<string> {
+    async get_pending_crypto_payments(): Promise<ToolResult> {
       try {
         const result = await api.payments.getPendingCryptoPayments();
 
         if (result.length === 0) {
-          return [
+          return toolResult([
             '═══════════════════════════════════════════════════════════════',
             '                    NO PENDING PAYMENTS',
             '═══════════════════════════════════════════════════════════════',
@@ -232,7 +280,7 @@ export function createPaymentToolHandlers(api: ProxiesApi) {
             'To top up your balance with crypto:',
             '  Use: create_crypto_payment(amount)',
             '  Example: create_crypto_payment(50) for $50 top-up',
-          ].join('\n');
+          ].join('\n'), { orders: result });
         }
 
         const lines = [
@@ -256,16 +304,16 @@ export function createPaymentToolHandlers(api: ProxiesApi) {
         lines.push('To check status: check_crypto_payment_status("ORDER_ID")');
         lines.push('To cancel: cancel_crypto_payment("ORDER_ID")');
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), { orders: result });
       } catch (error) {
         throw new Error(`Failed to get pending payments: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     },
 
-    async cancel_crypto_payment(args: { orderId: string }): Promise<string> {
+    async cancel_crypto_payment(args: { orderId: string }): Promise<ToolResult> {
       try {
         const result = await api.payments.cancelCryptoOrder(args.orderId);
-        return [
+        return toolResult([
           '═══════════════════════════════════════════════════════════════',
           '                    PAYMENT CANCELED',
           '═══════════════════════════════════════════════════════════════',
@@ -275,28 +323,28 @@ export function createPaymentToolHandlers(api: ProxiesApi) {
           result.message || 'The payment link will expire automatically.',
           '',
           'To create a new payment: create_crypto_payment(amount)',
-        ].join('\n');
+        ].join('\n'), { orderId: args.orderId, result });
       } catch (error) {
         throw new Error(`Failed to cancel payment: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     },
 
-    async get_crypto_payment_info(): Promise<string> {
+    async get_crypto_payment_info(): Promise<ToolResult> {
       try {
         const result = await api.payments.getCryptoPaymentStatus();
 
         if (!result.available) {
-          return [
+          return toolResult([
             '═══════════════════════════════════════════════════════════════',
             '              ❌ CRYPTO PAYMENTS UNAVAILABLE',
             '═══════════════════════════════════════════════════════════════',
             '',
             'Crypto payments are currently not available.',
             'Please try again later or use card payment.',
-          ].join('\n');
+          ].join('\n'), { status: result });
         }
 
-        return [
+        return toolResult([
           '═══════════════════════════════════════════════════════════════',
           '              💰 CRYPTO PAYMENTS - HOW IT WORKS',
           '═══════════════════════════════════════════════════════════════',
@@ -346,27 +394,184 @@ export function createPaymentToolHandlers(api: ProxiesApi) {
           '═══════════════════════════════════════════════════════════════',
           '              Provider: CoinGate (Secure Hosted Checkout)',
           '═══════════════════════════════════════════════════════════════',
-        ].join('\n');
+        ].join('\n'), { status: result });
       } catch (error) {
         throw new Error(`Failed to get payment info: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     },
+
+    async get_crypto_payment_history(args: { status?: string; limit?: number }): Promise<ToolResult> {
+      try {
+        const history = await api.payments.getCryptoPaymentHistory();
+        const orders = history
+          .filter(order => !args.status || order.status === args.status)
+          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+          .slice(0, args.limit ?? 20);
+
+        if (orders.length === 0) {
+          return toolResult(args.status
+            ? `No crypto payments with status "${args.status}".`
+            : 'No crypto payments found. To top up: create_crypto_payment(amount)', { total: history.length, orders });
+        }
+
+        const lines = [
+          '═══════════════════════════════════════════════════════════════',
+          `              CRYPTO PAYMENT HISTORY (${orders.length} of ${history.length})`,
+          '═══════════════════════════════════════════════════════════════',
+        ];
+
+        for (const order of orders) {
+          lines.push('');
+          lines.push(`📋 Order: ${order.orderId}`);
+          lines.push(`   Created: ${order.createdAt}`);
+          lines.push(`   Amount: ${formatCurrency(order.priceAmount)} ${order.priceCurrency}`);
+          lines.push(`   Status: ${order.status.toUpperCase()}`);
+          if (order.payCurrency && order.payAmount) {
+            lines.push(`   Paid With: ${order.payAmount} ${order.payCurrency}`);
+          }
+          if (order.paidAt) {
+            lines.push(`   Paid At: ${order.paidAt}`);
+          }
+          lines.push(`   Balance Credited: ${order.balanceCredited ? `Yes (${formatCurrency(creditedAmount(order))})` : 'No'}`);
+        }
+
+        return toolResult(lines.join('\n'), { total: history.length, orders });
+      } catch (error) {
+        throw new Error(`Failed to get crypto payment history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    async get_crypto_reconciliation_report(): Promise<ToolResult> {
+      try {
+        const [history, account, { purchases, complete }] = await Promise.all([
+          api.payments.getCryptoPaymentHistory(),
+          api.account.getSummary(),
+          fetchAllPurchases(api),
+        ]);
+
+        const credited = history.filter(order => order.balanceCredited);
+        const totalCredited = credited.reduce((sum, order) => sum + creditedAmount(order), 0);
+
+        const balancePurchases = purchases.filter(
+          p => p.paymentMethod === 'balance' && p.paymentStatus === 'completed'
+        );
+        const totalSpent = balancePurchases.reduce((sum, p) => sum + p.totalPrice, 0);
+
+        const expectedBalance = totalCredited - totalSpent;
+        const difference = account.balance - expectedBalance;
+
+        const flagged = history
+          .map(order => ({ order, issues: findOrderIssues(order) }))
+          .filter(entry => entry.issues.length > 0);
+
+        const lines = [
+          '═══════════════════════════════════════════════════════════════',
+          '              CRYPTO PAYMENT RECONCILIATION',
+          '═══════════════════════════════════════════════════════════════',
+          '',
+          `Crypto Orders: ${history.length} (${credited.length} credited)`,
+          `Crypto Credits: ${formatCurrency(totalCredited)}`,
+          `Balance-Paid Purchases: ${formatCurrency(totalSpent)} (${balancePurchases.length} completed${complete ? '' : `, first ${purchases.length} scanned`})`,
+          `Expected Balance (credits - purchases): ${formatCurrency(expectedBalance)}`,
+          `Actual Balance: ${formatCurrency(account.balance)} ${account.currency}`,
+          `Difference: ${difference >= 0 ? '+' : ''}${formatCurrency(difference)}`,
+        ];
+
+        if (Math.abs(difference) >= UNDERPAYMENT_TOLERANCE) {
+          lines.push('');
+          lines.push('Note: card top-ups, refunds and manual adjustments are not part of crypto history');
+          lines.push('and can explain a difference. Contact support if it remains unexplained.');
+        }
+
+        lines.push('');
+        lines.push('───────────────────────────────────────────────────────────────');
+        lines.push(`                 FLAGGED ORDERS (${flagged.length})`);
+        lines.push('───────────────────────────────────────────────────────────────');
+
+        if (flagged.length === 0) {
+          lines.push('');
+          lines.push('✅ No issues found - every paid order was credited in full.');
+        }
+
+        for (const { order, issues } of flagged) {
+          lines.push('');
+          lines.push(`⚠️  Order: ${order.orderId}`);
+          lines.push(`   Created: ${order.createdAt}`);
+          lines.push(`   Amount: ${formatCurrency(order.priceAmount)} ${order.priceCurrency}`);
+          if (order.payCurrency && order.payAmount) {
+            lines.push(`   Paid With: ${order.payAmount} ${order.payCurrency}`);
+          }
+          lines.push(`   Issues: ${issues.join(', ')}`);
+        }
+
+        if (flagged.some(entry => entry.issues.some(issue => !issue.startsWith('EXPIRED')))) {
+          lines.push('');
+          lines.push('───────────────────────────────────────────────────────────────');
+          lines.push('To get help with a flagged order: create_support_ticket (category: billing)');
+        }
+
+        return toolResult(lines.join('\n'), {
+          orderCount: history.length,
+          creditedCount: credited.length,
+          totalCredited,
+          balancePurchaseCount: balancePurchases.length,
+          totalSpent,
+          purchasesComplete: complete,
+          expectedBalance,
+          actualBalance: account.balance,
+          currency: account.currency,
+          difference,
+          flagged,
+        });
+      } catch (error) {
+        throw new Error(`Failed to build reconciliation report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+  };
+}
+
+/**
+ * Dry-run previews for the payment tools that change state
+ */
+export function createPaymentToolPreviews(api: ProxiesApi) {
+  return {
+    async create_crypto_payment(args: { amount: number }): Promise<ToolResult> {
+      try {
+        const [status, pending] = await Promise.all([
+          api.payments.getCryptoPaymentStatus(),
+          api.payments.getPendingCryptoPayments(),
+        ]);
+        const lines = [
+          `Would create a crypto payment order for ${formatCurrency(args.amount)} USD and return its payment link.`,
+          'No funds move until the order is paid; unpaid orders expire after ~60 minutes.',
+          `Open orders: ${pending.length}${pending.length > 0 ? ` (${pending.map(o => `${o.orderId} ${formatCurrency(o.priceAmount)}`).join(', ')})` : ''}`,
+        ];
+        if (!status.available) lines.push('', 'This call would fail: crypto payments are currently unavailable.');
+
+        return toolPreview(lines.join('\n'), { action: 'create_crypto_payment', amount: args.amount, available: status.available, pendingOrders: pending });
+      } catch (error) {
+        throw new Error(`Failed to preview payment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    async cancel_crypto_payment(args: { orderId: string }): Promise<ToolResult> {
+      try {
+        const order = await api.payments.getCryptoOrderStatus(args.orderId);
+        const lines = [
+          `Would cancel order ${order.orderId} for ${formatCurrency(order.priceAmount)} ${order.priceCurrency} (status: ${order.status}).`,
+        ];
+        if (order.status !== 'new') {
+          lines.push('', `Payment activity exists for this order (${order.status}); canceling may not be possible and funds already sent are not returned by canceling.`);
+        }
+        return toolPreview(lines.join('\n'), { action: 'cancel_crypto_payment', order });
+      } catch (error) {
+        throw new Error(`Failed to preview cancellation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
   };
 }
 
 /**
  * Zod schemas for validation
  */
-export const paymentSchemas = {
-  create_crypto_payment: z.object({
-    amount: z.number().min(10).max(1000),
-  }),
-  check_crypto_payment_status: z.object({
-    orderId: z.string().min(1),
-  }),
-  get_pending_crypto_payments: z.object({}),
-  cancel_crypto_payment: z.object({
-    orderId: z.string().min(1),
-  }),
-  get_crypto_payment_info: z.object({}),
-};
+export const paymentSchemas = toToolSchemas(paymentTools);
@@ -0,0 +1,451 @@
+/**
+ * Purchase Planner Tool
+ * Prices a set of location and traffic requirements against a budget,
+ * checks availability and optionally executes the cheapest feasible plan
+ */
+
+import { z } from 'zod';
+import type { ProxiesApi, PricingInfo } from '../api/index.js';
+import { x402Schemas, type X402Client, type X402ToolHandlers } from '../x402/index.js';
+import { toolFailure, toolPreview, toolResult, type ToolResult } from '../utils/output.js';
+import { defineTools, toToolDefinitions, toToolSchemas } from './define.js';
+
+/**
+ * Minimum traffic purchase per payment method (GB)
+ */
+const MIN_ACCOUNT_PURCHASE_GB = 1;
+const MIN_X402_TRAFFIC_GB = 0.1;
+
+export type PlanMethod = 'account' | 'x402';
+type Tier = 'shared' | 'private';
+
+/**
+ * One location requirement
+ */
+export interface PlanRequirement {
+  country: string;
+  count?: number;
+  trafficGB: number;
+  tier?: Tier;
+  city?: string;
+  carrier?: string;
+}
+
+/**
+ * A requirement as the plan would buy it
+ */
+export interface PlanItem {
+  country: string;
+  count: number;
+  trafficGB: number;
+  tier: Tier;
+  city?: string;
+  carrier?: string;
+  /** Country ID used to create account ports */
+  countryId?: string;
+  /** x402 cost of this item; account traffic is priced per tier in `purchases` */
+  costUSD?: number;
+  available: boolean;
+  note?: string;
+}
+
+/**
+ * Account traffic purchase (one per tier, volume discount applied)
+ */
+export interface PlanTrafficPurchase {
+  tier: Tier;
+  quantityGB: number;
+  pricePerGB: number;
+  discountPercent: number;
+  costUSD: number;
+}
+
+export interface PurchasePlan {
+  method: PlanMethod;
+  durationHours: number;
+  items: PlanItem[];
+  purchases: PlanTrafficPurchase[];
+  totalUSD: number;
+  budgetUSD: number;
+  feasible: boolean;
+  /** Reasons the plan cannot be executed */
+  problems: string[];
+  warnings: string[];
+}
+
+/**
+ * Backends the planner can price and buy with; methods without a source are skipped
+ */
+export interface PlannerSources {
+  api?: ProxiesApi | null;
+  x402?: {
+    client: Pick<X402Client, 'calculatePricing' | 'getWallets'>;
+    handlers: Pick<X402ToolHandlers, 'x402_list_countries' | 'x402_list_cities' | 'x402_list_carriers' | 'x402_get_proxy'>;
+  };
+}
+
+type PlanArgs = {
+  requirements: PlanRequirement[];
+  budgetUSD: number;
+  durationHours?: number;
+  method?: PlanMethod;
+  execute?: boolean;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Volume discount for a purchase of `gb`
+ */
+function discountFor(pricing: PricingInfo, gb: number): number {
+  const tier = pricing.volumeDiscounts.find(d => gb >= d.minGB && (d.maxGB === null || gb <= d.maxGB));
+  return tier?.discountPercent ?? 0;
+}
+
+/**
+ * Check a plan's total against its budget and settle feasibility
+ */
+function finishPlan(plan: Omit<PurchasePlan, 'feasible'>): PurchasePlan {
+  if (plan.totalUSD > plan.budgetUSD) {
+    plan.problems.push(`Total $${plan.totalUSD.toFixed(2)} exceeds the budget of $${plan.budgetUSD.toFixed(2)} by $${(plan.totalUSD - plan.budgetUSD).toFixed(2)}`);
+  }
+  for (const item of plan.items.filter(i => !i.available)) {
+    plan.problems.push(`${item.country}${item.city ? `/${item.city}` : ''}${item.carrier ? ` (${item.carrier})` : ''}: ${item.note}`);
+  }
+  return { ...plan, feasible: plan.problems.length === 0 };
+}
+
+/**
+ * Plan with account balance: one traffic purchase per tier, free port slots per proxy
+ */
+async function planWithAccount(api: ProxiesApi, args: PlanArgs, durationHours: number): Promise<PurchasePlan> {
+  const [pricing, summary, shared, priv] = await Promise.all([
+    api.billing.getPricing(),
+    api.account.getSummary(),
+    api.reference.getAvailableCountries(false),
+    api.reference.getAvailableCountries(true),
+  ]);
+  const availability: Record<Tier, typeof shared> = { shared, private: priv };
+
+  const items = args.requirements.map((req): PlanItem => {
+    const count = req.count ?? 1;
+    const code = req.country.toUpperCase();
+    const fits = (tier: Tier) => availability[tier].find(c => c.code.toUpperCase() === code && c.freeDeviceCount >= count);
+    // Shared is cheaper, so private is only picked when shared has no capacity
+    const tier = req.tier ?? (fits('shared') || !fits('private') ? 'shared' : 'private');
+    const country = fits(tier);
+    const base = { country: code, count, trafficGB: req.trafficGB, tier, city: req.city, carrier: req.carrier };
+
+    if (req.city || req.carrier) {
+      return { ...base, available: false, note: 'city/carrier targeting by name needs x402; use create_port with IDs instead' };
+    }
+    if (!country) {
+      const free = availability[tier].find(c => c.code.toUpperCase() === code)?.freeDeviceCount ?? 0;
+      return { ...base, available: false, note: `${free} free ${tier} device(s), ${count} needed` };
+    }
+    return { ...base, countryId: country._id, available: true };
+  });
+
+  const warnings: string[] = [];
+  const purchases: PlanTrafficPurchase[] = [];
+  for (const tier of ['shared', 'private'] as const) {
+    const tierItems = items.filter(i => i.tier === tier);
+    if (tierItems.length === 0) continue;
+
+    const neededGB = tierItems.reduce((sum, i) => sum + i.count * i.trafficGB, 0);
+    const availableGB = summary[tier]?.trafficGB.available ?? 0;
+    const slots = summary[tier]?.slots.available ?? 0;
+    const ports = tierItems.reduce((sum, i) => sum + i.count, 0);
+    if (slots < ports) {
+      warnings.push(`${ports} ${tier} port(s) need free slots but ${slots} are available; buying traffic may unlock more`);
+    }
+
+    // Existing traffic is used first
+    const missingGB = neededGB - availableGB;
+    if (missingGB <= 0) continue;
+
+    const quantityGB = Math.max(MIN_ACCOUNT_PURCHASE_GB, Math.ceil(missingGB * 10) / 10);
+    const discountPercent = discountFor(pricing, quantityGB);
+    const pricePerGB = pricing.basePrices[tier] * (1 - discountPercent / 100);
+    purchases.push({ tier, quantityGB, pricePerGB: round(pricePerGB), discountPercent, costUSD: round(quantityGB * pricePerGB) });
+  }
+
+  const totalUSD = round(purchases.reduce((sum, p) => sum + p.costUSD, 0));
+  const problems: string[] = [];
+  if (summary.balance < totalUSD) {
+    problems.push(`Account balance $${summary.balance.toFixed(2)} is below the plan total; top up with create_crypto_payment first`);
+  }
+
+  return finishPlan({ method: 'account', durationHours, items, purchases, totalUSD, budgetUSD: args.budgetUSD, problems, warnings });
+}
+
+/**
+ * Names listed by an x402 reference tool, or undefined when it failed
+ */
+async function listedNames(result: Promise<ToolResult>, key: 'countries' | 'cities' | 'carriers', field: 'code' | 'name'): Promise<string[] | undefined> {
+  const { data, failed } = await result;
+  if (failed) return undefined;
+  const entries = (data as Record<string, Array<Record<string, string | undefined>>>)[key] ?? [];
+  return entries.map(e => (e[field] ?? '').toUpperCase());
+}
+
+/**
+ * Plan with x402: one wallet payment per proxy at the published per-GB rate
+ */
+async function planWithX402(x402: NonNullable<PlannerSources['x402']>, args: PlanArgs, durationHours: number): Promise<PurchasePlan> {
+  const { client, handlers } = x402;
+  const countries = await listedNames(handlers.x402_list_countries(), 'countries', 'code');
+  if (!countries) {
+    throw new Error('x402 country list is unavailable');
+  }
+
+  const items: PlanItem[] = [];
+  for (const req of args.requirements) {
+    const count = req.count ?? 1;
+    const code = req.country.toUpperCase();
+    const tier = req.tier ?? 'shared';
+    const trafficGB = Math.max(MIN_X402_TRAFFIC_GB, req.trafficGB);
+    const costUSD = round(count * client.calculatePricing({ durationHours, trafficGB, tier }).totalCost);
+    const item: PlanItem = { country: code, count, trafficGB, tier, city: req.city, carrier: req.carrier, costUSD, available: true };
+
+    // Executing calls x402_get_proxy directly, so hold each purchase to that tool's limits
+    const purchase = x402Schemas.x402_get_proxy.safeParse({
+      country: code, duration_hours: durationHours, traffic_gb: trafficGB, tier, city: req.city, carrier: req.carrier,
+    });
+
+    if (!purchase.success) {
+      const limits = purchase.error.issues.map(i => `${i.path.join('.')} ${i.message.toLowerCase()}`).join(', ');
+      Object.assign(item, { available: false, note: `outside x402 purchase limits (${limits})` });
+    } else if (!countries.includes(code)) {
+      Object.assign(item, { available: false, note: 'country not available via x402' });
+    } else if (req.carrier && !(await listedNames(handlers.x402_list_carriers({ country: code }), 'carriers', 'name'))?.includes(req.carrier.toUpperCase())) {
+      Object.assign(item, { available: false, note: `carrier ${req.carrier} not available` });
+    } else if (req.city && !(await listedNames(handlers.x402_list_cities({ country: code }), 'cities', 'name'))?.includes(req.city.toUpperCase())) {
+      Object.assign(item, { available: false, note: `city ${req.city} not available` });
+    }
+    items.push(item);
+  }
+
+  const totalUSD = round(items.reduce((sum, i) => sum + (i.costUSD ?? 0), 0));
+  const problems: string[] = [];
+  const warnings: string[] = [];
+
+  // Each purchase pays from the wallet of the network the API accepts, so count every wallet
+  const balances = await Promise.all(client.getWallets().map(async (w) => Number((await w.getBalance()).usdc) / 1e6));
+  const balance = balances.reduce((sum, b) => sum + b, 0);
+  if (balance < totalUSD) {
+    problems.push(`Wallets hold $${balance.toFixed(2)} USDC, $${(totalUSD - balance).toFixed(2)} short of the plan total`);
+  } else if (balances.every((b) => b < totalUSD)) {
+    warnings.push('No single wallet covers the plan total; purchases fail once the paying wallet runs out');
+  }
+
+  return finishPlan({ method: 'x402', durationHours, items, purchases: [], totalUSD, budgetUSD: args.budgetUSD, problems, warnings });
+}
+
+/**
+ * Format a plan for display
+ */
+function formatPlan(plan: PurchasePlan): string {
+  const lines = [
+    `${plan.method === 'account' ? 'Account balance' : 'x402 wallet'} plan: $${plan.totalUSD.toFixed(2)} of $${plan.budgetUSD.toFixed(2)} budget (${plan.feasible ? 'feasible' : 'not feasible'})`,
+    '',
+  ];
+
+  for (const item of plan.items) {
+    const target = [item.city, item.carrier].filter(Boolean).join(', ');
+    const cost = item.costUSD !== undefined ? `  $${item.costUSD.toFixed(2)}` : '';
+    lines.push(`  ${item.available ? '✓' : '✗'} ${item.count} x ${item.country}${target ? ` (${target})` : ''} ${item.tier}, ${item.trafficGB} GB each, ${plan.durationHours}h${cost}`);
+  }
+
+  for (const purchase of plan.purchases) {
+    const discount = purchase.discountPercent > 0 ? ` (-${purchase.discountPercent}%)` : '';
+    lines.push(`  + ${purchase.quantityGB} GB ${purchase.tier} traffic at $${purchase.pricePerGB.toFixed(2)}/GB${discount}  $${purchase.costUSD.toFixed(2)}`);
+  }
+  if (plan.method === 'account' && plan.purchases.length === 0) {
+    lines.push('  Existing traffic balance covers the plan; ports only');
+  }
+
+  if (plan.problems.length > 0) lines.push('', 'Problems:', ...plan.problems.map(p => `  - ${p}`));
+  if (plan.warnings.length > 0) lines.push('', 'Warnings:', ...plan.warnings.map(w => `  - ${w}`));
+  return lines.join('\n');
+}
+
+/**
+ * Execute an account plan: buy traffic, then create the ports.
+ * Completed steps are appended to `steps` as they happen.
+ */
+async function executeAccountPlan(api: ProxiesApi, plan: PurchasePlan, steps: string[]): Promise<void> {
+  for (const purchase of plan.purchases) {
+    const result = await (purchase.tier === 'private'
+      ? api.billing.purchasePrivateTraffic(purchase.quantityGB)
+      : api.billing.purchaseSharedTraffic(purchase.quantityGB));
+    steps.push(
+      `Purchased ${purchase.quantityGB} GB ${purchase.tier} traffic` +
+      (result.replayed ? ' (replayed earlier purchase with an unknown outcome - it may not have added traffic)' : '')
+    );
+  }
+
+  const expiresAt = Math.ceil(plan.durationHours / 24) * 24 * 60 * 60;
+  for (const item of plan.items) {
+    for (let i = 0; i < item.count; i++) {
+      const result = await api.ports.create({ countryId: item.countryId!, isPrivate: item.tier === 'private', expiresAt });
+      const port = 'port' in result ? result.port : result;
+      steps.push(`Created ${item.tier} port ${port._id} in ${item.country}: ${port.serverIp}:${port.httpPort} (${port.proxyLogin}:${port.proxyPassword})`);
+    }
+  }
+}
+
+/**
+ * Execute an x402 plan: one x402_get_proxy purchase per proxy
+ */
+async function executeX402Plan(handlers: NonNullable<PlannerSources['x402']>['handlers'], plan: PurchasePlan, steps: string[]): Promise<void> {
+  for (const item of plan.items) {
+    for (let i = 0; i < item.count; i++) {
+      const result = await handlers.x402_get_proxy({
+        country: item.country,
+        duration_hours: plan.durationHours,
+        traffic_gb: item.trafficGB,
+        tier: item.tier,
+        city: item.city,
+        carrier: item.carrier,
+      });
+      if (result.failed) {
+        throw new Error(`x402_get_proxy for ${item.country}: ${result.text}`);
+      }
+      const { session, connectionStrings } = result.data as { session: { id: string }; connectionStrings: { http: string } };
+      steps.push(`Bought ${item.tier} proxy in ${item.country}, session ${session.id}: ${connectionStrings.http}`);
+    }
+  }
+}
+
+/**
+ * Planner tools (description and input schema)
+ */
+export const plannerTools = defineTools({
+  plan_proxy_purchase: {
+    description:
+      'Plan proxies for several locations within a budget, e.g. "3 proxies in DE, FR and US for 6 hours under $30". ' +
+      'Checks device availability, prices account-balance and x402 options (volume discounts, existing traffic) and ' +
+      'returns the cheapest feasible plan. Nothing is bought unless execute is true.',
+    schema: z.object({
+      requirements: z.array(z.object({
+        country: z.string().min(2).max(3).describe('Country code (ISO 3166-1 alpha-2), e.g. DE'),
+        count: z.number().int().min(1).max(50).optional().describe('Number of proxies in this location (default: 1)'),
+        trafficGB: z.number().min(0.1).max(1000).describe('Traffic per proxy in GB'),
+        tier: z.enum(['shared', 'private']).optional().describe('Force a tier (default: shared, or private when shared has no capacity)'),
+        city: z.string().optional().describe('City name (x402 only)'),
+        carrier: z.string().optional().describe('Carrier name (x402 only)'),
+      })).min(1).max(20).describe('Locations and traffic to buy'),
+      budgetUSD: z.number().positive().describe('Maximum total spend in USD/USDC'),
+      durationHours: z.number().int().min(1).max(8760).optional().describe('How long the proxies are needed (default: 1). Duration is free'),
+      method: z.enum(['account', 'x402']).optional().describe('Only consider this payment method (default: cheapest available)'),
+      execute: z.boolean().optional().describe('Buy the chosen plan if it is feasible (default: false, plan only)'),
+    }),
+    mutating: true,
+    confirm: 'always',
+  },
+});
+
+/**
+ * Tool definitions for purchase planning
+ */
+export const plannerToolDefinitions = toToolDefinitions(plannerTools);
+
+/**
+ * Purchase planner tools handler
+ */
+export function createPlannerToolHandlers(sources: PlannerSources) {
+  return {
+    async plan_proxy_purchase(args: PlanArgs): Promise<ToolResult> {
+      const durationHours = args.durationHours ?? 1;
+      const candidates: Array<[PlanMethod, () => Promise<PurchasePlan>]> = [];
+      if (sources.api && args.method !== 'x402') {
+        const api = sources.api;
+        candidates.push(['account', () => planWithAccount(api, args, durationHours)]);
+      }
+      if (sources.x402 && args.method !== 'account') {
+        const x402 = sources.x402;
+        candidates.push(['x402', () => planWithX402(x402, args, durationHours)]);
+      }
+      if (candidates.length === 0) {
+        return toolFailure(`Payment method ${args.method} is not configured.`, { error: 'method_not_configured', method: args.method });
+      }
+
+      const plans: PurchasePlan[] = [];
+      const errors: string[] = [];
+      for (const [method, plan] of candidates) {
+        try {
+          plans.push(await plan());
+        } catch (error) {
+          errors.push(`${method}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+      if (plans.length === 0) {
+        throw new Error(`Failed to plan purchase: ${errors.join('; ')}`);
+      }
+
+      // Feasible plans first, then cheapest
+      plans.sort((a, b) => Number(b.feasible) - Number(a.feasible) || a.totalUSD - b.totalUSD);
+      const [best, ...alternatives] = plans;
+
+      const lines = [formatPlan(best)];
+      for (const plan of alternatives) {
+        lines.push('', `Alternative: ${plan.method} at $${plan.totalUSD.toFixed(2)}${plan.feasible ? '' : ' (not feasible)'}`);
+      }
+      if (errors.length > 0) {
+        lines.push('', `Could not price: ${errors.join('; ')}`);
+      }
+
+      if (!args.execute) {
+        if (best.feasible) lines.push('', 'Call again with execute: true to buy this plan.');
+        return toolResult(lines.join('\n'), { plan: best, alternatives, executed: false });
+      }
+      if (!best.feasible) {
+        return toolFailure(['Plan not executed: no feasible plan.', '', ...lines].join('\n'), { plan: best, alternatives, executed: false });
+      }
+
+      const steps: string[] = [];
+      try {
+        if (best.method === 'account') {
+          await executeAccountPlan(sources.api!, best, steps);
+        } else {
+          await executeX402Plan(sources.x402!.handlers, best, steps);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return toolFailure(
+          [`Plan execution stopped: ${message}`, '', 'Completed before the failure:', ...(steps.length > 0 ? steps.map(s => `  ${s}`) : ['  (nothing)'])].join('\n'),
+          { plan: best, executed: false, completed: steps, error: message }
+        );
+      }
+
+      return toolResult([...lines, '', 'Executed:', ...steps.map(s => `  ${s}`)].join('\n'), { plan: best, alternatives, executed: true, completed: steps });
+    },
+  };
+}
+
+/**
+ * Dry-run preview: plan only, and say whether the plan would be executed
+ */
+export function createPlannerToolPreviews(sources: PlannerSources) {
+  const handlers = createPlannerToolHandlers(sources);
+  return {
+    async plan_proxy_purchase(args: PlanArgs): Promise<ToolResult> {
+      const result = await handlers.plan_proxy_purchase({ ...args, execute: false });
+      if (result.failed) return result;
+      if (!args.execute) return toolPreview(result.text, { ...result.data, costUSDC: 0 });
+
+      const { plan } = result.data as { plan: PurchasePlan };
+      const text = result.text.replace('\n\nCall again with execute: true to buy this plan.', '');
+      return toolPreview(
+        [text, '', plan.feasible ? `Would buy this plan for $${plan.totalUSD.toFixed(2)}.` : 'Would not execute: no feasible plan.'].join('\n'),
+        { ...result.data, costUSDC: plan.feasible ? plan.totalUSD : 0 }
+      );
+    },
+  };
+}
+
+/**
+ * Zod schemas for validation
+ */
+export const plannerSchemas = toToolSchemas(plannerTools);
@@ -4,177 +4,132 @@
  */
 
 import { z } from 'zod';
-import type { ProxiesApi } from '../api/index.js';
+import type { ProxiesApi, Port } from '../api/index.js';
 import { formatPortSummary, formatPortTable } from '../utils/formatting.js';
+import { toolPreview, toolResult, type ToolResult } from '../utils/output.js';
+import { defineTools, toToolDefinitions, toToolSchemas } from './define.js';
+import { cursorParam, decodeCursor, encodeCursor } from './pagination.js';
 
 /**
- * Tool definitions for port management
+ * Client-side sort keys for list_ports
  */
-export const portToolDefinitions = [
-  {
-    name: 'list_ports',
-    description: 'List all proxy ports with optional filters. Returns port names, types, status, locations, and expiration.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        type: {
-          type: 'string',
-          enum: ['shared', 'private'],
-          description: 'Filter by port type',
-        },
-        status: {
-          type: 'string',
-          enum: ['active', 'suspended', 'expired'],
-          description: 'Filter by port status',
-        },
-        countryId: {
-          type: 'string',
-          description: 'Filter by country ID',
-        },
-        carrierId: {
-          type: 'string',
-          description: 'Filter by carrier ID',
-        },
-        limit: {
-          type: 'number',
-          description: 'Maximum number of ports to return (default: 50)',
-        },
-      },
-      required: [] as string[],
-    },
+type PortSortKey = 'expiry' | 'traffic' | 'country';
+
+/**
+ * Upper bound on ports loaded for a sorted listing
+ */
+const MAX_SORTED_PORTS = 1000;
+
+/**
+ * Traffic used by a port since its baseline, in bytes
+ */
+function portTrafficUsed(port: Port): number {
+  return Math.max(0, (port.lastTrafficIn ?? 0) - (port.baseTrafficIn ?? 0)) +
+    Math.max(0, (port.lastTrafficOut ?? 0) - (port.baseTrafficOut ?? 0));
+}
+
+/**
+ * Sort ports in place. Traffic defaults to highest first, the other keys to ascending.
+ */
+function sortPorts(ports: Port[], sortBy: PortSortKey, sortOrder?: 'asc' | 'desc'): void {
+  const direction = (sortOrder ?? (sortBy === 'traffic' ? 'desc' : 'asc')) === 'asc' ? 1 : -1;
+  const country = (p: Port) => p.countryName || p.device?.countryId?.name || '';
+
+  ports.sort((a, b) => {
+    switch (sortBy) {
+      case 'expiry':
+        return direction * (a.expiresAt - b.expiresAt);
+      case 'traffic':
+        return direction * (portTrafficUsed(a) - portTrafficUsed(b));
+      case 'country':
+        return direction * country(a).localeCompare(country(b));
+    }
+  });
+}
+
+/**
+ * Port tools (description and input schema)
+ */
+export const portTools = defineTools({
+  list_ports: {
+    description: 'List proxy ports with optional filters and sorting. Returns port names, types, status, locations, and expiration, the total count, and a nextCursor when more ports are available.',
+    schema: z.object({
+      type: z.enum(['shared', 'private']).optional().describe('Filter by port type'),
+      status: z.enum(['active', 'suspended', 'expired']).optional().describe('Filter by port status'),
+      countryId: z.string().optional().describe('Filter by country ID'),
+      carrierId: z.string().optional().describe('Filter by carrier ID'),
+      sortBy: z.enum(['expiry', 'traffic', 'country']).optional().describe('Sort by slot expiry, traffic used or country (sorted across all matching ports)'),
+      sortOrder: z.enum(['asc', 'desc']).optional().describe('Sort direction (default: desc for traffic, asc otherwise)'),
+      limit: z.number().min(1).max(100).optional().describe('Maximum number of ports to return (default: 50)'),
+      cursor: cursorParam,
+    }),
+    scopes: ['ports:read'],
   },
-  {
-    name: 'get_port',
+  get_port: {
     description: 'Get detailed information about a specific port by ID',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        portId: {
-          type: 'string',
-          description: 'The port ID to retrieve',
-        },
-      },
-      required: ['portId'],
-    },
+    schema: z.object({
+      portId: z.string().min(1).describe('The port ID to retrieve'),
+    }),
+    scopes: ['ports:read'],
   },
-  {
-    name: 'create_port',
+  create_port: {
     description: 'Create a new proxy port in a specific country. Requires available slots and optionally carrier/city targeting.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        countryId: {
-          type: 'string',
-          description: 'Country ID for the port (use list_available_countries to get IDs)',
-        },
-        type: {
-          type: 'string',
-          enum: ['shared', 'private'],
-          description: 'Port type (shared or private)',
-        },
-        carrierId: {
-          type: 'string',
-          description: 'Optional carrier ID for specific carrier targeting',
-        },
-        cityId: {
-          type: 'string',
-          description: 'Optional city ID for specific city targeting',
-        },
-        expiresInDays: {
-          type: 'number',
-          description: 'Port expiration in days (1-365, default: 30)',
-        },
-        osFingerprint: {
-          type: 'string',
-          enum: ['', 'windows:1', 'macosx:3', 'macosx:4', 'ios:2', 'ios:1', 'android:3', 'android:1'],
-          description: 'Optional OS fingerprint spoofing',
-        },
-      },
-      required: ['countryId', 'type'],
-    },
+    schema: z.object({
+      countryId: z.string().min(1).describe('Country ID for the port (use list_available_countries to get IDs)'),
+      type: z.enum(['shared', 'private']).describe('Port type (shared or private)'),
+      carrierId: z.string().optional().describe('Optional carrier ID for specific carrier targeting'),
+      cityId: z.string().optional().describe('Optional city ID for specific city targeting'),
+      expiresInDays: z.number().min(1).max(365).optional().describe('Port expiration in days (default: 30)'),
+      osFingerprint: z.enum(['', 'windows:1', 'macosx:3', 'macosx:4', 'ios:2', 'ios:1', 'android:3', 'android:1']).optional().describe('Optional OS fingerprint spoofing'),
+    }),
+    scopes: ['ports:write'],
+    mutating: true,
   },
-  {
-    name: 'delete_port',
+  delete_port: {
     description: 'Delete a proxy port by ID. This will remove the port from the proxy server.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        portId: {
-          type: 'string',
-          description: 'The port ID to delete',
-        },
-      },
-      required: ['portId'],
-    },
+    schema: z.object({
+      portId: z.string().min(1).describe('The port ID to delete'),
+    }),
+    scopes: ['ports:write'],
+    mutating: true,
+    confirm: 'always',
   },
-  {
-    name: 'update_port_credentials',
+  update_port_credentials: {
     description: 'Update the login and/or password for a proxy port',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        portId: {
-          type: 'string',
-          description: 'The port ID to update',
-        },
-        proxyLogin: {
-          type: 'string',
-          description: 'New proxy login username',
-        },
-        proxyPassword: {
-          type: 'string',
-          description: 'New proxy password',
-        },
-      },
-      required: ['portId'],
-    },
+    schema: z.object({
+      portId: z.string().min(1).describe('The port ID to update'),
+      proxyLogin: z.string().optional().describe('New proxy login username'),
+      proxyPassword: z.string().optional().describe('New proxy password'),
+    }),
+    scopes: ['ports:write'],
+    mutating: true,
   },
-  {
-    name: 'update_os_fingerprint',
+  update_os_fingerprint: {
     description: 'Update the OS fingerprint (p0f) for a port to spoof the operating system',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        portId: {
-          type: 'string',
-          description: 'The port ID to update',
-        },
-        osFingerprint: {
-          type: 'string',
-          enum: ['', 'windows:1', 'macosx:3', 'macosx:4', 'ios:2', 'ios:1', 'android:3', 'android:1'],
-          description: 'OS fingerprint value (empty string to disable)',
-        },
-      },
-      required: ['portId', 'osFingerprint'],
-    },
+    schema: z.object({
+      portId: z.string().min(1).describe('The port ID to update'),
+      osFingerprint: z.enum(['', 'windows:1', 'macosx:3', 'macosx:4', 'ios:2', 'ios:1', 'android:3', 'android:1']).describe('OS fingerprint value (empty string to disable)'),
+    }),
+    scopes: ['ports:write'],
+    mutating: true,
   },
-  {
-    name: 'reconfigure_port',
+  reconfigure_port: {
     description: 'Reconfigure a port to use a different location (country, carrier, city)',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        portId: {
-          type: 'string',
-          description: 'The port ID to reconfigure',
-        },
-        countryId: {
-          type: 'string',
-          description: 'New country ID',
-        },
-        carrierId: {
-          type: 'string',
-          description: 'Optional new carrier ID',
-        },
-        cityId: {
-          type: 'string',
-          description: 'Optional new city ID',
-        },
-      },
-      required: ['portId', 'countryId'],
-    },
+    schema: z.object({
+      portId: z.string().min(1).describe('The port ID to reconfigure'),
+      countryId: z.string().min(1).describe('New country ID'),
+      carrierId: z.string().optional().describe('Optional new carrier ID'),
+      cityId: z.string().optional().describe('Optional new city ID'),
+    }),
+    scopes: ['ports:write'],
+    mutating: true,
   },
-] as const;
+});
+
+/**
+ * Tool definitions for port management
+ */
+export const portToolDefinitions = toToolDefinitions(portTools);
 
 /**
  * Port tools handler
@@ -186,29 +141,67 @@ export function createPortToolHandlers(api: ProxiesApi) {
       status?: 'active' | 'suspended' | 'expired';
       countryId?: string;
       carrierId?: string;
+      sortBy?: PortSortKey;
+      sortOrder?: 'asc' | 'desc';
       limit?: number;
-    }): Promise<string> {
+      cursor?: string;
+    }): Promise<ToolResult> {
       try {
-        const result = await api.ports.list({
+        const limit = args.limit ?? 50;
+        const filters = {
           type: args.type,
           status: args.status,
           countryId: args.countryId,
           carrierId: args.carrierId,
-          limit: args.limit ?? 50,
-        });
+        };
+        const query = { ...filters, sortBy: args.sortBy, sortOrder: args.sortOrder };
+        const offset = decodeCursor(args.cursor, query);
+
+        let ports: Port[];
+        let total: number;
+        let sortedCount: number | undefined;
 
-        if (result.data.length === 0) {
-          return 'No ports found matching the criteria.';
+        if (args.sortBy) {
+          // Sorting is client-side, so load every matching port first
+          const iterator = api.ports.iterate(filters);
+          const all = await iterator.take(MAX_SORTED_PORTS);
+          sortPorts(all, args.sortBy, args.sortOrder);
+          ports = all.slice(offset, offset + limit);
+          total = Math.min(iterator.total ?? all.length, all.length);
+          sortedCount = all.length;
+        } else {
+          const iterator = api.ports.iterate(filters, { offset });
+          ports = await iterator.take(limit);
+          total = iterator.total ?? offset + ports.length;
         }
 
-        const table = formatPortTable(result.data);
-        return `Found ${result.total} ports (showing ${result.data.length}):\n\n${table}`;
+        const nextOffset = offset + ports.length;
+        const nextCursor = ports.length > 0 && nextOffset < total ? encodeCursor(nextOffset, query) : undefined;
+        const data = { total, offset, ports, nextCursor: nextCursor ?? null };
+
+        if (ports.length === 0) {
+          return toolResult('No ports found matching the criteria.', data);
+        }
+
+        const lines = [
+          `Found ${total} ports (showing ${offset + 1}-${nextOffset}${args.sortBy ? `, sorted by ${args.sortBy}` : ''}):`,
+          '',
+          formatPortTable(ports),
+        ];
+        if (sortedCount !== undefined && sortedCount >= MAX_SORTED_PORTS) {
+          lines.push('', `Sorted the first ${MAX_SORTED_PORTS} matching ports only - add filters to narrow the listing.`);
+        }
+        if (nextCursor) {
+          lines.push('', `More ports available - call list_ports again with cursor="${nextCursor}".`);
+        }
+
+        return toolResult(lines.join('\n'), data);
       } catch (error) {
         throw new Error(`Failed to list ports: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     },
 
-    async get_port(args: { portId: string }): Promise<string> {
+    async get_port(args: { portId: string }): Promise<ToolResult> {
       try {
         const port = await api.ports.get(args.portId);
         const summary = formatPortSummary(port);
@@ -217,7 +210,10 @@ export function createPortToolHandlers(api: ProxiesApi) {
         const httpProxy = `http://${port.proxyLogin}:${port.proxyPassword}@${port.serverIp}:${port.httpPort}`;
         const socksProxy = `socks5://${port.proxyLogin}:${port.proxyPassword}@${port.serverIp}:${port.socksPort}`;
 
-        return `${summary}\n\nConnection Strings (ready to use):\n  HTTP:   ${httpProxy}\n  SOCKS5: ${socksProxy}`;
+        return toolResult(
+          `${summary}\n\nConnection Strings (ready to use):\n  HTTP:   ${httpProxy}\n  SOCKS5: ${socksProxy}`,
+          { port, connectionStrings: { http: httpProxy, socks5: socksProxy } }
+        );
       } catch (error) {
         throw new Error(`Failed to get port: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
@@ -230,7 +226,7 @@ export function createPortToolHandlers(api: ProxiesApi) {
       cityId?: string;
       expiresInDays?: number;
       osFingerprint?: string;
-    }): Promise<string> {
+    }): Promise<ToolResult> {
       try {
         // Convert days to seconds (default 30 days)
         const days = args.expiresInDays ?? 30;
@@ -252,16 +248,19 @@ export function createPortToolHandlers(api: ProxiesApi) {
         const httpProxy = `http://${port.proxyLogin}:${port.proxyPassword}@${port.serverIp}:${port.httpPort}`;
         const socksProxy = `socks5://${port.proxyLogin}:${port.proxyPassword}@${port.serverIp}:${port.socksPort}`;
 
-        return `Port created successfully!\n\n${formatPortSummary(port)}\n\nConnection Strings (ready to use):\n  HTTP:   ${httpProxy}\n  SOCKS5: ${socksProxy}`;
+        return toolResult(
+          `Port created successfully!\n\n${formatPortSummary(port)}\n\nConnection Strings (ready to use):\n  HTTP:   ${httpProxy}\n  SOCKS5: ${socksProxy}`,
+          { port, connectionStrings: { http: httpProxy, socks5: socksProxy } }
+        );
       } catch (error) {
         throw new Error(`Failed to create port: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     },
 
-    async delete_port(args: { portId: string }): Promise<string> {
+    async delete_port(args: { portId: string }): Promise<ToolResult> {
       try {
         const result = await api.ports.delete(args.portId);
-        return result.message || `Port ${args.portId} deleted successfully.`;
+        return toolResult(result.message || `Port ${args.portId} deleted successfully.`, { portId: args.portId, deleted: true });
       } catch (error) {
         throw new Error(`Failed to delete port: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
@@ -271,7 +270,7 @@ export function createPortToolHandlers(api: ProxiesApi) {
       portId: string;
       proxyLogin?: string;
       proxyPassword?: string;
-    }): Promise<string> {
+    }): Promise<ToolResult> {
       try {
         if (!args.proxyLogin && !args.proxyPassword) {
           throw new Error('At least one of proxyLogin or proxyPassword must be provided');
@@ -282,7 +281,10 @@ export function createPortToolHandlers(api: ProxiesApi) {
           proxyPassword: args.proxyPassword,
         });
 
-        return `Credentials updated successfully!\n\nNew credentials:\n  Login: ${port.proxyLogin}\n  Password: ${port.proxyPassword}`;
+        return toolResult(
+          `Credentials updated successfully!\n\nNew credentials:\n  Login: ${port.proxyLogin}\n  Password: ${port.proxyPassword}`,
+          { port }
+        );
       } catch (error) {
         throw new Error(`Failed to update credentials: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
@@ -291,11 +293,11 @@ export function createPortToolHandlers(api: ProxiesApi) {
     async update_os_fingerprint(args: {
       portId: string;
       osFingerprint: string;
-    }): Promise<string> {
+    }): Promise<ToolResult> {
       try {
         const port = await api.ports.updateOsFingerprint(args.portId, args.osFingerprint);
         const fingerprint = port.osFingerprint || 'None (disabled)';
-        return `OS fingerprint updated to: ${fingerprint}`;
+        return toolResult(`OS fingerprint updated to: ${fingerprint}`, { port });
       } catch (error) {
         throw new Error(`Failed to update OS fingerprint: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
@@ -306,7 +308,7 @@ export function createPortToolHandlers(api: ProxiesApi) {
       countryId: string;
       carrierId?: string;
       cityId?: string;
-    }): Promise<string> {
+    }): Promise<ToolResult> {
       try {
         const port = await api.ports.reconfigure(args.portId, {
           countryId: args.countryId,
@@ -314,7 +316,7 @@ export function createPortToolHandlers(api: ProxiesApi) {
           cityId: args.cityId,
         });
 
-        return `Port reconfigured successfully!\n\n${formatPortSummary(port)}`;
+        return toolResult(`Port reconfigured successfully!\n\n${formatPortSummary(port)}`, { port });
       } catch (error) {
         throw new Error(`Failed to reconfigure port: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
@@ -322,44 +324,89 @@ export function createPortToolHandlers(api: ProxiesApi) {
   };
 }
 
+/**
+ * Dry-run previews for the port tools that change state
+ */
+export function createPortToolPreviews(api: ProxiesApi) {
+  const getPort = async (portId: string) => {
+    try {
+      return await api.ports.get(portId);
+    } catch (error) {
+      throw new Error(`Failed to get port: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return {
+    async create_port(args: { countryId: string; type: 'shared' | 'private'; carrierId?: string; cityId?: string; expiresInDays?: number }): Promise<ToolResult> {
+      try {
+        const [summary, countries] = await Promise.all([
+          api.account.getSummary(),
+          api.reference.getAvailableCountries(args.type === 'private'),
+        ]);
+        const country = countries.find(c => c._id === args.countryId);
+        const slots = summary[args.type]?.slots;
+        const days = args.expiresInDays ?? 30;
+
+        const lines = [
+          `Would create a ${args.type} port in ${country ? `${country.name} (${country.code})` : args.countryId}${args.carrierId ? `, carrier ${args.carrierId}` : ''}${args.cityId ? `, city ${args.cityId}` : ''}, expiring in ${days} day(s).`,
+          `Free ${args.type} devices in the country: ${country?.freeDeviceCount ?? 0}`,
+          `Free ${args.type} slots: ${slots ? `${slots.available} of ${slots.total}` : 'unknown'}`,
+          'Cost: free (ports use the account traffic balance)',
+        ];
+        if (!country || country.freeDeviceCount === 0) lines.push('', 'This call would fail: no free devices in that country.');
+        else if (slots && slots.available === 0) lines.push('', 'This call would fail: no free slots.');
+
+        return toolPreview(lines.join('\n'), { action: 'create_port', request: args, country, slots });
+      } catch (error) {
+        throw new Error(`Failed to preview port creation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    async delete_port(args: { portId: string }): Promise<ToolResult> {
+      const port = await getPort(args.portId);
+      return toolPreview(
+        `Would delete this port; its credentials stop working immediately.\n\n${formatPortSummary(port)}`,
+        { action: 'delete_port', port }
+      );
+    },
+
+    async update_port_credentials(args: { portId: string; proxyLogin?: string; proxyPassword?: string }): Promise<ToolResult> {
+      if (!args.proxyLogin && !args.proxyPassword) {
+        throw new Error('Failed to update credentials: At least one of proxyLogin or proxyPassword must be provided');
+      }
+      const port = await getPort(args.portId);
+      const changes = [
+        args.proxyLogin && `login ${port.proxyLogin} -> ${args.proxyLogin}`,
+        args.proxyPassword && 'password replaced',
+      ].filter(Boolean);
+      return toolPreview(
+        `Would update credentials of port ${port.displayName || port.name}: ${changes.join(', ')}. Clients using the old credentials will be rejected.`,
+        { action: 'update_port_credentials', portId: port._id, current: { proxyLogin: port.proxyLogin }, next: { proxyLogin: args.proxyLogin ?? port.proxyLogin, passwordChanged: !!args.proxyPassword } }
+      );
+    },
+
+    async update_os_fingerprint(args: { portId: string; osFingerprint: string }): Promise<ToolResult> {
+      const port = await getPort(args.portId);
+      const current = port.osFingerprint || 'None (disabled)';
+      const next = args.osFingerprint || 'None (disabled)';
+      return toolPreview(
+        `Would change the OS fingerprint of port ${port.displayName || port.name} from ${current} to ${next}.`,
+        { action: 'update_os_fingerprint', portId: port._id, current: port.osFingerprint ?? '', next: args.osFingerprint }
+      );
+    },
+
+    async reconfigure_port(args: { portId: string; countryId: string; carrierId?: string; cityId?: string }): Promise<ToolResult> {
+      const port = await getPort(args.portId);
+      const target = [args.countryId, args.carrierId && `carrier ${args.carrierId}`, args.cityId && `city ${args.cityId}`].filter(Boolean).join(', ');
+      return toolPreview(
+        `Would move port ${port.displayName || port.name} to ${target}. It moves to another device, so its IP changes.\n\nCurrent:\n${formatPortSummary(port)}`,
+        { action: 'reconfigure_port', port, next: { countryId: args.countryId, carrierId: args.carrierId, cityId: args.cityId } }
+      );
+    },
+  };
+}
+
 /**
  * Zod schemas for validation
  */
-export const portSchemas = {
-  list_ports: z.object({
-    type: z.enum(['shared', 'private']).optional(),
-    status: z.enum(['active', 'suspended', 'expired']).optional(),
-    countryId: z.string().optional(),
-    carrierId: z.string().optional(),
-    limit: z.number().min(1).max(100).optional(),
-  }),
-  get_port: z.object({
-    portId: z.string().min(1),
-  }),
-  create_port: z.object({
-    countryId: z.string().min(1),
-    type: z.enum(['shared', 'private']),
-    carrierId: z.string().optional(),
-    cityId: z.string().optional(),
-    expiresInDays: z.number().min(1).max(365).optional(),
-    osFingerprint: z.enum(['', 'windows:1', 'macosx:3', 'macosx:4', 'ios:2', 'ios:1', 'android:3', 'android:1']).optional(),
-  }),
-  delete_port: z.object({
-    portId: z.string().min(1),
-  }),
-  update_port_credentials: z.object({
-    portId: z.string().min(1),
-    proxyLogin: z.string().optional(),
-    proxyPassword: z.string().optional(),
-  }),
-  update_os_fingerprint: z.object({
-    portId: z.string().min(1),
-    osFingerprint: z.enum(['', 'windows:1', 'macosx:3', 'macosx:4', 'ios:2', 'ios:1', 'android:3', 'android:1']),
-  }),
-  reconfigure_port: z.object({
-    portId: z.string().min(1),
-    countryId: z.string().min(1),
-    carrierId: z.string().optional(),
-    cityId: z.string().optional(),
-  }),
-};
+export const portSchemas = toToolSchemas(portTools);
@@ -9,39 +9,42 @@
 
 import { z } from 'zod';
 import type { ProxiesApi } from '../api/index.js';
+import { toolResult, type ToolResult } from '../utils/output.js';
+import { defineTools, toToolDefinitions, toToolSchemas } from './define.js';
 
 /**
- * Tool definitions for reference data
+ * Reference data tools (description and input schema)
  */
-export const referenceToolDefinitions = [
-  {
-    name: 'list_available_countries',
+export const referenceTools = defineTools({
+  list_available_countries: {
     description: 'List countries where proxy ports can be created (only shows countries with available devices)',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        isPrivate: {
-          type: 'boolean',
-          description: 'Filter for private devices (true) or shared devices (false). Default: false (shared)',
-        },
-      },
-      required: [] as string[],
-    },
+    schema: z.object({
+      isPrivate: z.boolean().optional().describe('Filter for private devices (true) or shared devices (false). Default: false (shared)'),
+    }),
+    scopes: ['ports:read'],
   },
-] as const;
+});
+
+/**
+ * Tool definitions for reference data
+ */
+export const referenceToolDefinitions = toToolDefinitions(referenceTools);
 
 /**
  * Reference tools handler
  */
 export function createReferenceToolHandlers(api: ProxiesApi) {
   return {
-    async list_available_countries(args: { isPrivate?: boolean } = {}): Promise<string> {
+    async list_available_countries(args: { isPrivate?: boolean } = {}): Promise<ToolResult> {
       try {
         const isPrivate = args.isPrivate ?? false;
         const countries = await api.reference.getAvailableCountries(isPrivate);
 
         if (countries.length === 0) {
-          return `No countries available for ${isPrivate ? 'private' : 'shared'} ports. This means no devices have available slots.`;
+          return toolResult(
+            `No countries available for ${isPrivate ? 'private' : 'shared'} ports. This means no devices have available slots.`,
+            { isPrivate, countries }
+          );
         }
 
         const portType = isPrivate ? 'Private' : 'Shared';
@@ -53,7 +56,7 @@ export function createReferenceToolHandlers(api: ProxiesApi) {
           lines.push(`${flag} ${country.name} (${country.code}) - ${country.freeDeviceCount} device(s) available - ID: ${country._id}`);
         }
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), { isPrivate, countries });
       } catch (error) {
         throw new Error(`Failed to list countries: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
@@ -64,8 +67,4 @@ export function createReferenceToolHandlers(api: ProxiesApi) {
 /**
  * Zod schemas for validation
  */
-export const referenceSchemas = {
-  list_available_countries: z.object({
-    isPrivate: z.boolean().optional(),
-  }),
-};
+export const referenceSchemas = toToolSchemas(referenceTools);
@@ -5,130 +5,94 @@
 
 import { z } from 'zod';
 import type { ProxiesApi } from '../api/index.js';
+import { toolFailure, toolPreview, toolResult, type ToolResult } from '../utils/output.js';
 import { formatRotationEntry, formatPortSummary } from '../utils/formatting.js';
+import { defineTools, toToolDefinitions, toToolSchemas } from './define.js';
+import { cursorParam, decodeCursor, encodeCursor } from './pagination.js';
 
 /**
- * Tool definitions for rotation management
+ * Rotation tools (description and input schema)
  */
-export const rotationToolDefinitions = [
-  {
-    name: 'rotate_port',
+export const rotationTools = defineTools({
+  rotate_port: {
     description: 'Rotate a port to a new modem/device. This changes the IP address while keeping port credentials and settings.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        portId: {
-          type: 'string',
-          description: 'The port ID to rotate',
-        },
-      },
-      required: ['portId'],
-    },
+    schema: z.object({
+      portId: z.string().min(1).describe('The port ID to rotate'),
+    }),
+    scopes: ['ports:read', 'ports:rotate'],
+    mutating: true,
   },
-  {
-    name: 'check_rotation_availability',
+  check_rotation_availability: {
     description: 'Check if a port can be rotated right now (cooldown, circuit breaker status)',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        portId: {
-          type: 'string',
-          description: 'The port ID to check',
-        },
-      },
-      required: ['portId'],
-    },
+    schema: z.object({
+      portId: z.string().min(1).describe('The port ID to check'),
+    }),
+    scopes: ['ports:read'],
   },
-  {
-    name: 'configure_auto_rotation',
+  configure_auto_rotation: {
     description: 'Configure automatic rotation settings for a port',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        portId: {
-          type: 'string',
-          description: 'The port ID to configure',
-        },
-        enabled: {
-          type: 'boolean',
-          description: 'Enable or disable auto-rotation',
-        },
-        intervalMinutes: {
-          type: 'number',
-          description: 'Rotation interval in minutes (5-1440)',
-        },
-        matchCarrier: {
-          type: 'boolean',
-          description: 'Only rotate to devices with the same carrier',
-        },
-        matchCity: {
-          type: 'boolean',
-          description: 'Only rotate to devices in the same city',
-        },
-      },
-      required: ['portId', 'enabled'],
-    },
+    schema: z.object({
+      portId: z.string().min(1).describe('The port ID to configure'),
+      enabled: z.boolean().describe('Enable or disable auto-rotation'),
+      intervalMinutes: z.number().min(5).max(1440).optional().describe('Rotation interval in minutes'),
+      matchCarrier: z.boolean().optional().describe('Only rotate to devices with the same carrier'),
+      matchCity: z.boolean().optional().describe('Only rotate to devices in the same city'),
+    }),
+    scopes: ['ports:write'],
+    mutating: true,
   },
-  {
-    name: 'get_rotation_history',
+  get_rotation_history: {
     description: 'Get the rotation history for a port',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        portId: {
-          type: 'string',
-          description: 'The port ID to get history for',
-        },
-        limit: {
-          type: 'number',
-          description: 'Maximum number of entries to return (default: 10)',
-        },
-      },
-      required: ['portId'],
-    },
+    schema: z.object({
+      portId: z.string().min(1).describe('The port ID to get history for'),
+      limit: z.number().min(1).max(100).optional().describe('Maximum number of entries to return (default: 10)'),
+      cursor: cursorParam,
+    }),
+    scopes: ['ports:read'],
   },
-  {
-    name: 'get_rotation_token_url',
+  get_rotation_token_url: {
     description: 'Get the public rotation URL for a port (can be used without authentication)',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        portId: {
-          type: 'string',
-          description: 'The port ID to get rotation URL for',
-        },
-      },
-      required: ['portId'],
-    },
+    schema: z.object({
+      portId: z.string().min(1).describe('The port ID to get rotation URL for'),
+    }),
+    scopes: ['ports:read'],
   },
-] as const;
+});
+
+/**
+ * Tool definitions for rotation management
+ */
+export const rotationToolDefinitions = toToolDefinitions(rotationTools);
 
 /**
  * Rotation tools handler
  */
 export function createRotationToolHandlers(api: ProxiesApi, baseUrl: string) {
   return {
-    async rotate_port(args: { portId: string }): Promise<string> {
+    async rotate_port(args: { portId: string }): Promise<ToolResult> {
       try {
         // First check if rotation is available
         const canRotate = await api.rotation.canRotate(args.portId);
         if (!canRotate.canRotate) {
-          return `Cannot rotate port: ${canRotate.reason}\n${canRotate.nextAvailableRotation ? `Next available rotation: ${canRotate.nextAvailableRotation}` : ''}`;
+          return toolFailure(
+            `Cannot rotate port: ${canRotate.reason}\n${canRotate.nextAvailableRotation ? `Next available rotation: ${canRotate.nextAvailableRotation}` : ''}`,
+            { rotated: false, availability: canRotate }
+          );
         }
 
         const port = await api.rotation.rotate(args.portId);
-        return `Port rotated successfully!\n\nNew device info:\n${formatPortSummary(port)}`;
+        return toolResult(`Port rotated successfully!\n\nNew device info:\n${formatPortSummary(port)}`, { rotated: true, port });
       } catch (error) {
         throw new Error(`Failed to rotate port: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     },
 
-    async check_rotation_availability(args: { portId: string }): Promise<string> {
+    async check_rotation_availability(args: { portId: string }): Promise<ToolResult> {
       try {
         const result = await api.rotation.canRotate(args.portId);
 
         if (result.canRotate) {
-          return 'Port can be rotated now.';
+          return toolResult('Port can be rotated now.', { availability: result });
         } else {
           const lines = [`Cannot rotate: ${result.reason}`];
           if (result.cooldownEndsAt) {
@@ -137,7 +101,7 @@ export function createRotationToolHandlers(api: ProxiesApi, baseUrl: string) {
           if (result.nextAvailableRotation) {
             lines.push(`Next available rotation: ${result.nextAvailableRotation}`);
           }
-          return lines.join('\n');
+          return toolResult(lines.join('\n'), { availability: result });
         }
       } catch (error) {
         throw new Error(`Failed to check rotation availability: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -150,7 +114,7 @@ export function createRotationToolHandlers(api: ProxiesApi, baseUrl: string) {
       intervalMinutes?: number;
       matchCarrier?: boolean;
       matchCity?: boolean;
-    }): Promise<string> {
+    }): Promise<ToolResult> {
       try {
         // Convert user-friendly minutes to seconds for the backend API
         const intervalSeconds = args.intervalMinutes ? args.intervalMinutes * 60 : undefined;
@@ -177,56 +141,63 @@ export function createRotationToolHandlers(api: ProxiesApi, baseUrl: string) {
           }
         }
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), { portId: args.portId, rotationSettings: settings ?? null });
       } catch (error) {
         throw new Error(`Failed to configure auto-rotation: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     },
 
-    async get_rotation_history(args: { portId: string; limit?: number }): Promise<string> {
+    async get_rotation_history(args: { portId: string; limit?: number; cursor?: string }): Promise<ToolResult> {
       try {
-        const result = await api.rotation.getHistory(args.portId, {
-          limit: args.limit ?? 10,
-        });
+        const query = { portId: args.portId };
+        const offset = decodeCursor(args.cursor, query);
+
+        // The iterator handles both paginated and direct array responses
+        const history = api.rotation.iterateHistory(args.portId, { offset });
+        const entries = await history.take(args.limit ?? 10);
+        const total = history.total ?? offset + entries.length;
 
-        // Handle both paginated response and direct array response
-        const entries = Array.isArray(result) ? result : result.data || [];
-        const total = Array.isArray(result) ? entries.length : result.total || entries.length;
+        const nextOffset = offset + entries.length;
+        const nextCursor = entries.length > 0 && nextOffset < total ? encodeCursor(nextOffset, query) : undefined;
 
         if (entries.length === 0) {
-          return 'No rotation history found for this port.';
+          return toolResult('No rotation history found for this port.', { total, entries, nextCursor: null });
         }
 
-        const lines = [`Rotation History (${total} total, showing ${entries.length}):`];
+        const lines = [`Rotation History (${total} total, showing ${offset + 1}-${nextOffset}):`];
         lines.push('');
 
         for (const entry of entries) {
           lines.push(formatRotationEntry(entry));
         }
 
-        return lines.join('\n');
+        if (nextCursor) {
+          lines.push('', `More entries available - call get_rotation_history again with cursor="${nextCursor}".`);
+        }
+
+        return toolResult(lines.join('\n'), { total, entries, nextCursor: nextCursor ?? null });
       } catch (error) {
         throw new Error(`Failed to get rotation history: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     },
 
-    async get_rotation_token_url(args: { portId: string }): Promise<string> {
+    async get_rotation_token_url(args: { portId: string }): Promise<ToolResult> {
       try {
         const port = await api.ports.get(args.portId);
 
         if (!port.rotationToken) {
-          return 'This port does not have a rotation token configured.';
+          return toolResult('This port does not have a rotation token configured.', { portId: args.portId, rotationUrl: null });
         }
 
         const rotationUrl = api.rotation.getRotationTokenUrl(baseUrl, port.rotationToken);
 
-        return [
+        return toolResult([
           'Public Rotation URL:',
           rotationUrl,
           '',
           'This URL can be called without authentication to rotate the port.',
           'Example: curl -X GET ' + rotationUrl,
-        ].join('\n');
+        ].join('\n'), { portId: args.portId, rotationUrl });
       } catch (error) {
         throw new Error(`Failed to get rotation token URL: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
@@ -234,28 +205,55 @@ export function createRotationToolHandlers(api: ProxiesApi, baseUrl: string) {
   };
 }
 
+/**
+ * Dry-run previews for the rotation tools that change state
+ */
+export function createRotationToolPreviews(api: ProxiesApi) {
+  return {
+    async rotate_port(args: { portId: string }): Promise<ToolResult> {
+      try {
+        const [port, availability] = await Promise.all([api.ports.get(args.portId), api.rotation.canRotate(args.portId)]);
+        const outcome = availability.canRotate
+          ? 'Would rotate it to a new device and IP now.'
+          : `Would not rotate: ${availability.reason}${availability.nextAvailableRotation ? ` (next available: ${availability.nextAvailableRotation})` : ''}`;
+        return toolPreview(`${outcome}\n\nCurrent:\n${formatPortSummary(port)}`, { action: 'rotate_port', port, availability });
+      } catch (error) {
+        throw new Error(`Failed to preview rotation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    async configure_auto_rotation(args: {
+      portId: string;
+      enabled: boolean;
+      intervalMinutes?: number;
+      matchCarrier?: boolean;
+      matchCity?: boolean;
+    }): Promise<ToolResult> {
+      try {
+        const port = await api.ports.get(args.portId);
+        const current = port.rotationSettings;
+        const describe = (enabled: boolean, seconds?: number, carrier?: boolean, city?: boolean) =>
+          enabled ? `every ${Math.round((seconds || 1200) / 60)} min, match carrier ${carrier ?? false}, match city ${city ?? false}` : 'disabled';
+
+        const next = {
+          enabled: args.enabled,
+          intervalSeconds: args.intervalMinutes ? args.intervalMinutes * 60 : current?.intervalSeconds,
+          matchCarrier: args.matchCarrier ?? current?.matchCarrier,
+          matchCity: args.matchCity ?? current?.matchCity,
+        };
+        return toolPreview([
+          `Would change auto-rotation of port ${port.displayName || port.name}:`,
+          `  Current: ${current ? describe(current.enabled, current.intervalSeconds, current.matchCarrier, current.matchCity) : 'disabled'}`,
+          `  New:     ${describe(next.enabled, next.intervalSeconds, next.matchCarrier, next.matchCity)}`,
+        ].join('\n'), { action: 'configure_auto_rotation', portId: port._id, current: current ?? null, next });
+      } catch (error) {
+        throw new Error(`Failed to preview auto-rotation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+  };
+}
+
 /**
  * Zod schemas for validation
  */
-export const rotationSchemas = {
-  rotate_port: z.object({
-    portId: z.string().min(1),
-  }),
-  check_rotation_availability: z.object({
-    portId: z.string().min(1),
-  }),
-  configure_auto_rotation: z.object({
-    portId: z.string().min(1),
-    enabled: z.boolean(),
-    intervalMinutes: z.number().min(5).max(1440).optional(),
-    matchCarrier: z.boolean().optional(),
-    matchCity: z.boolean().optional(),
-  }),
-  get_rotation_history: z.object({
-    portId: z.string().min(1),
-    limit: z.number().min(1).max(100).optional(),
-  }),
-  get_rotation_token_url: z.object({
-    portId: z.string().min(1),
-  }),
-};
+export const rotationSchemas = toToolSchemas(rotationTools);
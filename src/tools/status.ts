@@ -5,75 +5,54 @@
 
 import { z } from 'zod';
 import type { ProxiesApi } from '../api/index.js';
+import { toolResult, type ToolResult } from '../utils/output.js';
+import { defineTools, toToolDefinitions, toToolSchemas } from './define.js';
 
 /**
- * Tool definitions for port status
+ * Port status tools (description and input schema)
  */
-export const statusToolDefinitions = [
-  {
-    name: 'get_port_status',
+export const statusTools = defineTools({
+  get_port_status: {
     description: 'Check if a port is online or offline on the proxy server',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        portId: {
-          type: 'string',
-          description: 'The port ID to check',
-        },
-      },
-      required: ['portId'],
-    },
+    schema: z.object({
+      portId: z.string().min(1).describe('The port ID to check'),
+    }),
+    scopes: ['ports:read'],
   },
-  {
-    name: 'get_port_ip',
+  get_port_ip: {
     description: 'Get the current public IP address of a port',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        portId: {
-          type: 'string',
-          description: 'The port ID to check',
-        },
-      },
-      required: ['portId'],
-    },
+    schema: z.object({
+      portId: z.string().min(1).describe('The port ID to check'),
+    }),
+    scopes: ['ports:read'],
   },
-  {
-    name: 'ping_port',
+  ping_port: {
     description: 'Test the connectivity and latency of a port',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        portId: {
-          type: 'string',
-          description: 'The port ID to ping',
-        },
-      },
-      required: ['portId'],
-    },
+    schema: z.object({
+      portId: z.string().min(1).describe('The port ID to ping'),
+    }),
+    scopes: ['ports:read'],
   },
-  {
-    name: 'speed_test_port',
+  speed_test_port: {
     description: 'Run a speed test on a port to measure download/upload speeds',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        portId: {
-          type: 'string',
-          description: 'The port ID to test',
-        },
-      },
-      required: ['portId'],
-    },
+    schema: z.object({
+      portId: z.string().min(1).describe('The port ID to test'),
+    }),
+    scopes: ['ports:read'],
   },
-] as const;
+});
+
+/**
+ * Tool definitions for port status
+ */
+export const statusToolDefinitions = toToolDefinitions(statusTools);
 
 /**
  * Status tools handler
  */
 export function createStatusToolHandlers(api: ProxiesApi) {
   return {
-    async get_port_status(args: { portId: string }): Promise<string> {
+    async get_port_status(args: { portId: string }): Promise<ToolResult> {
       try {
         const status = await api.ports.getStatus(args.portId);
         const statusText = status.isOnline ? 'ONLINE' : 'OFFLINE';
@@ -89,13 +68,13 @@ export function createStatusToolHandlers(api: ProxiesApi) {
           lines.push(`Device Status: ${status.deviceStatus}`);
         }
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), { status });
       } catch (error) {
         throw new Error(`Failed to get port status: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     },
 
-    async get_port_ip(args: { portId: string }): Promise<string> {
+    async get_port_ip(args: { portId: string }): Promise<ToolResult> {
       try {
         const ipInfo = await api.ports.getIp(args.portId);
         // Backend returns { publicIp, serverIp }
@@ -104,13 +83,13 @@ export function createStatusToolHandlers(api: ProxiesApi) {
           `Server IP: ${ipInfo.serverIp || 'Unknown'}`,
         ];
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), { ip: ipInfo });
       } catch (error) {
         throw new Error(`Failed to get port IP: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     },
 
-    async ping_port(args: { portId: string }): Promise<string> {
+    async ping_port(args: { portId: string }): Promise<ToolResult> {
       try {
         const result = await api.ports.ping(args.portId);
         // Backend returns { success, ip, responseTime, testTime, error? }
@@ -119,25 +98,25 @@ export function createStatusToolHandlers(api: ProxiesApi) {
           const latency = result.responseTime || result.latencyMs || 0;
           const ip = result.ip || 'Unknown';
           const testTime = result.testTime ? new Date(result.testTime).toISOString() : new Date().toISOString();
-          return `Ping successful!\nIP: ${ip}\nLatency: ${latency}ms\nTested At: ${testTime}`;
+          return toolResult(`Ping successful!\nIP: ${ip}\nLatency: ${latency}ms\nTested At: ${testTime}`, { ping: result });
         } else {
-          return `Ping failed: ${result.error || 'Connection failed'}`;
+          return toolResult(`Ping failed: ${result.error || 'Connection failed'}`, { ping: result });
         }
       } catch (error) {
         throw new Error(`Failed to ping port: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     },
 
-    async speed_test_port(args: { portId: string }): Promise<string> {
+    async speed_test_port(args: { portId: string }): Promise<ToolResult> {
       try {
         const result = await api.ports.speedTest(args.portId);
-        return [
+        return toolResult([
           'Speed Test Results:',
           `  Download: ${result.downloadMbps.toFixed(2)} Mbps`,
           `  Upload: ${result.uploadMbps.toFixed(2)} Mbps`,
           `  Latency: ${result.latencyMs}ms`,
           `  Tested At: ${result.testedAt}`,
-        ].join('\n');
+        ].join('\n'), { speedTest: result });
       } catch (error) {
         throw new Error(`Failed to run speed test: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
@@ -148,17 +127,4 @@ export function createStatusToolHandlers(api: ProxiesApi) {
 /**
  * Zod schemas for validation
  */
-export const statusSchemas = {
-  get_port_status: z.object({
-    portId: z.string().min(1),
-  }),
-  get_port_ip: z.object({
-    portId: z.string().min(1),
-  }),
-  ping_port: z.object({
-    portId: z.string().min(1),
-  }),
-  speed_test_port: z.object({
-    portId: z.string().min(1),
-  }),
-};
+export const statusSchemas = toToolSchemas(statusTools);
@@ -5,14 +5,16 @@
 
 import { z } from 'zod';
 import type { ProxiesApi } from '../api/index.js';
+import { toolFailure, toolPreview, toolResult, type ToolResult } from '../utils/output.js';
+import { defineTools, toToolDefinitions, toToolSchemas } from './define.js';
 
 // ==================== SCHEMAS ====================
 
 const createTicketSchema = z.object({
   subject: z.string().min(5).max(200).describe('Brief description of the issue'),
   message: z.string().min(20).max(5000).describe('Detailed description of your issue or question'),
-  category: z.enum(['technical', 'billing', 'account', 'other']).optional().describe('Ticket category'),
-  priority: z.enum(['low', 'medium', 'high']).optional().describe('Issue priority'),
+  category: z.enum(['technical', 'billing', 'account', 'other']).optional().describe('Ticket category (default: technical)'),
+  priority: z.enum(['low', 'medium', 'high']).optional().describe('Issue priority (default: medium)'),
 });
 
 const replyToTicketSchema = z.object({
@@ -24,101 +26,45 @@ const getTicketSchema = z.object({
   ticketId: z.string().describe('The ticket ID'),
 });
 
-export const supportSchemas = {
-  create_support_ticket: createTicketSchema,
-  reply_to_ticket: replyToTicketSchema,
-  get_ticket: getTicketSchema,
-  list_my_tickets: z.object({}),
-  close_ticket: getTicketSchema,
-};
-
 // ==================== TOOL DEFINITIONS ====================
 
-export const supportToolDefinitions = [
-  {
-    name: 'create_support_ticket',
+/**
+ * Support tools (description and input schema)
+ */
+export const supportTools = defineTools({
+  create_support_ticket: {
     description: 'Submit a support ticket to contact human support. Use this when you need help from the Proxies.sx team, encounter issues you cannot resolve, or have billing/account questions.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        subject: {
-          type: 'string',
-          description: 'Brief description of the issue (5-200 characters)',
-        },
-        message: {
-          type: 'string',
-          description: 'Detailed description of your issue or question (20-5000 characters)',
-        },
-        category: {
-          type: 'string',
-          enum: ['technical', 'billing', 'account', 'other'],
-          description: 'Ticket category (default: technical)',
-        },
-        priority: {
-          type: 'string',
-          enum: ['low', 'medium', 'high'],
-          description: 'Issue priority (default: medium)',
-        },
-      },
-      required: ['subject', 'message'],
-    },
+    schema: createTicketSchema,
+    scopes: ['tickets:write'],
+    mutating: true,
   },
-  {
-    name: 'list_my_tickets',
+  list_my_tickets: {
     description: 'List all your support tickets to check status and responses from support team',
-    inputSchema: {
-      type: 'object',
-      properties: {},
-      required: [],
-    },
+    schema: z.object({}),
+    scopes: ['tickets:read'],
   },
-  {
-    name: 'get_ticket',
+  get_ticket: {
     description: 'Get details of a specific support ticket including all replies',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        ticketId: {
-          type: 'string',
-          description: 'The ticket ID',
-        },
-      },
-      required: ['ticketId'],
-    },
+    schema: getTicketSchema,
+    scopes: ['tickets:read'],
   },
-  {
-    name: 'reply_to_ticket',
+  reply_to_ticket: {
     description: 'Reply to an existing support ticket',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        ticketId: {
-          type: 'string',
-          description: 'The ticket ID to reply to',
-        },
-        message: {
-          type: 'string',
-          description: 'Your reply message (10-5000 characters)',
-        },
-      },
-      required: ['ticketId', 'message'],
-    },
+    schema: replyToTicketSchema,
+    scopes: ['tickets:write'],
+    mutating: true,
   },
-  {
-    name: 'close_ticket',
+  close_ticket: {
     description: 'Close a support ticket when your issue is resolved',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        ticketId: {
-          type: 'string',
-          description: 'The ticket ID to close',
-        },
-      },
-      required: ['ticketId'],
-    },
+    schema: getTicketSchema,
+    scopes: ['tickets:write'],
+    mutating: true,
   },
-] as const;
+});
+
+export const supportToolDefinitions = toToolDefinitions(supportTools);
+
+export const supportSchemas = toToolSchemas(supportTools);
 
 // ==================== TYPES ====================
 
@@ -147,7 +93,7 @@ export function createSupportToolHandlers(api: ProxiesApi) {
     /**
      * Create a new support ticket
      */
-    async create_support_ticket(args: z.infer<typeof createTicketSchema>): Promise<string> {
+    async create_support_ticket(args: z.infer<typeof createTicketSchema>): Promise<ToolResult> {
       try {
         const ticket = await api.client.post<Ticket>('/tickets', {
           subject: args.subject,
@@ -173,21 +119,21 @@ export function createSupportToolHandlers(api: ProxiesApi) {
           '- Use `reply_to_ticket` to add more information',
         ];
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), { ticket });
       } catch (error: any) {
-        return `Error creating ticket: ${error.message}`;
+        return toolFailure(`Error creating ticket: ${error.message}`, { error: error.message });
       }
     },
 
     /**
      * List all user's tickets
      */
-    async list_my_tickets(): Promise<string> {
+    async list_my_tickets(): Promise<ToolResult> {
       try {
         const tickets = await api.client.get<Ticket[]>('/tickets');
 
         if (!tickets || tickets.length === 0) {
-          return 'No support tickets found. Use `create_support_ticket` to submit a new ticket.';
+          return toolResult('No support tickets found. Use `create_support_ticket` to submit a new ticket.', { tickets: tickets || [] });
         }
 
         const lines = [
@@ -210,16 +156,16 @@ export function createSupportToolHandlers(api: ProxiesApi) {
           lines.push('');
         }
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), { tickets });
       } catch (error: any) {
-        return `Error fetching tickets: ${error.message}`;
+        return toolFailure(`Error fetching tickets: ${error.message}`, { error: error.message });
       }
     },
 
     /**
      * Get ticket details with replies
      */
-    async get_ticket(args: z.infer<typeof getTicketSchema>): Promise<string> {
+    async get_ticket(args: z.infer<typeof getTicketSchema>): Promise<ToolResult> {
       try {
         const ticket = await api.client.get<Ticket>(`/tickets/${args.ticketId}`);
 
@@ -248,49 +194,94 @@ export function createSupportToolHandlers(api: ProxiesApi) {
           lines.push('_No replies yet. The support team will respond soon._');
         }
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), { ticket });
       } catch (error: any) {
-        return `Error fetching ticket: ${error.message}`;
+        return toolFailure(`Error fetching ticket: ${error.message}`, { error: error.message });
       }
     },
 
     /**
      * Reply to a ticket
      */
-    async reply_to_ticket(args: z.infer<typeof replyToTicketSchema>): Promise<string> {
+    async reply_to_ticket(args: z.infer<typeof replyToTicketSchema>): Promise<ToolResult> {
       try {
         await api.client.post(`/tickets/${args.ticketId}/replies`, {
           message: args.message,
         });
 
-        return [
+        return toolResult([
           '# Reply Sent',
           '',
           `Your reply has been added to ticket ${args.ticketId}.`,
           '',
           'The support team will be notified of your response.',
-        ].join('\n');
+        ].join('\n'), { ticketId: args.ticketId, replied: true });
       } catch (error: any) {
-        return `Error replying to ticket: ${error.message}`;
+        return toolFailure(`Error replying to ticket: ${error.message}`, { error: error.message });
       }
     },
 
     /**
      * Close a ticket
      */
-    async close_ticket(args: z.infer<typeof getTicketSchema>): Promise<string> {
+    async close_ticket(args: z.infer<typeof getTicketSchema>): Promise<ToolResult> {
       try {
-        await api.client.patch(`/tickets/${args.ticketId}/close`);
+        await api.client.patch(`/tickets/${args.ticketId}/close`, undefined, undefined, { idempotent: true });
 
-        return [
+        return toolResult([
           '# Ticket Closed',
           '',
           `Ticket ${args.ticketId} has been closed.`,
           '',
           'If you need further assistance, you can create a new ticket.',
-        ].join('\n');
+        ].join('\n'), { ticketId: args.ticketId, closed: true });
+      } catch (error: any) {
+        return toolFailure(`Error closing ticket: ${error.message}`, { error: error.message });
+      }
+    },
+  };
+}
+
+// ==================== DRY-RUN PREVIEWS ====================
+
+export function createSupportToolPreviews(api: ProxiesApi) {
+  const getTicket = (ticketId: string) => api.client.get<Ticket>(`/tickets/${ticketId}`);
+
+  return {
+    async create_support_ticket(args: z.infer<typeof createTicketSchema>): Promise<ToolResult> {
+      const ticket = {
+        subject: args.subject,
+        message: args.message,
+        category: args.category || 'technical',
+        priority: args.priority || 'medium',
+      };
+      return toolPreview(
+        `Would submit a ${ticket.priority} priority ${ticket.category} ticket to human support:\n\n**Subject:** ${ticket.subject}\n\n${ticket.message}`,
+        { action: 'create_support_ticket', ticket }
+      );
+    },
+
+    async reply_to_ticket(args: z.infer<typeof replyToTicketSchema>): Promise<ToolResult> {
+      try {
+        const ticket = await getTicket(args.ticketId);
+        return toolPreview(
+          `Would add this reply to ticket "${ticket.subject}" (${ticket.status}, ${ticket.replies?.length ?? 0} replies so far):\n\n${args.message}`,
+          { action: 'reply_to_ticket', ticketId: args.ticketId, status: ticket.status, message: args.message }
+        );
+      } catch (error: any) {
+        return toolFailure(`Error getting ticket: ${error.message}`, { error: error.message });
+      }
+    },
+
+    async close_ticket(args: z.infer<typeof getTicketSchema>): Promise<ToolResult> {
+      try {
+        const ticket = await getTicket(args.ticketId);
+        const text = ticket.status === 'closed'
+          ? `Ticket "${ticket.subject}" is already closed; closing it again changes nothing.`
+          : `Would close ticket "${ticket.subject}" (currently ${ticket.status}).`;
+        return toolPreview(text, { action: 'close_ticket', ticketId: args.ticketId, status: ticket.status });
       } catch (error: any) {
-        return `Error closing ticket: ${error.message}`;
+        return toolFailure(`Error getting ticket: ${error.message}`, { error: error.message });
       }
     },
   };
@@ -5,63 +5,41 @@
 
 import { z } from 'zod';
 import type { ProxiesApi } from '../api/index.js';
+import { toolResult, type ToolResult } from '../utils/output.js';
 import { buildProxyConnectionString } from '../utils/formatting.js';
+import { defineTools, toToolDefinitions, toToolSchemas } from './define.js';
 
 /**
- * Tool definitions for utilities
+ * Utility tools (description and input schema)
  */
-export const utilityToolDefinitions = [
-  {
-    name: 'get_proxy_connection_string',
+export const utilityTools = defineTools({
+  get_proxy_connection_string: {
     description: 'Generate a ready-to-use proxy connection string for a port (HTTP or SOCKS5)',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        portId: {
-          type: 'string',
-          description: 'The port ID to generate connection string for',
-        },
-        protocol: {
-          type: 'string',
-          enum: ['http', 'socks5'],
-          description: 'Protocol to use (default: http)',
-        },
-        serverHost: {
-          type: 'string',
-          description: 'The proxy server hostname (required)',
-        },
-      },
-      required: ['portId', 'serverHost'],
-    },
+    schema: z.object({
+      portId: z.string().min(1).describe('The port ID to generate connection string for'),
+      protocol: z.enum(['http', 'socks5']).optional().describe('Protocol to use (default: http)'),
+      serverHost: z.string().min(1).describe('The proxy server hostname (required)'),
+    }),
+    scopes: ['ports:read'],
   },
-  {
-    name: 'get_all_proxy_formats',
+  get_all_proxy_formats: {
     description: 'Get all common proxy formats for a port (useful for different applications)',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        portId: {
-          type: 'string',
-          description: 'The port ID to generate formats for',
-        },
-        serverHost: {
-          type: 'string',
-          description: 'The proxy server hostname (required)',
-        },
-      },
-      required: ['portId', 'serverHost'],
-    },
+    schema: z.object({
+      portId: z.string().min(1).describe('The port ID to generate formats for'),
+      serverHost: z.string().min(1).describe('The proxy server hostname (required)'),
+    }),
+    scopes: ['ports:read'],
   },
-  {
-    name: 'get_os_fingerprint_options',
+  get_os_fingerprint_options: {
     description: 'Get available OS fingerprint options for spoofing',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {},
-      required: [] as string[],
-    },
+    schema: z.object({}),
   },
-] as const;
+});
+
+/**
+ * Tool definitions for utilities
+ */
+export const utilityToolDefinitions = toToolDefinitions(utilityTools);
 
 /**
  * Utility tools handler
@@ -72,13 +50,13 @@ export function createUtilityToolHandlers(api: ProxiesApi, baseUrl: string) {
       portId: string;
       protocol?: 'http' | 'socks5';
       serverHost: string;
-    }): Promise<string> {
+    }): Promise<ToolResult> {
       try {
         const port = await api.ports.get(args.portId);
         const protocol = args.protocol ?? 'http';
         const connectionString = buildProxyConnectionString(port, args.serverHost, protocol);
 
-        return [
+        return toolResult([
           `Proxy Connection String (${protocol.toUpperCase()}):`,
           '',
           connectionString,
@@ -89,7 +67,14 @@ export function createUtilityToolHandlers(api: ProxiesApi, baseUrl: string) {
           `  Port: ${protocol === 'http' ? port.httpPort : port.socksPort}`,
           `  Username: ${port.proxyLogin}`,
           `  Password: ${port.proxyPassword}`,
-        ].join('\n');
+        ].join('\n'), {
+          connectionString,
+          protocol,
+          host: args.serverHost,
+          port: protocol === 'http' ? port.httpPort : port.socksPort,
+          username: port.proxyLogin,
+          password: port.proxyPassword,
+        });
       } catch (error) {
         throw new Error(`Failed to generate connection string: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
@@ -98,7 +83,7 @@ export function createUtilityToolHandlers(api: ProxiesApi, baseUrl: string) {
     async get_all_proxy_formats(args: {
       portId: string;
       serverHost: string;
-    }): Promise<string> {
+    }): Promise<ToolResult> {
       try {
         const port = await api.ports.get(args.portId);
 
@@ -135,20 +120,28 @@ export function createUtilityToolHandlers(api: ProxiesApi, baseUrl: string) {
         ];
 
         // Add rotation URL if available
-        if (port.rotationToken) {
-          const rotationUrl = `${baseUrl.replace(/\/$/, '')}/rotate/${port.rotationToken}`;
+        const rotationUrl = port.rotationToken
+          ? `${baseUrl.replace(/\/$/, '')}/rotate/${port.rotationToken}`
+          : null;
+        if (rotationUrl) {
           lines.push('');
           lines.push('--- Rotation URL ---');
           lines.push(`GET ${rotationUrl}`);
         }
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), {
+          http: { url: httpUrl, host: args.serverHost, port: port.httpPort },
+          socks5: { url: socksUrl, host: args.serverHost, port: port.socksPort },
+          username: port.proxyLogin,
+          password: port.proxyPassword,
+          rotationUrl,
+        });
       } catch (error) {
         throw new Error(`Failed to generate proxy formats: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     },
 
-    async get_os_fingerprint_options(): Promise<string> {
+    async get_os_fingerprint_options(): Promise<ToolResult> {
       const options = [
         { value: '', label: 'None', description: 'No OS fingerprint spoofing (default)' },
         { value: 'windows:1', label: 'Windows 10', description: 'Appear as Windows 10 device' },
@@ -170,7 +163,7 @@ export function createUtilityToolHandlers(api: ProxiesApi, baseUrl: string) {
 
       lines.push('Usage: update_os_fingerprint(portId, osFingerprint)');
 
-      return lines.join('\n');
+      return toolResult(lines.join('\n'), { options });
     },
   };
 }
@@ -178,15 +171,4 @@ export function createUtilityToolHandlers(api: ProxiesApi, baseUrl: string) {
 /**
  * Zod schemas for validation
  */
-export const utilitySchemas = {
-  get_proxy_connection_string: z.object({
-    portId: z.string().min(1),
-    protocol: z.enum(['http', 'socks5']).optional(),
-    serverHost: z.string().min(1),
-  }),
-  get_all_proxy_formats: z.object({
-    portId: z.string().min(1),
-    serverHost: z.string().min(1),
-  }),
-  get_os_fingerprint_options: z.object({}),
-};
+export const utilitySchemas = toToolSchemas(utilityTools);
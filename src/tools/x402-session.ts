@@ -5,11 +5,13 @@
 
 import { z } from 'zod';
 import type { ProxiesApi } from '../api/index.js';
+import { toolFailure, toolPreview, toolResult, type ToolResult } from '../utils/output.js';
+import { defineTools, toToolDefinitions, toToolSchemas } from './define.js';
 
 // ==================== SCHEMAS ====================
 
 const getSessionSchema = z.object({
-  sessionToken: z.string().describe('Session token from purchase response (x402s_...)'),
+  sessionToken: z.string().describe('Session token from purchase response (starts with x402s_)'),
 });
 
 const getPortStatusSchema = z.object({
@@ -19,7 +21,7 @@ const getPortStatusSchema = z.object({
 
 const getSessionByWalletSchema = z.object({
   walletAddress: z.string().describe('Your wallet address (EVM 0x... or Solana base58)'),
-  status: z.enum(['active', 'expired', 'all']).optional().describe('Filter by status'),
+  status: z.enum(['active', 'expired', 'all']).optional().describe('Filter by status (default: active)'),
 });
 
 const getSessionStatusSchema = z.object({
@@ -27,7 +29,7 @@ const getSessionStatusSchema = z.object({
 });
 
 const replacePortSchema = z.object({
-  sessionToken: z.string().describe('Session token from purchase response'),
+  sessionToken: z.string().describe('Session token from purchase response (starts with x402s_)'),
   portId: z.string().optional().describe('Specific port ID to replace (defaults to first offline port)'),
   country: z.string().optional().describe('Country code for new port (e.g., US)'),
   city: z.string().optional().describe('City code for new port'),
@@ -36,8 +38,8 @@ const replacePortSchema = z.object({
 
 const topupCalculateSchema = z.object({
   sessionToken: z.string().describe('Session token from purchase response'),
-  addTrafficGB: z.number().optional().describe('Additional traffic in GB (min 0.1)'),
-  addDurationSeconds: z.number().optional().describe('Additional duration in seconds (min 3600)'),
+  addTrafficGB: z.number().min(0.1).optional().describe('Additional traffic in GB'),
+  addDurationSeconds: z.number().min(3600).optional().describe('Additional duration in seconds (3600 = 1 hour)'),
 });
 
 const topupSessionSchema = z.object({
@@ -47,178 +49,51 @@ const topupSessionSchema = z.object({
   addDurationSeconds: z.number().optional().describe('Additional duration in seconds'),
 });
 
-export const x402SessionSchemas = {
-  get_x402_session: getSessionSchema,
-  list_x402_ports: getSessionSchema,
-  get_x402_port_status: getPortStatusSchema,
-  get_sessions_by_wallet: getSessionByWalletSchema,
-  get_session_status: getSessionStatusSchema,
-  replace_x402_port: replacePortSchema,
-  calculate_x402_topup: topupCalculateSchema,
-  topup_x402_session: topupSessionSchema,
-};
-
 // ==================== TOOL DEFINITIONS ====================
 
-export const x402SessionToolDefinitions = [
-  {
-    name: 'get_x402_session',
+/**
+ * x402 session management tools (description and input schema)
+ */
+export const x402SessionTools = defineTools({
+  get_x402_session: {
     description: 'Get details of your x402 session including all ports. Use this after purchase to retrieve your proxy credentials and session info. Requires the session token from the purchase response.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        sessionToken: {
-          type: 'string',
-          description: 'Session token from purchase response (starts with x402s_)',
-        },
-      },
-      required: ['sessionToken'],
-    },
+    schema: getSessionSchema,
   },
-  {
-    name: 'list_x402_ports',
+  list_x402_ports: {
     description: 'List all ports in your x402 session with connection strings and expiration times',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        sessionToken: {
-          type: 'string',
-          description: 'Session token from purchase response',
-        },
-      },
-      required: ['sessionToken'],
-    },
+    schema: getSessionSchema,
   },
-  {
-    name: 'get_x402_port_status',
+  get_x402_port_status: {
     description: 'Get detailed status of a specific port including traffic usage and connection info',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        sessionToken: {
-          type: 'string',
-          description: 'Session token from purchase response',
-        },
-        portId: {
-          type: 'string',
-          description: 'The port ID to check',
-        },
-      },
-      required: ['sessionToken', 'portId'],
-    },
+    schema: getPortStatusSchema,
   },
-  {
-    name: 'get_sessions_by_wallet',
+  get_sessions_by_wallet: {
     description: 'List all x402 sessions associated with your wallet address. Useful for recovering session info.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        walletAddress: {
-          type: 'string',
-          description: 'Your wallet address (EVM 0x... or Solana base58)',
-        },
-        status: {
-          type: 'string',
-          enum: ['active', 'expired', 'all'],
-          description: 'Filter by status (default: active)',
-        },
-      },
-      required: ['walletAddress'],
-    },
+    schema: getSessionByWalletSchema,
   },
-  {
-    name: 'get_session_status',
+  get_session_status: {
     description: 'Get quick status check for a session including traffic usage and expiration',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        sessionId: {
-          type: 'string',
-          description: 'The session ID',
-        },
-      },
-      required: ['sessionId'],
-    },
+    schema: getSessionStatusSchema,
   },
-  {
-    name: 'replace_x402_port',
+  replace_x402_port: {
     description: 'Replace an offline/broken proxy port with a new one on a different device. Free, max 3 replacements per session. The broken port is deleted and a new port is created on a different device.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        sessionToken: {
-          type: 'string',
-          description: 'Session token from purchase response (starts with x402s_)',
-        },
-        portId: {
-          type: 'string',
-          description: 'Specific port ID to replace (optional - defaults to first offline port)',
-        },
-        country: {
-          type: 'string',
-          description: 'Country code for new port (e.g., US)',
-        },
-        city: {
-          type: 'string',
-          description: 'City code for new port',
-        },
-        carrier: {
-          type: 'string',
-          description: 'Carrier code for new port',
-        },
-      },
-      required: ['sessionToken'],
-    },
+    schema: replacePortSchema,
+    mutating: true,
   },
-  {
-    name: 'calculate_x402_topup',
+  calculate_x402_topup: {
     description: 'Calculate the cost to top up a session with additional traffic and/or duration. Duration extensions are free, traffic costs $4/GB (shared) or $8/GB (private).',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        sessionToken: {
-          type: 'string',
-          description: 'Session token from purchase response',
-        },
-        addTrafficGB: {
-          type: 'number',
-          description: 'Additional traffic in GB (min 0.1)',
-        },
-        addDurationSeconds: {
-          type: 'number',
-          description: 'Additional duration in seconds (min 3600 = 1 hour)',
-        },
-      },
-      required: ['sessionToken'],
-    },
+    schema: topupCalculateSchema,
   },
-  {
-    name: 'topup_x402_session',
+  topup_x402_session: {
     description: 'Top up a session with additional traffic and/or duration. Requires a Payment-Signature (tx hash) for traffic top-ups. Duration-only extensions are free.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        sessionToken: {
-          type: 'string',
-          description: 'Session token from purchase response',
-        },
-        paymentSignature: {
-          type: 'string',
-          description: 'Blockchain tx hash (Solana signature or Base tx hash)',
-        },
-        addTrafficGB: {
-          type: 'number',
-          description: 'Additional traffic in GB',
-        },
-        addDurationSeconds: {
-          type: 'number',
-          description: 'Additional duration in seconds',
-        },
-      },
-      required: ['sessionToken', 'paymentSignature'],
-    },
+    schema: topupSessionSchema,
+    mutating: true,
   },
-] as const;
+});
+
+export const x402SessionToolDefinitions = toToolDefinitions(x402SessionTools);
+
+export const x402SessionSchemas = toToolSchemas(x402SessionTools);
 
 // ==================== TYPES ====================
 
@@ -273,7 +148,7 @@ export function createX402SessionToolHandlers(api: ProxiesApi, _baseUrl: string)
     /**
      * Get session details via session token
      */
-    async get_x402_session(args: z.infer<typeof getSessionSchema>): Promise<string> {
+    async get_x402_session(args: z.infer<typeof getSessionSchema>): Promise<ToolResult> {
       try {
         const session = await api.client.get<X402SessionDetails & { ports: X402PortInfo[] }>(
           '/x402/manage/session',
@@ -317,19 +192,19 @@ export function createX402SessionToolHandlers(api: ProxiesApi, _baseUrl: string)
           }
         }
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), { session });
       } catch (error: any) {
         if (error.statusCode === 404) {
-          return 'Session not found or expired. The session token may be invalid.';
+          return toolFailure('Session not found or expired. The session token may be invalid.', { error: error.message, statusCode: 404 });
         }
-        return `Error fetching session: ${error.message}`;
+        return toolFailure(`Error fetching session: ${error.message}`, { error: error.message });
       }
     },
 
     /**
      * List all ports in session
      */
-    async list_x402_ports(args: z.infer<typeof getSessionSchema>): Promise<string> {
+    async list_x402_ports(args: z.infer<typeof getSessionSchema>): Promise<ToolResult> {
       try {
         const result = await api.client.get<{ ports: X402PortInfo[] }>(
           '/x402/manage/ports',
@@ -338,7 +213,7 @@ export function createX402SessionToolHandlers(api: ProxiesApi, _baseUrl: string)
         );
 
         if (!result.ports || result.ports.length === 0) {
-          return 'No ports found in this session.';
+          return toolResult('No ports found in this session.', { ports: [] });
         }
 
         const lines = [
@@ -368,16 +243,16 @@ export function createX402SessionToolHandlers(api: ProxiesApi, _baseUrl: string)
           lines.push('');
         }
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), { ports: result.ports });
       } catch (error: any) {
-        return `Error listing ports: ${error.message}`;
+        return toolFailure(`Error listing ports: ${error.message}`, { error: error.message });
       }
     },
 
     /**
      * Get port status
      */
-    async get_x402_port_status(args: z.infer<typeof getPortStatusSchema>): Promise<string> {
+    async get_x402_port_status(args: z.infer<typeof getPortStatusSchema>): Promise<ToolResult> {
       try {
         const port = await api.client.get<X402PortInfo>(
           `/x402/manage/ports/${args.portId}/status`,
@@ -414,19 +289,19 @@ export function createX402SessionToolHandlers(api: ProxiesApi, _baseUrl: string)
           lines.push(`- **Used:** ${port.traffic.usedGB} GB (${port.traffic.usedBytes.toLocaleString()} bytes)`);
         }
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), { port });
       } catch (error: any) {
         if (error.statusCode === 404) {
-          return 'Port not found or not owned by this session.';
+          return toolFailure('Port not found or not owned by this session.', { error: error.message, statusCode: 404 });
         }
-        return `Error fetching port status: ${error.message}`;
+        return toolFailure(`Error fetching port status: ${error.message}`, { error: error.message });
       }
     },
 
     /**
      * Get sessions by wallet address
      */
-    async get_sessions_by_wallet(args: z.infer<typeof getSessionByWalletSchema>): Promise<string> {
+    async get_sessions_by_wallet(args: z.infer<typeof getSessionByWalletSchema>): Promise<ToolResult> {
       try {
         const status = args.status || 'active';
         const result = await api.client.get<{ sessions: X402SessionDetails[]; total: number }>(
@@ -434,7 +309,7 @@ export function createX402SessionToolHandlers(api: ProxiesApi, _baseUrl: string)
         );
 
         if (!result.sessions || result.sessions.length === 0) {
-          return `No ${status} sessions found for wallet ${args.walletAddress}`;
+          return toolResult(`No ${status} sessions found for wallet ${args.walletAddress}`, { total: 0, sessions: [] });
         }
 
         const lines = [
@@ -459,16 +334,16 @@ export function createX402SessionToolHandlers(api: ProxiesApi, _baseUrl: string)
           lines.push('');
         }
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), { total: result.total, sessions: result.sessions });
       } catch (error: any) {
-        return `Error fetching sessions: ${error.message}`;
+        return toolFailure(`Error fetching sessions: ${error.message}`, { error: error.message });
       }
     },
 
     /**
      * Get session status
      */
-    async get_session_status(args: z.infer<typeof getSessionStatusSchema>): Promise<string> {
+    async get_session_status(args: z.infer<typeof getSessionStatusSchema>): Promise<ToolResult> {
       try {
         const status = await api.client.get<X402SessionStatus>(
           `/x402/sessions/${args.sessionId}/status`
@@ -478,7 +353,7 @@ export function createX402SessionToolHandlers(api: ProxiesApi, _baseUrl: string)
         const trafficPercent = status.traffic.percentUsed;
         const trafficBar = '█'.repeat(Math.floor(trafficPercent / 10)) + '░'.repeat(10 - Math.floor(trafficPercent / 10));
 
-        return [
+        return toolResult([
           `# Session Status: ${statusIcon}`,
           '',
           `**ID:** ${status.id}`,
@@ -491,19 +366,19 @@ export function createX402SessionToolHandlers(api: ProxiesApi, _baseUrl: string)
           `- **Allowed:** ${status.traffic.allowedGB} GB`,
           `- **Used:** ${status.traffic.usedGB} GB`,
           `- **Remaining:** ${status.traffic.remainingGB} GB`,
-        ].join('\n');
+        ].join('\n'), { status });
       } catch (error: any) {
         if (error.statusCode === 404) {
-          return 'Session not found. Check the session ID.';
+          return toolFailure('Session not found. Check the session ID.', { error: error.message, statusCode: 404 });
         }
-        return `Error fetching session status: ${error.message}`;
+        return toolFailure(`Error fetching session status: ${error.message}`, { error: error.message });
       }
     },
 
     /**
      * Replace an offline/broken port with a new one
      */
-    async replace_x402_port(args: z.infer<typeof replacePortSchema>): Promise<string> {
+    async replace_x402_port(args: z.infer<typeof replacePortSchema>): Promise<ToolResult> {
       try {
         const body: any = {};
         if (args.portId) body.portId = args.portId;
@@ -514,10 +389,11 @@ export function createX402SessionToolHandlers(api: ProxiesApi, _baseUrl: string)
         const result = await api.client.post<any>(
           '/x402/manage/ports/replace',
           body,
-          { 'X-Session-Token': args.sessionToken },
+          undefined,
+          { headers: { 'X-Session-Token': args.sessionToken } },
         );
 
-        return [
+        return toolResult([
           '# Port Replaced Successfully',
           '',
           '## New Proxy Credentials',
@@ -536,16 +412,16 @@ export function createX402SessionToolHandlers(api: ProxiesApi, _baseUrl: string)
           `- **Remaining:** ${result.traffic.remainingGB} GB`,
           '',
           `**Location:** ${result.location.country} (${result.location.countryCode})`,
-        ].join('\n');
+        ].join('\n'), { replacement: result });
       } catch (error: any) {
-        return `Error replacing port: ${error.message}`;
+        return toolFailure(`Error replacing port: ${error.message}`, { error: error.message });
       }
     },
 
     /**
      * Calculate top-up cost
      */
-    async calculate_x402_topup(args: z.infer<typeof topupCalculateSchema>): Promise<string> {
+    async calculate_x402_topup(args: z.infer<typeof topupCalculateSchema>): Promise<ToolResult> {
       try {
         const params: Record<string, string> = {};
         if (args.addTrafficGB) params.addTrafficGB = String(args.addTrafficGB);
@@ -558,7 +434,7 @@ export function createX402SessionToolHandlers(api: ProxiesApi, _baseUrl: string)
           { 'X-Session-Token': args.sessionToken },
         );
 
-        return [
+        return toolResult([
           '# Top-Up Cost Calculation',
           '',
           `**Traffic Cost:** $${result.trafficCost}`,
@@ -574,16 +450,16 @@ export function createX402SessionToolHandlers(api: ProxiesApi, _baseUrl: string)
           result.totalCost > 0
             ? 'Send the total amount in USDC, then call topup_x402_session with the tx hash.'
             : 'This is a free duration-only extension. Call topup_x402_session with any string as payment signature.',
-        ].join('\n');
+        ].join('\n'), { cost: result });
       } catch (error: any) {
-        return `Error calculating top-up cost: ${error.message}`;
+        return toolFailure(`Error calculating top-up cost: ${error.message}`, { error: error.message });
       }
     },
 
     /**
      * Top up a session with additional traffic/duration
      */
-    async topup_x402_session(args: z.infer<typeof topupSessionSchema>): Promise<string> {
+    async topup_x402_session(args: z.infer<typeof topupSessionSchema>): Promise<ToolResult> {
       try {
         const body: any = {};
         if (args.addTrafficGB) body.addTrafficGB = args.addTrafficGB;
@@ -592,9 +468,12 @@ export function createX402SessionToolHandlers(api: ProxiesApi, _baseUrl: string)
         const result = await api.client.post<any>(
           '/x402/manage/session/topup',
           body,
+          undefined,
           {
-            'X-Session-Token': args.sessionToken,
-            'Payment-Signature': args.paymentSignature,
+            headers: {
+              'X-Session-Token': args.sessionToken,
+              'Payment-Signature': args.paymentSignature,
+            },
           },
         );
 
@@ -619,9 +498,78 @@ export function createX402SessionToolHandlers(api: ProxiesApi, _baseUrl: string)
           }
         }
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), { topup: result });
+      } catch (error: any) {
+        return toolFailure(`Error topping up session: ${error.message}`, { error: error.message });
+      }
+    },
+  };
+}
+
+// ==================== DRY-RUN PREVIEWS ====================
+
+export function createX402SessionToolPreviews(api: ProxiesApi) {
+  return {
+
+    /**
+     * Show which port would be replaced and where the new one would be placed
+     */
+    async replace_x402_port(args: z.infer<typeof replacePortSchema>): Promise<ToolResult> {
+      try {
+        const { ports = [] } = await api.client.get<{ ports: X402PortInfo[] }>(
+          '/x402/manage/ports',
+          undefined,
+          { 'X-Session-Token': args.sessionToken },
+        );
+
+        const target = args.portId
+          ? ports.find(p => p.id === args.portId)
+          : ports.find(p => p.status && !['online', 'active'].includes(p.status));
+        if (!target) {
+          return toolFailure(
+            args.portId ? `Port ${args.portId} is not in this session.` : 'No offline port in this session - nothing would be replaced.',
+            { ports: ports.map(p => ({ id: p.id, status: p.status })) },
+          );
+        }
+
+        const location = [args.country, args.city, args.carrier].filter(Boolean).join(' / ') || 'same location';
+        return toolPreview([
+          `Would delete port ${target.displayName || target.id} (${target.id}, status: ${target.status || 'unknown'})`,
+          `and create a replacement on a different device (${location}).`,
+          '',
+          `Current HTTP: ${target.http}`,
+          'Replacements are free, max 3 per session.',
+        ].join('\n'), { port: target, location: { country: args.country, city: args.city, carrier: args.carrier } });
+      } catch (error: any) {
+        return toolFailure(`Error previewing port replacement: ${error.message}`, { error: error.message });
+      }
+    },
+
+    /**
+     * Price the top-up and show the session it would apply to
+     */
+    async topup_x402_session(args: z.infer<typeof topupSessionSchema>): Promise<ToolResult> {
+      try {
+        const headers = { 'X-Session-Token': args.sessionToken };
+        const params: Record<string, string> = {};
+        if (args.addTrafficGB) params.addTrafficGB = String(args.addTrafficGB);
+        if (args.addDurationSeconds) params.addDurationSeconds = String(args.addDurationSeconds);
+
+        const [session, cost] = await Promise.all([
+          api.client.get<X402SessionDetails>('/x402/manage/session', undefined, headers),
+          api.client.get<any>(`/x402/manage/session/topup/calculate?${new URLSearchParams(params).toString()}`, undefined, headers),
+        ]);
+
+        return toolPreview([
+          `Would top up session ${session.sessionId} (${session.tier}) with payment ${args.paymentSignature}:`,
+          `- Traffic: ${session.trafficAllocatedGB} GB -> ${session.trafficAllocatedGB + (args.addTrafficGB ?? 0)} GB`,
+          args.addDurationSeconds
+            ? `- Expiry: ${session.expiresAt} extended by ${Math.round(args.addDurationSeconds / 3600)}h`
+            : `- Expiry: ${session.expiresAt} (unchanged)`,
+          `- Cost: $${cost.totalCost} USDC (the payment must cover this amount)`,
+        ].join('\n'), { session, cost });
       } catch (error: any) {
-        return `Error topping up session: ${error.message}`;
+        return toolFailure(`Error previewing top-up: ${error.message}`, { error: error.message });
       }
     },
   };
@@ -3,7 +3,7 @@
  * Helper functions for formatting output
  */
 
-import type { Port, AccountSummary, Tariff, RotationHistoryEntry } from '../api/types.js';
+import type { Port, AccountSummary, Tariff, RotationHistoryEntry, Notification, Purchase } from '../api/types.js';
 
 /**
  * Format bytes to human readable string
@@ -200,6 +200,88 @@ export function formatRotationEntry(entry: RotationHistoryEntry): string {
   return `[${formatDate(entry.rotatedAt)}] ${trigger}: ${entry.previousDeviceName || 'Unknown'} → ${entry.newDeviceName || 'Unknown'} (${status})`;
 }
 
+/**
+ * Format notification as a one-line list entry
+ */
+export function formatNotificationEntry(notification: Notification): string {
+  const marker = notification.isRead ? ' ' : '*';
+  return `${marker} [${formatDate(notification.createdAt)}] ${notification.type.toUpperCase()} (${notification.category}) ${notification.title} - ID: ${notification._id}`;
+}
+
+/**
+ * Format notification with full message and action link
+ */
+export function formatNotification(notification: Notification): string {
+  const lines = [
+    `${notification.title}`,
+    '',
+    `  ID: ${notification._id}`,
+    `  Type: ${notification.type}`,
+    `  Category: ${notification.category}`,
+    `  Status: ${notification.isRead ? 'Read' : 'Unread'}`,
+    `  Created: ${formatDate(notification.createdAt)}`,
+  ];
+
+  if (notification.entityType && notification.entityId) {
+    lines.push(`  Related ${notification.entityType}: ${notification.entityId}`);
+  }
+
+  if (notification.expiresAt) {
+    lines.push(`  Expires: ${formatDate(notification.expiresAt)}`);
+  }
+
+  lines.push('', notification.message);
+
+  if (notification.actionLink) {
+    lines.push('', `${notification.actionLabel || 'Action'}: ${notification.actionLink}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format purchase as a one-line list entry
+ */
+export function formatPurchaseEntry(purchase: Purchase): string {
+  const unit = purchase.type === 'traffic' ? 'GB' : 'slots';
+  return `[${formatDate(purchase.createdAt)}] ${purchase.quantity} ${unit} ${purchase.category} ${purchase.type} - ${formatCurrency(purchase.totalPrice)} (${purchase.paymentStatus}) - ID: ${purchase._id}`;
+}
+
+/**
+ * Format purchase as a detailed receipt
+ */
+export function formatPurchaseReceipt(purchase: Purchase): string {
+  const unit = purchase.type === 'traffic' ? 'GB' : 'slot';
+
+  const lines = [
+    '=== Purchase Receipt ===',
+    '',
+    `Purchase ID: ${purchase._id}`,
+    `Date: ${formatDate(purchase.createdAt)}`,
+    `Status: ${purchase.paymentStatus}`,
+  ];
+
+  if (purchase.completedAt) {
+    lines.push(`Completed: ${formatDate(purchase.completedAt)}`);
+  }
+
+  lines.push(
+    '',
+    `Item: ${purchase.category.charAt(0).toUpperCase() + purchase.category.slice(1)} ${purchase.type}`,
+    `Quantity: ${purchase.quantity} ${unit}${unit === 'slot' && purchase.quantity !== 1 ? 's' : ''}`,
+    `Unit Price: ${formatCurrency(purchase.pricePerUnit)}/${unit}`,
+    `Total: ${formatCurrency(purchase.totalPrice)}`,
+    '',
+    `Payment Method: ${purchase.paymentMethod}`,
+  );
+
+  if (purchase.stripePaymentIntentId) {
+    lines.push(`Payment Reference: ${purchase.stripePaymentIntentId}`);
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Format port list as table
  * NOTE: Port expiration (expiresAt) is the slot expiry - when the port stops working.
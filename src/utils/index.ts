@@ -3,3 +3,5 @@
  */
 
 export * from './formatting.js';
+export * from './output.js';
+export * from './concurrency.js';
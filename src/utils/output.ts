@@ -0,0 +1,128 @@
+/**
+ * Tool Output Utilities
+ * Structured results shared by all tool handlers
+ *
+ * Handlers return human-readable text plus the data it was built from.
+ * The server wraps the data in a versioned envelope that is sent as MCP
+ * structuredContent, and as the text content when JSON output is requested.
+ */
+
+/**
+ * Envelope version - bump on breaking changes to the envelope shape
+ */
+export const TOOL_OUTPUT_VERSION = 1;
+
+/**
+ * Output format for tool results
+ */
+export type OutputFormat = 'text' | 'json';
+
+/**
+ * Tool result with structured data
+ */
+export interface ToolResult<T extends object = object> {
+  /** Human-readable text (text output format) */
+  text: string;
+  /** Structured payload (json output format and structuredContent) */
+  data: T;
+  /** Result describes a failure the tool handled itself (e.g. x402 payment errors) */
+  failed?: boolean;
+}
+
+/**
+ * Marker carried in the data of dry-run results
+ */
+export interface DryRunData {
+  dryRun: true;
+}
+
+/**
+ * Versioned JSON payload returned for every tool call
+ */
+export interface ToolOutputEnvelope {
+  version: number;
+  tool: string;
+  ok: boolean;
+  data: object;
+}
+
+/**
+ * Build a tool result
+ */
+export function toolResult<T extends object>(text: string, data: T): ToolResult<T> {
+  return { text, data };
+}
+
+/**
+ * Build the result of a dry run: what a mutating tool would do, with nothing changed
+ */
+export function toolPreview<T extends object>(text: string, data: T): ToolResult<T & DryRunData> {
+  return { text: `Dry run - nothing was changed.\n\n${text}`, data: { ...data, dryRun: true } };
+}
+
+/**
+ * Build a result for a failure the tool reports instead of throwing
+ */
+export function toolFailure<T extends object>(text: string, data: T): ToolResult<T> {
+  return { text, data, failed: true };
+}
+
+/**
+ * Wrap a handler result in the versioned envelope.
+ * Plain-text results are carried as { message }.
+ */
+export function toOutputEnvelope(tool: string, result: string | ToolResult): ToolOutputEnvelope {
+  if (typeof result === 'string') {
+    return { version: TOOL_OUTPUT_VERSION, tool, ok: true, data: { message: result } };
+  }
+
+  return { version: TOOL_OUTPUT_VERSION, tool, ok: !result.failed, data: result.data };
+}
+
+/**
+ * Envelope for a tool call that threw
+ */
+export function toErrorEnvelope(tool: string, message: string): ToolOutputEnvelope {
+  return { version: TOOL_OUTPUT_VERSION, tool, ok: false, data: { error: message } };
+}
+
+/**
+ * Text of a handler result in the requested format
+ */
+export function renderToolResult(envelope: ToolOutputEnvelope, result: string | ToolResult, format: OutputFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(envelope, null, 2);
+  }
+  return typeof result === 'string' ? result : result.text;
+}
+
+/**
+ * MCP outputSchema shared by all tools (the envelope)
+ */
+export const toolOutputSchema = {
+  type: 'object' as const,
+  properties: {
+    version: { type: 'number', description: 'Envelope version' },
+    tool: { type: 'string', description: 'Tool name' },
+    ok: { type: 'boolean', description: 'false when the tool reports a handled failure' },
+    data: { type: 'object', description: 'Tool-specific payload (API objects the text output is built from)' },
+  },
+  required: ['version', 'tool', 'ok', 'data'],
+};
+
+/**
+ * JSON schema for the per-call output format argument
+ */
+export const outputFormatProperty = {
+  type: 'string',
+  enum: ['text', 'json'],
+  description: 'Output format: text (default) or json (versioned JSON envelope)',
+};
+
+/**
+ * JSON schema for the per-call dry-run argument (state-changing tools only)
+ */
+export const dryRunProperty = {
+  type: 'boolean',
+  description: 'Describe what the call would do (current state, price) without calling the mutating endpoint or sending USDC',
+};
@@ -3,7 +3,11 @@
  * Handles x402 payment flow: 402 → Pay → Verify → Access
  */
 
-import type { AgentWallet } from './wallet.js';
+import { randomUUID } from 'crypto';
+import { auditedFetch, recordAuditTransaction, type AuditTransaction } from '../audit/index.js';
+import { SpendLedgerError, SpendLimitError, type X402SpendGuard } from './spend-guard.js';
+import { TransferNotSentError, TransferUnconfirmedError } from './transfer-errors.js';
+import type { X402PendingPayments } from './pending-payments.js';
 import type {
   X402Network,
   X402Tier,
@@ -12,6 +16,11 @@ import type {
   X402ProxyResponse,
   X402Session,
   X402Pricing,
+  X402Wallet,
+  TransferResult,
+  PendingPayment,
+  X402PaymentOptions,
+  X402TopupResult,
 } from './types.js';
 
 /**
@@ -22,23 +31,84 @@ const PRICING_RATES: Record<X402Tier, { perGB: number }> = {
   private: { perGB: 8.0 },
 };
 
+/**
+ * Audit record of a USDC transfer
+ */
+function toAuditTransaction(transfer: TransferResult, purpose: string): AuditTransaction {
+  return {
+    hash: transfer.transactionHash,
+    network: transfer.network,
+    amountUSDC: Number(transfer.amount) / 1e6,
+    purpose,
+  };
+}
+
+/**
+ * Whether a payment error means no USDC left the wallet
+ */
+function wasNotSent(error: unknown): boolean {
+  return error instanceof TransferNotSentError || error instanceof SpendLimitError || error instanceof SpendLedgerError;
+}
+
+/**
+ * Transaction hash of a transfer that was broadcast but not confirmed
+ */
+function transactionHashOf(error: unknown): string | undefined {
+  return error instanceof TransferUnconfirmedError ? error.transactionHash : undefined;
+}
+
+/**
+ * Error for a payment that may have been sent before its request failed
+ */
+function paymentFailure(message: string, transactionHash: string | undefined, purpose: string): Error {
+  return new Error(
+    transactionHash
+      ? `${message}. Payment ${transactionHash} for ${purpose} was sent; check it before paying again.`
+      : `${message}. The payment for ${purpose} may have been sent; check the wallet history before paying again.`
+  );
+}
+
+/**
+ * Proxy purchase parameters
+ */
+export interface X402PurchaseParams {
+  country: string;
+  durationHours?: number;
+  trafficGB?: number;
+  tier?: X402Tier;
+  city?: string;
+  carrier?: string;
+}
+
 /**
  * x402 Protocol Client
  * Manages the full x402 payment flow for purchasing proxies
  */
 export class X402Client {
-  private wallet: AgentWallet;
+  private wallets: X402Wallet[];
+  private wallet: X402Wallet;
   private baseUrl: string;
   private preferredNetwork: X402Network;
+  private spendGuard?: X402SpendGuard;
+  private pendingPayments?: X402PendingPayments;
 
   constructor(
-    wallet: AgentWallet,
+    wallets: X402Wallet | X402Wallet[],
     baseUrl: string = 'https://api.proxies.sx/v1',
-    preferredNetwork: X402Network = 'base'
+    preferredNetwork: X402Network = 'base',
+    spendGuard?: X402SpendGuard,
+    pendingPayments?: X402PendingPayments
   ) {
-    this.wallet = wallet;
+    this.wallets = Array.isArray(wallets) ? wallets : [wallets];
+    if (this.wallets.length === 0) {
+      throw new Error('At least one wallet is required');
+    }
+    // Primary wallet: the one on the preferred network, else the first configured
+    this.wallet = this.wallets.find((w) => w.getNetwork() === preferredNetwork) || this.wallets[0];
     this.baseUrl = baseUrl.replace(/\/$/, '');
     this.preferredNetwork = preferredNetwork;
+    this.spendGuard = spendGuard;
+    this.pendingPayments = pendingPayments;
   }
 
   /**
@@ -83,7 +153,7 @@ export class X402Client {
     }
 
     try {
-      const response = await fetch(url.toString());
+      const response = await auditedFetch(url.toString());
       if (!response.ok) {
         // Fall back to local calculation
         return this.calculatePricing({
@@ -123,7 +193,7 @@ export class X402Client {
     if (params.city) url.searchParams.set('city', params.city);
     if (params.carrier) url.searchParams.set('carrier', params.carrier);
 
-    const response = await fetch(url.toString());
+    const response = await auditedFetch(url.toString());
 
     if (response.status !== 402) {
       const body = await response.text();
@@ -145,23 +215,93 @@ export class X402Client {
   }
 
   /**
-   * Find the best payment option for our preferred network
+   * Find the best payment option we hold a wallet for, preferring our preferred network
    */
   private findPaymentOption(
     requirement: X402PaymentRequirement
   ): X402AcceptOption {
+    if (requirement.accepts.length === 0) {
+      throw new Error('No payment options available in 402 response');
+    }
+
     // Try preferred network first
     const preferred = requirement.accepts.find(
-      (a) => a.network === this.preferredNetwork
+      (a) => a.network === this.preferredNetwork && this.getWallet(a.network)
     );
     if (preferred) return preferred;
 
-    // Fall back to first available
-    if (requirement.accepts.length > 0) {
-      return requirement.accepts[0];
+    // Fall back to first option we can pay
+    const payable = requirement.accepts.find((a) => this.getWallet(a.network));
+    if (payable) return payable;
+
+    const offered = [...new Set(requirement.accepts.map((a) => a.network))].join(', ');
+    const configured = this.wallets.map((w) => w.getNetwork()).join(', ');
+    throw new Error(
+      `No wallet configured for the accepted payment networks (accepted: ${offered}; configured: ${configured})`
+    );
+  }
+
+  /**
+   * Get the wallet for a payment option's network
+   */
+  private walletFor(paymentOption: X402AcceptOption): X402Wallet {
+    const wallet = this.getWallet(paymentOption.network);
+    if (!wallet) {
+      throw new Error(`No wallet configured for network: ${paymentOption.network}`);
+    }
+    return wallet;
+  }
+
+  /**
+   * Send USDC for a payment option, enforcing spend limits if a guard is configured
+   */
+  private async pay(
+    paymentOption: X402AcceptOption,
+    purpose: string,
+    options: X402PaymentOptions = {}
+  ): Promise<TransferResult> {
+    const wallet = this.walletFor(paymentOption);
+
+    // Compared in USDC base units, so a limit like 0.3 * 4 is not off by a rounding error
+    const amountUSDC = Number(paymentOption.maxAmountRequired) / 1e6;
+    if (options.maxAmountUSDC !== undefined && Number(paymentOption.maxAmountRequired) > Math.round(options.maxAmountUSDC * 1e6)) {
+      throw new TransferNotSentError(
+        `Payment of $${amountUSDC.toFixed(2)} USDC for ${purpose} exceeds the allowed $${options.maxAmountUSDC.toFixed(2)} USDC`
+      );
+    }
+
+    if (!this.spendGuard) {
+      const transfer = await wallet.sendUSDC(paymentOption.payTo, paymentOption.maxAmountRequired);
+      recordAuditTransaction(toAuditTransaction(transfer, purpose));
+      options.onTransfer?.(transfer);
+      return transfer;
     }
 
-    throw new Error('No payment options available in 402 response');
+    // Throws SpendLimitError (or SpendLedgerError) before any funds move
+    const reservation = this.spendGuard.authorize(paymentOption.maxAmountRequired);
+
+    let transfer: TransferResult;
+    try {
+      transfer = await wallet.sendUSDC(paymentOption.payTo, paymentOption.maxAmountRequired);
+    } catch (error) {
+      if (error instanceof TransferNotSentError) {
+        this.spendGuard.release(reservation);
+      } else {
+        // The USDC may have left the wallet: count it against the limits
+        this.spendGuard.commit(reservation, {
+          transactionHash: transactionHashOf(error) ?? '',
+          network: paymentOption.network,
+          amount: paymentOption.maxAmountRequired,
+          recipient: paymentOption.payTo,
+        }, wallet.address, purpose);
+      }
+      throw error;
+    }
+
+    this.spendGuard.commit(reservation, transfer, wallet.address, purpose);
+    recordAuditTransaction(toAuditTransaction(transfer, purpose));
+    options.onTransfer?.(transfer);
+    return transfer;
   }
 
   /**
@@ -175,10 +315,10 @@ export class X402Client {
     const paymentProof = {
       transactionHash,
       network,
-      payer: this.wallet.address,
+      payer: this.getWallet(network)?.address || this.wallet.address,
     };
 
-    const response = await fetch(url, {
+    const response = await auditedFetch(url, {
       method: 'GET',
       headers: {
         'X-Payment': JSON.stringify(paymentProof),
@@ -196,6 +336,29 @@ export class X402Client {
     return response.json() as Promise<X402ProxyResponse>;
   }
 
+  /**
+   * Fingerprint identifying a logical purchase (same parameters, same purchase)
+   */
+  private purchaseKey(params: X402PurchaseParams): string {
+    return [
+      'purchase',
+      params.country.toUpperCase(),
+      (params.durationHours || 1) * 3600,
+      params.trafficGB || 1,
+      params.tier || 'shared',
+      params.city || '',
+      params.carrier || '',
+    ].join(':');
+  }
+
+  /**
+   * Get the payment of an earlier, unconfirmed attempt at the same purchase.
+   * purchaseProxy() re-submits its proof instead of paying again.
+   */
+  getPendingPurchase(params: X402PurchaseParams): PendingPayment | undefined {
+    return this.pendingPayments?.get(this.purchaseKey(params));
+  }
+
   /**
    * Purchase a proxy via x402 payment
    * This is the main method that handles the full flow:
@@ -203,18 +366,30 @@ export class X402Client {
    * 2. Pay USDC on-chain
    * 3. Retry with payment proof
    * 4. Return proxy credentials
+   *
+   * If an earlier attempt at the same purchase paid but never got its proof
+   * accepted (e.g. the response was lost), steps 1-2 are skipped and the
+   * recorded transaction is submitted again.
    */
-  async purchaseProxy(params: {
-    country: string;
-    durationHours?: number;
-    trafficGB?: number;
-    tier?: X402Tier;
-    city?: string;
-    carrier?: string;
-  }): Promise<X402ProxyResponse> {
+  async purchaseProxy(params: X402PurchaseParams, options: X402PaymentOptions = {}): Promise<X402ProxyResponse> {
     const durationHours = params.durationHours || 1;
     const trafficGB = params.trafficGB || 1;
     const duration = durationHours * 3600;
+    const key = this.purchaseKey(params);
+
+    const pending = this.pendingPayments?.get(key);
+    if (pending) {
+      return this.resumePayment(pending);
+    }
+
+    const interrupted = this.pendingPayments?.getInterrupted(key);
+    if (interrupted) {
+      throw new Error(
+        `An earlier payment for ${interrupted.purpose} (${interrupted.id}) was interrupted and may have been sent. ` +
+        `Check the ${interrupted.network} wallet history of ${interrupted.payer} for a payment to ${interrupted.requirement.payTo}, ` +
+        'then run x402_resume_pending with discard: true for that payment ID before buying again.'
+      );
+    }
 
     // Step 1: Get payment requirement
     const { requirement, url } = await this.getPaymentRequirement({
@@ -229,33 +404,115 @@ export class X402Client {
     // Step 2: Find payment option
     const paymentOption = this.findPaymentOption(requirement);
 
-    // Step 3: Check if we have sufficient balance
-    const hasBalance = await this.wallet.hasSufficientBalance(
+    // Step 3: Check spend limits before anything else
+    this.spendGuard?.check(paymentOption.maxAmountRequired);
+
+    // Step 4: Check if we have sufficient balance on the chosen network
+    const wallet = this.walletFor(paymentOption);
+    const hasBalance = await wallet.hasSufficientBalance(
       paymentOption.maxAmountRequired
     );
 
     if (!hasBalance) {
-      const balance = await this.wallet.getBalance();
+      const balance = await wallet.getBalance();
       const required = Number(paymentOption.maxAmountRequired) / 1e6;
       throw new Error(
-        `Insufficient USDC balance. Required: $${required.toFixed(2)}, Available: ${balance.formatted}. ` +
-        `Please top up wallet: ${this.wallet.address}`
+        `Insufficient USDC balance on ${paymentOption.network}. Required: $${required.toFixed(2)}, Available: ${balance.formatted}. ` +
+        `Please top up wallet: ${wallet.address}`
       );
     }
 
-    // Step 4: Send USDC payment
-    const transfer = await this.wallet.sendUSDC(
-      paymentOption.payTo,
-      paymentOption.maxAmountRequired
-    );
-
-    // Step 5: Submit payment proof and get proxy
-    const result = await this.submitPaymentProof(
+    // Journal the payment before any funds move
+    const entry: PendingPayment = {
+      id: randomUUID(),
+      key,
       url,
-      transfer.transactionHash,
-      transfer.network
-    );
+      requirement: paymentOption,
+      status: 'sending',
+      network: paymentOption.network,
+      payer: wallet.address,
+      amount: paymentOption.maxAmountRequired,
+      purpose: `purchase:${params.country.toUpperCase()}`,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    };
+    this.pendingPayments?.add(entry);
+
+    // Step 5: Send USDC payment
+    let transfer: TransferResult;
+    try {
+      transfer = await this.pay(paymentOption, entry.purpose, options);
+    } catch (error) {
+      if (!this.pendingPayments || wasNotSent(error)) {
+        this.pendingPayments?.remove(entry);
+        throw error;
+      }
+
+      // The transfer may have been broadcast: keep the entry so it is not paid twice
+      const message = error instanceof Error ? error.message : String(error);
+      const transactionHash = transactionHashOf(error);
+      this.pendingPayments.recordInterrupted(entry, message, transactionHash);
+      throw new Error(
+        `${message}. Payment ${entry.id} may have been sent` +
+        (transactionHash
+          ? ` (${transactionHash}); once it confirms, run x402_resume_pending to submit its proof without paying again.`
+          : '; check the wallet history, then run x402_resume_pending to review it.')
+      );
+    }
+    this.pendingPayments?.markSent(entry, transfer.transactionHash);
+
+    // Step 6: Submit payment proof and get proxy
+    let result: X402ProxyResponse;
+    try {
+      result = await this.submitPaymentProof(
+        url,
+        transfer.transactionHash,
+        transfer.network
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!this.pendingPayments) throw error;
+      this.pendingPayments.recordFailure(entry, message);
+      throw new Error(
+        `${message}. Payment ${transfer.transactionHash} was sent; ` +
+        'run x402_resume_pending (or repeat the same purchase) to re-submit its proof without paying again.'
+      );
+    }
 
+    this.pendingPayments?.remove(entry);
+    return result;
+  }
+
+  /**
+   * Re-submit the proof of a journaled payment and return the purchased proxy.
+   * The entry is removed once the proof is accepted.
+   */
+  async resumePayment(payment: PendingPayment): Promise<X402ProxyResponse> {
+    if (!payment.transactionHash) {
+      throw new Error(
+        `The transfer for ${payment.purpose} was interrupted before it confirmed. ` +
+        `Check the ${payment.network} wallet history of ${payment.payer} for a payment to ${payment.requirement.payTo}`
+      );
+    }
+
+    // No USDC moves here; the earlier transaction is re-used
+    recordAuditTransaction({
+      hash: payment.transactionHash,
+      network: payment.network,
+      amountUSDC: 0,
+      purpose: `resume:${payment.purpose}`,
+    });
+
+    let result: X402ProxyResponse;
+    try {
+      result = await this.submitPaymentProof(payment.url, payment.transactionHash, payment.network);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.pendingPayments?.recordFailure(payment, message);
+      throw new Error(`Re-submitting payment ${payment.transactionHash} failed: ${message}`);
+    }
+
+    this.pendingPayments?.remove(payment);
     return result;
   }
 
@@ -268,7 +525,7 @@ export class X402Client {
     const url = new URL(`${this.baseUrl}/x402/sessions/wallet/${this.wallet.address}`);
     url.searchParams.set('status', status);
 
-    const response = await fetch(url.toString());
+    const response = await auditedFetch(url.toString());
 
     if (!response.ok) {
       if (response.status === 404) {
@@ -288,7 +545,7 @@ export class X402Client {
   async getSessionStatus(sessionId: string): Promise<X402Session> {
     const url = `${this.baseUrl}/x402/sessions/${sessionId}/status`;
 
-    const response = await fetch(url);
+    const response = await auditedFetch(url);
 
     if (!response.ok) {
       const error = await response.json().catch(() => ({ message: 'Unknown error' })) as { message?: string };
@@ -299,12 +556,12 @@ export class X402Client {
   }
 
   /**
-   * Extend a session by paying more USDC
+   * Get the payment option for a session extension (no payment is made)
    */
-  async extendSession(
+  private async getExtensionRequirement(
     sessionId: string,
     additionalHours: number
-  ): Promise<X402Session> {
+  ): Promise<{ url: URL; paymentOption: X402AcceptOption }> {
     // First get current session to verify it exists
     await this.getSessionStatus(sessionId);
 
@@ -313,46 +570,128 @@ export class X402Client {
     url.searchParams.set('hours', String(additionalHours));
 
     // Get payment requirement for extension
-    const response = await fetch(url.toString(), { method: 'POST' });
+    const response = await auditedFetch(url.toString(), { method: 'POST' });
 
     if (response.status !== 402) {
       throw new Error(`Expected 402 for extension, got ${response.status}`);
     }
 
     const extensionData = await response.json() as { paymentRequirement: X402PaymentRequirement };
-    const paymentOption = this.findPaymentOption(extensionData.paymentRequirement);
+    return { url, paymentOption: this.findPaymentOption(extensionData.paymentRequirement) };
+  }
+
+  /**
+   * Quote a session extension in USDC without paying
+   */
+  async quoteExtension(sessionId: string, additionalHours: number): Promise<{ amountUSDC: number; network: X402Network }> {
+    const { paymentOption } = await this.getExtensionRequirement(sessionId, additionalHours);
+    return {
+      amountUSDC: Number(paymentOption.maxAmountRequired) / 1e6,
+      network: paymentOption.network,
+    };
+  }
+
+  /**
+   * Extend a session by paying more USDC
+   */
+  async extendSession(
+    sessionId: string,
+    additionalHours: number,
+    options?: X402PaymentOptions
+  ): Promise<X402Session> {
+    const { url, paymentOption } = await this.getExtensionRequirement(sessionId, additionalHours);
 
     // Pay for extension
-    const transfer = await this.wallet.sendUSDC(
-      paymentOption.payTo,
-      paymentOption.maxAmountRequired
-    );
+    const purpose = `extend:${sessionId}`;
+    let transfer: TransferResult;
+    try {
+      transfer = await this.pay(paymentOption, purpose, options);
+    } catch (error) {
+      if (wasNotSent(error)) throw error;
+      throw paymentFailure(error instanceof Error ? error.message : String(error), transactionHashOf(error), purpose);
+    }
 
     // Submit payment proof
-    const extendResponse = await fetch(url.toString(), {
-      method: 'POST',
-      headers: {
-        'X-Payment': JSON.stringify({
-          transactionHash: transfer.transactionHash,
-          network: transfer.network,
-          payer: this.wallet.address,
-        }),
-      },
-    });
+    let extendResponse: Response;
+    try {
+      extendResponse = await auditedFetch(url.toString(), {
+        method: 'POST',
+        headers: {
+          'X-Payment': JSON.stringify({
+            transactionHash: transfer.transactionHash,
+            network: transfer.network,
+            payer: this.walletFor(paymentOption).address,
+          }),
+        },
+      });
+    } catch (error) {
+      throw paymentFailure(`Failed to extend session: ${error instanceof Error ? error.message : String(error)}`, transfer.transactionHash, purpose);
+    }
 
     if (!extendResponse.ok) {
-      throw new Error('Failed to extend session');
+      throw paymentFailure(`Failed to extend session (${extendResponse.status})`, transfer.transactionHash, purpose);
     }
 
     return extendResponse.json() as Promise<X402Session>;
   }
 
+  /**
+   * Add traffic to a session by paying USDC.
+   * Uses the session-token top-up endpoint with the same 402 flow as extendSession.
+   */
+  async topupSession(
+    sessionToken: string,
+    addTrafficGB: number,
+    options?: X402PaymentOptions
+  ): Promise<X402TopupResult> {
+    const url = `${this.baseUrl}/x402/manage/session/topup`;
+    const request = (headers: Record<string, string> = {}) => auditedFetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Session-Token': sessionToken, ...headers },
+      body: JSON.stringify({ addTrafficGB }),
+    });
+
+    // Get payment requirement for the top-up
+    const response = await request();
+
+    if (response.status !== 402) {
+      throw new Error(`Expected 402 for top-up, got ${response.status}`);
+    }
+
+    const topupData = await response.json() as { paymentRequirement: X402PaymentRequirement };
+    const paymentOption = this.findPaymentOption(topupData.paymentRequirement);
+
+    // Pay for top-up
+    const purpose = `topup:${addTrafficGB}GB`;
+    let transfer: TransferResult;
+    try {
+      transfer = await this.pay(paymentOption, purpose, options);
+    } catch (error) {
+      if (wasNotSent(error)) throw error;
+      throw paymentFailure(error instanceof Error ? error.message : String(error), transactionHashOf(error), purpose);
+    }
+
+    // Submit payment proof
+    let topupResponse: Response;
+    try {
+      topupResponse = await request({ 'Payment-Signature': transfer.transactionHash });
+    } catch (error) {
+      throw paymentFailure(`Top-up failed: ${error instanceof Error ? error.message : String(error)}`, transfer.transactionHash, purpose);
+    }
+
+    if (!topupResponse.ok) {
+      throw new Error(`Top-up payment ${transfer.transactionHash} was not accepted (${topupResponse.status})`);
+    }
+
+    return topupResponse.json() as Promise<X402TopupResult>;
+  }
+
   /**
    * Get available countries for proxy selection
    */
   async getCountries(): Promise<{ code: string; name: string }[]> {
     const url = `${this.baseUrl}/countries`;
-    const response = await fetch(url);
+    const response = await auditedFetch(url);
 
     if (!response.ok) {
       throw new Error('Failed to fetch countries');
@@ -368,21 +707,51 @@ export class X402Client {
     return this.wallet.address;
   }
 
+  /**
+   * Get the wallet configured for a network
+   */
+  getWallet(network: X402Network): X402Wallet | undefined {
+    return this.wallets.find((w) => w.getNetwork() === network);
+  }
+
+  /**
+   * Get all configured wallets
+   */
+  getWallets(): X402Wallet[] {
+    return [...this.wallets];
+  }
+
   /**
    * Get preferred network
    */
   getPreferredNetwork(): X402Network {
     return this.preferredNetwork;
   }
+
+  /**
+   * Get spend guard (if spend limits are configured)
+   */
+  getSpendGuard(): X402SpendGuard | undefined {
+    return this.spendGuard;
+  }
+
+  /**
+   * Get pending payment journal (if configured)
+   */
+  getPendingPayments(): X402PendingPayments | undefined {
+    return this.pendingPayments;
+  }
 }
 
 /**
  * Create an x402 client instance
  */
 export function createX402Client(
-  wallet: AgentWallet,
+  wallets: X402Wallet | X402Wallet[],
   baseUrl?: string,
-  preferredNetwork?: X402Network
+  preferredNetwork?: X402Network,
+  spendGuard?: X402SpendGuard,
+  pendingPayments?: X402PendingPayments
 ): X402Client {
-  return new X402Client(wallet, baseUrl, preferredNetwork);
+  return new X402Client(wallets, baseUrl, preferredNetwork, spendGuard, pendingPayments);
 }
@@ -3,24 +3,65 @@
  * Implementation of x402 tool logic
  */
 
+import { auditedFetch } from '../audit/index.js';
 import type { X402Client } from './client.js';
-import type { AgentWallet } from './wallet.js';
 import type { X402SessionCache } from './session-cache.js';
-import type { X402Tier } from './types.js';
+import type { SessionPolicy, X402Network, X402PaymentOptions, X402Tier, X402Wallet } from './types.js';
+import { SpendLedgerError, SpendLimitError } from './spend-guard.js';
+import { describePendingPayment } from './pending-payments.js';
+import { describeSessionPolicy, type X402SessionPolicies } from './session-policies.js';
+import { toolFailure, toolPreview, toolResult, type ToolResult } from '../utils/output.js';
 
 /**
  * Structured error response for tool handlers
  */
-function toolError(tool: string, message: string, retryable: boolean, suggestion?: string): string {
-  return JSON.stringify({
+function toolError(tool: string, message: string, retryable: boolean, suggestion?: string): ToolResult {
+  const error = {
     error: true,
     tool,
     message,
     retryable,
     suggestion: suggestion || (retryable ? 'Wait a moment and retry' : 'Check parameters and try again'),
-  });
+  };
+  return toolFailure(JSON.stringify(error), error);
+}
+
+/**
+ * Structured error response for payments blocked by a spend limit
+ */
+function spendLimitError(tool: string, error: SpendLimitError): ToolResult {
+  const envVar = error.limit === 'transaction'
+    ? 'X402_MAX_TRANSACTION_USDC'
+    : error.limit === 'daily'
+      ? 'X402_MAX_DAILY_SPEND_USDC'
+      : 'X402_MAX_TOTAL_SPEND_USDC';
+
+  return toolError(
+    tool,
+    error.message,
+    error.limit === 'daily',
+    error.limit === 'daily'
+      ? `Wait for the 24h window to free up budget or raise ${envVar}`
+      : `Reduce the purchase size or raise ${envVar}`,
+  );
 }
 
+/**
+ * Display names for payment networks
+ */
+const NETWORK_LABELS: Record<X402Network, string> = {
+  base: 'Base (Ethereum L2)',
+  solana: 'Solana',
+};
+
+/**
+ * Gas token per network
+ */
+const GAS_TOKENS: Record<X402Network, string> = {
+  base: 'ETH',
+  solana: 'SOL',
+};
+
 /**
  * Pricing rates by tier - Duration is FREE, pay only for traffic
  */
@@ -34,65 +75,83 @@ const PRICING_RATES: Record<X402Tier, { perGB: number }> = {
  */
 export function createX402ToolHandlers(
   client: X402Client,
-  wallet: AgentWallet,
+  wallet: X402Wallet,
   cache: X402SessionCache,
-  apiBaseUrl: string
+  apiBaseUrl: string,
+  policies?: X402SessionPolicies
 ) {
   return {
     /**
      * Purchase proxy via x402 payment
      */
-    async x402_get_proxy(args: {
-      country: string;
-      duration_hours?: number;
-      traffic_gb?: number;
-      tier?: X402Tier;
-      city?: string;
-      carrier?: string;
-    }): Promise<string> {
+    async x402_get_proxy(
+      args: {
+        country: string;
+        duration_hours?: number;
+        traffic_gb?: number;
+        tier?: X402Tier;
+        city?: string;
+        carrier?: string;
+      },
+      payment: X402PaymentOptions = {}
+    ): Promise<ToolResult> {
       const durationHours = args.duration_hours || 1;
       const trafficGB = args.traffic_gb || 1;
       const tier = args.tier || 'shared';
+      const purchase = {
+        country: args.country,
+        durationHours,
+        trafficGB,
+        tier,
+        city: args.city,
+        carrier: args.carrier,
+      };
 
       try {
-        // Check balance first
-        const balance = await wallet.getBalance();
-        const balanceNum = Number(balance.usdc) / 1e6;
+        // An earlier attempt that already paid re-submits its proof, so needs no balance
+        const pending = client.getPendingPurchase(purchase);
+
+        // Check balances first: the 402 response decides which network pays,
+        // so only refuse when no configured wallet could cover the cost
+        const balances = await Promise.all(
+          client.getWallets().map(async (w) => ({ wallet: w, balance: await w.getBalance() }))
+        );
 
         // Calculate expected cost - duration is FREE, only pay for traffic
         const rates = PRICING_RATES[tier];
         const expectedCost = trafficGB * rates.perGB;
 
-        if (balanceNum < expectedCost) {
-          return [
+        if (!pending && balances.every(({ balance }) => Number(balance.usdc) / 1e6 < expectedCost)) {
+          return toolFailure([
             `Insufficient USDC balance!`,
             ``,
             `Required: ~$${expectedCost.toFixed(2)} USDC`,
-            `Available: ${balance.formatted}`,
+            ...balances.map(({ wallet: w, balance }) => `Available on ${NETWORK_LABELS[w.getNetwork()]}: ${balance.formatted}`),
             ``,
-            `Please top up your wallet on Base network:`,
+            `Please top up your wallet on ${NETWORK_LABELS[wallet.getNetwork()]}:`,
             wallet.address,
             ``,
-            `Send USDC on Base to continue.`,
-          ].join('\n');
+            `Send USDC on ${NETWORK_LABELS[wallet.getNetwork()]} to continue.`,
+          ].join('\n'), {
+            error: 'insufficient_balance',
+            requiredUSDC: expectedCost,
+            wallets: balances.map(({ wallet: w, balance }) => ({
+              network: w.getNetwork(),
+              address: w.address,
+              available: balance.formatted,
+            })),
+          });
         }
 
         // Execute purchase
-        const result = await client.purchaseProxy({
-          country: args.country,
-          durationHours,
-          trafficGB,
-          tier,
-          city: args.city,
-          carrier: args.carrier,
-        });
+        const result = await client.purchaseProxy(purchase, payment);
 
-        // Cache session locally
+        // Cache session locally, under the wallet that paid for it
         cache.addSessionFromResponse({
           session: result.session,
           rotationUrl: result.session.rotationUrl,
           rotationToken: result.session.rotationToken,
-        });
+        }, result.payment && client.getWallet(result.payment.network)?.address);
 
         // Build connection strings
         const { proxy } = result.session;
@@ -102,8 +161,10 @@ export function createX402ToolHandlers(
         const expiresAt = new Date(result.session.expiresAt);
         const expiresDisplay = expiresAt.toLocaleString();
 
-        return [
-          `Proxy purchased successfully!`,
+        return toolResult([
+          pending
+            ? `Replayed earlier purchase: the payment proof of an identical purchase that was paid but never delivered (${pending.transactionHash}) was re-submitted. No new USDC was sent; call x402_get_proxy again to buy another proxy.`
+            : `Proxy purchased successfully!`,
           ``,
           `--- Connection Details ---`,
           `HTTP:   ${httpUrl}`,
@@ -126,15 +187,26 @@ export function createX402ToolHandlers(
           `  HTTPS_PROXY=${httpUrl}`,
           ``,
           `Rotation URL: ${result.session.rotationUrl}`,
-        ].join('\n');
+        ].join('\n'), {
+          session: result.session,
+          payment: result.payment,
+          connectionStrings: { http: httpUrl, socks5: socksUrl },
+          replayed: !!pending,
+        });
       } catch (error) {
+        if (error instanceof SpendLimitError) {
+          return spendLimitError('x402_get_proxy', error);
+        }
         const message = error instanceof Error ? error.message : 'Unknown error';
+        if (client.getPendingPurchase(purchase)) {
+          return toolError('x402_get_proxy', message, true, 'Run x402_resume_pending to re-submit the payment proof');
+        }
         const isBalance = message.toLowerCase().includes('insufficient') || message.toLowerCase().includes('balance');
         return toolError(
           'x402_get_proxy',
           message,
           !isBalance,
-          isBalance ? `Top up your wallet with USDC on Base: ${wallet.address}` : 'Check country code and retry',
+          isBalance ? `Top up your wallet with USDC on ${NETWORK_LABELS[wallet.getNetwork()]}: ${wallet.address}` : 'Check country code and retry',
         );
       }
     },
@@ -145,7 +217,7 @@ export function createX402ToolHandlers(
     async x402_get_pricing(args: {
       traffic_gb?: number;
       tier?: X402Tier;
-    }): Promise<string> {
+    }): Promise<ToolResult> {
       const trafficGB = args.traffic_gb || 1;
       const tier = args.tier || 'shared';
 
@@ -167,7 +239,7 @@ export function createX402ToolHandlers(
         // Ignore balance check errors
       }
 
-      return [
+      return toolResult([
         `x402 Proxy Pricing`,
         ``,
         `Tier: ${tier}`,
@@ -182,22 +254,22 @@ export function createX402ToolHandlers(
         `  private: $8.00/GB (exclusive device, guaranteed speed)`,
         ``,
         `Min purchase: 0.1 GB ($0.40 shared, $0.80 private)`,
-      ].join('\n');
+      ].join('\n'), { tier, trafficGB, pricePerGB: rates.perGB, totalUSDC: total });
     },
 
     /**
      * List active sessions
      */
-    async x402_list_sessions(): Promise<string> {
+    async x402_list_sessions(): Promise<ToolResult> {
       const sessions = cache.getActiveSessions();
 
       if (sessions.length === 0) {
-        return [
+        return toolResult([
           `No active x402 sessions.`,
           ``,
           `Use x402_get_proxy to purchase a new proxy.`,
           `Example: x402_get_proxy(country: "US", duration_hours: 1, traffic_gb: 1)`,
-        ].join('\n');
+        ].join('\n'), { sessions: [] });
       }
 
       const lines = [`Active x402 Sessions (${sessions.length}):`, ``];
@@ -216,13 +288,18 @@ export function createX402ToolHandlers(
 
       lines.push(`Use x402_check_session for detailed status.`);
 
-      return lines.join('\n');
+      return toolResult(lines.join('\n'), {
+        sessions: sessions.map((session) => ({
+          ...session,
+          timeRemaining: cache.getTimeRemaining(session.id)?.display ?? 'Unknown',
+        })),
+      });
     },
 
     /**
      * Check session status
      */
-    async x402_check_session(args: { session_id?: string }): Promise<string> {
+    async x402_check_session(args: { session_id?: string }): Promise<ToolResult> {
       // Get session from cache
       let session = args.session_id
         ? cache.getSession(args.session_id)
@@ -230,9 +307,9 @@ export function createX402ToolHandlers(
 
       if (!session) {
         if (args.session_id) {
-          return `Session not found: ${args.session_id}. Use x402_list_sessions to see available sessions.`;
+          return toolFailure(`Session not found: ${args.session_id}. Use x402_list_sessions to see available sessions.`, { error: 'session_not_found', sessionId: args.session_id });
         }
-        return `No active sessions. Use x402_get_proxy to purchase a new proxy.`;
+        return toolFailure(`No active sessions. Use x402_get_proxy to purchase a new proxy.`, { error: 'no_active_sessions' });
       }
 
       // Try to get fresh status from API
@@ -292,30 +369,78 @@ export function createX402ToolHandlers(
         lines.push(`URL: ${session.rotationUrl}`);
       }
 
-      return lines.join('\n');
+      return toolResult(lines.join('\n'), {
+        session,
+        status: freshStatus ?? null,
+        timeRemaining: timeRemaining?.display ?? 'Unknown',
+        connectionStrings: { http: httpUrl, socks5: socksUrl },
+      });
     },
 
     /**
      * Check wallet balance
      */
-    async x402_wallet_balance(): Promise<string> {
+    async x402_wallet_balance(): Promise<ToolResult> {
       try {
-        const info = await wallet.getInfo();
+        const wallets = client.getWallets();
+        const infos = await Promise.all(
+          wallets.map(async (w) => {
+            const [usdcBalance, gasBalance] = await Promise.all([w.getBalance(), w.getGasBalance()]);
+            return { wallet: w, usdcBalance, gasBalance };
+          })
+        );
 
-        return [
-          `x402 Wallet Balance`,
-          ``,
-          `Address: ${info.address}`,
-          `Network: Base (Ethereum L2)`,
-          ``,
-          `USDC Balance: ${info.usdcBalance.formatted}`,
-          `ETH Balance: ${info.ethBalance} (for gas)`,
-          ``,
-          `To top up, send USDC on Base network to:`,
-          info.address,
-          ``,
-          `Base network has low gas fees (~$0.01 per transaction).`,
-        ].join('\n');
+        const lines = [`x402 Wallet Balance`];
+
+        for (const info of infos) {
+          const network = info.wallet.getNetwork();
+          lines.push(``);
+          lines.push(`Address: ${info.wallet.address}`);
+          lines.push(`Network: ${NETWORK_LABELS[network]}${network === client.getPreferredNetwork() ? ' (preferred)' : ''}`);
+          lines.push(``);
+          lines.push(`USDC Balance: ${info.usdcBalance.formatted}`);
+          lines.push(`${GAS_TOKENS[network]} Balance: ${info.gasBalance} (for gas)`);
+        }
+
+        // Show spend limits if configured
+        const guard = client.getSpendGuard();
+        if (guard) {
+          const limits = guard.getLimits();
+          const summary = guard.getSummary();
+          lines.push(``);
+          lines.push(`--- Spend Limits ---`);
+          lines.push(`Per transaction: ${limits.maxTransactionUSDC !== undefined ? `$${limits.maxTransactionUSDC.toFixed(2)}` : 'unlimited'}`);
+          lines.push(
+            `Last 24h: $${summary.spentLast24hUSDC.toFixed(2)} spent` +
+            (summary.remainingDailyUSDC !== null ? `, $${summary.remainingDailyUSDC.toFixed(2)} remaining` : ' (no daily limit)')
+          );
+          lines.push(
+            `Lifetime: $${summary.spentTotalUSDC.toFixed(2)} spent` +
+            (summary.remainingTotalUSDC !== null ? `, $${summary.remainingTotalUSDC.toFixed(2)} remaining` : ' (no lifetime limit)')
+          );
+          if (summary.ledgerError) {
+            lines.push(`Ledger: ${summary.ledgerPath} ${summary.ledgerError} - payments are blocked`);
+          }
+        }
+
+        for (const info of infos) {
+          lines.push(``);
+          lines.push(`To top up, send USDC on ${NETWORK_LABELS[info.wallet.getNetwork()]} to:`);
+          lines.push(info.wallet.address);
+        }
+        lines.push(``);
+        lines.push(`Base and Solana both have low fees (~$0.01 per transaction).`);
+
+        return toolResult(lines.join('\n'), {
+          wallets: infos.map((info) => ({
+            address: info.wallet.address,
+            network: info.wallet.getNetwork(),
+            preferred: info.wallet.getNetwork() === client.getPreferredNetwork(),
+            usdc: info.usdcBalance.formatted,
+            gas: info.gasBalance,
+          })),
+          spendLimits: guard ? { limits: guard.getLimits(), summary: guard.getSummary() } : null,
+        });
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
         return toolError('x402_wallet_balance', message, true, 'Check network connection and retry');
@@ -325,7 +450,7 @@ export function createX402ToolHandlers(
     /**
      * Rotate proxy IP
      */
-    async x402_rotate_ip(args: { session_id?: string }): Promise<string> {
+    async x402_rotate_ip(args: { session_id?: string }): Promise<ToolResult> {
       // Get session
       const session = args.session_id
         ? cache.getSession(args.session_id)
@@ -333,18 +458,18 @@ export function createX402ToolHandlers(
 
       if (!session) {
         if (args.session_id) {
-          return `Session not found: ${args.session_id}`;
+          return toolFailure(`Session not found: ${args.session_id}`, { error: 'session_not_found', sessionId: args.session_id });
         }
-        return `No active sessions. Use x402_get_proxy to purchase a new proxy first.`;
+        return toolFailure(`No active sessions. Use x402_get_proxy to purchase a new proxy first.`, { error: 'no_active_sessions' });
       }
 
       if (!session.rotationUrl) {
-        return `Rotation URL not available for session ${session.id}`;
+        return toolFailure(`Rotation URL not available for session ${session.id}`, { error: 'rotation_unavailable', sessionId: session.id });
       }
 
       try {
         // Call rotation URL
-        const response = await fetch(session.rotationUrl);
+        const response = await auditedFetch(session.rotationUrl);
 
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({ message: 'Unknown error' })) as { message?: string };
@@ -353,7 +478,7 @@ export function createX402ToolHandlers(
 
         const result = await response.json() as { newIp?: string; newDevice?: { carrier?: string } };
 
-        return [
+        return toolResult([
           `IP Rotated Successfully!`,
           ``,
           `Session: ${session.id}`,
@@ -364,7 +489,7 @@ export function createX402ToolHandlers(
           `The new IP is now active.`,
         ]
           .filter(Boolean)
-          .join('\n');
+          .join('\n'), { sessionId: session.id, rotated: true, newIp: result.newIp ?? null, newDevice: result.newDevice ?? null });
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
         return toolError('x402_rotate_ip', message, true, 'Wait 5 minutes (cooldown) then retry');
@@ -374,9 +499,9 @@ export function createX402ToolHandlers(
     /**
      * List available countries
      */
-    async x402_list_countries(): Promise<string> {
+    async x402_list_countries(): Promise<ToolResult> {
       try {
-        const response = await fetch(`${apiBaseUrl}/v1/countries`);
+        const response = await auditedFetch(`${apiBaseUrl}/v1/countries`);
         if (!response.ok) {
           throw new Error(`Failed to fetch countries: ${response.status}`);
         }
@@ -384,7 +509,7 @@ export function createX402ToolHandlers(
         const countries = await response.json() as Array<{ code: string; name: string; isActive?: boolean }>;
 
         if (!countries || countries.length === 0) {
-          return 'No countries available at this time.';
+          return toolResult('No countries available at this time.', { countries: [] });
         }
 
         const lines = [
@@ -404,7 +529,7 @@ export function createX402ToolHandlers(
         lines.push(`Use x402_get_proxy(country: "CODE") to purchase a proxy.`);
         lines.push(`Use x402_list_cities(country: "CODE") for city options.`);
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), { countries: countries.filter((country) => country.isActive !== false) });
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
         return toolError('x402_list_countries', message, true);
@@ -414,12 +539,12 @@ export function createX402ToolHandlers(
     /**
      * List cities in a country
      */
-    async x402_list_cities(args: { country: string }): Promise<string> {
+    async x402_list_cities(args: { country: string }): Promise<ToolResult> {
       try {
-        const response = await fetch(`${apiBaseUrl}/v1/cities?country=${args.country.toUpperCase()}`);
+        const response = await auditedFetch(`${apiBaseUrl}/v1/cities?country=${args.country.toUpperCase()}`);
         if (!response.ok) {
           if (response.status === 404) {
-            return `No cities found for country: ${args.country}`;
+            return toolResult(`No cities found for country: ${args.country}`, { country: args.country.toUpperCase(), cities: [] });
           }
           throw new Error(`Failed to fetch cities: ${response.status}`);
         }
@@ -427,7 +552,7 @@ export function createX402ToolHandlers(
         const cities = await response.json() as Array<{ code?: string; name: string }>;
 
         if (!cities || cities.length === 0) {
-          return `No specific cities available for ${args.country}. You can still use x402_get_proxy without specifying a city.`;
+          return toolResult(`No specific cities available for ${args.country}. You can still use x402_get_proxy without specifying a city.`, { country: args.country.toUpperCase(), cities: [] });
         }
 
         const lines = [
@@ -442,7 +567,7 @@ export function createX402ToolHandlers(
         lines.push(``);
         lines.push(`Use x402_get_proxy(country: "${args.country}", city: "CITY_NAME") to target a specific city.`);
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), { country: args.country.toUpperCase(), cities });
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
         return toolError('x402_list_cities', message, true);
@@ -452,12 +577,12 @@ export function createX402ToolHandlers(
     /**
      * List carriers in a country
      */
-    async x402_list_carriers(args: { country: string }): Promise<string> {
+    async x402_list_carriers(args: { country: string }): Promise<ToolResult> {
       try {
-        const response = await fetch(`${apiBaseUrl}/v1/carriers?country=${args.country.toUpperCase()}`);
+        const response = await auditedFetch(`${apiBaseUrl}/v1/carriers?country=${args.country.toUpperCase()}`);
         if (!response.ok) {
           if (response.status === 404) {
-            return `No carriers found for country: ${args.country}`;
+            return toolResult(`No carriers found for country: ${args.country}`, { country: args.country.toUpperCase(), carriers: [] });
           }
           throw new Error(`Failed to fetch carriers: ${response.status}`);
         }
@@ -465,7 +590,7 @@ export function createX402ToolHandlers(
         const carriers = await response.json() as Array<{ code?: string; name: string }>;
 
         if (!carriers || carriers.length === 0) {
-          return `No specific carriers available for ${args.country}. You can still use x402_get_proxy without specifying a carrier.`;
+          return toolResult(`No specific carriers available for ${args.country}. You can still use x402_get_proxy without specifying a carrier.`, { country: args.country.toUpperCase(), carriers: [] });
         }
 
         const lines = [
@@ -480,7 +605,7 @@ export function createX402ToolHandlers(
         lines.push(``);
         lines.push(`Use x402_get_proxy(country: "${args.country}", carrier: "CARRIER_NAME") to target a specific carrier.`);
 
-        return lines.join('\n');
+        return toolResult(lines.join('\n'), { country: args.country.toUpperCase(), carriers });
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
         return toolError('x402_list_carriers', message, true);
@@ -490,7 +615,10 @@ export function createX402ToolHandlers(
     /**
      * Extend an active session
      */
-    async x402_extend_session(args: { session_id?: string; additional_hours?: number }): Promise<string> {
+    async x402_extend_session(
+      args: { session_id?: string; additional_hours?: number },
+      payment: X402PaymentOptions = {}
+    ): Promise<ToolResult> {
       const additionalHours = args.additional_hours || 1;
 
       // Get session from cache
@@ -500,21 +628,21 @@ export function createX402ToolHandlers(
 
       if (!session) {
         if (args.session_id) {
-          return `Session not found: ${args.session_id}. Use x402_list_sessions to see available sessions.`;
+          return toolFailure(`Session not found: ${args.session_id}. Use x402_list_sessions to see available sessions.`, { error: 'session_not_found', sessionId: args.session_id });
         }
-        return `No active sessions. Use x402_get_proxy to purchase a new proxy first.`;
+        return toolFailure(`No active sessions. Use x402_get_proxy to purchase a new proxy first.`, { error: 'no_active_sessions' });
       }
 
       try {
         // Extend via client (handles payment)
-        const extended = await client.extendSession(session.id, additionalHours);
+        const extended = await client.extendSession(session.id, additionalHours, payment);
 
         // Update cache with new expiry
         cache.updateSessionExpiry(session.id, extended.expiresAt);
 
         const newExpiry = new Date(extended.expiresAt);
 
-        return [
+        return toolResult([
           `Session Extended Successfully!`,
           ``,
           `Session: ${session.id}`,
@@ -522,19 +650,193 @@ export function createX402ToolHandlers(
           `New Expiry: ${newExpiry.toLocaleString()}`,
           ``,
           `Your proxy connection details remain the same.`,
-        ].join('\n');
+        ].join('\n'), { sessionId: session.id, addedHours: additionalHours, expiresAt: extended.expiresAt });
       } catch (error) {
+        if (error instanceof SpendLimitError) {
+          return spendLimitError('x402_extend_session', error);
+        }
         const message = error instanceof Error ? error.message : 'Unknown error';
         return toolError('x402_extend_session', message, true);
       }
     },
 
+    /**
+     * Re-submit proofs of journaled payments that never became a session
+     */
+    async x402_resume_pending(args: { payment_id?: string; discard?: boolean }): Promise<ToolResult> {
+      const journal = client.getPendingPayments();
+      if (!journal) {
+        return toolFailure('Payment journal is not configured.', { error: 'journal_not_configured' });
+      }
+
+      if (args.discard && !args.payment_id) {
+        return toolError('x402_resume_pending', 'discard requires payment_id', false);
+      }
+
+      const selected = args.payment_id ? journal.find(args.payment_id) : undefined;
+      if (args.payment_id && !selected) {
+        return toolFailure(
+          `Pending payment not found: ${args.payment_id}. Call x402_resume_pending without payment_id to resume all.`,
+          { error: 'payment_not_found', paymentId: args.payment_id },
+        );
+      }
+
+      if (args.discard && selected) {
+        journal.remove(selected);
+        return toolResult(
+          [`Discarded pending payment ${selected.id}.`, ``, ...describePendingPayment(selected)].join('\n'),
+          { discarded: selected },
+        );
+      }
+
+      const payments = selected ? [selected] : journal.list();
+      if (payments.length === 0) {
+        return toolResult('No pending payments. Every x402 payment has a proxy session.', { recovered: [], failed: [] });
+      }
+
+      const recovered = [];
+      const failed = [];
+      const lines: string[] = [];
+
+      for (const payment of payments) {
+        try {
+          const result = await client.resumePayment(payment);
+          cache.addSessionFromResponse({
+            session: result.session,
+            rotationUrl: result.session.rotationUrl,
+            rotationToken: result.session.rotationToken,
+          }, payment.payer);
+
+          const { proxy } = result.session;
+          recovered.push({ paymentId: payment.id, transactionHash: payment.transactionHash, session: result.session });
+          lines.push(
+            `Recovered ${payment.purpose} (${payment.transactionHash})`,
+            `  Session ID: ${result.session.id}`,
+            `  HTTP:   http://${proxy.username}:${proxy.password}@${proxy.host}:${proxy.httpPort}`,
+            `  SOCKS5: socks5://${proxy.username}:${proxy.password}@${proxy.host}:${proxy.socksPort}`,
+            ``,
+          );
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          failed.push({ payment, error: message });
+          lines.push(
+            `Could not recover ${payment.purpose}: ${message}`,
+            ...describePendingPayment(payment).map((line) => `  ${line}`),
+            ``,
+          );
+        }
+      }
+
+      if (failed.length > 0) {
+        lines.push(
+          'Failed payments stay in the journal. Retry later, or open a support ticket',
+          '(create_support_ticket, or maya@proxies.sx) with the details above.',
+        );
+      }
+
+      const text = [
+        `x402 Pending Payments: ${recovered.length} recovered, ${failed.length} failed`,
+        ``,
+        ...lines,
+      ].join('\n').trimEnd();
+
+      return recovered.length === 0
+        ? toolFailure(text, { recovered, failed })
+        : toolResult(text, { recovered, failed });
+    },
+
+    /**
+     * Create or replace the auto-renew/top-up policy for a session
+     */
+    async x402_set_session_policy(args: {
+      session_id?: string;
+      keep_alive_until?: string;
+      extend_hours?: number;
+      renew_within_minutes?: number;
+      topup_below_gb?: number;
+      topup_gb?: number;
+      session_token?: string;
+      max_spend_usdc?: number;
+    }): Promise<ToolResult> {
+      if (!policies) {
+        return toolFailure('Session policies are not configured.', { error: 'policies_not_configured' });
+      }
+      if (!args.keep_alive_until && args.topup_below_gb === undefined) {
+        return toolError('x402_set_session_policy', 'Set keep_alive_until, topup_below_gb or both', false);
+      }
+      if (args.keep_alive_until && new Date(args.keep_alive_until).getTime() <= Date.now()) {
+        return toolError('x402_set_session_policy', 'keep_alive_until must be in the future', false);
+      }
+
+      const session = args.session_id
+        ? cache.getSession(args.session_id)
+        : cache.getFirstActiveSession();
+
+      if (!session) {
+        if (args.session_id) {
+          return toolFailure(`Session not found: ${args.session_id}. Use x402_list_sessions to see available sessions.`, { error: 'session_not_found', sessionId: args.session_id });
+        }
+        return toolFailure(`No active sessions. Use x402_get_proxy to purchase a new proxy first.`, { error: 'no_active_sessions' });
+      }
+
+      policies.set({
+        sessionId: session.id,
+        keepAliveUntil: args.keep_alive_until && new Date(args.keep_alive_until).toISOString(),
+        extendHours: args.extend_hours,
+        renewWithinMinutes: args.renew_within_minutes,
+        topupBelowGB: args.topup_below_gb,
+        topupGB: args.topup_gb,
+        sessionToken: args.session_token,
+        maxSpendUSDC: args.max_spend_usdc,
+      });
+
+      // Apply right away in case the session already needs renewing or topping up
+      const payments = await policies.enforce();
+      const policy = policies.get(session.id)!;
+
+      return toolResult([
+        `Session Policy Saved`,
+        ``,
+        ...describeSessionPolicy(policy),
+        ``,
+        payments.length > 0
+          ? `Paid now: ${payments.map((p) => p.detail).join(', ')}`
+          : `Checked every few minutes; payments are logged on the policy.`,
+      ].join('\n'), { policy, payments });
+    },
+
+    /**
+     * List session policies and their automatic payments
+     */
+    async x402_list_session_policies(): Promise<ToolResult> {
+      const list = policies?.list() ?? [];
+      if (list.length === 0) {
+        return toolResult('No session policies. Use x402_set_session_policy to renew or top up a session automatically.', { policies: [] });
+      }
+
+      const lines = [`Session Policies (${list.length})`];
+      for (const policy of list) {
+        lines.push(``, ...describeSessionPolicy(policy));
+      }
+      return toolResult(lines.join('\n'), { policies: list });
+    },
+
+    /**
+     * Remove a session policy
+     */
+    async x402_remove_session_policy(args: { session_id: string }): Promise<ToolResult> {
+      if (!policies?.remove(args.session_id)) {
+        return toolFailure(`No policy for session ${args.session_id}. Use x402_list_session_policies to see policies.`, { error: 'policy_not_found', sessionId: args.session_id });
+      }
+      return toolResult(`Removed the policy for session ${args.session_id}. No further automatic payments will be made for it.`, { removed: args.session_id });
+    },
+
     /**
      * Check x402 service status
      */
-    async x402_service_status(): Promise<string> {
+    async x402_service_status(): Promise<ToolResult> {
       try {
-        const response = await fetch(`${apiBaseUrl}/v1/x402/health`);
+        const response = await auditedFetch(`${apiBaseUrl}/v1/x402/health`);
         const data = await response.json() as { status: string; enabled: boolean };
 
         // Also check wallet balance
@@ -556,7 +858,7 @@ export function createX402ToolHandlers(
           ? `\nSessions Expiring Soon: ${expiringSoon.length} (within 30 minutes)`
           : '';
 
-        return [
+        return toolResult([
           `x402 Service Status`,
           ``,
           `API Status: ${data.status === 'ok' ? '✓ Online' : '✗ Offline'}`,
@@ -566,18 +868,25 @@ export function createX402ToolHandlers(
           expiringInfo,
           ``,
           `Wallet Address: ${wallet.address}`,
-          `Network: Base (Ethereum L2)`,
-        ].filter(Boolean).join('\n');
+          `Network: ${NETWORK_LABELS[wallet.getNetwork()]}`,
+        ].filter(Boolean).join('\n'), {
+          apiStatus: data.status,
+          enabled: data.enabled,
+          activeSessions: activeSessions.length,
+          expiringSoon: expiringSoon.length,
+          walletAddress: wallet.address,
+          network: wallet.getNetwork(),
+        });
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
-        return [
+        return toolFailure([
           `x402 Service Status`,
           ``,
           `API Status: ✗ Unable to connect`,
           `Error: ${message}`,
           ``,
           `Please check your network connection and try again.`,
-        ].join('\n');
+        ].join('\n'), { error: message });
       }
     },
   };
@@ -587,3 +896,226 @@ export function createX402ToolHandlers(
  * Tool handler type
  */
 export type X402ToolHandlers = ReturnType<typeof createX402ToolHandlers>;
+
+/**
+ * Describe whether a payment would pass the configured spend limits
+ */
+function describeSpendCheck(client: X402Client, amountUSDC: number): { allowed: boolean; line: string } {
+  try {
+    client.getSpendGuard()?.check(String(Math.round(amountUSDC * 1e6)));
+    return { allowed: true, line: `Spend limits: OK` };
+  } catch (error) {
+    if (error instanceof SpendLimitError || error instanceof SpendLedgerError) {
+      return { allowed: false, line: `Spend limits: would be refused - ${error.message}` };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create x402 dry-run previews: same validation and state lookups as the
+ * handlers, but no USDC is sent and nothing is saved or rotated
+ */
+export function createX402ToolPreviews(
+  client: X402Client,
+  wallet: X402Wallet,
+  cache: X402SessionCache,
+  policies?: X402SessionPolicies
+) {
+  const findSession = (sessionId?: string) => sessionId ? cache.getSession(sessionId) : cache.getFirstActiveSession();
+  const sessionNotFound = (sessionId?: string) => sessionId
+    ? toolFailure(`Session not found: ${sessionId}. Use x402_list_sessions to see available sessions.`, { error: 'session_not_found', sessionId })
+    : toolFailure(`No active sessions. Use x402_get_proxy to purchase a new proxy first.`, { error: 'no_active_sessions' });
+
+  return {
+    async x402_get_proxy(args: {
+      country: string;
+      duration_hours?: number;
+      traffic_gb?: number;
+      tier?: X402Tier;
+      city?: string;
+      carrier?: string;
+    }): Promise<ToolResult> {
+      const purchase = {
+        country: args.country,
+        durationHours: args.duration_hours || 1,
+        trafficGB: args.traffic_gb || 1,
+        tier: args.tier || 'shared',
+        city: args.city,
+        carrier: args.carrier,
+      };
+      const location = [purchase.country.toUpperCase(), purchase.city, purchase.carrier].filter(Boolean).join(' / ');
+
+      const pending = client.getPendingPurchase(purchase);
+      if (pending) {
+        return toolPreview([
+          `Would re-submit the proof of an earlier payment for this purchase - no new USDC would be sent.`,
+          ``,
+          ...describePendingPayment(pending),
+        ].join('\n'), { purchase, pending, costUSDC: 0 });
+      }
+
+      try {
+        const { totalCost } = client.calculatePricing(purchase);
+        const balance = await wallet.getBalance();
+        const balanceUSDC = Number(balance.usdc) / 1e6;
+        const spend = describeSpendCheck(client, totalCost);
+
+        return toolPreview([
+          `Would buy a ${purchase.tier} proxy in ${location}: ${purchase.trafficGB} GB for ${purchase.durationHours}h.`,
+          ``,
+          `Cost: $${totalCost.toFixed(2)} USDC on ${NETWORK_LABELS[wallet.getNetwork()]}`,
+          `Balance: ${balance.formatted}${balanceUSDC < totalCost ? ` (insufficient - need $${(totalCost - balanceUSDC).toFixed(2)} more)` : ` ($${(balanceUSDC - totalCost).toFixed(2)} left after)`}`,
+          spend.line,
+        ].join('\n'), {
+          purchase,
+          costUSDC: totalCost,
+          balanceUSDC,
+          sufficientBalance: balanceUSDC >= totalCost,
+          withinSpendLimits: spend.allowed,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return toolError('x402_get_proxy', message, true);
+      }
+    },
+
+    async x402_extend_session(args: { session_id?: string; additional_hours?: number }): Promise<ToolResult> {
+      const additionalHours = args.additional_hours || 1;
+      const session = findSession(args.session_id);
+      if (!session) return sessionNotFound(args.session_id);
+
+      try {
+        const quote = await client.quoteExtension(session.id, additionalHours);
+        const spend = describeSpendCheck(client, quote.amountUSDC);
+        const newExpiry = new Date(Math.max(new Date(session.expiresAt).getTime(), Date.now()) + additionalHours * 60 * 60 * 1000);
+
+        return toolPreview([
+          `Would extend session ${session.id} by ${additionalHours} hour(s).`,
+          ``,
+          `Current expiry: ${new Date(session.expiresAt).toLocaleString()}`,
+          `New expiry: about ${newExpiry.toLocaleString()}`,
+          `Cost: $${quote.amountUSDC.toFixed(2)} USDC on ${NETWORK_LABELS[quote.network]}`,
+          spend.line,
+        ].join('\n'), {
+          sessionId: session.id,
+          addedHours: additionalHours,
+          expiresAt: session.expiresAt,
+          costUSDC: quote.amountUSDC,
+          network: quote.network,
+          withinSpendLimits: spend.allowed,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return toolError('x402_extend_session', message, true);
+      }
+    },
+
+    async x402_rotate_ip(args: { session_id?: string }): Promise<ToolResult> {
+      const session = findSession(args.session_id);
+      if (!session) return sessionNotFound(args.session_id);
+      if (!session.rotationUrl) {
+        return toolFailure(`Rotation URL not available for session ${session.id}`, { error: 'rotation_unavailable', sessionId: session.id });
+      }
+
+      return toolPreview(
+        `Would rotate the IP of session ${session.id} (${session.location?.country || session.location?.countryCode || 'unknown location'}). ` +
+        `Rotations are free; a 5 minute cooldown applies between them.`,
+        { sessionId: session.id }
+      );
+    },
+
+    async x402_resume_pending(args: { payment_id?: string; discard?: boolean }): Promise<ToolResult> {
+      const journal = client.getPendingPayments();
+      if (!journal) {
+        return toolFailure('Payment journal is not configured.', { error: 'journal_not_configured' });
+      }
+      if (args.discard && !args.payment_id) {
+        return toolError('x402_resume_pending', 'discard requires payment_id', false);
+      }
+
+      const selected = args.payment_id ? journal.find(args.payment_id) : undefined;
+      if (args.payment_id && !selected) {
+        return toolFailure(`Pending payment not found: ${args.payment_id}.`, { error: 'payment_not_found', paymentId: args.payment_id });
+      }
+
+      const payments = selected ? [selected] : journal.list();
+      const action = args.discard ? 'remove from the journal without re-submitting' : 're-submit (no new payment)';
+      const lines = payments.length === 0
+        ? ['No pending payments - nothing would be done.']
+        : [`Would ${action} ${payments.length} payment(s):`, ...payments.flatMap((p) => ['', ...describePendingPayment(p)])];
+
+      return toolPreview(lines.join('\n'), { action: args.discard ? 'discard' : 'resume', payments });
+    },
+
+    async x402_set_session_policy(args: {
+      session_id?: string;
+      keep_alive_until?: string;
+      extend_hours?: number;
+      renew_within_minutes?: number;
+      topup_below_gb?: number;
+      topup_gb?: number;
+      session_token?: string;
+      max_spend_usdc?: number;
+    }): Promise<ToolResult> {
+      if (!policies) {
+        return toolFailure('Session policies are not configured.', { error: 'policies_not_configured' });
+      }
+      if (!args.keep_alive_until && args.topup_below_gb === undefined) {
+        return toolError('x402_set_session_policy', 'Set keep_alive_until, topup_below_gb or both', false);
+      }
+      if (args.keep_alive_until && new Date(args.keep_alive_until).getTime() <= Date.now()) {
+        return toolError('x402_set_session_policy', 'keep_alive_until must be in the future', false);
+      }
+
+      const session = findSession(args.session_id);
+      if (!session) return sessionNotFound(args.session_id);
+
+      const existing = policies.get(session.id);
+      const policy: SessionPolicy = {
+        sessionId: session.id,
+        keepAliveUntil: args.keep_alive_until && new Date(args.keep_alive_until).toISOString(),
+        extendHours: args.extend_hours ?? 1,
+        renewWithinMinutes: args.renew_within_minutes ?? 30,
+        topupBelowGB: args.topup_below_gb,
+        topupGB: args.topup_below_gb !== undefined ? args.topup_gb ?? 1 : undefined,
+        sessionToken: args.session_token ?? existing?.sessionToken,
+        maxSpendUSDC: args.max_spend_usdc,
+        spentUSDC: existing?.spentUSDC ?? 0,
+        payments: existing?.payments ?? [],
+        status: 'active',
+        createdAt: existing?.createdAt ?? new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+
+      const expiresInMinutes = Math.round((new Date(session.expiresAt).getTime() - Date.now()) / 60000);
+      const renewNow = policy.keepAliveUntil !== undefined && expiresInMinutes <= policy.renewWithinMinutes;
+
+      return toolPreview([
+        `Would ${existing ? 'replace the' : 'save a new'} policy for session ${session.id}:`,
+        ``,
+        ...describeSessionPolicy(policy),
+        ``,
+        renewNow
+          ? `The session expires in ${expiresInMinutes} min, so the first renewal would be paid right away.`
+          : `Session expires in ${expiresInMinutes} min; payments would start when a rule triggers.`,
+      ].join('\n'), { policy, replaces: existing ?? null });
+    },
+
+    async x402_remove_session_policy(args: { session_id: string }): Promise<ToolResult> {
+      const policy = policies?.get(args.session_id);
+      if (!policy) {
+        return toolFailure(`No policy for session ${args.session_id}. Use x402_list_session_policies to see policies.`, { error: 'policy_not_found', sessionId: args.session_id });
+      }
+      return toolPreview(
+        [`Would remove this policy; no further automatic payments would be made:`, ``, ...describeSessionPolicy(policy)].join('\n'),
+        { policy }
+      );
+    },
+  };
+}
+
+/**
+ * Tool preview type
+ */
+export type X402ToolPreviews = ReturnType<typeof createX402ToolPreviews>;
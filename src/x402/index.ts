@@ -3,23 +3,58 @@
  * Exports for x402 protocol integration in MCP server
  */
 
+import type { SpendLimits, X402Wallet } from './types.js';
+import { createAgentWallet as createBaseWallet } from './wallet.js';
+import { createSolanaAgentWallet as createSolanaWallet, isSolanaSecretKey } from './solana-wallet.js';
+
 // Types
 export * from './types.js';
 
 // Wallet
 export { AgentWallet, createAgentWallet } from './wallet.js';
+export {
+  SolanaAgentWallet,
+  createSolanaAgentWallet,
+  parseSolanaSecretKey,
+  isSolanaSecretKey,
+} from './solana-wallet.js';
 
 // Client
-export { X402Client, createX402Client } from './client.js';
+export { X402Client, createX402Client, type X402PurchaseParams } from './client.js';
 
 // Session cache
-export { X402SessionCache, createSessionCache } from './session-cache.js';
+export { X402SessionCache, createSessionCache, type SessionCacheChange } from './session-cache.js';
+
+// Spend guard
+export { X402SpendGuard, SpendLimitError, SpendLedgerError, createSpendGuard, type SpendLimitKind } from './spend-guard.js';
+export { TransferNotSentError, TransferUnconfirmedError } from './transfer-errors.js';
+
+// Pending payments
+export {
+  X402PendingPayments,
+  createPendingPayments,
+  describePendingPayment,
+  formatPendingPaymentReport,
+} from './pending-payments.js';
+
+// Session policies
+export {
+  X402SessionPolicies,
+  createSessionPolicies,
+  describeSessionPolicy,
+  type SessionPolicyInput,
+} from './session-policies.js';
 
 // Tools
 export { x402ToolDefinitions, x402Schemas, getX402ToolNames, isX402Tool } from './tools.js';
 
 // Handlers
-export { createX402ToolHandlers, type X402ToolHandlers } from './handlers.js';
+export {
+  createX402ToolHandlers,
+  createX402ToolPreviews,
+  type X402ToolHandlers,
+  type X402ToolPreviews,
+} from './handlers.js';
 
 // Re-export config type
 export interface X402ModuleConfig {
@@ -31,8 +66,58 @@ export interface X402ModuleConfig {
   apiBaseUrl?: string;
   /** Base RPC URL */
   baseRpcUrl?: string;
+  /** Additional Solana secret key (when walletPrivateKey is an EVM key) */
+  solanaWalletPrivateKey?: string;
+  /** Solana RPC URL */
+  solanaRpcUrl?: string;
   /** Session cache path */
   sessionCachePath?: string;
+  /** Spend limits enforced on every payment */
+  spendLimits?: SpendLimits;
+  /** Spend ledger path */
+  spendLedgerPath?: string;
+  /** Pending payment store path */
+  pendingPaymentsPath?: string;
+  /** Session policy store path */
+  sessionPoliciesPath?: string;
+}
+
+/**
+ * Create payment wallets from configured keys.
+ * walletPrivateKey is auto-detected: EVM hex keys pay on Base, base58 or
+ * JSON byte-array keys pay on Solana. solanaWalletPrivateKey adds a Solana
+ * wallet alongside a Base one.
+ */
+export function createX402Wallets(config: {
+  walletPrivateKey?: string;
+  solanaWalletPrivateKey?: string;
+  baseRpcUrl?: string;
+  solanaRpcUrl?: string;
+}): X402Wallet[] {
+  const wallets: X402Wallet[] = [];
+
+  if (config.walletPrivateKey) {
+    wallets.push(
+      isSolanaSecretKey(config.walletPrivateKey)
+        ? createSolanaWallet(config.walletPrivateKey, config.solanaRpcUrl)
+        : createBaseWallet(config.walletPrivateKey, config.baseRpcUrl)
+    );
+  }
+
+  if (config.solanaWalletPrivateKey) {
+    if (wallets.some((w) => w.getNetwork() === 'solana')) {
+      throw new Error('Two Solana keys configured. Set either a Solana AGENT_WALLET_KEY or SOLANA_WALLET_KEY, not both.');
+    }
+    wallets.push(createSolanaWallet(config.solanaWalletPrivateKey, config.solanaRpcUrl));
+  }
+
+  if (wallets.length === 0) {
+    throw new Error(
+      'Wallet private key is required. Set AGENT_WALLET_KEY environment variable.'
+    );
+  }
+
+  return wallets;
 }
 
 /**
@@ -44,28 +129,51 @@ export function initializeX402Module(config: X402ModuleConfig) {
     preferredNetwork = 'base',
     apiBaseUrl = 'https://api.proxies.sx/v1',
     baseRpcUrl = 'https://mainnet.base.org',
+    solanaWalletPrivateKey,
+    solanaRpcUrl,
     sessionCachePath,
+    spendLimits,
+    spendLedgerPath,
+    pendingPaymentsPath,
+    sessionPoliciesPath,
   } = config;
 
-  // Create wallet
-  const { createAgentWallet } = require('./wallet.js');
-  const wallet = createAgentWallet(walletPrivateKey, baseRpcUrl);
+  // Create wallets (primary wallet pays on the preferred network)
+  const wallets = createX402Wallets({ walletPrivateKey, solanaWalletPrivateKey, baseRpcUrl, solanaRpcUrl });
+  const wallet = wallets.find((w) => w.getNetwork() === preferredNetwork) || wallets[0];
+  const walletAddresses = wallets.map((w) => w.address);
 
   // Create session cache
   const { createSessionCache } = require('./session-cache.js');
-  const cache = createSessionCache(wallet.address, sessionCachePath);
+  const cache = createSessionCache(walletAddresses, sessionCachePath);
+
+  // Create spend guard
+  const { createSpendGuard } = require('./spend-guard.js');
+  const spendGuard = createSpendGuard(walletAddresses, spendLimits, spendLedgerPath);
+
+  // Create pending payment store
+  const { createPendingPayments } = require('./pending-payments.js');
+  const pendingPayments = createPendingPayments(walletAddresses, pendingPaymentsPath);
 
   // Create client
   const { createX402Client } = require('./client.js');
-  const client = createX402Client(wallet, apiBaseUrl, preferredNetwork);
+  const client = createX402Client(wallets, apiBaseUrl, preferredNetwork, spendGuard, pendingPayments);
+
+  // Create session policy store (enforcement starts when the caller calls start())
+  const { createSessionPolicies } = require('./session-policies.js');
+  const sessionPolicies = createSessionPolicies(walletAddresses, client, cache, sessionPoliciesPath);
 
   // Create handlers
   const { createX402ToolHandlers } = require('./handlers.js');
-  const handlers = createX402ToolHandlers(client, wallet, cache, apiBaseUrl);
+  const handlers = createX402ToolHandlers(client, wallet, cache, apiBaseUrl, sessionPolicies);
 
   return {
     wallet,
+    wallets,
     cache,
+    spendGuard,
+    pendingPayments,
+    sessionPolicies,
     client,
     handlers,
   };
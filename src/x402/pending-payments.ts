@@ -0,0 +1,230 @@
+/**
+ * x402 Pending Payments
+ * Durable journal of in-flight x402 payments. An entry is written before USDC
+ * is sent and removed once the API accepts the payment proof, so a payment
+ * interrupted by a verification error, network drop or crash can be resumed
+ * (or reported to support) instead of being lost.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { homedir } from 'os';
+import { join, dirname } from 'path';
+import type { PendingPayment, PendingPaymentsData } from './types.js';
+
+/**
+ * Default journal location (same directory as the session cache)
+ */
+const DEFAULT_PENDING_DIR = join(homedir(), '.proxies-sx');
+const DEFAULT_PENDING_FILE = 'x402-pending-payments.json';
+
+/**
+ * How long a repeated purchase re-submits the earlier proof instead of paying afresh.
+ * Older entries stay in the journal until resumed or discarded.
+ */
+const DEFAULT_PENDING_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * x402 Pending Payments
+ * Entries are keyed by purchase fingerprint. Only the payments of the configured
+ * wallets are visible; other wallets' entries stay in the journal.
+ */
+export class X402PendingPayments {
+  private storePath: string;
+  private walletAddresses: string[];
+  private ttlMs: number;
+  private data: PendingPaymentsData;
+
+  constructor(walletAddresses: string[], storePath?: string, ttlMs: number = DEFAULT_PENDING_TTL_MS) {
+    this.walletAddresses = walletAddresses.map((a) => a.toLowerCase());
+    this.storePath = storePath || join(DEFAULT_PENDING_DIR, DEFAULT_PENDING_FILE);
+    this.ttlMs = ttlMs;
+    this.data = this.load();
+  }
+
+  /**
+   * Load journal from disk
+   */
+  private load(): PendingPaymentsData {
+    try {
+      if (existsSync(this.storePath)) {
+        const data = JSON.parse(readFileSync(this.storePath, 'utf-8'));
+        return { payments: data.payments || [], lastUpdated: data.lastUpdated || new Date().toISOString() };
+      }
+    } catch (error) {
+      console.error('Failed to load x402 pending payments:', error);
+    }
+
+    return {
+      payments: [],
+      lastUpdated: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Save journal to disk
+   */
+  private save(): void {
+    try {
+      const dir = dirname(this.storePath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+
+      this.data.lastUpdated = new Date().toISOString();
+      writeFileSync(this.storePath, JSON.stringify(this.data, null, 2));
+    } catch (error) {
+      console.error('Failed to save x402 pending payments:', error);
+    }
+  }
+
+  /**
+   * Journal entries of the configured wallets
+   */
+  private ownPayments(): PendingPayment[] {
+    return this.data.payments.filter((p) => this.walletAddresses.includes(p.payer.toLowerCase()));
+  }
+
+  /**
+   * Whether a payment is too old to re-submit automatically
+   */
+  private isExpired(payment: PendingPayment): boolean {
+    return Date.now() - new Date(payment.createdAt).getTime() > this.ttlMs;
+  }
+
+  /**
+   * Get the unverified payment for a purchase with a known transaction, if recent enough to re-submit
+   */
+  get(key: string): PendingPayment | undefined {
+    return this.ownPayments().find((p) => p.key === key && !!p.transactionHash && !this.isExpired(p));
+  }
+
+  /**
+   * Get a recent interrupted payment for a purchase whose transaction is unknown
+   */
+  getInterrupted(key: string): PendingPayment | undefined {
+    return this.ownPayments().find((p) => p.key === key && !p.transactionHash && !this.isExpired(p));
+  }
+
+  /**
+   * Find a journal entry by entry ID or transaction hash
+   */
+  find(idOrTransactionHash: string): PendingPayment | undefined {
+    const ref = idOrTransactionHash.toLowerCase();
+    return this.ownPayments().find((p) => p.id === ref || p.transactionHash?.toLowerCase() === ref);
+  }
+
+  /**
+   * Record a payment before USDC is sent
+   */
+  add(payment: PendingPayment): void {
+    this.data.payments.push(payment);
+    this.save();
+  }
+
+  /**
+   * Record the confirmed transfer of an in-flight payment
+   */
+  markSent(payment: PendingPayment, transactionHash: string): void {
+    payment.status = 'sent';
+    payment.transactionHash = transactionHash;
+    this.save();
+  }
+
+  /**
+   * Record a transfer that failed after it may have been broadcast.
+   * The entry stays "sending"; the hash is kept if the transaction is known.
+   */
+  recordInterrupted(payment: PendingPayment, error: string, transactionHash?: string): void {
+    payment.transactionHash = transactionHash;
+    payment.lastError = error;
+    payment.lastAttemptAt = new Date().toISOString();
+    this.save();
+  }
+
+  /**
+   * Record a failed proof submission
+   */
+  recordFailure(payment: PendingPayment, error: string): void {
+    payment.attempts += 1;
+    payment.lastError = error;
+    payment.lastAttemptAt = new Date().toISOString();
+    this.save();
+  }
+
+  /**
+   * Forget a payment (proof accepted, transfer not sent, or discarded)
+   */
+  remove(payment: PendingPayment): void {
+    const before = this.data.payments.length;
+    this.data.payments = this.data.payments.filter((p) => p !== payment);
+    if (this.data.payments.length !== before) {
+      this.save();
+    }
+  }
+
+  /**
+   * Get all journal entries (oldest first)
+   */
+  list(): PendingPayment[] {
+    return this.ownPayments();
+  }
+
+  /**
+   * Get journal path
+   */
+  getPath(): string {
+    return this.storePath;
+  }
+}
+
+/**
+ * Describe a journal entry with everything support needs to trace the payment
+ */
+export function describePendingPayment(payment: PendingPayment): string[] {
+  const lines = [
+    `Payment ID: ${payment.id}`,
+    `Purchase: ${payment.purpose} (${payment.key})`,
+    `Status: ${payment.status === 'sent' ? 'paid, proof not accepted' : 'transfer in flight when interrupted'}`,
+    `Transaction: ${payment.transactionHash || 'unknown - check the wallet history'}`,
+    `Network: ${payment.network}`,
+    `Amount: $${(Number(payment.amount) / 1e6).toFixed(2)} USDC`,
+    `From: ${payment.payer}`,
+    `To: ${payment.requirement.payTo}`,
+    `Resource: ${payment.url}`,
+    `Started: ${payment.createdAt}`,
+  ];
+
+  if (payment.lastError) {
+    lines.push(`Last error (${payment.attempts} attempt(s), ${payment.lastAttemptAt}): ${payment.lastError}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Startup report of payments that were never recovered
+ */
+export function formatPendingPaymentReport(payments: PendingPayment[], journalPath: string): string {
+  const lines = [
+    `x402: ${payments.length} payment(s) were sent but never turned into a proxy session (journal: ${journalPath}).`,
+    'Run x402_resume_pending to re-submit their proofs. If that keeps failing, open a support ticket',
+    '(create_support_ticket, or maya@proxies.sx) with the details below.',
+  ];
+
+  for (const payment of payments) {
+    lines.push('', ...describePendingPayment(payment).map((line) => `  ${line}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Create pending payment journal instance
+ */
+export function createPendingPayments(
+  walletAddresses: string[],
+  storePath?: string,
+  ttlMs?: number
+): X402PendingPayments {
+  return new X402PendingPayments(walletAddresses, storePath, ttlMs);
+}
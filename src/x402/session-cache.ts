@@ -14,17 +14,27 @@ import type { CachedSession, SessionCacheData, ProxyCredentials, LocationInfo }
 const DEFAULT_CACHE_DIR = join(homedir(), '.proxies-sx');
 const DEFAULT_CACHE_FILE = 'x402-sessions.json';
 
+/**
+ * Session cache change event
+ */
+export interface SessionCacheChange {
+  type: 'added' | 'updated' | 'removed';
+  sessionId: string;
+}
+
 /**
  * x402 Session Cache
- * Manages local storage of active x402 sessions
+ * Manages local storage of active x402 sessions. Only the sessions bought by the
+ * configured wallets are visible; other wallets' sessions stay in the file.
  */
 export class X402SessionCache {
   private cachePath: string;
-  private walletAddress: string;
+  private walletAddresses: string[];
   private cache: SessionCacheData;
+  private listeners = new Set<(change: SessionCacheChange) => void>();
 
-  constructor(walletAddress: string, cachePath?: string) {
-    this.walletAddress = walletAddress.toLowerCase();
+  constructor(walletAddresses: string[], cachePath?: string) {
+    this.walletAddresses = walletAddresses.map((a) => a.toLowerCase());
     this.cachePath = cachePath || join(DEFAULT_CACHE_DIR, DEFAULT_CACHE_FILE);
     this.cache = this.load();
   }
@@ -37,15 +47,12 @@ export class X402SessionCache {
       if (existsSync(this.cachePath)) {
         const data = JSON.parse(readFileSync(this.cachePath, 'utf-8'));
 
-        // Check if cache belongs to this wallet
-        if (data.walletAddress?.toLowerCase() === this.walletAddress) {
-          // Filter out expired sessions
-          const now = new Date();
-          data.sessions = (data.sessions || []).filter(
-            (s: CachedSession) => new Date(s.expiresAt) > now
-          );
-          return data;
-        }
+        // Filter out expired sessions; caches of a single wallet named it once instead of per session
+        const now = new Date();
+        const sessions: CachedSession[] = (data.sessions || [])
+          .filter((s: CachedSession) => new Date(s.expiresAt) > now)
+          .map((s: CachedSession) => ({ ...s, walletAddress: s.walletAddress || data.walletAddress }));
+        return { sessions, lastUpdated: data.lastUpdated || now.toISOString() };
       }
     } catch (error) {
       // Ignore parse errors, start fresh
@@ -54,7 +61,6 @@ export class X402SessionCache {
 
     // Return fresh cache
     return {
-      walletAddress: this.walletAddress,
       sessions: [],
       lastUpdated: new Date().toISOString(),
     };
@@ -77,10 +83,46 @@ export class X402SessionCache {
     }
   }
 
+  /**
+   * Whether a session was bought by one of the configured wallets
+   */
+  private isOwn(session: CachedSession): boolean {
+    return !session.walletAddress || this.walletAddresses.includes(session.walletAddress.toLowerCase());
+  }
+
+  /**
+   * Sessions of the configured wallets
+   */
+  private ownSessions(): CachedSession[] {
+    return this.cache.sessions.filter((s) => this.isOwn(s));
+  }
+
+  /**
+   * Notify change listeners
+   */
+  private emit(type: SessionCacheChange['type'], sessionId: string): void {
+    for (const listener of this.listeners) {
+      listener({ type, sessionId });
+    }
+  }
+
+  /**
+   * Listen for sessions being added, updated or removed (including expiry).
+   * Returns an unsubscribe function.
+   */
+  onChange(listener: (change: SessionCacheChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
   /**
    * Add or update a session
    */
   addSession(session: CachedSession): void {
+    const exists = this.cache.sessions.some((s) => s.id === session.id);
+
     // Remove existing session with same ID
     this.cache.sessions = this.cache.sessions.filter(
       (s) => s.id !== session.id
@@ -90,10 +132,11 @@ export class X402SessionCache {
     this.cache.sessions.push(session);
 
     this.save();
+    this.emit(exists ? 'updated' : 'added', session.id);
   }
 
   /**
-   * Add session from API response
+   * Add session from API response, bought by the given wallet
    */
   addSessionFromResponse(response: {
     session: {
@@ -104,7 +147,7 @@ export class X402SessionCache {
     };
     rotationUrl?: string;
     rotationToken?: string;
-  }): void {
+  }, walletAddress?: string): void {
     const session: CachedSession = {
       id: response.session.id,
       proxy: response.session.proxy,
@@ -112,6 +155,7 @@ export class X402SessionCache {
       location: response.session.location,
       rotationUrl: response.rotationUrl || '',
       rotationToken: response.rotationToken || '',
+      walletAddress,
     };
 
     this.addSession(session);
@@ -122,7 +166,7 @@ export class X402SessionCache {
    */
   getSession(sessionId: string): CachedSession | undefined {
     this.cleanExpired();
-    return this.cache.sessions.find((s) => s.id === sessionId);
+    return this.ownSessions().find((s) => s.id === sessionId);
   }
 
   /**
@@ -130,7 +174,7 @@ export class X402SessionCache {
    */
   getActiveSessions(): CachedSession[] {
     this.cleanExpired();
-    return [...this.cache.sessions];
+    return this.ownSessions();
   }
 
   /**
@@ -146,7 +190,7 @@ export class X402SessionCache {
    */
   getSessionByCountry(countryCode: string): CachedSession | undefined {
     this.cleanExpired();
-    return this.cache.sessions.find(
+    return this.ownSessions().find(
       (s) => s.location.countryCode?.toUpperCase() === countryCode.toUpperCase()
     );
   }
@@ -170,10 +214,11 @@ export class X402SessionCache {
    */
   removeSession(sessionId: string): boolean {
     const initialLength = this.cache.sessions.length;
-    this.cache.sessions = this.cache.sessions.filter((s) => s.id !== sessionId);
+    this.cache.sessions = this.cache.sessions.filter((s) => s.id !== sessionId || !this.isOwn(s));
 
     if (this.cache.sessions.length !== initialLength) {
       this.save();
+      this.emit('removed', sessionId);
       return true;
     }
     return false;
@@ -184,33 +229,38 @@ export class X402SessionCache {
    */
   private cleanExpired(): void {
     const now = new Date();
-    const initialLength = this.cache.sessions.length;
-
-    this.cache.sessions = this.cache.sessions.filter(
-      (s) => new Date(s.expiresAt) > now
+    const expired = this.cache.sessions.filter(
+      (s) => new Date(s.expiresAt) <= now
     );
 
-    if (this.cache.sessions.length !== initialLength) {
+    if (expired.length > 0) {
+      this.cache.sessions = this.cache.sessions.filter(
+        (s) => new Date(s.expiresAt) > now
+      );
       this.save();
+      expired.filter((s) => this.isOwn(s)).forEach((s) => this.emit('removed', s.id));
     }
   }
 
   /**
-   * Clear all sessions
+   * Clear all sessions of the configured wallets
    */
   clear(): void {
-    this.cache.sessions = [];
+    const removed = this.ownSessions().map((s) => s.id);
+    this.cache.sessions = this.cache.sessions.filter((s) => !this.isOwn(s));
     this.save();
+    removed.forEach((id) => this.emit('removed', id));
   }
 
   /**
    * Update session expiration time
    */
   updateSessionExpiry(sessionId: string, newExpiresAt: string): boolean {
-    const session = this.cache.sessions.find((s) => s.id === sessionId);
+    const session = this.ownSessions().find((s) => s.id === sessionId);
     if (session) {
       session.expiresAt = newExpiresAt;
       this.save();
+      this.emit('updated', sessionId);
       return true;
     }
     return false;
@@ -267,13 +317,13 @@ export class X402SessionCache {
    * Get cache info
    */
   getInfo(): {
-    walletAddress: string;
+    walletAddresses: string[];
     sessionCount: number;
     lastUpdated: string;
     cachePath: string;
   } {
     return {
-      walletAddress: this.walletAddress,
+      walletAddresses: [...this.walletAddresses],
       sessionCount: this.getActiveCount(),
       lastUpdated: this.cache.lastUpdated,
       cachePath: this.cachePath,
@@ -285,8 +335,8 @@ export class X402SessionCache {
  * Create session cache instance
  */
 export function createSessionCache(
-  walletAddress: string,
+  walletAddresses: string[],
   cachePath?: string
 ): X402SessionCache {
-  return new X402SessionCache(walletAddress, cachePath);
+  return new X402SessionCache(walletAddresses, cachePath);
 }
@@ -0,0 +1,387 @@
+/**
+ * x402 Session Policies
+ * Declarative per-session renewal and top-up rules ("keep alive until D",
+ * "add 1 GB when below 0.2 GB", "never spend more than $20"). Policies are
+ * persisted next to the session cache and enforced on a schedule; every
+ * automatic payment is recorded on its policy and logged.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { homedir } from 'os';
+import { join, dirname } from 'path';
+import type { X402Client } from './client.js';
+import type { X402SessionCache } from './session-cache.js';
+import type { SessionPoliciesData, SessionPolicy, SessionPolicyPayment, TransferResult } from './types.js';
+
+/**
+ * Default store location (same directory as the session cache)
+ */
+const DEFAULT_POLICY_DIR = join(homedir(), '.proxies-sx');
+const DEFAULT_POLICY_FILE = 'x402-session-policies.json';
+
+/**
+ * How often policies are checked
+ */
+const DEFAULT_ENFORCE_INTERVAL_MS = 5 * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Policy settings accepted from callers; spend and payment history are kept on update
+ */
+export type SessionPolicyInput = Pick<SessionPolicy, 'sessionId'> &
+  Partial<Pick<SessionPolicy,
+    'keepAliveUntil' | 'extendHours' | 'renewWithinMinutes' | 'topupBelowGB' | 'topupGB' | 'sessionToken' | 'maxSpendUSDC'
+  >>;
+
+/**
+ * x402 Session Policies
+ * Policies are keyed by session ID. Only the policies for sessions of the
+ * configured wallets are listed and enforced; others stay in the store.
+ */
+export class X402SessionPolicies {
+  private storePath: string;
+  private walletAddresses: string[];
+  private data: SessionPoliciesData;
+  private timer: NodeJS.Timeout | null = null;
+  private enforcing: Promise<SessionPolicyPayment[]> | null = null;
+
+  constructor(
+    walletAddresses: string[],
+    private readonly client: Pick<X402Client, 'extendSession' | 'topupSession' | 'getSessionStatus'>,
+    private readonly cache: X402SessionCache,
+    storePath?: string,
+    private readonly intervalMs: number = DEFAULT_ENFORCE_INTERVAL_MS
+  ) {
+    this.walletAddresses = walletAddresses.map((a) => a.toLowerCase());
+    this.storePath = storePath || join(DEFAULT_POLICY_DIR, DEFAULT_POLICY_FILE);
+    this.data = this.load();
+  }
+
+  /**
+   * Load policies from disk
+   */
+  private load(): SessionPoliciesData {
+    try {
+      if (existsSync(this.storePath)) {
+        const data = JSON.parse(readFileSync(this.storePath, 'utf-8'));
+
+        // Stores of a single wallet named it once instead of per policy
+        const policies: SessionPolicy[] = (data.policies || []).map((p: SessionPolicy) => ({
+          ...p,
+          walletAddress: p.walletAddress || data.walletAddress,
+        }));
+        return { policies, lastUpdated: data.lastUpdated || new Date().toISOString() };
+      }
+    } catch (error) {
+      console.error('Failed to load x402 session policies:', error);
+    }
+
+    return {
+      policies: [],
+      lastUpdated: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Save policies to disk
+   */
+  private save(): void {
+    try {
+      const dir = dirname(this.storePath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+
+      this.data.lastUpdated = new Date().toISOString();
+      writeFileSync(this.storePath, JSON.stringify(this.data, null, 2));
+    } catch (error) {
+      console.error('Failed to save x402 session policies:', error);
+    }
+  }
+
+  /**
+   * Policies for sessions of the configured wallets
+   */
+  private ownPolicies(): SessionPolicy[] {
+    return this.data.policies.filter(
+      (p) => !p.walletAddress || this.walletAddresses.includes(p.walletAddress.toLowerCase())
+    );
+  }
+
+  /**
+   * Create or replace the policy for a session (re-activates a stopped policy)
+   */
+  set(input: SessionPolicyInput): SessionPolicy {
+    const now = new Date().toISOString();
+    const existing = this.get(input.sessionId);
+
+    const policy: SessionPolicy = {
+      sessionId: input.sessionId,
+      keepAliveUntil: input.keepAliveUntil,
+      extendHours: input.extendHours ?? 1,
+      renewWithinMinutes: input.renewWithinMinutes ?? 30,
+      topupBelowGB: input.topupBelowGB,
+      topupGB: input.topupBelowGB !== undefined ? input.topupGB ?? 1 : undefined,
+      sessionToken: input.sessionToken ?? existing?.sessionToken,
+      maxSpendUSDC: input.maxSpendUSDC,
+      spentUSDC: existing?.spentUSDC ?? 0,
+      payments: existing?.payments ?? [],
+      status: 'active',
+      walletAddress: this.cache.getSession(input.sessionId)?.walletAddress ?? existing?.walletAddress,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    this.data.policies = [...this.data.policies.filter((p) => p.sessionId !== input.sessionId), policy];
+    this.save();
+    return policy;
+  }
+
+  /**
+   * Remove the policy for a session
+   */
+  remove(sessionId: string): boolean {
+    const policy = this.get(sessionId);
+    if (!policy) return false;
+
+    this.data.policies = this.data.policies.filter((p) => p !== policy);
+
+    this.save();
+    return true;
+  }
+
+  get(sessionId: string): SessionPolicy | undefined {
+    return this.ownPolicies().find((p) => p.sessionId === sessionId);
+  }
+
+  list(): SessionPolicy[] {
+    return this.ownPolicies();
+  }
+
+  /**
+   * Get store path
+   */
+  getPath(): string {
+    return this.storePath;
+  }
+
+  /**
+   * Start enforcing policies on a schedule (checks once right away)
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.enforce(), this.intervalMs);
+    this.timer.unref();
+    void this.enforce();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check every active policy once and make the payments due.
+   * Returns the payments made. A round still in progress is reused.
+   */
+  enforce(): Promise<SessionPolicyPayment[]> {
+    if (!this.enforcing) {
+      this.enforcing = this.enforceAll().finally(() => {
+        this.enforcing = null;
+      });
+    }
+    return this.enforcing;
+  }
+
+  private async enforceAll(): Promise<SessionPolicyPayment[]> {
+    const payments: SessionPolicyPayment[] = [];
+
+    for (const policy of this.ownPolicies().filter((p) => p.status === 'active')) {
+      await this.enforcePolicy(policy, payments);
+    }
+
+    return payments;
+  }
+
+  private async enforcePolicy(policy: SessionPolicy, payments: SessionPolicyPayment[]): Promise<void> {
+    const now = Date.now();
+    const keepAliveUntil = policy.keepAliveUntil ? new Date(policy.keepAliveUntil).getTime() : undefined;
+    if (keepAliveUntil !== undefined && now >= keepAliveUntil) {
+      this.setStatus(policy, 'completed');
+      return;
+    }
+
+    // The cache drops sessions by their cached expiry, which may be stale: only the API can end a policy
+    let session: { expiresAt: string } | undefined = this.cache.getSession(policy.sessionId);
+    if (!session) {
+      try {
+        const status = await this.client.getSessionStatus(policy.sessionId);
+        if (status.status === 'active' && new Date(status.expiresAt).getTime() > now) {
+          session = status;
+        }
+      } catch (error) {
+        // Unknown, not ended: try again on the next check
+        this.setError(policy, `Could not check session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return;
+      }
+    }
+    if (!session) {
+      this.setStatus(policy, 'session_ended');
+      return;
+    }
+
+    let paid = false;
+    const onTransfer = (action: SessionPolicyPayment['action'], detail: string) => (transfer: TransferResult) => {
+      paid = true;
+      payments.push(this.recordPayment(policy, action, detail, transfer));
+    };
+
+    try {
+      // Keep-alive: extend once the session is about to expire before the target time
+      const expiresAt = new Date(session.expiresAt).getTime();
+      if (keepAliveUntil !== undefined && expiresAt < keepAliveUntil && expiresAt - now <= policy.renewWithinMinutes * 60 * 1000) {
+        const budget = this.remainingBudget(policy);
+        if (budget === 0) return;
+
+        const hours = Math.max(1, Math.min(policy.extendHours, Math.ceil((keepAliveUntil - expiresAt) / HOUR_MS)));
+        const extended = await this.client.extendSession(policy.sessionId, hours, {
+          maxAmountUSDC: budget,
+          onTransfer: onTransfer('extend', `extended by ${hours}h`),
+        });
+        this.cache.updateSessionExpiry(policy.sessionId, extended.expiresAt);
+      }
+
+      // Top-up: add traffic once the remaining allowance drops below the threshold
+      if (policy.topupBelowGB !== undefined) {
+        const status = await this.client.getSessionStatus(policy.sessionId);
+        if (status.traffic.remainingGB < policy.topupBelowGB) {
+          if (!policy.sessionToken) {
+            this.setError(policy, 'Traffic top-up needs the session token (x402s_...) - set it with x402_set_session_policy');
+            return;
+          }
+
+          const budget = this.remainingBudget(policy);
+          if (budget === 0) return;
+
+          const topupGB = policy.topupGB ?? 1;
+          paid = false;
+          await this.client.topupSession(policy.sessionToken, topupGB, {
+            maxAmountUSDC: budget,
+            onTransfer: onTransfer('topup', `added ${topupGB} GB at ${status.traffic.remainingGB.toFixed(2)} GB remaining`),
+          });
+        }
+      }
+
+      if (policy.lastError) {
+        policy.lastError = undefined;
+        this.save();
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      // A payment whose proof was not accepted must not be repeated automatically
+      if (paid) {
+        policy.status = 'payment_unconfirmed';
+      }
+      this.setError(policy, message);
+    }
+  }
+
+  /**
+   * Budget left under maxSpendUSDC (undefined without a cap, 0 once exhausted)
+   */
+  private remainingBudget(policy: SessionPolicy): number | undefined {
+    if (policy.maxSpendUSDC === undefined) return undefined;
+
+    const remaining = Math.max(0, policy.maxSpendUSDC - policy.spentUSDC);
+    if (remaining === 0) {
+      this.setStatus(policy, 'budget_exhausted');
+    }
+    return remaining;
+  }
+
+  private recordPayment(
+    policy: SessionPolicy,
+    action: SessionPolicyPayment['action'],
+    detail: string,
+    transfer: TransferResult
+  ): SessionPolicyPayment {
+    const payment: SessionPolicyPayment = {
+      at: new Date().toISOString(),
+      action,
+      amountUSDC: Number(transfer.amount) / 1e6,
+      transactionHash: transfer.transactionHash,
+      network: transfer.network,
+      detail,
+    };
+
+    policy.payments.push(payment);
+    policy.spentUSDC += payment.amountUSDC;
+    policy.updatedAt = payment.at;
+    this.save();
+
+    console.error(
+      `x402 session policy: ${detail} for session ${policy.sessionId}, paid $${payment.amountUSDC.toFixed(2)} USDC ` +
+      `(tx ${payment.transactionHash} on ${payment.network})`
+    );
+    return payment;
+  }
+
+  private setStatus(policy: SessionPolicy, status: SessionPolicy['status']): void {
+    policy.status = status;
+    policy.updatedAt = new Date().toISOString();
+    this.save();
+  }
+
+  /**
+   * Record an enforcement error (logged only when it changes)
+   */
+  private setError(policy: SessionPolicy, message: string): void {
+    if (policy.lastError !== message) {
+      console.error(`x402 session policy for ${policy.sessionId}: ${message}`);
+    }
+    policy.lastError = message;
+    policy.updatedAt = new Date().toISOString();
+    this.save();
+  }
+}
+
+/**
+ * Describe a policy's rules and state
+ */
+export function describeSessionPolicy(policy: SessionPolicy): string[] {
+  const rules = [
+    policy.keepAliveUntil && `keep alive until ${policy.keepAliveUntil} (extend ${policy.extendHours}h when < ${policy.renewWithinMinutes} min left)`,
+    policy.topupBelowGB !== undefined && `add ${policy.topupGB} GB when < ${policy.topupBelowGB} GB left${policy.sessionToken ? '' : ' (session token missing)'}`,
+  ].filter(Boolean);
+
+  const lines = [
+    `Session: ${policy.sessionId} [${policy.status}]`,
+    `Rules: ${rules.join('; ')}`,
+    `Spent: $${policy.spentUSDC.toFixed(2)}${policy.maxSpendUSDC !== undefined ? ` of $${policy.maxSpendUSDC.toFixed(2)}` : ''} USDC in ${policy.payments.length} payment(s)`,
+  ];
+
+  for (const payment of policy.payments.slice(-5)) {
+    lines.push(`  ${payment.at}: ${payment.detail}, $${payment.amountUSDC.toFixed(2)} (tx ${payment.transactionHash})`);
+  }
+  if (policy.lastError) {
+    lines.push(`Last error: ${policy.lastError}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Create session policy store instance
+ */
+export function createSessionPolicies(
+  walletAddresses: string[],
+  client: Pick<X402Client, 'extendSession' | 'topupSession' | 'getSessionStatus'>,
+  cache: X402SessionCache,
+  storePath?: string,
+  intervalMs?: number
+): X402SessionPolicies {
+  return new X402SessionPolicies(walletAddresses, client, cache, storePath, intervalMs);
+}
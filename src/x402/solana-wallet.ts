@@ -0,0 +1,279 @@
+/**
+ * x402 Solana Wallet Module
+ * Manages agent wallet for Solana network SPL-USDC payments
+ */
+
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  Transaction,
+  LAMPORTS_PER_SOL,
+  SendTransactionError,
+  sendAndConfirmTransaction,
+} from '@solana/web3.js';
+import {
+  getAssociatedTokenAddress,
+  getAccount,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  TokenAccountNotFoundError,
+} from '@solana/spl-token';
+import bs58 from 'bs58';
+import { TransferNotSentError, TransferUnconfirmedError } from './transfer-errors.js';
+import type { WalletBalance, TransferResult, X402Network, X402Wallet } from './types.js';
+
+/**
+ * USDC mint address on Solana
+ */
+const USDC_SOLANA_MINT = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+
+/**
+ * USDC has 6 decimals on Solana (same as Base)
+ */
+const USDC_DECIMALS = 6;
+
+/**
+ * Parse a Solana secret key.
+ * Accepts a base58 string (Phantom/Solflare export) or a JSON byte array (solana-keygen file contents).
+ */
+export function parseSolanaSecretKey(secretKey: string): Uint8Array {
+  const trimmed = secretKey.trim();
+
+  if (trimmed.startsWith('[')) {
+    const bytes = JSON.parse(trimmed) as number[];
+    return Uint8Array.from(bytes);
+  }
+
+  return bs58.decode(trimmed);
+}
+
+/**
+ * Check whether a private key looks like a Solana secret key rather than an EVM key
+ */
+export function isSolanaSecretKey(privateKey: string): boolean {
+  const trimmed = privateKey.trim();
+  if (trimmed.startsWith('[')) return true;
+  if (/^(0x)?[0-9a-fA-F]{64}$/.test(trimmed)) return false;
+
+  try {
+    return bs58.decode(trimmed).length === 64;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Agent Wallet for x402 payments
+ * Manages SPL-USDC transactions on Solana network
+ */
+export class SolanaAgentWallet implements X402Wallet {
+  private keypair: Keypair;
+  private connection: Connection;
+  private network: X402Network = 'solana';
+
+  constructor(
+    secretKey: string,
+    rpcUrl: string = 'https://api.mainnet-beta.solana.com'
+  ) {
+    this.keypair = Keypair.fromSecretKey(parseSolanaSecretKey(secretKey));
+    this.connection = new Connection(rpcUrl, 'confirmed');
+  }
+
+  /**
+   * Get wallet address
+   */
+  get address(): string {
+    return this.keypair.publicKey.toBase58();
+  }
+
+  /**
+   * Get the network this wallet uses
+   */
+  getNetwork(): X402Network {
+    return this.network;
+  }
+
+  /**
+   * Get USDC balance
+   */
+  async getBalance(): Promise<WalletBalance> {
+    try {
+      const tokenAccount = await getAssociatedTokenAddress(USDC_SOLANA_MINT, this.keypair.publicKey);
+
+      let balance = 0n;
+      try {
+        const account = await getAccount(this.connection, tokenAccount);
+        balance = account.amount;
+      } catch (error) {
+        // No USDC token account yet means zero balance
+        if (!(error instanceof TokenAccountNotFoundError)) {
+          throw error;
+        }
+      }
+
+      const balanceNum = Number(balance) / 1e6;
+      const formatted = balanceNum.toFixed(2);
+
+      return {
+        usdc: balance.toString(),
+        formatted: `$${formatted} USDC`,
+        network: this.network,
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to get balance: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get SOL balance for fees
+   */
+  async getSolBalance(): Promise<string> {
+    try {
+      const lamports = await this.connection.getBalance(this.keypair.publicKey);
+      return (lamports / LAMPORTS_PER_SOL).toFixed(6);
+    } catch (error) {
+      throw new Error(
+        `Failed to get SOL balance: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get gas balance, formatted (X402Wallet)
+   */
+  async getGasBalance(): Promise<string> {
+    return `${await this.getSolBalance()} SOL`;
+  }
+
+  /**
+   * Check if wallet has sufficient balance for a transaction
+   */
+  async hasSufficientBalance(amountMicroUSDC: string): Promise<boolean> {
+    const balance = await this.getBalance();
+    return BigInt(balance.usdc) >= BigInt(amountMicroUSDC);
+  }
+
+  /**
+   * Send USDC payment
+   * Creates the recipient's USDC token account if it does not exist yet.
+   */
+  async sendUSDC(
+    recipient: string,
+    amountMicroUSDC: string
+  ): Promise<TransferResult> {
+    // Validate recipient format
+    let recipientKey: PublicKey;
+    try {
+      recipientKey = new PublicKey(recipient);
+    } catch {
+      throw new TransferNotSentError(`Invalid recipient address: ${recipient}`);
+    }
+
+    // Check balance
+    const hasFunds = await this.hasSufficientBalance(amountMicroUSDC);
+    if (!hasFunds) {
+      const balance = await this.getBalance();
+      throw new TransferNotSentError(
+        `Insufficient USDC balance. Required: ${Number(amountMicroUSDC) / 1e6} USDC, Available: ${balance.formatted}`
+      );
+    }
+
+    try {
+      const source = await getAssociatedTokenAddress(USDC_SOLANA_MINT, this.keypair.publicKey);
+      const destination = await getAssociatedTokenAddress(USDC_SOLANA_MINT, recipientKey, true);
+
+      const transaction = new Transaction().add(
+        createAssociatedTokenAccountIdempotentInstruction(
+          this.keypair.publicKey,
+          destination,
+          recipientKey,
+          USDC_SOLANA_MINT
+        ),
+        createTransferCheckedInstruction(
+          source,
+          USDC_SOLANA_MINT,
+          destination,
+          this.keypair.publicKey,
+          BigInt(amountMicroUSDC),
+          USDC_DECIMALS
+        )
+      );
+
+      // Send and wait for confirmation
+      const signature = await sendAndConfirmTransaction(
+        this.connection,
+        transaction,
+        [this.keypair],
+        { commitment: 'confirmed' }
+      );
+
+      return {
+        transactionHash: signature,
+        network: this.network,
+        amount: amountMicroUSDC,
+        recipient,
+      };
+    } catch (error) {
+      // Handle specific error types
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      if (message.includes('insufficient lamports') || message.includes('Attempt to debit an account but found no record of a prior credit')) {
+        throw new TransferNotSentError('Insufficient SOL for transaction fees. Please add SOL to your wallet.');
+      }
+
+      // Preflight and send failures: the RPC rejected the transaction
+      if (error instanceof SendTransactionError) {
+        throw new TransferNotSentError(`USDC transfer failed: ${message}`);
+      }
+
+      // Confirmation timeouts carry the signature of a broadcast transaction
+      const signature = (error as { signature?: unknown } | null)?.signature;
+      if (typeof signature === 'string') {
+        throw new TransferUnconfirmedError(`USDC transfer ${signature} was sent but not confirmed: ${message}`, signature);
+      }
+
+      throw new Error(`USDC transfer failed: ${message}`);
+    }
+  }
+
+  /**
+   * Get wallet info summary
+   */
+  async getInfo(): Promise<{
+    address: string;
+    network: X402Network;
+    usdcBalance: WalletBalance;
+    solBalance: string;
+  }> {
+    const [usdcBalance, solBalance] = await Promise.all([
+      this.getBalance(),
+      this.getSolBalance(),
+    ]);
+
+    return {
+      address: this.address,
+      network: this.network,
+      usdcBalance,
+      solBalance: `${solBalance} SOL`,
+    };
+  }
+}
+
+/**
+ * Create a Solana agent wallet from environment or config
+ */
+export function createSolanaAgentWallet(
+  secretKey: string,
+  rpcUrl?: string
+): SolanaAgentWallet {
+  if (!secretKey) {
+    throw new Error(
+      'Solana secret key is required. Set SOLANA_WALLET_KEY environment variable.'
+    );
+  }
+
+  return new SolanaAgentWallet(secretKey, rpcUrl);
+}
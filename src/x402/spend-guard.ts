@@ -0,0 +1,312 @@
+/**
+ * x402 Spend Guard
+ * Enforces per-transaction, rolling-daily and lifetime USDC budgets
+ * and keeps a persistent ledger of every outgoing payment
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { homedir } from 'os';
+import { join, dirname } from 'path';
+import type { SpendLimits, SpendLedgerData, SpendLedgerEntry, TransferResult } from './types.js';
+
+/**
+ * Default ledger location (same directory as the session cache)
+ */
+const DEFAULT_LEDGER_DIR = join(homedir(), '.proxies-sx');
+const DEFAULT_LEDGER_FILE = 'x402-spend-ledger.json';
+
+/**
+ * Rolling window used for the daily limit
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Which budget a payment would exceed
+ */
+export type SpendLimitKind = 'transaction' | 'daily' | 'total';
+
+/**
+ * Thrown when a payment would exceed a configured budget
+ */
+export class SpendLimitError extends Error {
+  public readonly limit: SpendLimitKind;
+  public readonly limitUSDC: number;
+  public readonly requestedUSDC: number;
+  public readonly spentUSDC: number;
+
+  constructor(limit: SpendLimitKind, limitUSDC: number, requestedUSDC: number, spentUSDC: number) {
+    const scope = limit === 'transaction' ? 'per-transaction' : limit === 'daily' ? '24h' : 'lifetime';
+    super(
+      `Payment of $${requestedUSDC.toFixed(2)} USDC blocked by ${scope} spend limit ` +
+      `($${limitUSDC.toFixed(2)} USDC, already spent $${spentUSDC.toFixed(2)})`
+    );
+    this.name = 'SpendLimitError';
+    this.limit = limit;
+    this.limitUSDC = limitUSDC;
+    this.requestedUSDC = requestedUSDC;
+    this.spentUSDC = spentUSDC;
+  }
+}
+
+/**
+ * Thrown when the ledger cannot be read or written: payments are refused
+ * rather than checked against an incomplete spend history
+ */
+export class SpendLedgerError extends Error {
+  public readonly ledgerPath: string;
+
+  constructor(ledgerPath: string, reason: string) {
+    super(`Payments are blocked: the spend ledger ${ledgerPath} ${reason}. Fix or move the file, then retry`);
+    this.name = 'SpendLedgerError';
+    this.ledgerPath = ledgerPath;
+  }
+}
+
+/**
+ * Convert micro USDC (string or bigint) to a USDC number
+ */
+function toUSDC(amountMicroUSDC: string | bigint): number {
+  return Number(amountMicroUSDC) / 1e6;
+}
+
+/**
+ * x402 Spend Guard
+ * Checks outgoing USDC transfers against configured budgets. The budgets cover
+ * the payments of every configured wallet, whichever network is preferred.
+ */
+export class X402SpendGuard {
+  private ledgerPath: string;
+  private walletAddresses: string[];
+  private limits: SpendLimits;
+  private ledger: SpendLedgerData;
+  /** Amounts authorized but not yet committed or released (in-flight payments) */
+  private reservations = new Map<number, bigint>();
+  private nextReservationId = 1;
+  /** Why the ledger could not be read (never overwritten while set) */
+  private loadError?: string;
+  /** Why the last ledger write failed */
+  private saveError?: string;
+
+  constructor(walletAddresses: string[], limits: SpendLimits = {}, ledgerPath?: string) {
+    this.walletAddresses = walletAddresses.map((a) => a.toLowerCase());
+    this.limits = limits;
+    this.ledgerPath = ledgerPath || join(DEFAULT_LEDGER_DIR, DEFAULT_LEDGER_FILE);
+    this.ledger = this.load();
+  }
+
+  /**
+   * Load ledger from disk
+   */
+  private load(): SpendLedgerData {
+    try {
+      if (existsSync(this.ledgerPath)) {
+        const data = JSON.parse(readFileSync(this.ledgerPath, 'utf-8'));
+        if (data.entries !== undefined && !Array.isArray(data.entries)) {
+          throw new Error('entries is not a list');
+        }
+
+        // Ledgers of a single wallet named it once instead of per entry
+        const entries: SpendLedgerEntry[] = (data.entries || []).map((e: SpendLedgerEntry) => ({
+          ...e,
+          payer: e.payer || data.walletAddress || '',
+        }));
+        return { entries, lastUpdated: data.lastUpdated || new Date().toISOString() };
+      }
+    } catch (error) {
+      console.error('Failed to load spend ledger:', error);
+      this.loadError = `could not be read (${error instanceof Error ? error.message : String(error)})`;
+    }
+
+    return {
+      entries: [],
+      lastUpdated: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Save ledger to disk
+   */
+  private save(): void {
+    // Keep an unreadable ledger on disk for inspection
+    if (this.loadError) return;
+
+    try {
+      const dir = dirname(this.ledgerPath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+
+      this.ledger.lastUpdated = new Date().toISOString();
+      writeFileSync(this.ledgerPath, JSON.stringify(this.ledger, null, 2));
+      this.saveError = undefined;
+    } catch (error) {
+      console.error('Failed to save spend ledger:', error);
+      this.saveError = `could not be written (${error instanceof Error ? error.message : String(error)})`;
+    }
+  }
+
+  /**
+   * Throw SpendLedgerError if the ledger could not be read or written
+   */
+  private assertLedgerUsable(): void {
+    const reason = this.loadError ?? this.saveError;
+    if (reason) {
+      throw new SpendLedgerError(this.ledgerPath, reason);
+    }
+  }
+
+  /**
+   * Payments of the configured wallets (other wallets' entries stay in the file)
+   */
+  private ownEntries(): SpendLedgerEntry[] {
+    return this.ledger.entries.filter((e) => this.walletAddresses.includes(e.payer.toLowerCase()));
+  }
+
+  /**
+   * Sum of recorded payments since a point in time (micro USDC)
+   */
+  private spentSince(sinceMs: number): bigint {
+    return this.ownEntries()
+      .filter((e) => new Date(e.timestamp).getTime() >= sinceMs)
+      .reduce((sum, e) => sum + BigInt(e.amount), 0n);
+  }
+
+  /**
+   * Sum of in-flight reservations (micro USDC)
+   */
+  private reserved(): bigint {
+    let total = 0n;
+    for (const amount of this.reservations.values()) {
+      total += amount;
+    }
+    return total;
+  }
+
+  /**
+   * Check a payment against all budgets, throwing SpendLimitError if any is exceeded
+   * (SpendLedgerError if the ledger is unusable)
+   */
+  check(amountMicroUSDC: string): void {
+    this.assertLedgerUsable();
+
+    const amount = BigInt(amountMicroUSDC);
+    const requested = toUSDC(amount);
+    const inFlight = this.reserved();
+
+    if (this.limits.maxTransactionUSDC !== undefined && requested > this.limits.maxTransactionUSDC) {
+      throw new SpendLimitError('transaction', this.limits.maxTransactionUSDC, requested, 0);
+    }
+
+    if (this.limits.maxDailySpendUSDC !== undefined) {
+      const spent = toUSDC(this.spentSince(Date.now() - DAY_MS) + inFlight);
+      if (spent + requested > this.limits.maxDailySpendUSDC) {
+        throw new SpendLimitError('daily', this.limits.maxDailySpendUSDC, requested, spent);
+      }
+    }
+
+    if (this.limits.maxTotalSpendUSDC !== undefined) {
+      const spent = toUSDC(this.spentSince(0) + inFlight);
+      if (spent + requested > this.limits.maxTotalSpendUSDC) {
+        throw new SpendLimitError('total', this.limits.maxTotalSpendUSDC, requested, spent);
+      }
+    }
+  }
+
+  /**
+   * Check a payment and reserve it against the budgets until it is committed or released.
+   * Reservations prevent concurrent payments from jointly overshooting a limit.
+   */
+  authorize(amountMicroUSDC: string): number {
+    this.check(amountMicroUSDC);
+
+    // A ledger that cannot be written could not record this payment
+    this.save();
+    this.assertLedgerUsable();
+
+    const id = this.nextReservationId++;
+    this.reservations.set(id, BigInt(amountMicroUSDC));
+    return id;
+  }
+
+  /**
+   * Record a completed transfer in the ledger and drop its reservation
+   */
+  commit(reservationId: number, transfer: TransferResult, payer: string, purpose: string): void {
+    this.reservations.delete(reservationId);
+
+    const entry: SpendLedgerEntry = {
+      timestamp: new Date().toISOString(),
+      amount: transfer.amount,
+      transactionHash: transfer.transactionHash,
+      network: transfer.network,
+      recipient: transfer.recipient,
+      payer,
+      purpose,
+    };
+
+    this.ledger.entries.push(entry);
+    this.save();
+  }
+
+  /**
+   * Drop a reservation without recording a payment (transfer failed)
+   */
+  release(reservationId: number): void {
+    this.reservations.delete(reservationId);
+  }
+
+  /**
+   * Get configured limits
+   */
+  getLimits(): SpendLimits {
+    return { ...this.limits };
+  }
+
+  /**
+   * Get spend totals and remaining budgets in USDC
+   */
+  getSummary(): {
+    spentLast24hUSDC: number;
+    spentTotalUSDC: number;
+    remainingDailyUSDC: number | null;
+    remainingTotalUSDC: number | null;
+    paymentCount: number;
+    ledgerPath: string;
+    ledgerError: string | null;
+  } {
+    const spentLast24hUSDC = toUSDC(this.spentSince(Date.now() - DAY_MS));
+    const spentTotalUSDC = toUSDC(this.spentSince(0));
+
+    return {
+      spentLast24hUSDC,
+      spentTotalUSDC,
+      remainingDailyUSDC: this.limits.maxDailySpendUSDC !== undefined
+        ? Math.max(0, this.limits.maxDailySpendUSDC - spentLast24hUSDC)
+        : null,
+      remainingTotalUSDC: this.limits.maxTotalSpendUSDC !== undefined
+        ? Math.max(0, this.limits.maxTotalSpendUSDC - spentTotalUSDC)
+        : null,
+      paymentCount: this.ownEntries().length,
+      ledgerPath: this.ledgerPath,
+      ledgerError: this.loadError ?? this.saveError ?? null,
+    };
+  }
+
+  /**
+   * Get ledger entries (most recent last)
+   */
+  getEntries(): SpendLedgerEntry[] {
+    return this.ownEntries();
+  }
+}
+
+/**
+ * Create spend guard instance
+ */
+export function createSpendGuard(
+  walletAddresses: string[],
+  limits?: SpendLimits,
+  ledgerPath?: string
+): X402SpendGuard {
+  return new X402SpendGuard(walletAddresses, limits, ledgerPath);
+}
@@ -4,232 +4,156 @@
  */
 
 import { z } from 'zod';
+import { defineTools, toToolDefinitions, toToolSchemas } from '../tools/define.js';
 
 /**
- * x402 tool definitions for MCP
+ * x402 tools (description and input schema)
  */
-export const x402ToolDefinitions = [
-  {
-    name: 'x402_get_proxy',
+export const x402Tools = defineTools({
+  x402_get_proxy: {
     description:
       'Purchase a mobile proxy instantly using USDC on Base or Solana. No API key needed - payment is authentication. ' +
       'Returns proxy credentials (HTTP/SOCKS5) immediately after on-chain payment confirmation. ' +
       'Cost: $4.00/GB shared, $8.00/GB private. Duration is FREE. Min purchase: 0.1 GB ($0.40).',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        country: {
-          type: 'string',
-          description:
-            'Country code (ISO 3166-1 alpha-2). Examples: US, DE, UK, FR, NL, PL, IT, ES, RU, UA, TR, IN, BR, MX, CA',
-        },
-        duration_hours: {
-          type: 'number',
-          description: 'Duration in hours (1-720). Default: 1 hour',
-        },
-        traffic_gb: {
-          type: 'number',
-          description: 'Traffic allowance in GB (1-100). Default: 1 GB',
-        },
-        tier: {
-          type: 'string',
-          enum: ['shared', 'private'],
-          description:
-            'Proxy tier. shared=$4.00/GB, private=$8.00/GB (exclusive device). Duration is FREE. Default: shared',
-        },
-        city: {
-          type: 'string',
-          description: 'City code for specific location (optional)',
-        },
-        carrier: {
-          type: 'string',
-          description: 'Mobile carrier code (optional)',
-        },
-      },
-      required: ['country'],
-    },
+    schema: z.object({
+      country: z.string().min(2).max(3).describe(
+        'Country code (ISO 3166-1 alpha-2). Examples: US, DE, UK, FR, NL, PL, IT, ES, RU, UA, TR, IN, BR, MX, CA'
+      ),
+      duration_hours: z.number().min(1).max(720).optional().describe('Duration in hours. Default: 1 hour'),
+      traffic_gb: z.number().min(0.1).max(100).optional().describe('Traffic allowance in GB. Default: 1 GB'),
+      tier: z.enum(['shared', 'private']).optional().describe(
+        'Proxy tier. shared=$4.00/GB, private=$8.00/GB (exclusive device). Duration is FREE. Default: shared'
+      ),
+      city: z.string().optional().describe('City code for specific location (optional)'),
+      carrier: z.string().optional().describe('Mobile carrier code (optional)'),
+    }),
+    mutating: true,
+    confirm: 'payment',
   },
-  {
-    name: 'x402_get_pricing',
+  x402_get_pricing: {
     description:
       'Calculate pricing for x402 proxy purchase before buying. Duration is FREE - you only pay for traffic (shared=$4/GB, private=$8/GB).',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        traffic_gb: {
-          type: 'number',
-          description: 'Traffic in GB. Default: 1',
-        },
-        tier: {
-          type: 'string',
-          enum: ['shared', 'private'],
-          description: 'Proxy tier. Default: shared',
-        },
-      },
-      required: [],
-    },
+    schema: z.object({
+      traffic_gb: z.number().min(0.1).max(100).optional().describe('Traffic in GB. Default: 1'),
+      tier: z.enum(['shared', 'private']).optional().describe('Proxy tier. Default: shared'),
+    }),
   },
-  {
-    name: 'x402_list_sessions',
+  x402_list_sessions: {
     description:
       'List all active x402 proxy sessions for this wallet. Shows session IDs, locations, expiry times, and connection details.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {},
-      required: [],
-    },
+    schema: z.object({}),
   },
-  {
-    name: 'x402_check_session',
+  x402_check_session: {
     description:
       'Check status and traffic usage of an x402 session. Shows remaining time, traffic used/remaining, and connection details. ' +
       'If no session_id provided, shows the most recent active session.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        session_id: {
-          type: 'string',
-          description: 'Session ID to check (optional, uses most recent if not provided)',
-        },
-      },
-      required: [],
-    },
+    schema: z.object({
+      session_id: z.string().optional().describe('Session ID to check (optional, uses most recent if not provided)'),
+    }),
   },
-  {
-    name: 'x402_wallet_balance',
+  x402_wallet_balance: {
     description:
-      'Check USDC balance on Base network. Shows wallet address for topping up and current balance.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {},
-      required: [],
-    },
+      'Check USDC balance on Base and/or Solana (every configured wallet). Shows wallet addresses for topping up and current balances.',
+    schema: z.object({}),
   },
-  {
-    name: 'x402_rotate_ip',
+  x402_rotate_ip: {
     description:
       'Rotate the proxy to get a new IP address. Uses the rotation URL for the specified or most recent session.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        session_id: {
-          type: 'string',
-          description: 'Session ID to rotate (optional, uses most recent if not provided)',
-        },
-      },
-      required: [],
-    },
+    schema: z.object({
+      session_id: z.string().optional().describe('Session ID to rotate (optional, uses most recent if not provided)'),
+    }),
+    mutating: true,
   },
-  {
-    name: 'x402_list_countries',
+  x402_list_countries: {
     description:
       'List all available countries for proxy purchase. Shows country codes, names, and availability status. ' +
       'Use this to discover which locations are available before purchasing.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {},
-      required: [],
-    },
+    schema: z.object({}),
   },
-  {
-    name: 'x402_list_cities',
+  x402_list_cities: {
     description:
       'List available cities in a specific country. Useful for targeting specific metropolitan areas.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        country: {
-          type: 'string',
-          description: 'Country code (ISO 3166-1 alpha-2). Example: US, DE, UK',
-        },
-      },
-      required: ['country'],
-    },
+    schema: z.object({
+      country: z.string().min(2).max(3).describe('Country code (ISO 3166-1 alpha-2). Example: US, DE, UK'),
+    }),
   },
-  {
-    name: 'x402_list_carriers',
+  x402_list_carriers: {
     description:
       'List available mobile carriers in a specific country. Useful for targeting specific networks.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        country: {
-          type: 'string',
-          description: 'Country code (ISO 3166-1 alpha-2). Example: US, DE, UK',
-        },
-      },
-      required: ['country'],
-    },
+    schema: z.object({
+      country: z.string().min(2).max(3).describe('Country code (ISO 3166-1 alpha-2). Example: US, DE, UK'),
+    }),
   },
-  {
-    name: 'x402_extend_session',
+  x402_extend_session: {
     description:
       'Extend an active session by paying more USDC. Adds additional hours to the session expiry time. ' +
       'Requires payment - will send USDC automatically from your wallet.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        session_id: {
-          type: 'string',
-          description: 'Session ID to extend (optional, uses most recent if not provided)',
-        },
-        additional_hours: {
-          type: 'number',
-          description: 'Number of hours to add (1-168). Default: 1',
-        },
-      },
-      required: [],
-    },
+    schema: z.object({
+      session_id: z.string().optional().describe('Session ID to extend (optional, uses most recent if not provided)'),
+      additional_hours: z.number().min(1).max(168).optional().describe('Number of hours to add. Default: 1'),
+    }),
+    mutating: true,
+    confirm: 'payment',
+  },
+  x402_resume_pending: {
+    description:
+      'Recover x402 payments that were sent but never turned into a proxy (verification error, network drop, crash). ' +
+      'Re-submits the recorded payment proof - no new payment is made - and returns the proxy credentials. ' +
+      'Without payment_id, resumes every pending payment.',
+    schema: z.object({
+      payment_id: z.string().optional().describe('Payment ID or transaction hash of one pending payment (optional, resumes all if not provided)'),
+      discard: z.boolean().optional().describe(
+        'Remove the payment from the journal without re-submitting, e.g. after support resolved it. Requires payment_id'
+      ),
+    }),
+    mutating: true,
+  },
+  x402_set_session_policy: {
+    description:
+      'Let the server renew or top up a session automatically. Keeps the session alive until a date by extending it ' +
+      'shortly before expiry, and/or adds traffic when remaining GB drops below a threshold, within an optional spend cap. ' +
+      'Payments are sent from your wallet without further confirmation. Replaces any existing policy for the session.',
+    schema: z.object({
+      session_id: z.string().optional().describe('Session ID (optional, uses most recent if not provided)'),
+      keep_alive_until: z.string().datetime({ offset: true }).optional().describe('Keep the session alive until this time (ISO 8601)'),
+      extend_hours: z.number().int().min(1).max(168).optional().describe('Hours added per renewal. Default: 1'),
+      renew_within_minutes: z.number().int().min(10).max(1440).optional().describe('Renew when the session expires within this many minutes. Default: 30'),
+      topup_below_gb: z.number().min(0.01).max(100).optional().describe('Add traffic when remaining traffic falls below this many GB'),
+      topup_gb: z.number().min(0.1).max(100).optional().describe('GB added per top-up. Default: 1'),
+      session_token: z.string().optional().describe('Session token (x402s_...) returned at purchase, required for traffic top-ups'),
+      max_spend_usdc: z.number().positive().optional().describe('Never spend more than this much USDC on the session through this policy'),
+    }),
+    mutating: true,
+    confirm: 'always',
+  },
+  x402_list_session_policies: {
+    description:
+      'List auto-renew/top-up policies with their status, spend so far and the automatic payments they made.',
+    schema: z.object({}),
+  },
+  x402_remove_session_policy: {
+    description: 'Stop automatic renewals and top-ups for a session.',
+    schema: z.object({
+      session_id: z.string().describe('Session ID whose policy should be removed'),
+    }),
+    mutating: true,
   },
-  {
-    name: 'x402_service_status',
+  x402_service_status: {
     description:
       'Check x402 service health and availability. Returns service status and any maintenance notices.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {},
-      required: [],
-    },
+    schema: z.object({}),
   },
-] as const;
+});
+
+/**
+ * x402 tool definitions for MCP
+ */
+export const x402ToolDefinitions = toToolDefinitions(x402Tools);
 
 /**
  * Zod validation schemas for x402 tools
  */
-export const x402Schemas = {
-  x402_get_proxy: z.object({
-    country: z.string().min(2).max(3),
-    duration_hours: z.number().min(1).max(720).optional(),
-    traffic_gb: z.number().min(0.1).max(100).optional(),
-    tier: z.enum(['shared', 'private']).optional(),
-    city: z.string().optional(),
-    carrier: z.string().optional(),
-  }),
-  x402_get_pricing: z.object({
-    traffic_gb: z.number().min(0.1).max(100).optional(),
-    tier: z.enum(['shared', 'private']).optional(),
-  }),
-  x402_list_sessions: z.object({}),
-  x402_check_session: z.object({
-    session_id: z.string().optional(),
-  }),
-  x402_wallet_balance: z.object({}),
-  x402_rotate_ip: z.object({
-    session_id: z.string().optional(),
-  }),
-  x402_list_countries: z.object({}),
-  x402_list_cities: z.object({
-    country: z.string().min(2).max(3),
-  }),
-  x402_list_carriers: z.object({
-    country: z.string().min(2).max(3),
-  }),
-  x402_extend_session: z.object({
-    session_id: z.string().optional(),
-    additional_hours: z.number().min(1).max(168).optional(),
-  }),
-  x402_service_status: z.object({}),
-};
+export const x402Schemas = toToolSchemas(x402Tools);
 
 /**
  * Get all x402 tool names
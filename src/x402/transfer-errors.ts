@@ -0,0 +1,30 @@
+/**
+ * x402 Transfer Errors
+ * Wallets tell a transfer that never left the wallet apart from one whose
+ * outcome is unknown. Any other error from sendUSDC() means the USDC may have
+ * been sent.
+ */
+
+/**
+ * Thrown when a transfer failed before it was broadcast: no USDC was sent
+ */
+export class TransferNotSentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransferNotSentError';
+  }
+}
+
+/**
+ * Thrown when a transfer was broadcast but not confirmed (e.g. a receipt timeout).
+ * The USDC may have left the wallet.
+ */
+export class TransferUnconfirmedError extends Error {
+  public readonly transactionHash: string;
+
+  constructor(message: string, transactionHash: string) {
+    super(message);
+    this.name = 'TransferUnconfirmedError';
+    this.transactionHash = transactionHash;
+  }
+}
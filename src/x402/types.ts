@@ -31,6 +31,8 @@ export interface X402Config {
   maxDailySpendUSDC?: number;
   /** Max per-transaction in USDC (optional) */
   maxTransactionUSDC?: number;
+  /** Max lifetime spend in USDC (optional) */
+  maxTotalSpendUSDC?: number;
   /** Session cache path (optional) */
   sessionCachePath?: string;
 }
@@ -47,6 +49,25 @@ export interface WalletBalance {
   network: X402Network;
 }
 
+/**
+ * Wallet able to pay x402 requirements on one network.
+ * Implemented by AgentWallet (Base) and SolanaAgentWallet (Solana).
+ */
+export interface X402Wallet {
+  /** Wallet address (0x... on Base, base58 on Solana) */
+  readonly address: string;
+  /** Network this wallet pays on */
+  getNetwork(): X402Network;
+  /** USDC balance */
+  getBalance(): Promise<WalletBalance>;
+  /** Whether the wallet holds at least this many micro USDC */
+  hasSufficientBalance(amountMicroUSDC: string): Promise<boolean>;
+  /** Send USDC and wait for confirmation */
+  sendUSDC(recipient: string, amountMicroUSDC: string): Promise<TransferResult>;
+  /** Native gas token balance, formatted (e.g. "0.001000 ETH") */
+  getGasBalance(): Promise<string>;
+}
+
 /**
  * USDC transfer result
  */
@@ -164,13 +185,15 @@ export interface CachedSession {
   location: LocationInfo;
   rotationUrl: string;
   rotationToken: string;
+  /** Wallet that bought the session */
+  walletAddress?: string;
 }
 
 /**
- * Session cache structure
+ * Session cache structure. Holds the sessions of every wallet that used the
+ * file; only those of the configured wallets are shown.
  */
 export interface SessionCacheData {
-  walletAddress: string;
   sessions: CachedSession[];
   lastUpdated: string;
 }
@@ -187,3 +210,146 @@ export interface X402Pricing {
     trafficGB: number;
   };
 }
+
+/**
+ * Spend limits enforced on outgoing USDC payments (all optional)
+ */
+export interface SpendLimits {
+  /** Max per-transaction in USDC */
+  maxTransactionUSDC?: number;
+  /** Max spend within a rolling 24h window in USDC */
+  maxDailySpendUSDC?: number;
+  /** Max lifetime spend in USDC */
+  maxTotalSpendUSDC?: number;
+}
+
+/**
+ * Spend ledger entry (one per outgoing payment)
+ */
+export interface SpendLedgerEntry {
+  timestamp: string;
+  /** Amount in micro USDC */
+  amount: string;
+  transactionHash: string;
+  network: X402Network;
+  recipient: string;
+  /** Wallet that sent the payment */
+  payer: string;
+  /** What the payment was for, e.g. "purchase:US" */
+  purpose: string;
+}
+
+/**
+ * Spend ledger structure. Holds the payments of every wallet that used the
+ * file; only those of the configured wallets count against the limits.
+ */
+export interface SpendLedgerData {
+  entries: SpendLedgerEntry[];
+  lastUpdated: string;
+}
+
+/**
+ * Journal entry for an x402 payment whose proof the API has not accepted yet
+ */
+export interface PendingPayment {
+  /** Journal entry ID */
+  id: string;
+  /** Fingerprint of the purchase, e.g. "purchase:US:3600:1:shared::" */
+  key: string;
+  /** Resource URL the payment proof is submitted to */
+  url: string;
+  /** Payment option the transfer pays for (from the 402 response) */
+  requirement: X402AcceptOption;
+  /** "sending" while the transfer is in flight or was interrupted, "sent" once it confirmed */
+  status: 'sending' | 'sent';
+  /** Set once the transfer confirmed, or when an interrupted transfer was broadcast */
+  transactionHash?: string;
+  network: X402Network;
+  payer: string;
+  /** Amount in micro USDC */
+  amount: string;
+  /** What the payment was for, e.g. "purchase:US" */
+  purpose: string;
+  createdAt: string;
+  /** Proof submissions that failed */
+  attempts: number;
+  lastError?: string;
+  lastAttemptAt?: string;
+}
+
+/**
+ * Pending payment journal structure (payments of every wallet that used the file)
+ */
+export interface PendingPaymentsData {
+  payments: PendingPayment[];
+  lastUpdated: string;
+}
+
+/**
+ * Options for one payment: limits from session policies or from the amount a user confirmed
+ */
+export interface X402PaymentOptions {
+  /** Refuse the payment if it costs more than this (USDC) */
+  maxAmountUSDC?: number;
+  /** Called once USDC was sent, before the payment proof is submitted */
+  onTransfer?: (transfer: TransferResult) => void;
+}
+
+/**
+ * Session traffic top-up response
+ */
+export interface X402TopupResult {
+  sessionId: string;
+  trafficAllocatedGB: number;
+  expiresAt: string;
+}
+
+/**
+ * Automatic payment made for a session policy
+ */
+export interface SessionPolicyPayment {
+  at: string;
+  action: 'extend' | 'topup';
+  amountUSDC: number;
+  transactionHash: string;
+  network: X402Network;
+  detail: string;
+}
+
+/**
+ * Declarative renewal / top-up policy for one x402 session
+ */
+export interface SessionPolicy {
+  sessionId: string;
+  /** Keep extending the session until this time (ISO 8601) */
+  keepAliveUntil?: string;
+  /** Hours added per extension */
+  extendHours: number;
+  /** Extend once the session expires within this many minutes */
+  renewWithinMinutes: number;
+  /** Top up once remaining traffic drops below this many GB */
+  topupBelowGB?: number;
+  /** GB added per top-up */
+  topupGB?: number;
+  /** Session token (x402s_...) required for traffic top-ups */
+  sessionToken?: string;
+  /** Never spend more than this on the session in total (USDC) */
+  maxSpendUSDC?: number;
+  spentUSDC: number;
+  payments: SessionPolicyPayment[];
+  /** payment_unconfirmed: USDC was sent but the API did not accept the proof; not retried automatically */
+  status: 'active' | 'completed' | 'budget_exhausted' | 'session_ended' | 'payment_unconfirmed';
+  lastError?: string;
+  /** Wallet that bought the session */
+  walletAddress?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Session policy store structure (policies of every wallet that used the file)
+ */
+export interface SessionPoliciesData {
+  policies: SessionPolicy[];
+  lastUpdated: string;
+}
@@ -10,7 +10,8 @@ import {
 } from 'viem';
 import { base } from 'viem/chains';
 import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
-import type { WalletBalance, TransferResult, X402Network } from './types.js';
+import type { WalletBalance, TransferResult, X402Network, X402Wallet } from './types.js';
+import { TransferNotSentError, TransferUnconfirmedError } from './transfer-errors.js';
 
 /**
  * USDC contract address on Base
@@ -64,7 +65,7 @@ const ERC20_ABI = [
  * Agent Wallet for x402 payments
  * Manages USDC transactions on Base network
  */
-export class AgentWallet {
+export class AgentWallet implements X402Wallet {
   private account: PrivateKeyAccount;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private walletClient: any;
@@ -153,6 +154,13 @@ export class AgentWallet {
     }
   }
 
+  /**
+   * Get gas balance, formatted (X402Wallet)
+   */
+  async getGasBalance(): Promise<string> {
+    return `${await this.getEthBalance()} ETH`;
+  }
+
   /**
    * Check if wallet has sufficient balance for a transaction
    */
@@ -170,21 +178,22 @@ export class AgentWallet {
   ): Promise<TransferResult> {
     // Validate recipient format
     if (!recipient.startsWith('0x') || recipient.length !== 42) {
-      throw new Error(`Invalid recipient address: ${recipient}`);
+      throw new TransferNotSentError(`Invalid recipient address: ${recipient}`);
     }
 
     // Check balance
     const hasFunds = await this.hasSufficientBalance(amountMicroUSDC);
     if (!hasFunds) {
       const balance = await this.getBalance();
-      throw new Error(
+      throw new TransferNotSentError(
         `Insufficient USDC balance. Required: ${Number(amountMicroUSDC) / 1e6} USDC, Available: ${balance.formatted}`
       );
     }
 
+    // Send USDC transfer transaction
+    let hash: `0x${string}`;
     try {
-      // Send USDC transfer transaction
-      const hash = await this.walletClient.writeContract({
+      hash = await this.walletClient.writeContract({
         address: USDC_BASE_ADDRESS,
         abi: ERC20_ABI,
         functionName: 'transfer',
@@ -192,38 +201,51 @@ export class AgentWallet {
         chain: base,
         account: this.account,
       });
-
-      // Wait for confirmation
-      const receipt = await this.publicClient.waitForTransactionReceipt({
-        hash,
-        confirmations: 1,
-        timeout: 60_000, // 60 seconds
-      });
-
-      if (receipt.status !== 'success') {
-        throw new Error('Transaction failed on-chain');
-      }
-
-      return {
-        transactionHash: hash,
-        network: this.network,
-        amount: amountMicroUSDC,
-        recipient,
-      };
     } catch (error) {
-      // Handle specific error types
+      // Handle specific error types; these are raised before the transaction is broadcast
       const message = error instanceof Error ? error.message : 'Unknown error';
 
       if (message.includes('insufficient funds')) {
-        throw new Error('Insufficient ETH for gas fees. Please add ETH to your wallet.');
+        throw new TransferNotSentError('Insufficient ETH for gas fees. Please add ETH to your wallet.');
       }
 
       if (message.includes('user rejected')) {
-        throw new Error('Transaction was rejected');
+        throw new TransferNotSentError('Transaction was rejected');
       }
 
+      if (message.includes('execution reverted')) {
+        throw new TransferNotSentError(`USDC transfer failed: ${message}`);
+      }
+
+      // The RPC may have broadcast the transaction before failing
       throw new Error(`USDC transfer failed: ${message}`);
     }
+
+    // Wait for confirmation
+    let status: string;
+    try {
+      const receipt = await this.publicClient.waitForTransactionReceipt({
+        hash,
+        confirmations: 1,
+        timeout: 60_000, // 60 seconds
+      });
+      status = receipt.status;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new TransferUnconfirmedError(`USDC transfer ${hash} was sent but not confirmed: ${message}`, hash);
+    }
+
+    // A reverted transfer moves no USDC
+    if (status !== 'success') {
+      throw new TransferNotSentError(`USDC transfer ${hash} failed on-chain`);
+    }
+
+    return {
+      transactionHash: hash,
+      network: this.network,
+      amount: amountMicroUSDC,
+      recipient,
+    };
   }
 
   /**
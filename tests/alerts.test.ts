@@ -0,0 +1,100 @@
+/**
+ * Expiry and traffic alerts (fake sources, local webhook server)
+ */
+
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, expect, it, vi } from 'vitest';
+import type { ProxiesApi, Port } from '../src/api/index.js';
+import { paginate } from '../src/api/index.js';
+import { createAlertMonitor, type Alert } from '../src/monitor/index.js';
+import type { X402SessionCache } from '../src/x402/index.js';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('alert monitor', () => {
+  // Mutable account state behind a fake API
+  let ports: Port[] = [];
+  let availableTrafficGB = 10;
+  const api = {
+    ports: { iterate: () => paginate(async () => ports) },
+    account: { getTrafficBreakdown: async () => ({ availableTrafficGB }) },
+  } as unknown as ProxiesApi;
+
+  const port = (id: string, hoursLeft: number) => ({ _id: id, name: id, expiresAt: Date.now() + hoursLeft * HOUR }) as Port;
+
+  it('raises port expiry once, escalates it, and re-arms it when renewed', async () => {
+    const monitor = createAlertMonitor({ api });
+    ports = [port('port_1', 12), port('port_2', 48)];
+
+    const first = await monitor.evaluate();
+    expect(first.map(a => [a.id, a.severity])).toEqual([['port_expiry:port_1', 'warning']]);
+    expect(await monitor.evaluate()).toHaveLength(0);
+
+    ports = [port('port_1', 2), port('port_2', 48)];
+    const escalated = await monitor.evaluate();
+    expect(escalated.map(a => a.severity)).toEqual(['critical']);
+
+    ports = [port('port_1', 700), port('port_2', 48)];
+    await monitor.evaluate();
+    expect(monitor.getActiveAlerts()).toHaveLength(0);
+
+    ports = [port('port_1', 10)];
+    expect(await monitor.evaluate()).toHaveLength(1);
+  });
+
+  it('checks low traffic and x402 sessions against thresholds', async () => {
+    ports = [];
+    availableTrafficGB = 1.5;
+    const cache = {
+      getExpiringSoon: () => [{ id: 'sess_1', expiresAt: new Date(Date.now() + 0.5 * HOUR).toISOString() }],
+      getActiveSessions: () => [{ id: 'sess_1' }, { id: 'sess_2' }],
+    } as unknown as X402SessionCache;
+    const x402Client = {
+      getSessionStatus: async (id: string) => ({ id, traffic: { percentUsed: id === 'sess_2' ? 95 : 20, remainingGB: 0.05 } }),
+    } as never;
+
+    const monitor = createAlertMonitor({ api, sessionCache: cache, x402Client }, { thresholds: { minTrafficGB: 2 } });
+    const ids = (await monitor.evaluate()).map(a => a.id).sort();
+    expect(ids).toEqual(['traffic_low:account', 'x402_session_expiry:sess_1', 'x402_session_traffic:sess_2']);
+  });
+
+  it('keeps the alerts of a failing check', async () => {
+    availableTrafficGB = 0.1;
+    const monitor = createAlertMonitor({ api });
+    await monitor.evaluate();
+
+    const original = api.account.getTrafficBreakdown;
+    api.account.getTrafficBreakdown = async () => { throw new Error('API down'); };
+    const errorLog = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await monitor.evaluate();
+    errorLog.mockRestore();
+    api.account.getTrafficBreakdown = original;
+
+    expect(monitor.getActiveAlerts().map(a => a.id)).toContain('traffic_low:account');
+  });
+
+  it('POSTs raised alerts to the webhook and sends them to listeners', async () => {
+    const received: Array<{ alert: Alert }> = [];
+    const webhook = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push(JSON.parse(body));
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => webhook.listen(0, '127.0.0.1', resolve));
+
+    ports = [port('port_9', 1)];
+    availableTrafficGB = 10;
+    const monitor = createAlertMonitor({ api }, { webhookUrl: `http://127.0.0.1:${(webhook.address() as AddressInfo).port}/hook` });
+    const heard: Alert[] = [];
+    monitor.onAlert(alert => heard.push(alert));
+    await monitor.evaluate();
+    webhook.close();
+
+    expect(received.map(r => r.alert.id)).toEqual(['port_expiry:port_9']);
+    expect(heard.map(a => a.severity)).toEqual(['critical']);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * API key tools (fake API, temp audit log)
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+import type { ApiKey, ApiKeyScope, CreateApiKeyRequest, ProxiesApi } from '../src/api/index.js';
+import { createAuditLog } from '../src/audit/index.js';
+import { createApiKeyToolHandlers, createApiKeyToolPreviews } from '../src/tools/index.js';
+
+const SECRET = 'psx_live_0123456789abcdef0123456789abcdef';
+
+/** Fake API: the server's key has `scopes` (undefined: it cannot be read); created keys are recorded */
+function fakeApi(scopes: ApiKeyScope[] | undefined) {
+  const key = (id: string, keyScopes: ApiKeyScope[]): ApiKey => ({
+    _id: id, name: id, keyPrefix: 'psx_live_01', scopes: keyScopes, isActive: true, createdAt: '2026-01-01T00:00:00Z',
+  });
+  const current = key('key_server', scopes ?? []);
+  const created: CreateApiKeyRequest[] = [];
+  const revoked: string[] = [];
+
+  const api = {
+    apiKeys: {
+      getCurrent: async () => {
+        if (!scopes) throw new Error('Forbidden');
+        return current;
+      },
+      list: async () => [current, key('key_sub', ['ports:read'])],
+      create: async (request: CreateApiKeyRequest) => {
+        created.push(request);
+        return { ...key('key_new', request.scopes), name: request.name, expiresAt: request.expiresAt, key: SECRET };
+      },
+      revoke: async (keyId: string) => { revoked.push(keyId); return key(keyId, []); },
+    },
+  } as unknown as ProxiesApi;
+  return { api, created, revoked };
+}
+
+describe('API key tools', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'api-keys-'));
+
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('shows a new key once in the result and never writes it to the audit log', async () => {
+    const { api, created } = fakeApi(['admin:full']);
+    const log = createAuditLog(join(dir, 'audit.jsonl'));
+    const args = { name: 'sub-agent', scopes: ['ports:read' as const], expiresInDays: 7 };
+    const result = await log.recordToolCall('create_api_key', args, () => createApiKeyToolHandlers(api).create_api_key(args));
+
+    expect(typeof result !== 'string' && result.text).toContain(SECRET);
+    expect(readFileSync(log.getPath(), 'utf-8')).not.toContain(SECRET);
+    const expiresIn = new Date(created[0].expiresAt!).getTime() - Date.now();
+    expect(Math.abs(expiresIn - 7 * 86_400_000)).toBeLessThan(60_000);
+  });
+
+  it('does not grant scopes the server key lacks', async () => {
+    const { api, created } = fakeApi(['ports:read', 'account:write']);
+    await expect(createApiKeyToolHandlers(api).create_api_key({ name: 'x', scopes: ['ports:read', 'billing:write'] }))
+      .rejects.toThrow("Failed to create API key: the server's key lacks billing:write, so it cannot grant it");
+    expect(created).toHaveLength(0);
+
+    const preview = await createApiKeyToolPreviews(api).create_api_key({ name: 'x', scopes: ['billing:write'] });
+    expect(preview.failed).toBe(true);
+    expect(preview.text).toContain("the server's key lacks billing:write");
+  });
+
+  it('does not create a key when the server key scopes cannot be read', async () => {
+    const { api, created } = fakeApi(undefined);
+    await expect(createApiKeyToolHandlers(api).create_api_key({ name: 'x', scopes: ['ports:read'] }))
+      .rejects.toThrow("the scopes of the server's key could not be read");
+    expect(created).toHaveLength(0);
+
+    const preview = await createApiKeyToolPreviews(api).create_api_key({ name: 'x', scopes: ['ports:read'] });
+    expect(preview.failed).toBe(true);
+    expect(preview.data).toMatchObject({ error: 'scopes_unverifiable', scopes: ['ports:read'] });
+  });
+
+  it('refuses to revoke the server key but revokes other keys', async () => {
+    const { api, revoked } = fakeApi(['admin:full']);
+    const handlers = createApiKeyToolHandlers(api);
+    await expect(handlers.revoke_api_key({ keyId: 'key_server' })).rejects.toThrow('the key the server uses');
+    await handlers.revoke_api_key({ keyId: 'key_sub' });
+    expect(revoked).toEqual(['key_sub']);
+  });
+});
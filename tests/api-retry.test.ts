@@ -0,0 +1,135 @@
+/**
+ * API client retry policy (local mock HTTP server)
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { ApiClient, ApiClientError, parseRetryAfter, type RetryPolicy } from '../src/api/client.js';
+
+type Step = (req: IncomingMessage, res: ServerResponse) => void;
+
+/** Respond with a status, optional headers and a JSON body */
+const reply = (status: number, headers: Record<string, string> = {}): Step => (_req, res) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(status < 400 ? { ok: true } : { message: `status ${status}` }));
+};
+
+/** Drop the connection without a response */
+const reset: Step = (req) => req.socket.destroy();
+
+let steps: Step[] = [];
+let hits = 0;
+
+const server = createServer((req, res) => {
+  const step = steps[Math.min(hits, steps.length - 1)];
+  hits++;
+  req.resume();
+  step(req, res);
+});
+
+let baseUrl = '';
+
+function client(retry: Partial<RetryPolicy> = {}): ApiClient {
+  return new ApiClient({ baseUrl, token: 'test', authType: 'apiKey', retry: { baseDelayMs: 5, maxDelayMs: 20, ...retry } });
+}
+
+/** Serve these responses in order (the last one repeats) */
+function respondWith(...serverSteps: Step[]) {
+  steps = serverSteps;
+}
+
+describe('API client retry policy', () => {
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    hits = 0;
+  });
+
+  it('retries 503 on GET and succeeds', async () => {
+    respondWith(reply(503), reply(502), reply(200));
+    await expect(client().get('/v1/test')).resolves.toEqual({ ok: true });
+    expect(hits).toBe(3);
+  });
+
+  it('gives up after maxRetries', async () => {
+    respondWith(reply(504));
+    const error = await client({ maxRetries: 2 }).get('/v1/test').catch(e => e);
+    expect(error).toBeInstanceOf(ApiClientError);
+    expect(error.statusCode).toBe(504);
+    expect(hits).toBe(3);
+  });
+
+  it('honours Retry-After', async () => {
+    respondWith(reply(429, { 'Retry-After': '1' }), reply(200));
+    const started = Date.now();
+    await client().get('/v1/test');
+    expect(Date.now() - started).toBeGreaterThanOrEqual(900);
+    expect(hits).toBe(2);
+  });
+
+  it('fails immediately when Retry-After is above maxRetryAfterMs', async () => {
+    respondWith(reply(503, { 'Retry-After': '120' }), reply(200));
+    const error = await client().get('/v1/test').catch(e => e);
+    expect(error.statusCode).toBe(503);
+    expect(hits).toBe(1);
+  });
+
+  it('retries a connection reset on GET', async () => {
+    respondWith(reset, reply(200));
+    await client().get('/v1/test');
+    expect(hits).toBe(2);
+  });
+
+  it('does not retry POST on 503 or a connection reset', async () => {
+    respondWith(reply(503), reply(200));
+    const error = await client().post('/v1/billing/purchase-traffic', { quantity: 1 }).catch(e => e);
+    expect(error.statusCode).toBe(503);
+    expect(hits).toBe(1);
+
+    hits = 0;
+    respondWith(reset, reply(200));
+    await expect(client().post('/v1/billing/purchase-traffic', { quantity: 1 })).rejects.toThrow();
+    expect(hits).toBe(1);
+  });
+
+  it('retries POST on 429', async () => {
+    respondWith(reply(429, { 'Retry-After': '0' }), reply(200));
+    await client().post('/v1/billing/purchase-traffic', { quantity: 1 });
+    expect(hits).toBe(2);
+  });
+
+  it('retries a POST marked idempotent on 502', async () => {
+    respondWith(reply(502), reply(200));
+    await client().post('/v1/test', {}, undefined, { idempotent: true });
+    expect(hits).toBe(2);
+  });
+
+  it('does not retry non-transient errors', async () => {
+    respondWith(reply(400), reply(200));
+    const error = await client().get('/v1/test').catch(e => e);
+    expect(error.statusCode).toBe(400);
+    expect(hits).toBe(1);
+  });
+
+  it('does not retry with maxRetries 0', async () => {
+    respondWith(reply(503), reply(200));
+    await expect(client({ maxRetries: 0 }).get('/v1/test')).rejects.toThrow();
+    expect(hits).toBe(1);
+  });
+
+  it('parses Retry-After seconds and HTTP dates', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('garbage', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Audit log (temp files, no network)
+ */
+
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+import {
+  createAuditLog,
+  onUnattributedTransaction,
+  recordAuditEndpoint,
+  recordAuditTransaction,
+  type AuditTransaction,
+} from '../src/audit/index.js';
+import { toolFailure, toolResult } from '../src/utils/output.js';
+
+const TX: AuditTransaction = { hash: '0xabc', network: 'base', amountUSDC: 4, purpose: 'purchase:US' };
+
+describe('audit log', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'audit-log-'));
+  let run = 0;
+  const logPath = () => join(dir, `audit-${++run}.jsonl`);
+
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('records redacted args, endpoints and transactions of tool calls', async () => {
+    const log = createAuditLog(logPath());
+    await log.recordToolCall('update_port_credentials', { portId: 'p1', proxyPassword: 'hunter2' }, async () => {
+      recordAuditEndpoint('PATCH', 'https://api.proxies.sx/v1/ports/p1/credentials?x=1');
+      recordAuditTransaction(TX);
+      return toolResult('done', {});
+    });
+
+    const raw = readFileSync(log.getPath(), 'utf-8');
+    const [entry] = log.query();
+    expect(raw).not.toContain('hunter2');
+    expect(entry.args?.proxyPassword).toBe('[redacted]');
+    expect(entry.outcome).toBe('ok');
+    expect(entry.durationMs).toBeGreaterThanOrEqual(0);
+    expect(entry.endpoints).toEqual(['PATCH api.proxies.sx/v1/ports/p1/credentials']);
+    expect(entry.transactions[0]?.hash).toBe('0xabc');
+  });
+
+  it('records failures and errors and filters by them', async () => {
+    const log = createAuditLog(logPath());
+    await log.recordToolCall('rotate_port', {}, async () => toolFailure('Rotation not available yet\nmore', {}));
+    await log.recordToolCall('delete_port', {}, async () => { throw new Error('Port not found'); }).catch(() => undefined);
+    await log.recordToolCall('get_port', {}, async () => 'text');
+
+    const errors = log.query({ outcome: 'error' });
+    expect(errors.map(e => [e.tool, e.error])).toEqual([['delete_port', 'Port not found']]);
+    expect(log.query({ outcome: 'failed' })[0]?.error).toBe('Rotation not available yet');
+    expect(log.query({ tool: 'get_port' })).toHaveLength(1);
+    expect(log.query({ limit: 2 })[0].tool).toBe('get_port');
+    expect(log.query({ since: new Date(Date.now() + 60_000).toISOString() })).toHaveLength(0);
+  });
+
+  it('rotates the file by size and queries across rotated files', async () => {
+    const log = createAuditLog(logPath(), { maxBytes: 600, maxFiles: 3 });
+    for (let i = 0; i < 20; i++) {
+      await log.recordToolCall('get_port', { portId: `port_${i}` }, async () => 'ok');
+    }
+
+    expect(existsSync(`${log.getPath()}.2`)).toBe(true);
+    expect(existsSync(`${log.getPath()}.3`)).toBe(false);
+    const entries = log.query({ limit: 100 });
+    expect(entries[0].args?.portId).toBe('port_19');
+    expect(entries.length).toBeGreaterThan(3);
+    expect(entries.length).toBeLessThan(20);
+  });
+
+  it('sends payments made outside a tool call to the unattributed listeners', async () => {
+    const log = createAuditLog(logPath());
+    const unsubscribe = onUnattributedTransaction((transaction) => log.recordPayment(transaction));
+    recordAuditTransaction({ ...TX, purpose: 'extend:sess_1' });
+    unsubscribe();
+
+    const [entry] = log.query();
+    expect(entry?.kind).toBe('payment');
+    expect(entry.transactions[0].purpose).toBe('extend:sess_1');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Bulk port tools: selection, bounded concurrency and per-port results (fake API, no network)
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { ListPortsParams, Port, ProxiesApi } from '../src/api/index.js';
+import { createBulkToolHandlers, createBulkToolPreviews } from '../src/tools/bulk.js';
+
+const ports = [
+  { _id: 'p1', name: 'us-1', type: 'shared', status: 'active' },
+  { _id: 'p2', name: 'us-2', type: 'shared', status: 'active' },
+  { _id: 'p3', name: 'de-1', type: 'private', status: 'active' },
+  { _id: 'p4', name: 'us-3', type: 'private', status: 'active' },
+  { _id: 'p5', name: 'us-4', type: 'shared', status: 'active' },
+  { _id: 'p6', name: 'us-5', type: 'shared', status: 'active' },
+] as Port[];
+
+/** Fake API with slow rotations; `cooldown` ports cannot rotate and `broken` ports fail */
+function fakeApi(options: { cooldown?: string[]; broken?: string[] } = {}) {
+  const calls = { rotate: [] as string[], inFlight: 0, maxInFlight: 0 };
+  const api = {
+    ports: {
+      async *iterate(params: ListPortsParams) {
+        yield* ports.filter(p => !params.type || p.type === params.type);
+      },
+    },
+    rotation: {
+      canRotate: async (portId: string) => options.cooldown?.includes(portId)
+        ? { canRotate: false, reason: 'Rotation cooldown', nextAvailableRotation: '2026-01-01T00:00:00Z' }
+        : { canRotate: true },
+      rotate: async (portId: string) => {
+        calls.inFlight++;
+        calls.maxInFlight = Math.max(calls.maxInFlight, calls.inFlight);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        calls.inFlight--;
+        if (options.broken?.includes(portId)) throw new Error('Device offline');
+        calls.rotate.push(portId);
+        return { carrierName: 'T-Mobile' };
+      },
+    },
+  } as unknown as ProxiesApi;
+  return { api, calls };
+}
+
+describe('port selection', () => {
+  it('rejects a selector without filters', async () => {
+    const { api, calls } = fakeApi();
+    await expect(createBulkToolHandlers(api).bulk_rotate_ports({})).rejects.toThrow('all: true');
+    await expect(createBulkToolPreviews(api).bulk_rotate_ports({ concurrency: 2 })).rejects.toThrow('all: true');
+    expect(calls.rotate).toHaveLength(0);
+  });
+
+  it('selects every port with all: true', async () => {
+    const { api } = fakeApi();
+    const result = await createBulkToolHandlers(api).bulk_rotate_ports({ all: true });
+    expect(result.data).toMatchObject({ matched: 6, succeeded: 6 });
+  });
+
+  it('applies list filters and the name pattern', async () => {
+    const { api, calls } = fakeApi();
+    await createBulkToolHandlers(api).bulk_rotate_ports({ type: 'private', namePattern: 'US-*' });
+    expect(calls.rotate).toEqual(['p4']);
+  });
+});
+
+describe('bulk rotation', () => {
+  it('keeps at most `concurrency` operations in flight', async () => {
+    const { api, calls } = fakeApi();
+    await createBulkToolHandlers(api).bulk_rotate_ports({ all: true, concurrency: 2 });
+    expect(calls.rotate).toHaveLength(6);
+    expect(calls.maxInFlight).toBe(2);
+  });
+
+  it('skips ports in a rotation cooldown', async () => {
+    const { api, calls } = fakeApi({ cooldown: ['p2'] });
+    const result = await createBulkToolHandlers(api).bulk_rotate_ports({ type: 'shared' });
+    expect(calls.rotate).not.toContain('p2');
+    expect(result.data).toMatchObject({ matched: 4, succeeded: 3, skipped: 1, failed: 0 });
+  });
+
+  it('reports every port in a result table', async () => {
+    const { api } = fakeApi({ cooldown: ['p2'], broken: ['p5'] });
+    const result = await createBulkToolHandlers(api).bulk_rotate_ports({ type: 'shared' });
+    const lines = result.text.split('\n');
+
+    expect(lines[0]).toBe('Bulk rotation: 2 succeeded, 1 skipped, 1 failed (4 ports matched)');
+    expect(lines[2]).toMatch(/^Port\s+\| Port ID \| Result\s+\| Detail/);
+    expect(lines.slice(4)).toHaveLength(4);
+    expect(lines.find(l => l.startsWith('us-1'))).toMatch(/✅ succeeded\s+\| Rotated \(T-Mobile\)/);
+    expect(lines.find(l => l.startsWith('us-2'))).toMatch(/⏭️ skipped\s+\| Rotation cooldown \(next: 2026-01-01T00:00:00Z\)/);
+    expect(lines.find(l => l.startsWith('us-4'))).toMatch(/❌ failed\s+\| Device offline/);
+  });
+
+  it('previews the ports that would rotate without rotating', async () => {
+    const { api, calls } = fakeApi({ cooldown: ['p1'] });
+    const result = await createBulkToolPreviews(api).bulk_rotate_ports({ namePattern: 'us-?' });
+    expect(calls.rotate).toHaveLength(0);
+    expect(result.text).toContain('4 would change, 1 would skip');
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Tool confirmations (no network)
+ */
+
+import { describe, expect, it } from 'vitest';
+import { allToolDefinitions, createToolConfirmations, plannerToolDefinitions, type ToolDefinition } from '../src/tools/index.js';
+import { x402ToolDefinitions } from '../src/x402/tools.js';
+import { toolPreview } from '../src/utils/output.js';
+
+const tools: ToolDefinition[] = [...allToolDefinitions, ...x402ToolDefinitions, ...plannerToolDefinitions];
+const tool = (name: string) => tools.find(t => t.name === name)!;
+
+describe('tool confirmations', () => {
+  it('always requires destructive tools to be confirmed, x402 payments above the threshold', () => {
+    const confirmations = createToolConfirmations({ aboveUSDC: 5 });
+    expect(confirmations.isRequired(tool('delete_port'), toolPreview('Would delete', {}))).toBe(true);
+    expect(confirmations.isRequired(tool('purchase_private_traffic'), toolPreview('Would buy', {}))).toBe(true);
+    expect(confirmations.isRequired(tool('x402_get_proxy'), toolPreview('Would buy', { costUSDC: 4 }))).toBe(false);
+    expect(confirmations.isRequired(tool('x402_extend_session'), toolPreview('Would extend', { costUSDC: 8 }))).toBe(true);
+    expect(confirmations.isRequired(tool('x402_get_proxy'), toolPreview('Would re-submit', { costUSDC: 0 }))).toBe(false);
+    expect(confirmations.isRequired(tool('rotate_port'), toolPreview('Would rotate', {}))).toBe(false);
+  });
+
+  it('does not skip destructive tools whose preview costs nothing', () => {
+    const confirmations = createToolConfirmations();
+    expect(confirmations.isRequired(tool('delete_port'), toolPreview('Would delete', { costUSDC: 0 }))).toBe(true);
+    expect(confirmations.isRequired(tool('create_api_key'), toolPreview('Would create', {}))).toBe(true);
+    expect(confirmations.isRequired(tool('x402_set_session_policy'), toolPreview('Would set', { costUSDC: 0 }))).toBe(true);
+  });
+
+  it('requires confirmation for a plan only when it is executed', () => {
+    const confirmations = createToolConfirmations();
+    const preview = toolPreview('Would buy', { costUSDC: 0 });
+    expect(confirmations.isRequired(tool('plan_proxy_purchase'), preview, { country: 'US' })).toBe(false);
+    expect(confirmations.isRequired(tool('plan_proxy_purchase'), preview, { country: 'US', execute: true })).toBe(true);
+  });
+
+  it('limits a confirmed payment to its previewed cost', () => {
+    const confirmations = createToolConfirmations();
+    const preview = toolPreview('Would buy', { costUSDC: 4 });
+    expect(confirmations.paymentLimit(tool('x402_get_proxy'), preview)).toBe(4);
+    expect(confirmations.paymentLimit(tool('delete_port'), preview)).toBeUndefined();
+
+    const args = { country: 'US' };
+    const { confirmationToken } = confirmations.request('x402_get_proxy', args, preview, 4).data as { confirmationToken: string };
+    expect(confirmations.redeem(confirmationToken, 'x402_get_proxy', args)).toEqual({ maxAmountUSDC: 4 });
+  });
+
+  it('shows the preview and a token for the same call', () => {
+    const confirmations = createToolConfirmations();
+    const result = confirmations.request('delete_port', { portId: 'p1' }, toolPreview('Would delete this port.', { action: 'delete_port' }));
+    const data = result.data as { confirmationToken: string; dryRun?: boolean };
+
+    expect(result.text.startsWith('Confirmation required - nothing was changed.\n\nWould delete this port.')).toBe(true);
+    expect(data.confirmationToken).toMatch(/^cfm_/);
+    expect(data.dryRun).toBeUndefined();
+    expect(() => confirmations.redeem(data.confirmationToken, 'delete_port', { portId: 'p1' })).not.toThrow();
+    expect(() => confirmations.redeem(data.confirmationToken, 'delete_port', { portId: 'p1' })).toThrow('unknown or expired');
+  });
+
+  it('binds tokens to the tool and arguments', () => {
+    const confirmations = createToolConfirmations();
+    const { token } = confirmations.issue('purchase_shared_traffic', { quantityGB: 1 });
+    expect(() => confirmations.redeem(token, 'purchase_shared_traffic', { quantityGB: 100 })).toThrow('different call');
+
+    const second = confirmations.issue('x402_get_proxy', { country: 'US', tier: 'shared' });
+    expect(() => confirmations.redeem(second.token, 'x402_get_proxy', { tier: 'shared', country: 'US' })).not.toThrow();
+  });
+
+  it('expires tokens', async () => {
+    const confirmations = createToolConfirmations({ tokenTtlMs: 1 });
+    const { token } = confirmations.issue('delete_port', { portId: 'p1' });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(() => confirmations.redeem(token, 'delete_port', { portId: 'p1' })).toThrow('unknown or expired');
+  });
+});
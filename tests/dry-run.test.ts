@@ -0,0 +1,74 @@
+/**
+ * Dry-run previews of state-changing tools (fake API and x402 client)
+ */
+
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import type { ProxiesApi } from '../src/api/index.js';
+import { createAllToolPreviews } from '../src/tools/index.js';
+import { createSpendGuard, createX402ToolPreviews } from '../src/x402/index.js';
+
+/** Fake API whose mutating methods record that they were called */
+function fakeApi() {
+  const mutations: string[] = [];
+  const port = { _id: 'port_1', name: 'p1', status: 'active', serverIp: '1.2.3.4', httpPort: 8000, osFingerprint: '' };
+  const api = {
+    billing: {
+      calculatePrice: async (quantityGB: number) => ({ quantityGB, pricePerGB: 3.6, discountPercent: 10, totalPrice: quantityGB * 3.6 }),
+      getPricing: async () => ({ userTierInfo: null }),
+      purchaseSharedTraffic: async () => { mutations.push('purchaseSharedTraffic'); },
+    },
+    account: { getSummary: async () => ({ balance: 20 }) },
+    ports: {
+      get: async () => port,
+      delete: async () => { mutations.push('delete'); },
+    },
+  } as unknown as ProxiesApi;
+  return { api, mutations };
+}
+
+describe('dry-run previews', () => {
+  it('prices a traffic purchase against the balance without buying', async () => {
+    const { api, mutations } = fakeApi();
+    const result = await createAllToolPreviews(api).purchase_shared_traffic({ quantityGB: 10 });
+    const data = (result as { data: { dryRun: boolean; balanceAfter: number } }).data;
+
+    expect(mutations).toEqual([]);
+    expect(data.dryRun).toBe(true);
+    expect(data.balanceAfter).toBeCloseTo(-16);
+    expect((result as { text: string }).text).toContain('insufficient balance');
+  });
+
+  it('shows the port a deletion would remove', async () => {
+    const { api, mutations } = fakeApi();
+    const result = await createAllToolPreviews(api).delete_port({ portId: 'port_1' });
+    expect(mutations).toEqual([]);
+    expect((result as { text: string }).text.startsWith('Dry run - nothing was changed.')).toBe(true);
+  });
+
+  it('reports price, balance and spend limits of an x402 purchase without paying', async () => {
+    let purchased = false;
+    const spendGuard = createSpendGuard(['0xwallet'], { maxTransactionUSDC: 5 }, join(tmpdir(), 'dry-run-ledger-unused.json'));
+    const client = {
+      calculatePricing: ({ trafficGB }: { trafficGB: number }) => ({ totalCost: trafficGB * 4 }),
+      getPendingPurchase: () => undefined,
+      getSpendGuard: () => spendGuard,
+      purchaseProxy: async () => { purchased = true; },
+    } as never;
+    const wallet = {
+      getBalance: async () => ({ usdc: 50_000_000n, formatted: '$50.00 USDC' }),
+      getNetwork: () => 'base',
+    } as never;
+
+    const previews = createX402ToolPreviews(client, wallet, {} as never);
+    const result = await previews.x402_get_proxy({ country: 'US', traffic_gb: 2 });
+    const data = result.data as { costUSDC: number; sufficientBalance: boolean; withinSpendLimits: boolean };
+
+    expect(purchased).toBe(false);
+    expect(data.costUSDC).toBe(8);
+    expect(data.sufficientBalance).toBe(true);
+    expect(data.withinSpendLimits).toBe(false);
+    expect(result.text).toContain('would be refused');
+  });
+});
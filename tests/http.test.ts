@@ -0,0 +1,128 @@
+/**
+ * HTTP transport: authentication, bind safety and session lifecycle (local server)
+ */
+
+import { request } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { startHttpTransport, type HttpTransportHandle } from '../src/http.js';
+
+const TOKEN = 'test-token';
+
+const createSessionServer = () => new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test-client', version: '1.0.0' } },
+};
+
+describe('HTTP transport', () => {
+  let http: HttpTransportHandle;
+  let baseUrl = '';
+
+  const post = (path: string, body: unknown, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body: JSON.stringify(body),
+    });
+
+  /** Open a Streamable HTTP session and return its ID */
+  async function openSession(): Promise<string> {
+    const res = await post('/mcp', initialize, { Authorization: `Bearer ${TOKEN}` });
+    await res.body?.cancel();
+    expect(res.status).toBe(200);
+    return res.headers.get('mcp-session-id')!;
+  }
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    http = await startHttpTransport(createSessionServer, { port: 0, authToken: TOKEN, sessionIdleTimeoutMs: 100 });
+    baseUrl = `http://127.0.0.1:${(http.httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await http.close();
+    vi.restoreAllMocks();
+  });
+
+  it('answers 401 without the bearer token or with a wrong one', async () => {
+    const missing = await post('/mcp', initialize);
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+
+    const wrong = await post('/mcp', initialize, { Authorization: 'Bearer not-the-token' });
+    expect(wrong.status).toBe(401);
+    expect((await wrong.json()).error.message).toBe('Unauthorized');
+
+    expect((await fetch(`${baseUrl}/health`)).status).toBe(200);
+  });
+
+  it('refuses to bind a non-loopback host without a token', async () => {
+    await expect(startHttpTransport(createSessionServer, { port: 0, host: '0.0.0.0' }))
+      .rejects.toThrow('Refusing to listen on 0.0.0.0 without authentication');
+  });
+
+  it('answers 404 for an unknown session ID', async () => {
+    const auth = { Authorization: `Bearer ${TOKEN}` };
+    const streamable = await post('/mcp', { jsonrpc: '2.0', id: 2, method: 'tools/list' }, { ...auth, 'Mcp-Session-Id': 'unknown' });
+    expect(streamable.status).toBe(404);
+
+    const sse = await post('/messages?sessionId=unknown', { jsonrpc: '2.0', id: 2, method: 'tools/list' }, auth);
+    expect(sse.status).toBe(404);
+  });
+
+  it('closes sessions that stay idle and keeps active ones', async () => {
+    const sessionCount = async () => (await (await fetch(`${baseUrl}/health`)).json()).sessions as number;
+    const listTools = async (sessionId: string) => {
+      const res = await post('/mcp', { jsonrpc: '2.0', id: 2, method: 'tools/list' }, {
+        Authorization: `Bearer ${TOKEN}`,
+        'Mcp-Session-Id': sessionId,
+        'Mcp-Protocol-Version': '2025-03-26',
+      });
+      await res.body?.cancel();
+      return res.status;
+    };
+
+    const sessionId = await openSession();
+    for (let i = 0; i < 5; i++) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(await listTools(sessionId)).toBe(200);
+    }
+    expect(await sessionCount()).toBe(1);
+
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(await sessionCount()).toBe(0);
+    expect(await listTools(sessionId)).toBe(404);
+  });
+
+  it('refuses requests with a foreign Host or Origin when no token is set', async () => {
+    const local = await startHttpTransport(createSessionServer, { port: 0 });
+    const port = (local.httpServer.address() as AddressInfo).port;
+
+    /** POST with explicit Host/Origin headers (fetch cannot override Host) */
+    const status = (path: string, headers: Record<string, string>) => new Promise<number>((resolve, reject) => {
+      const req = request({ port, host: '127.0.0.1', path, method: 'POST', headers: {
+        'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers,
+      } }, (res) => {
+        res.resume();
+        resolve(res.statusCode!);
+      });
+      req.on('error', reject);
+      req.end(JSON.stringify(initialize));
+    });
+
+    try {
+      expect(await status('/mcp', { Host: `attacker.example:${port}` })).toBe(403);
+      expect(await status('/mcp', { Host: `localhost:${port}`, Origin: 'http://attacker.example' })).toBe(403);
+      expect(await status('/messages?sessionId=x', { Host: `rebound.example:${port}` })).toBe(403);
+      expect(await status('/mcp', { Host: `localhost:${port}`, Origin: `http://localhost:${port}` })).toBe(200);
+      expect(await status('/mcp', { Host: `127.0.0.1:${port}` })).toBe(200);
+    } finally {
+      await local.close();
+    }
+  });
+});
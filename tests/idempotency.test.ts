@@ -0,0 +1,333 @@
+/**
+ * Idempotent purchases and the x402 payment journal (local mock HTTP server)
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiClient, BillingApi, createIdempotencyKeyStore, type ProxiesApi } from '../src/api/index.js';
+import { createBillingToolHandlers } from '../src/tools/billing.js';
+import {
+  createX402Client,
+  createX402ToolHandlers,
+  createPendingPayments,
+  createSessionCache,
+  formatPendingPaymentReport,
+  TransferNotSentError,
+  TransferUnconfirmedError,
+  type X402Wallet,
+} from '../src/x402/index.js';
+
+type Step = (req: IncomingMessage, res: ServerResponse) => void;
+
+/** Respond with a status and JSON body */
+const reply = (status: number, body: object = status < 400 ? { ok: true } : { message: `status ${status}` }): Step => (_req, res) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+/** Drop the connection without a response */
+const reset: Step = (req) => req.socket.destroy();
+
+let steps: Step[] = [];
+let requests: IncomingMessage[] = [];
+
+const server = createServer((req, res) => {
+  const step = steps[Math.min(requests.length, steps.length - 1)];
+  requests.push(req);
+  req.resume();
+  step(req, res);
+});
+
+/** Serve these responses in order (the last one repeats) */
+function respondWith(...serverSteps: Step[]) {
+  steps = serverSteps;
+}
+
+const keyOf = (req: IncomingMessage) => req.headers['idempotency-key'];
+
+let baseUrl = '';
+const dir = mkdtempSync(join(tmpdir(), 'proxies-sx-idempotency-'));
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+describe('idempotent purchases', () => {
+  function billing(maxRetries = 0): BillingApi {
+    const client = new ApiClient({ baseUrl, token: 'test', authType: 'apiKey', retry: { maxRetries, baseDelayMs: 5, maxDelayMs: 20 } });
+    return new BillingApi(client, createIdempotencyKeyStore(join(dir, 'keys.json')));
+  }
+
+  it('sends an Idempotency-Key header', async () => {
+    respondWith(reply(200));
+    await billing().purchaseSharedTraffic(5);
+    expect(typeof keyOf(requests[0])).toBe('string');
+  });
+
+  it('does not retry a purchase on 502 but reuses its key when the caller repeats it', async () => {
+    respondWith(reply(502), reply(200));
+    await expect(billing(2).purchaseSharedTraffic(5)).rejects.toThrow();
+    expect(requests).toHaveLength(1);
+
+    const result = await billing(2).purchaseSharedTraffic(5);
+    expect(requests).toHaveLength(2);
+    expect(keyOf(requests[1])).toBe(keyOf(requests[0]));
+    expect(result.replayed).toBe(true);
+  });
+
+  it('retries a purchase on 429 and when the connection was refused', async () => {
+    respondWith(reply(429), reply(200));
+    await billing(2).purchaseSharedTraffic(6);
+    expect(requests).toHaveLength(2);
+    expect(keyOf(requests[1])).toBe(keyOf(requests[0]));
+
+    // Nothing listens on the port: the request never reached a server
+    const closed = createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(closed.address() as AddressInfo).port}`;
+    await new Promise(resolve => closed.close(resolve));
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const client = new ApiClient({ baseUrl: url, token: 'test', authType: 'apiKey', retry: { maxRetries: 2, baseDelayMs: 5, maxDelayMs: 20 } });
+    await expect(new BillingApi(client).purchaseSharedTraffic(1)).rejects.toThrow();
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+    fetchSpy.mockRestore();
+  });
+
+  it('reuses the key when a purchase with an unknown outcome is repeated', async () => {
+    respondWith(reset, reply(200));
+    await expect(billing().purchaseSharedTraffic(7)).rejects.toThrow();
+    const result = await billing().purchaseSharedTraffic(7);
+    expect(requests).toHaveLength(2);
+    expect(keyOf(requests[1])).toBe(keyOf(requests[0]));
+    expect(result.replayed).toBe(true);
+  });
+
+  it('says when a purchase replayed an earlier one', async () => {
+    respondWith(reset, reply(200, { purchase: { totalPrice: 12 } }));
+    const api = billing();
+    // Pricing lookups are best-effort; failing them keeps the requests to the purchases
+    const handlers = createBillingToolHandlers({
+      billing: { purchasePrivateTraffic: (gb: number) => api.purchasePrivateTraffic(gb), getPricing: () => Promise.reject(new Error('offline')) },
+    } as unknown as ProxiesApi);
+    await expect(handlers.purchase_private_traffic({ quantityGB: 2 })).rejects.toThrow();
+
+    const replayed = await handlers.purchase_private_traffic({ quantityGB: 2 });
+    expect(replayed.text).toContain('replayed earlier purchase');
+    expect(replayed.data).toMatchObject({ replayed: true });
+
+    const fresh = await handlers.purchase_private_traffic({ quantityGB: 2 });
+    expect(fresh.text).not.toContain('replayed');
+    expect(fresh.data).toMatchObject({ replayed: false });
+  });
+
+  it('uses a new key after a completed purchase', async () => {
+    respondWith(reply(200));
+    await billing().purchaseSharedTraffic(7);
+    await billing().purchaseSharedTraffic(7);
+    expect(keyOf(requests[1])).not.toBe(keyOf(requests[0]));
+  });
+
+  it('uses a new key after a rejected purchase', async () => {
+    respondWith(reply(400), reply(200));
+    await expect(billing().purchasePrivateTraffic(3)).rejects.toThrow();
+    await billing().purchasePrivateTraffic(3);
+    expect(keyOf(requests[1])).not.toBe(keyOf(requests[0]));
+  });
+
+  it('uses different keys for different purchases', async () => {
+    respondWith(reset);
+    await expect(billing().purchaseSharedTraffic(1)).rejects.toThrow();
+    await expect(billing().purchasePrivateTraffic(1)).rejects.toThrow();
+    expect(keyOf(requests[1])).not.toBe(keyOf(requests[0]));
+  });
+});
+
+describe('x402 payment journal', () => {
+  // 402 requirement, then proof submissions
+  const requirement = reply(402, {
+    paymentRequirement: {
+      accepts: [{ network: 'base', payTo: '0xrecipient', maxAmountRequired: '4000000' }],
+    },
+  });
+  const proxy = reply(200, { success: true, session: { id: 'sess_1' }, payment: { transactionHash: '0xabc' } });
+
+  let transfers = 0;
+  let sendError: Error | undefined;
+  const wallet = {
+    address: '0xwallet',
+    getNetwork: () => 'base',
+    getBalance: async () => ({ usdc: '100000000', formatted: '100.00 USDC' }),
+    hasSufficientBalance: async () => true,
+    sendUSDC: async (recipient: string, amount: string) => {
+      if (sendError) throw sendError;
+      transfers++;
+      return { transactionHash: `0xtx${transfers}`, network: 'base', amount, recipient };
+    },
+    getGasBalance: async () => '0.001 ETH',
+  } as unknown as X402Wallet;
+
+  function x402() {
+    return createX402Client(wallet, baseUrl, 'base', undefined, createPendingPayments([wallet.address], join(dir, 'pending.json')));
+  }
+
+  beforeEach(() => {
+    transfers = 0;
+    sendError = undefined;
+  });
+
+  it('re-submits the proof of an unconfirmed payment', async () => {
+    respondWith(requirement, reply(503), proxy);
+    const purchase = { country: 'us', trafficGB: 1 };
+    await expect(x402().purchaseProxy(purchase)).rejects.toThrow('0xtx1');
+    expect(x402().getPendingPurchase(purchase)?.transactionHash).toBe('0xtx1');
+
+    const result = await x402().purchaseProxy(purchase);
+    expect(result.session.id).toBe('sess_1');
+    expect(transfers).toBe(1);
+    expect(JSON.parse(String(requests[2].headers['x-payment'])).transactionHash).toBe('0xtx1');
+    expect(x402().getPendingPurchase(purchase)).toBeUndefined();
+  });
+
+  it('says when x402_get_proxy replayed an earlier purchase', async () => {
+    const session = {
+      id: 'sess_2',
+      proxy: { host: 'proxy.test', httpPort: 8080, socksPort: 1080, username: 'u', password: 'p' },
+      location: { countryCode: 'US' },
+      traffic: { allowedGB: 1 },
+      expiresAt: new Date(Date.now() + 3600_000).toISOString(),
+    };
+    const delivered = reply(200, { success: true, session, payment: { transactionHash: '0xtx1', network: 'base', amountPaid: '4.00' } });
+    respondWith(requirement, reply(503), delivered);
+    const client = x402();
+    const cache = createSessionCache([wallet.address], join(dir, 'sessions.json'));
+    const handlers = createX402ToolHandlers(client, wallet, cache, baseUrl);
+
+    expect((await handlers.x402_get_proxy({ country: 'us', trafficGB: 1 })).failed).toBe(true);
+    const replayed = await handlers.x402_get_proxy({ country: 'us', trafficGB: 1 });
+    expect(replayed.text).toMatch(/^Replayed earlier purchase/);
+    expect(replayed.text).toContain('0xtx1');
+    expect(replayed.data).toMatchObject({ replayed: true });
+    expect(transfers).toBe(1);
+  });
+
+  it('refuses to pay more than the confirmed amount', async () => {
+    respondWith(requirement, proxy);
+    const purchase = { country: 'fr', trafficGB: 1 };
+    await expect(x402().purchaseProxy(purchase, { maxAmountUSDC: 3.99 })).rejects.toThrow('exceeds the allowed $3.99 USDC');
+    expect(transfers).toBe(0);
+    expect(x402().getPendingPurchase(purchase)).toBeUndefined();
+
+    requests = [];
+    await x402().purchaseProxy(purchase, { maxAmountUSDC: 4 });
+    expect(transfers).toBe(1);
+  });
+
+  it('pays again once the earlier purchase was confirmed', async () => {
+    respondWith(requirement, proxy);
+    await x402().purchaseProxy({ country: 'us', trafficGB: 1 });
+    expect(transfers).toBe(1);
+  });
+
+  it('keeps a failed payment for x402_resume_pending', async () => {
+    respondWith(requirement, reply(400), proxy);
+    await expect(x402().purchaseProxy({ country: 'de', trafficGB: 2 })).rejects.toThrow('x402_resume_pending');
+
+    const journal = createPendingPayments([wallet.address], join(dir, 'pending.json'));
+    const [payment] = journal.list();
+    expect(payment).toMatchObject({ status: 'sent', attempts: 1, requirement: { payTo: '0xrecipient' } });
+    expect(journal.find(payment.transactionHash!)).toBe(payment);
+
+    const client = createX402Client(wallet, baseUrl, 'base', undefined, journal);
+    await client.resumePayment(payment);
+    expect(transfers).toBe(1); // the original payment only
+    expect(journal.list()).toHaveLength(0);
+  });
+
+  it('reports interrupted transfers with support details', async () => {
+    respondWith(reply(200));
+    const journal = createPendingPayments([wallet.address], join(dir, 'pending.json'));
+    journal.add({
+      id: 'pay_1',
+      key: 'purchase:US:3600:1:shared::',
+      url: `${baseUrl}/x402/proxy?country=US`,
+      requirement: { payTo: '0xrecipient', network: 'base', maxAmountRequired: '4000000' } as never,
+      status: 'sending',
+      network: 'base',
+      payer: wallet.address,
+      amount: '4000000',
+      purpose: 'purchase:US',
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    });
+
+    const report = formatPendingPaymentReport(journal.list(), journal.getPath());
+    for (const expected of ['pay_1', '0xrecipient', '$4.00 USDC', 'x402_resume_pending']) {
+      expect(report).toContain(expected);
+    }
+    // An unconfirmed transfer must not be re-submitted
+    expect(x402().getPendingPurchase({ country: 'us' })).toBeUndefined();
+    await expect(x402().resumePayment(journal.list()[0])).rejects.toThrow();
+  });
+
+  it('keeps a transfer that was broadcast but not confirmed', async () => {
+    respondWith(requirement, proxy);
+    sendError = new TransferUnconfirmedError('Receipt timed out', '0xlate');
+    const purchase = { country: 'jp', trafficGB: 1 };
+    await expect(x402().purchaseProxy(purchase)).rejects.toThrow('0xlate');
+    expect(x402().getPendingPurchase(purchase)).toMatchObject({ status: 'sending', transactionHash: '0xlate' });
+
+    // Repeating the purchase submits the broadcast transaction instead of paying again
+    sendError = undefined;
+    respondWith(proxy);
+    requests = [];
+    await x402().purchaseProxy(purchase);
+    expect(transfers).toBe(0);
+    expect(JSON.parse(String(requests[0].headers['x-payment'])).transactionHash).toBe('0xlate');
+    expect(x402().getPendingPurchase(purchase)).toBeUndefined();
+  });
+
+  it('refuses to repeat a purchase whose transfer outcome is unknown', async () => {
+    respondWith(requirement, proxy);
+    sendError = new Error('USDC transfer failed: socket hang up');
+    const purchase = { country: 'nl', trafficGB: 1 };
+    await expect(x402().purchaseProxy(purchase)).rejects.toThrow('may have been sent');
+
+    const journal = createPendingPayments([wallet.address], join(dir, 'pending.json'));
+    const payment = journal.list().find(p => p.purpose === 'purchase:NL');
+    expect(payment).toMatchObject({ status: 'sending', lastError: 'USDC transfer failed: socket hang up' });
+
+    sendError = undefined;
+    await expect(x402().purchaseProxy(purchase)).rejects.toThrow(payment!.id);
+    expect(transfers).toBe(0);
+    journal.remove(payment!);
+  });
+
+  it('forgets a transfer that was never sent', async () => {
+    respondWith(requirement, proxy);
+    sendError = new TransferNotSentError('Insufficient ETH for gas fees. Please add ETH to your wallet.');
+    const purchase = { country: 'it', trafficGB: 1 };
+    await expect(x402().purchaseProxy(purchase)).rejects.toThrow('Insufficient ETH');
+
+    const journal = createPendingPayments([wallet.address], join(dir, 'pending.json'));
+    expect(journal.list().find(p => p.purpose === 'purchase:IT')).toBeUndefined();
+  });
+
+  it('names the transaction when a paid extension is not accepted', async () => {
+    respondWith(reply(200, { id: 'sess_1' }), requirement, reply(500));
+    await expect(x402().extendSession('sess_1', 1)).rejects.toThrow('Payment 0xtx1 for extend:sess_1 was sent');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Paginated listings (page iterator, cursors, list_ports sorting)
+ */
+
+import { describe, expect, it } from 'vitest';
+import { paginate, type PageRequest, type ProxiesApi, type Port } from '../src/api/index.js';
+import { encodeCursor, decodeCursor } from '../src/tools/pagination.js';
+import { createPortToolHandlers } from '../src/tools/ports.js';
+
+/** Page fetcher over an in-memory list that records requested pages */
+function pagedSource<T>(items: T[], requests: PageRequest[] = []) {
+  return async (request: PageRequest) => {
+    requests.push(request);
+    const data = items.slice(request.offset, request.offset + request.limit);
+    return { data, total: items.length, page: request.page, limit: request.limit, totalPages: Math.ceil(items.length / request.limit) };
+  };
+}
+
+const range = (n: number) => Array.from({ length: n }, (_, i) => i);
+
+function port(i: number, country: string, expiresAt: number, trafficIn: number): Port {
+  return {
+    _id: `port_${i}`,
+    name: `port-${i}`,
+    slotType: 'shared',
+    status: 'active',
+    countryName: country,
+    expiresAt,
+    baseTrafficIn: 0,
+    lastTrafficIn: trafficIn,
+    baseTrafficOut: 0,
+    lastTrafficOut: 0,
+  } as unknown as Port;
+}
+
+describe('page iterator', () => {
+  it('walks every page', async () => {
+    const requests: PageRequest[] = [];
+    const iterator = paginate(pagedSource(range(25), requests), { pageSize: 10 });
+    const items = await iterator.take(100);
+    expect(items).toHaveLength(25);
+    expect(items[24]).toBe(24);
+    expect(requests).toHaveLength(3);
+    expect(iterator.total).toBe(25);
+  });
+
+  it('starts mid-page at an offset and stops early', async () => {
+    const requests: PageRequest[] = [];
+    const items = await paginate(pagedSource(range(100), requests), { pageSize: 10, offset: 15 }).take(3);
+    expect(items).toEqual([15, 16, 17]);
+    expect(requests.map(r => r.page)).toEqual([2]);
+  });
+
+  it('treats plain array responses as a single page', async () => {
+    const items = await paginate(async () => range(5), { offset: 2 }).take(10);
+    expect(items).toEqual([2, 3, 4]);
+  });
+});
+
+describe('cursors', () => {
+  it('round-trip and are bound to their query', () => {
+    const cursor = encodeCursor(40, { status: 'active', sortBy: undefined });
+    expect(decodeCursor(cursor, { status: 'active' })).toBe(40);
+    expect(decodeCursor(undefined, {})).toBe(0);
+
+    expect(() => decodeCursor(cursor, { status: 'expired' })).toThrow();
+    expect(() => decodeCursor('not-a-cursor', {})).toThrow();
+  });
+});
+
+describe('list_ports', () => {
+  const ports = range(7).map(i => port(i, ['Germany', 'Austria', 'Brazil'][i % 3], 1000 - i, i * 100));
+  const api = {
+    ports: { iterate: (filters: object, options?: object) => paginate(pagedSource(ports), { pageSize: 3, ...options }) },
+  } as unknown as ProxiesApi;
+  const handlers = createPortToolHandlers(api);
+
+  it('reports totals and continues with a cursor', async () => {
+    const first = await handlers.list_ports({ limit: 4 });
+    const data = first.data as { total: number; ports: Port[]; nextCursor: string | null };
+    expect(data.total).toBe(7);
+    expect(data.ports).toHaveLength(4);
+    expect(data.nextCursor).not.toBeNull();
+
+    const second = (await handlers.list_ports({ limit: 4, cursor: data.nextCursor! })).data as typeof data;
+    expect(second.ports.map(p => p._id)).toEqual(['port_4', 'port_5', 'port_6']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('sorts across all pages', async () => {
+    const byTraffic = (await handlers.list_ports({ sortBy: 'traffic', limit: 2 })).data as { ports: Port[] };
+    expect(byTraffic.ports.map(p => p._id)).toEqual(['port_6', 'port_5']);
+
+    const byExpiry = (await handlers.list_ports({ sortBy: 'expiry', limit: 1 })).data as { ports: Port[] };
+    expect(byExpiry.ports[0]._id).toBe('port_6');
+
+    const byCountry = (await handlers.list_ports({ sortBy: 'country', sortOrder: 'desc', limit: 7 })).data as { ports: Port[] };
+    expect(byCountry.ports[0].countryName).toBe('Germany');
+    expect(byCountry.ports[6].countryName).toBe('Austria');
+  });
+});
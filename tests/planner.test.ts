@@ -0,0 +1,141 @@
+/**
+ * Budget-aware purchase planner (fake API and x402 sources)
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { ProxiesApi } from '../src/api/index.js';
+import { createPlannerToolHandlers, type PlannerSources, type PurchasePlan } from '../src/tools/index.js';
+import { toolResult } from '../src/utils/output.js';
+
+/** Fake account: $50 balance, 1 GB shared traffic left, no private devices in FR */
+function fakeApi() {
+  const calls = { traffic: [] as number[], ports: [] as string[] };
+  const country = (code: string, freeDeviceCount: number) => ({ _id: `id_${code}`, code, name: code, isActive: true, freeDeviceCount });
+  const api = {
+    billing: {
+      getPricing: async () => ({
+        basePrices: { shared: 4, private: 8 },
+        volumeDiscounts: [{ minGB: 1, maxGB: 9, discountPercent: 0 }, { minGB: 10, maxGB: null, discountPercent: 10 }],
+        slotTiers: [],
+        userTierInfo: null,
+      }),
+      purchaseSharedTraffic: async (gb: number) => { calls.traffic.push(gb); return {}; },
+      purchasePrivateTraffic: async (gb: number) => { calls.traffic.push(gb); return {}; },
+    },
+    account: {
+      getSummary: async () => ({
+        balance: 50,
+        currency: 'USD',
+        shared: { slots: { total: 10, used: 0, available: 10 }, trafficGB: { total: 1, used: 0, available: 1 } },
+        alerts: [],
+      }),
+    },
+    reference: {
+      getAvailableCountries: async (isPrivate: boolean) =>
+        isPrivate ? [country('DE', 5)] : [country('DE', 5), country('FR', 1), country('US', 20)],
+    },
+    ports: {
+      create: async (data: { countryId: string }) => {
+        calls.ports.push(data.countryId);
+        return { _id: `port_${calls.ports.length}`, serverIp: '1.2.3.4', httpPort: 8000, proxyLogin: 'u', proxyPassword: 'p' };
+      },
+    },
+  } as unknown as ProxiesApi;
+  return { api, calls };
+}
+
+/** Fake x402 wallets with USDC balances, selling DE/FR/US at the published rates */
+function fakeX402(...balancesUSDC: number[]): NonNullable<PlannerSources['x402']> {
+  const wallets = balancesUSDC.map(balanceUSDC => ({
+    getBalance: async () => ({ usdc: BigInt(balanceUSDC * 1e6), formatted: `$${balanceUSDC}` }),
+  }));
+  return {
+    client: {
+      calculatePricing: ({ trafficGB, tier }: { trafficGB: number; tier: string }) => ({ totalCost: trafficGB * (tier === 'private' ? 8 : 4) }),
+      getWallets: () => wallets,
+    } as never,
+    handlers: {
+      x402_list_countries: async () => toolResult('', { countries: [{ code: 'DE' }, { code: 'FR' }, { code: 'US' }] }),
+      x402_list_cities: async () => toolResult('', { cities: [{ name: 'Berlin' }] }),
+      x402_list_carriers: async () => toolResult('', { carriers: [{ name: 'Vodafone' }] }),
+      x402_get_proxy: async () => toolResult('', { session: { id: 'sess_1' }, connectionStrings: { http: 'http://u:p@host:1' } }),
+    } as never,
+  };
+}
+
+const DE_FR_US = [{ country: 'de', trafficGB: 2 }, { country: 'fr', trafficGB: 2 }, { country: 'us', trafficGB: 2 }];
+
+describe('purchase planner', () => {
+  it('uses existing traffic and one discounted purchase per tier on the account', async () => {
+    const { api } = fakeApi();
+    const handlers = createPlannerToolHandlers({ api });
+    const result = await handlers.plan_proxy_purchase({ requirements: [{ country: 'US', count: 6, trafficGB: 2 }], budgetUSD: 45 });
+    const { plan } = result.data as { plan: PurchasePlan };
+
+    // 12 GB needed, 1 GB on hand: 11 GB at $4 less 10%
+    expect(plan.purchases.map(p => p.quantityGB)).toEqual([11]);
+    expect(plan.totalUSD).toBe(39.6);
+    expect(plan.feasible).toBe(true);
+  });
+
+  it('picks the cheapest feasible method and explains infeasible items', async () => {
+    const { api } = fakeApi();
+    const handlers = createPlannerToolHandlers({ api, x402: fakeX402(100) });
+
+    const cheap = await handlers.plan_proxy_purchase({ requirements: DE_FR_US, budgetUSD: 30 });
+    const best = (cheap.data as { plan: PurchasePlan }).plan;
+    expect(best.method).toBe('account');
+    expect(best.totalUSD).toBe(20);
+
+    const twoInFrance = await handlers.plan_proxy_purchase({ requirements: [{ country: 'FR', count: 2, trafficGB: 1 }], budgetUSD: 30 });
+    const plan = (twoInFrance.data as { plan: PurchasePlan; alternatives: PurchasePlan[] });
+    expect(plan.plan.method).toBe('x402');
+    expect(plan.plan.feasible).toBe(true);
+    expect(plan.alternatives[0].problems.some(p => p.includes('1 free shared device(s), 2 needed'))).toBe(true);
+  });
+
+  it('counts the balance of every wallet', async () => {
+    const plan = async (...balances: number[]) => {
+      const handlers = createPlannerToolHandlers({ x402: fakeX402(...balances) });
+      return ((await handlers.plan_proxy_purchase({ requirements: DE_FR_US, budgetUSD: 30 })).data as { plan: PurchasePlan }).plan;
+    };
+
+    // $24 plan
+    expect(await plan(2, 30)).toMatchObject({ feasible: true, warnings: [] });
+    expect((await plan(12, 12)).warnings[0]).toContain('No single wallet covers the plan total');
+    expect((await plan(10, 10)).problems).toContain('Wallets hold $20.00 USDC, $4.00 short of the plan total');
+  });
+
+  it('marks x402 purchases outside the x402_get_proxy limits as infeasible', async () => {
+    const handlers = createPlannerToolHandlers({ x402: fakeX402(10_000) });
+    const plan = async (args: { trafficGB: number; durationHours?: number }) =>
+      ((await handlers.plan_proxy_purchase({ requirements: [{ country: 'US', trafficGB: args.trafficGB }], durationHours: args.durationHours, budgetUSD: 5000, execute: true }))
+        .data as { plan: PurchasePlan; executed: boolean });
+
+    const tooLong = await plan({ trafficGB: 1, durationHours: 1000 });
+    expect(tooLong.executed).toBe(false);
+    expect(tooLong.plan.problems[0]).toMatch(/^US: outside x402 purchase limits \(duration_hours .*720/);
+
+    const tooMuch = await plan({ trafficGB: 500 });
+    expect(tooMuch.plan.items[0]).toMatchObject({ available: false });
+    expect(tooMuch.plan.problems[0]).toMatch(/traffic_gb .*100/);
+  });
+
+  it('does not execute over-budget plans', async () => {
+    const handlers = createPlannerToolHandlers({ x402: fakeX402(100) });
+    const result = await handlers.plan_proxy_purchase({ requirements: DE_FR_US, budgetUSD: 20, execute: true });
+    expect(result.failed).toBe(true);
+    expect(result.text).toContain('exceeds the budget');
+    expect((result.data as { executed: boolean }).executed).toBe(false);
+  });
+
+  it('buys traffic and creates every port on execute', async () => {
+    const { api, calls } = fakeApi();
+    const handlers = createPlannerToolHandlers({ api });
+    const result = await handlers.plan_proxy_purchase({ requirements: DE_FR_US, budgetUSD: 30, durationHours: 6, execute: true });
+    expect(result.failed).toBeFalsy();
+    expect((result.data as { executed: boolean }).executed).toBe(true);
+    expect(calls.traffic).toEqual([5]);
+    expect(calls.ports).toEqual(['id_DE', 'id_FR', 'id_US']);
+  });
+});
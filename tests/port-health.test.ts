@@ -0,0 +1,118 @@
+/**
+ * Port health monitor (fake API, no network)
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { ProxiesApi } from '../src/api/index.js';
+import { createPortHealthMonitor } from '../src/monitor/index.js';
+import { createHealthToolHandlers, createHealthToolPreviews } from '../src/tools/health.js';
+
+/** Fake API whose ping results are scripted per call */
+function fakeApi(pings: boolean[], options: { canRotate?: boolean } = {}) {
+  const calls = { ping: 0, speedTest: 0, rotate: 0 };
+  const api = {
+    ports: {
+      getStatus: async (portId: string) => ({ portId, isOnline: pings[Math.min(calls.ping, pings.length - 1)], lastChecked: '' }),
+      ping: async () => {
+        const ok = pings[Math.min(calls.ping++, pings.length - 1)];
+        return ok ? { success: true, responseTime: 100 } : { success: false, error: 'timeout' };
+      },
+      speedTest: async (portId: string) => {
+        calls.speedTest++;
+        return { portId, downloadMbps: 20, uploadMbps: 5, latencyMs: 100, testedAt: new Date().toISOString() };
+      },
+    },
+    rotation: {
+      canRotate: async () => ({ canRotate: options.canRotate ?? true, reason: 'cooldown' }),
+      rotate: async () => {
+        calls.rotate++;
+        return {};
+      },
+    },
+  } as unknown as ProxiesApi;
+  return { api, calls };
+}
+
+describe('port health monitor', () => {
+  it('tracks uptime, ping success and outage events', async () => {
+    const { api, calls } = fakeApi([true, true, false, true]);
+    const monitor = createPortHealthMonitor(api, { speedTestEvery: 1 });
+    monitor.watch(['port_1']);
+    for (let i = 0; i < 4; i++) await monitor.probeAll();
+    monitor.stop();
+
+    const [summary] = monitor.report('port_1');
+    expect(summary.probes).toBe(4);
+    expect(summary.uptimePercent).toBe(75);
+    expect(summary.pingSuccessPercent).toBe(75);
+    expect(summary.avgLatencyMs).toBe(100);
+    expect(calls.speedTest).toBe(3);
+    expect(summary.throughput?.downloadMbps).toBe(20);
+    expect(summary.events.map(e => e.type)).toEqual(['offline', 'online']);
+    expect(summary.degradations.some(d => d.includes('Uptime 75%'))).toBe(true);
+  });
+
+  it('rotates a port once after N consecutive failed pings', async () => {
+    const { api, calls } = fakeApi([false]);
+    const monitor = createPortHealthMonitor(api, { autoRotateAfter: 3, speedTestEvery: 0 });
+    const rotated: string[] = [];
+    monitor.onAutoRotate(portId => rotated.push(portId));
+    monitor.watch(['port_1']);
+    for (let i = 0; i < 4; i++) await monitor.probeAll();
+    monitor.stop();
+
+    expect(calls.rotate).toBe(1);
+    expect(rotated).toEqual(['port_1']);
+    const [summary] = monitor.report();
+    expect(summary.events.some(e => e.type === 'auto_rotated')).toBe(true);
+    // the failure streak restarts after rotating
+    expect(summary.consecutivePingFailures).toBe(1);
+  });
+
+  it('reports the rotation cooldown instead of rotating', async () => {
+    const { api, calls } = fakeApi([false], { canRotate: false });
+    const monitor = createPortHealthMonitor(api, { autoRotateAfter: 2, speedTestEvery: 0 });
+    monitor.watch(['port_1']);
+    for (let i = 0; i < 3; i++) await monitor.probeAll();
+    monitor.stop();
+
+    expect(calls.rotate).toBe(0);
+    const events = monitor.report()[0].events.filter(e => e.type === 'auto_rotate_skipped');
+    expect(events).toHaveLength(1);
+    expect(events[0].detail).toContain('cooldown');
+  });
+
+  it('backs get_port_health_report and configure_port_health_monitor', async () => {
+    const { api } = fakeApi([true]);
+    const monitor = createPortHealthMonitor(api);
+    const handlers = createHealthToolHandlers(monitor);
+
+    const empty = await handlers.get_port_health_report({});
+    expect(empty.text).toContain('configure_port_health_monitor');
+
+    await handlers.configure_port_health_monitor({ watch: ['port_1'], autoRotateAfter: 5 });
+    await monitor.probeAll();
+    const report = await handlers.get_port_health_report({});
+    expect(report.text).toContain('healthy');
+    expect(report.text).toContain('auto-rotate after 5');
+
+    await handlers.configure_port_health_monitor({ stop: true });
+    expect(monitor.getSettings().running).toBe(false);
+  });
+
+  it('previews a monitor change without applying it', async () => {
+    const { api, calls } = fakeApi([true]);
+    const monitor = createPortHealthMonitor(api);
+    monitor.watch(['port_1']);
+    await monitor.probeAll();
+
+    const preview = await createHealthToolPreviews(monitor).configure_port_health_monitor({ watch: ['port_2'], unwatch: ['port_1'], autoRotateAfter: 3 });
+    monitor.stop();
+
+    expect(preview.text).toContain('Dry run - nothing was changed.');
+    expect(preview.text).toContain('to:   Monitor running: 1 port(s), every 300s, speed test every 12 probes, auto-rotate after 3 failed pings');
+    expect(preview.data).toMatchObject({ settings: { portIds: ['port_2'], autoRotateAfter: 3 } });
+    expect(monitor.getSettings()).toMatchObject({ portIds: ['port_1'], autoRotateAfter: 0 });
+    expect(calls.ping).toBe(1);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Purchase history, receipts and exports: filters, paging and CSV (fake API, no network)
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Purchase, ProxiesApi } from '../src/api/index.js';
+import { createBillingToolHandlers } from '../src/tools/billing.js';
+
+const purchase = (id: string, createdAt: string, overrides: Partial<Purchase> = {}): Purchase => ({
+  _id: id,
+  userId: 'user_1',
+  type: 'traffic',
+  category: 'shared',
+  quantity: 5,
+  pricePerUnit: 4,
+  totalPrice: 20,
+  paymentMethod: 'balance',
+  paymentStatus: 'completed',
+  createdAt,
+  ...overrides,
+} as Purchase);
+
+// Newest first, as the API returns them
+const history = [
+  purchase('p6', '2026-03-02T09:00:00Z', { category: 'private', pricePerUnit: 8, totalPrice: 40 }),
+  purchase('p5', '2026-03-01T23:30:00Z', { paymentStatus: 'failed' }),
+  purchase('p4', '2026-03-01T08:00:00Z'),
+  purchase('p3', '2026-02-15T12:00:00Z', { type: 'slots', quantity: 2, totalPrice: 0 }),
+  purchase('p2', '2026-02-01T12:00:00Z', { paymentStatus: 'refunded' }),
+  purchase('p1', '2026-01-10T12:00:00Z', { category: 'private', pricePerUnit: 8, totalPrice: 8, quantity: 1 }),
+];
+
+type PurchaseQuery = { type?: Purchase['type']; category?: Purchase['category'] };
+
+/** Fake API: the server filters by type and category, like the real one */
+function fakeApi(purchases = history) {
+  const calls: PurchaseQuery[] = [];
+  const api = {
+    billing: {
+      async *iteratePurchases(params: PurchaseQuery) {
+        calls.push(params);
+        yield* purchases.filter(p => (!params.type || p.type === params.type) && (!params.category || p.category === params.category));
+      },
+      getPurchase: async (id: string) => {
+        const found = purchases.find(p => p._id === id);
+        if (!found) throw new Error('Purchase not found');
+        return found;
+      },
+    },
+  } as unknown as ProxiesApi;
+  return { api, calls };
+}
+
+const ids = (data: unknown) => (data as { purchases: Purchase[] }).purchases.map(p => p._id);
+
+describe('list_purchases', () => {
+  it('passes type and category to the API and filters status and dates locally', async () => {
+    const { api, calls } = fakeApi();
+    const result = await createBillingToolHandlers(api).list_purchases({ type: 'traffic', category: 'shared', status: 'completed' });
+    expect(calls).toEqual([{ type: 'traffic', category: 'shared' }]);
+    expect(ids(result.data)).toEqual(['p4']);
+    expect(result.text).toContain('(type=traffic, category=shared, status=completed)');
+  });
+
+  it('includes the whole day of a date-only `to`', async () => {
+    const { api } = fakeApi();
+    const result = await createBillingToolHandlers(api).list_purchases({ from: '2026-02-01', to: '2026-03-01' });
+    expect(ids(result.data)).toEqual(['p5', 'p4', 'p3', 'p2']);
+  });
+
+  it('totals only completed purchases on the page', async () => {
+    const { api } = fakeApi();
+    const result = await createBillingToolHandlers(api).list_purchases({ from: '2026-02-01' });
+    // p6 $40 + p4 $20 + p3 $0; p5 failed and p2 refunded are left out
+    expect(result.text).toContain('Completed total (shown): $60.00');
+  });
+
+  it('pages with a cursor bound to the filters', async () => {
+    const { api } = fakeApi();
+    const handlers = createBillingToolHandlers(api);
+    const first = await handlers.list_purchases({ category: 'shared', limit: 2 });
+    const { nextCursor } = first.data as { nextCursor: string };
+    expect(ids(first.data)).toEqual(['p5', 'p4']);
+
+    const second = await handlers.list_purchases({ category: 'shared', limit: 2, cursor: nextCursor });
+    expect(ids(second.data)).toEqual(['p3', 'p2']);
+    expect((second.data as { nextCursor: string | null }).nextCursor).toBeNull();
+
+    await expect(handlers.list_purchases({ category: 'private', cursor: nextCursor })).rejects.toThrow();
+  });
+
+  it('says when nothing matches', async () => {
+    const { api } = fakeApi();
+    const result = await createBillingToolHandlers(api).list_purchases({ status: 'pending' });
+    expect(result.text).toBe('No purchases found (status=pending).');
+  });
+});
+
+describe('get_purchase_receipt', () => {
+  it('returns the purchase and fails for unknown IDs', async () => {
+    const { api } = fakeApi();
+    const handlers = createBillingToolHandlers(api);
+    const receipt = await handlers.get_purchase_receipt({ purchaseId: 'p6' });
+    expect(receipt.data).toMatchObject({ purchase: { _id: 'p6', totalPrice: 40 } });
+    await expect(handlers.get_purchase_receipt({ purchaseId: 'nope' })).rejects.toThrow('Failed to get purchase receipt: Purchase not found');
+  });
+});
+
+describe('export_purchases', () => {
+  it('exports the filtered purchases as CSV', async () => {
+    const { api } = fakeApi([
+      ...history,
+      purchase('p0', '2026-01-05T12:00:00Z', { paymentMethod: 'crypto, "manual"' as Purchase['paymentMethod'] }),
+    ]);
+    const result = await createBillingToolHandlers(api).export_purchases({ to: '2026-01-31' });
+    const [note, , header, ...rows] = result.text.split('\n');
+
+    expect(note).toBe('Exported 2 purchases (to=2026-01-31).');
+    expect(header).toBe('_id,createdAt,completedAt,type,category,quantity,pricePerUnit,totalPrice,paymentMethod,paymentStatus');
+    expect(rows).toEqual([
+      'p1,2026-01-10T12:00:00Z,,traffic,private,1,8,8,balance,completed',
+      'p0,2026-01-05T12:00:00Z,,traffic,shared,5,4,20,"crypto, ""manual""",completed',
+    ]);
+  });
+
+  it('exports JSON with the same filters', async () => {
+    const { api } = fakeApi();
+    const result = await createBillingToolHandlers(api).export_purchases({ exportFormat: 'json', status: 'refunded' });
+    expect(JSON.parse(result.text.split('\n\n')[1])).toEqual([history[4]]);
+    expect(result.data).toMatchObject({ exportFormat: 'json', complete: true });
+  });
+});
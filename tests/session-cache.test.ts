@@ -0,0 +1,165 @@
+/**
+ * x402 session cache: expiry, change events and session resources (temp files, fake notifier)
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import { createSessionCache, type CachedSession, type SessionCacheChange } from '../src/x402/index.js';
+import {
+  createX402SessionResourceProvider,
+  X402_SESSIONS_URI,
+  x402SessionResourceUri,
+} from '../src/resources/index.js';
+
+const WALLET = '0xWallet';
+const MINUTE_MS = 60 * 1000;
+
+const dir = mkdtempSync(join(tmpdir(), 'session-cache-'));
+let run = 0;
+const cachePath = () => join(dir, `cache-${++run}.json`);
+
+/** Session expiring the given number of minutes from now */
+const session = (id: string, minutes: number, countryCode = 'US'): CachedSession => ({
+  id,
+  proxy: { host: 'proxy.example', httpPort: 8080, socksPort: 1080, username: 'u', password: 'p' },
+  expiresAt: new Date(Date.now() + minutes * MINUTE_MS).toISOString(),
+  location: { country: countryCode, countryCode },
+  rotationUrl: '',
+  rotationToken: '',
+  walletAddress: WALLET,
+});
+
+/** Cache with a change log */
+function cacheWith(...sessions: CachedSession[]) {
+  const cache = createSessionCache([WALLET], cachePath());
+  sessions.forEach((s) => cache.addSession(s));
+  const changes: SessionCacheChange[] = [];
+  cache.onChange((change) => changes.push(change));
+  return { cache, changes };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+describe('session cache', () => {
+  it('drops sessions that expired on disk when loading', () => {
+    const path = cachePath();
+    writeFileSync(path, JSON.stringify({
+      walletAddress: WALLET,
+      sessions: [session('expired', -1), { ...session('live', 10), walletAddress: undefined }],
+    }));
+
+    const cache = createSessionCache([WALLET], path);
+    expect(cache.getActiveSessions().map((s) => s.id)).toEqual(['live']);
+  });
+
+  it('evicts sessions as they expire and reports them as removed', () => {
+    vi.useFakeTimers();
+    const { cache, changes } = cacheWith(session('short', 5), session('long', 60));
+    expect(cache.getActiveCount()).toBe(2);
+
+    vi.advanceTimersByTime(6 * MINUTE_MS);
+    expect(cache.getSession('short')).toBeUndefined();
+    expect(cache.getActiveSessions().map((s) => s.id)).toEqual(['long']);
+    expect(changes).toEqual([{ type: 'removed', sessionId: 'short' }]);
+
+    // The eviction was saved
+    expect(createSessionCache([WALLET], cache.getInfo().cachePath).getActiveCount()).toBe(1);
+  });
+
+  it('reports added, updated and removed sessions', () => {
+    const { cache, changes } = cacheWith();
+    cache.addSessionFromResponse({ session: { ...session('s1', 10) }, rotationUrl: 'https://rotate' }, WALLET);
+    cache.addSession(session('s1', 20));
+    cache.updateSessionExpiry('s1', session('s1', 30).expiresAt);
+    cache.removeSession('s1');
+
+    expect(changes.map((c) => c.type)).toEqual(['added', 'updated', 'updated', 'removed']);
+    expect(cache.updateSessionExpiry('s1', session('s1', 30).expiresAt)).toBe(false);
+    expect(cache.removeSession('s1')).toBe(false);
+  });
+
+  it('keeps a session alive after its expiry is extended', () => {
+    vi.useFakeTimers();
+    const { cache } = cacheWith(session('s1', 5));
+    cache.updateSessionExpiry('s1', session('s1', 65).expiresAt);
+
+    vi.advanceTimersByTime(10 * MINUTE_MS);
+    expect(cache.getSession('s1')).toBeDefined();
+    expect(cache.getTimeRemaining('s1')?.display).toBe('55m 0s');
+  });
+
+  it('formats the time remaining', () => {
+    vi.useFakeTimers();
+    const { cache } = cacheWith(session('secs', 0.5), session('hours', 150), session('days', 60 * 26));
+
+    expect(cache.getTimeRemaining('secs')).toEqual({ seconds: 30, display: '30s' });
+    expect(cache.getTimeRemaining('hours')?.display).toBe('2h 30m');
+    expect(cache.getTimeRemaining('days')?.display).toBe('1d 2h');
+    expect(cache.getTimeRemaining('missing')).toBeNull();
+  });
+
+  it('lists sessions expiring within the window', () => {
+    const { cache } = cacheWith(session('soon', 10), session('later', 45), session('tomorrow', 24 * 60));
+    expect(cache.getExpiringSoon().map((s) => s.id)).toEqual(['soon']);
+    expect(cache.getExpiringSoon(60).map((s) => s.id)).toEqual(['soon', 'later']);
+  });
+});
+
+describe('x402 session resources', () => {
+  /** Provider over a fresh cache with a recording notifier */
+  function provider(...sessions: CachedSession[]) {
+    const { cache } = cacheWith(...sessions);
+    const notifier = { updated: vi.fn(), listChanged: vi.fn() };
+    return { cache, notifier, resources: createX402SessionResourceProvider(cache, notifier) };
+  }
+
+  it('lists one resource per active session', async () => {
+    const { resources } = provider(session('s1', 10, 'DE'), session('s/2', 10, 'US'));
+    const listed = await resources.list!();
+    expect(listed.map((r) => r.uri)).toEqual([
+      `${X402_SESSIONS_URI}/s1`,
+      `${X402_SESSIONS_URI}/s%2F2`,
+    ]);
+    expect(listed[0].title).toBe('x402 session DE');
+  });
+
+  it('reads the session list and single sessions with the time remaining', async () => {
+    const { resources } = provider(session('s1', 90), session('s/2', 10));
+
+    const all = JSON.parse((await resources.read(X402_SESSIONS_URI))!.text);
+    expect(all.map((s: { id: string }) => s.id)).toEqual(['s1', 's/2']);
+
+    const one = JSON.parse((await resources.read(x402SessionResourceUri('s/2')))!.text);
+    expect(one).toMatchObject({ id: 's/2', proxy: { host: 'proxy.example' } });
+    expect(one.timeRemaining).toMatch(/^(9m|10m 0s)/);
+
+    await expect(resources.read(x402SessionResourceUri('missing'))).rejects.toThrow('Session missing not found or expired');
+    expect(await resources.read('proxies://ports')).toBeUndefined();
+  });
+
+  it('notifies subscribers when a session is extended', () => {
+    const { cache, notifier } = provider(session('s1', 10));
+    cache.updateSessionExpiry('s1', session('s1', 70).expiresAt);
+
+    expect(notifier.updated).toHaveBeenCalledWith(x402SessionResourceUri('s1'));
+    expect(notifier.updated).toHaveBeenCalledWith(X402_SESSIONS_URI);
+    expect(notifier.listChanged).not.toHaveBeenCalled();
+  });
+
+  it('notifies a list change when a session expires, without a read', () => {
+    vi.useFakeTimers();
+    const { notifier } = provider(session('s1', 0.5), session('s2', 60));
+
+    // The provider sweeps the cache every 30 seconds
+    vi.advanceTimersByTime(60 * 1000);
+    expect(notifier.updated).toHaveBeenCalledWith(x402SessionResourceUri('s1'));
+    expect(notifier.updated).not.toHaveBeenCalledWith(x402SessionResourceUri('s2'));
+    expect(notifier.listChanged).toHaveBeenCalledTimes(1);
+  });
+});
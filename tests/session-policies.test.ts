@@ -0,0 +1,153 @@
+/**
+ * x402 session auto-renew/top-up policies (fake client, temp files)
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  createSessionCache,
+  createSessionPolicies,
+  type CachedSession,
+  type X402PaymentOptions,
+} from '../src/x402/index.js';
+
+const HOUR = 60 * 60 * 1000;
+const WALLET = '0xwallet';
+
+/** Session as the API reports it (the status endpoint fails while `error` is set) */
+interface ApiSession {
+  status: 'active' | 'expired';
+  expiresAt: string;
+  error?: string;
+}
+
+/** Fake client that charges a fixed price per call and honours maxAmountUSDC */
+function fakeClient(remainingGB: number, price = 4, session: ApiSession = { status: 'active', expiresAt: new Date(Date.now() + HOUR).toISOString() }) {
+  const calls = { extend: [] as number[], topup: [] as number[] };
+  let tx = 0;
+
+  const pay = (options: X402PaymentOptions = {}) => {
+    if (options.maxAmountUSDC !== undefined && price > options.maxAmountUSDC) {
+      throw new Error(`Payment of $${price.toFixed(2)} exceeds the allowed $${options.maxAmountUSDC.toFixed(2)}`);
+    }
+    options.onTransfer?.({ transactionHash: `0xtx${++tx}`, network: 'base', amount: String(price * 1e6), recipient: '0xrecipient' });
+  };
+
+  const client = {
+    extendSession: async (sessionId: string, hours: number, options?: X402PaymentOptions) => {
+      pay(options);
+      calls.extend.push(hours);
+      return { id: sessionId, expiresAt: new Date(Date.now() + (hours + 0.25) * HOUR).toISOString() };
+    },
+    topupSession: async (sessionToken: string, addTrafficGB: number, options?: X402PaymentOptions) => {
+      pay(options);
+      calls.topup.push(addTrafficGB);
+      remainingGB += addTrafficGB;
+      return { sessionId: 'sess_1', trafficAllocatedGB: 1 + addTrafficGB, expiresAt: '' };
+    },
+    getSessionStatus: async (id: string) => {
+      if (session.error) throw new Error(session.error);
+      return { id, status: session.status, expiresAt: session.expiresAt, traffic: { remainingGB, percentUsed: 50 } };
+    },
+  } as never;
+
+  return { client, calls };
+}
+
+describe('x402 session policies', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'x402-policies-'));
+  const logged: string[] = [];
+
+  beforeAll(() => {
+    vi.spyOn(console, 'error').mockImplementation((...args: unknown[]) => logged.push(args.join(' ')));
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  let run = 0;
+  function setup(expiresInHours: number, remainingGB = 5, session?: ApiSession) {
+    const cache = createSessionCache([WALLET], join(dir, `cache-${++run}.json`));
+    cache.addSession({ id: 'sess_1', expiresAt: new Date(Date.now() + expiresInHours * HOUR).toISOString() } as CachedSession);
+    const { client, calls } = fakeClient(remainingGB, 4, session);
+    const storePath = join(dir, `policies-${run}.json`);
+    return { cache, calls, storePath, policies: createSessionPolicies([WALLET], client, cache, storePath) };
+  }
+
+  it('extends near expiry with keep-alive and stops at the target time', async () => {
+    const { cache, calls, policies } = setup(0.25);
+    const keepAliveUntil = new Date(Date.now() + 2 * HOUR).toISOString();
+    policies.set({ sessionId: 'sess_1', keepAliveUntil, extendHours: 6 });
+
+    const payments = await policies.enforce();
+    // one extension, capped at the target time
+    expect(calls.extend).toEqual([2]);
+    expect(payments.map(p => p.action)).toEqual(['extend']);
+    expect(new Date(cache.getSession('sess_1')!.expiresAt).getTime()).toBeGreaterThan(Date.now() + 2 * HOUR);
+
+    await policies.enforce();
+    expect(calls.extend).toHaveLength(1);
+    expect(logged.some(line => line.includes('extended by 2h') && line.includes('0xtx1'))).toBe(true);
+  });
+
+  it('tops up traffic below the threshold and needs the session token', async () => {
+    const { calls, policies } = setup(10, 0.1);
+    policies.set({ sessionId: 'sess_1', topupBelowGB: 0.2 });
+    await policies.enforce();
+    expect(calls.topup).toHaveLength(0);
+    expect(policies.get('sess_1')!.lastError).toContain('session token');
+
+    policies.set({ sessionId: 'sess_1', topupBelowGB: 0.2, topupGB: 1, sessionToken: 'x402s_token' });
+    await policies.enforce();
+    await policies.enforce();
+    const policy = policies.get('sess_1')!;
+    expect(calls.topup).toEqual([1]);
+    expect(policy.spentUSDC).toBe(4);
+    expect(policy.lastError).toBeUndefined();
+  });
+
+  it('blocks payments at the spend cap and exhausts the policy', async () => {
+    const { calls, policies, storePath, cache } = setup(10, 0);
+    policies.set({ sessionId: 'sess_1', topupBelowGB: 100, sessionToken: 'x402s_token', maxSpendUSDC: 10 });
+
+    for (let i = 0; i < 3; i++) await policies.enforce();
+    // two $4 top-ups fit under a $10 cap
+    expect(calls.topup).toHaveLength(2);
+    expect(policies.get('sess_1')!.lastError).toContain('exceeds');
+
+    policies.set({ sessionId: 'sess_1', topupBelowGB: 100, sessionToken: 'x402s_token', maxSpendUSDC: 8 });
+    await policies.enforce();
+    const reloaded = createSessionPolicies([WALLET], fakeClient(0).client, cache, storePath).get('sess_1')!;
+    expect(reloaded.status).toBe('budget_exhausted');
+    expect(reloaded.payments).toHaveLength(2);
+  });
+
+  it('ends a policy with its session', async () => {
+    const { cache, policies } = setup(1, 5, { status: 'expired', expiresAt: new Date(Date.now() - HOUR).toISOString() });
+    policies.set({ sessionId: 'sess_1', keepAliveUntil: new Date(Date.now() + 5 * HOUR).toISOString() });
+    cache.removeSession('sess_1');
+    await policies.enforce();
+    expect(policies.get('sess_1')!.status).toBe('session_ended');
+  });
+
+  it('keeps a policy whose session the cache dropped but the API still serves', async () => {
+    const session: ApiSession = { status: 'active', expiresAt: new Date(Date.now() + 0.1 * HOUR).toISOString(), error: 'fetch failed' };
+    const { cache, calls, policies } = setup(1, 5, session);
+    policies.set({ sessionId: 'sess_1', keepAliveUntil: new Date(Date.now() + 5 * HOUR).toISOString() });
+
+    // e.g. evicted by the expiry sweep on a stale expiry time
+    cache.removeSession('sess_1');
+    await policies.enforce();
+    expect(policies.get('sess_1')).toMatchObject({ status: 'active', lastError: 'Could not check session: fetch failed' });
+
+    session.error = undefined;
+    await policies.enforce();
+    expect(policies.get('sess_1')!.status).toBe('active');
+    expect(calls.extend).toHaveLength(1);
+  });
+
+});
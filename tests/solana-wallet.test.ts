@@ -0,0 +1,274 @@
+/**
+ * Solana wallet, key detection and payment network choice (local mock RPC and API)
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { mkdtempSync, rmSync } from 'node:fs';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Keypair, PublicKey, type Transaction } from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  AccountLayout,
+  TOKEN_PROGRAM_ID,
+  decodeTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import bs58 from 'bs58';
+import {
+  createSolanaAgentWallet,
+  createSessionCache,
+  createX402Client,
+  createX402ToolHandlers,
+  createX402Wallets,
+  isSolanaSecretKey,
+  type X402Network,
+  type X402Wallet,
+} from '../src/x402/index.js';
+
+// Transactions are captured here instead of being sent
+const sent: Transaction[] = [];
+let sendError: Error | undefined;
+vi.mock('@solana/web3.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@solana/web3.js')>()),
+  sendAndConfirmTransaction: async (_connection: unknown, transaction: Transaction) => {
+    if (sendError) throw sendError;
+    sent.push(transaction);
+    return 'signature_1';
+  },
+}));
+
+const USDC_MINT = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+const BASE_KEY = `0x${'11'.repeat(32)}`;
+
+const keypair = Keypair.generate();
+const secretKey = bs58.encode(keypair.secretKey);
+const recipient = Keypair.generate().publicKey;
+
+/** USDC held by the wallet's token account (undefined: no token account) */
+let usdcBalance: bigint | undefined;
+
+function tokenAccountData(amount: bigint): string {
+  const data = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode({
+    mint: USDC_MINT,
+    owner: keypair.publicKey,
+    amount,
+    delegateOption: 0,
+    delegate: PublicKey.default,
+    state: 1,
+    isNativeOption: 0,
+    isNative: 0n,
+    delegatedAmount: 0n,
+    closeAuthorityOption: 0,
+    closeAuthority: PublicKey.default,
+  }, data);
+  return data.toString('base64');
+}
+
+/** Minimal Solana JSON-RPC: token account lookups */
+function rpc(req: IncomingMessage, res: ServerResponse) {
+  let body = '';
+  req.on('data', chunk => (body += chunk));
+  req.on('end', () => {
+    const { id, method } = JSON.parse(body) as { id: string; method: string };
+    const value = method === 'getAccountInfo' && usdcBalance !== undefined
+      ? { data: [tokenAccountData(usdcBalance), 'base64'], executable: false, lamports: 2039280, owner: TOKEN_PROGRAM_ID.toBase58(), rentEpoch: 0 }
+      : null;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ jsonrpc: '2.0', id, result: { context: { slot: 1 }, value } }));
+  });
+}
+
+const server = createServer(rpc);
+let rpcUrl = '';
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  rpcUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+const dir = mkdtempSync(join(tmpdir(), 'proxies-sx-solana-'));
+
+afterAll(() => {
+  server.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  sent.length = 0;
+  sendError = undefined;
+  usdcBalance = undefined;
+});
+
+describe('Solana wallet', () => {
+  it('reports a zero balance when the USDC token account is missing', async () => {
+    const balance = await createSolanaAgentWallet(secretKey, rpcUrl).getBalance();
+    expect(balance).toEqual({ usdc: '0', formatted: '$0.00 USDC', network: 'solana' });
+  });
+
+  it('reads the USDC token account balance', async () => {
+    usdcBalance = 12_500_000n;
+    const wallet = createSolanaAgentWallet(secretKey, rpcUrl);
+    expect((await wallet.getBalance()).formatted).toBe('$12.50 USDC');
+    expect(await wallet.hasSufficientBalance('12500001')).toBe(false);
+  });
+
+  it('creates the recipient token account and transfers the exact amount', async () => {
+    usdcBalance = 10_000_000n;
+    const result = await createSolanaAgentWallet(secretKey, rpcUrl).sendUSDC(recipient.toBase58(), '4000000');
+
+    expect(result).toEqual({ transactionHash: 'signature_1', network: 'solana', amount: '4000000', recipient: recipient.toBase58() });
+    const [createAccount, transfer] = sent[0].instructions;
+    const destination = getAssociatedTokenAddressSync(USDC_MINT, recipient, true);
+
+    expect(createAccount.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)).toBe(true);
+    expect(createAccount.keys[1].pubkey.equals(destination)).toBe(true);
+    expect(createAccount.keys[2].pubkey.equals(recipient)).toBe(true);
+
+    const { keys, data } = decodeTransferCheckedInstruction(transfer);
+    expect(data.amount).toBe(4_000_000n);
+    expect(data.decimals).toBe(6);
+    expect(keys.source.pubkey.equals(getAssociatedTokenAddressSync(USDC_MINT, keypair.publicKey))).toBe(true);
+    expect(keys.destination.pubkey.equals(destination)).toBe(true);
+    expect(keys.mint.pubkey.equals(USDC_MINT)).toBe(true);
+  });
+
+  it('sends nothing without enough USDC', async () => {
+    usdcBalance = 1_000_000n;
+    await expect(createSolanaAgentWallet(secretKey, rpcUrl).sendUSDC(recipient.toBase58(), '4000000'))
+      .rejects.toThrow('Insufficient USDC balance');
+    expect(sent).toHaveLength(0);
+  });
+
+  it('explains a transfer that fails for lack of SOL', async () => {
+    usdcBalance = 10_000_000n;
+    sendError = new Error('Transfer: insufficient lamports 0, need 5000');
+    await expect(createSolanaAgentWallet(secretKey, rpcUrl).sendUSDC(recipient.toBase58(), '4000000'))
+      .rejects.toThrow('Insufficient SOL for transaction fees');
+  });
+
+  it('rejects an invalid recipient', async () => {
+    await expect(createSolanaAgentWallet(secretKey, rpcUrl).sendUSDC('0xnot-solana', '1')).rejects.toThrow('Invalid recipient address');
+  });
+});
+
+describe('wallet key detection', () => {
+  it('tells Solana secret keys from EVM keys', () => {
+    expect(isSolanaSecretKey(secretKey)).toBe(true);
+    expect(isSolanaSecretKey(JSON.stringify(Array.from(keypair.secretKey)))).toBe(true);
+    expect(isSolanaSecretKey(BASE_KEY)).toBe(false);
+    expect(isSolanaSecretKey(BASE_KEY.slice(2))).toBe(false);
+    expect(isSolanaSecretKey(bs58.encode(keypair.publicKey.toBytes()))).toBe(false);
+    expect(isSolanaSecretKey('not a key')).toBe(false);
+  });
+
+  it('creates a wallet per configured key', () => {
+    const networks = (config: Parameters<typeof createX402Wallets>[0]) => createX402Wallets(config).map(w => w.getNetwork());
+
+    expect(networks({ walletPrivateKey: BASE_KEY })).toEqual(['base']);
+    expect(networks({ walletPrivateKey: secretKey })).toEqual(['solana']);
+    expect(networks({ walletPrivateKey: BASE_KEY, solanaWalletPrivateKey: secretKey })).toEqual(['base', 'solana']);
+    expect(createX402Wallets({ walletPrivateKey: secretKey })[0].address).toBe(keypair.publicKey.toBase58());
+
+    expect(() => createX402Wallets({ walletPrivateKey: secretKey, solanaWalletPrivateKey: secretKey })).toThrow('Two Solana keys');
+    expect(() => createX402Wallets({})).toThrow('AGENT_WALLET_KEY');
+  });
+});
+
+describe('payment network choice', () => {
+  const paidBy: X402Network[] = [];
+  const balances: Partial<Record<X402Network, number>> = {};
+  const fakeWallet = (network: X402Network) => ({
+    address: `${network}_wallet`,
+    getNetwork: () => network,
+    getBalance: async () => ({ usdc: BigInt((balances[network] ?? 100) * 1e6), formatted: `$${balances[network] ?? 100} USDC` }),
+    hasSufficientBalance: async () => true,
+    sendUSDC: async (to: string, amount: string) => {
+      paidBy.push(network);
+      return { transactionHash: `tx_${network}`, network, amount, recipient: to };
+    },
+  }) as unknown as X402Wallet;
+
+  // 402 accepting the given networks, then the proxy once a proof is sent
+  let accepts: X402Network[] = [];
+  const api = createServer((req, res) => {
+    res.setHeader('Content-Type', 'application/json');
+    if (req.headers['x-payment']) {
+      const session = {
+        id: 'sess_1',
+        proxy: { host: 'proxy.test', httpPort: 8080, socksPort: 1080, username: 'u', password: 'p' },
+        location: { countryCode: 'US' },
+        traffic: { allowedGB: 1 },
+        expiresAt: new Date(Date.now() + 3600_000).toISOString(),
+      };
+      res.end(JSON.stringify({ success: true, session, payment: JSON.parse(String(req.headers['x-payment'])) }));
+      return;
+    }
+    res.statusCode = 402;
+    res.end(JSON.stringify({
+      paymentRequirement: { accepts: accepts.map(network => ({ network, payTo: `${network}_recipient`, maxAmountRequired: '4000000' })) },
+    }));
+  });
+  let baseUrl = '';
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => api.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(api.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    api.close();
+  });
+
+  beforeEach(() => {
+    paidBy.length = 0;
+    delete balances.base;
+    delete balances.solana;
+  });
+
+  const purchase = (wallets: X402Network[], preferred: X402Network) =>
+    createX402Client(wallets.map(fakeWallet), baseUrl, preferred).purchaseProxy({ country: 'us' });
+
+  it('pays on the preferred network when the 402 accepts it', async () => {
+    accepts = ['base', 'solana'];
+    await purchase(['base', 'solana'], 'solana');
+    await purchase(['base', 'solana'], 'base');
+    expect(paidBy).toEqual(['solana', 'base']);
+  });
+
+  it('falls back to another network it holds a wallet for', async () => {
+    accepts = ['solana'];
+    await purchase(['base', 'solana'], 'base');
+    accepts = ['base', 'solana'];
+    await purchase(['solana'], 'base');
+    expect(paidBy).toEqual(['solana', 'solana']);
+  });
+
+  it('buys with x402_get_proxy when only a non-preferred wallet holds enough USDC', async () => {
+    accepts = ['solana'];
+    balances.base = 0;
+    const wallets = (['base', 'solana'] as X402Network[]).map(fakeWallet);
+    const client = createX402Client(wallets, baseUrl, 'base');
+    const cache = createSessionCache(wallets.map(w => w.address), join(dir, 'sessions.json'));
+    const handlers = createX402ToolHandlers(client, wallets[0], cache, baseUrl);
+
+    expect((await handlers.x402_get_proxy({ country: 'us' })).failed).toBeFalsy();
+    expect(paidBy).toEqual(['solana']);
+
+    balances.solana = 1;
+    const refused = await handlers.x402_get_proxy({ country: 'us' });
+    expect(refused.failed).toBe(true);
+    expect(refused.data).toMatchObject({ error: 'insufficient_balance', wallets: [{ network: 'base' }, { network: 'solana' }] });
+    expect(paidBy).toHaveLength(1);
+  });
+
+  it('refuses when no configured wallet matches', async () => {
+    accepts = ['base'];
+    await expect(purchase(['solana'], 'solana')).rejects.toThrow('accepted: base; configured: solana');
+    expect(paidBy).toHaveLength(0);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * x402 spend limits and the spend ledger (temp files, local mock HTTP server)
+ */
+
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  createSpendGuard,
+  createX402Client,
+  SpendLedgerError,
+  SpendLimitError,
+  type TransferResult,
+  type X402Wallet,
+} from '../src/x402/index.js';
+
+const WALLET = '0xwallet';
+const HOUR_MS = 60 * 60 * 1000;
+
+const transfer = (amountUSDC: number): TransferResult => ({
+  transactionHash: `0x${amountUSDC}`,
+  network: 'base',
+  amount: String(amountUSDC * 1e6),
+  recipient: '0xrecipient',
+});
+
+const usdc = (amount: number) => String(amount * 1e6);
+
+const dir = mkdtempSync(join(tmpdir(), 'proxies-sx-spend-'));
+let run = 0;
+const ledgerPath = () => join(dir, `ledger-${++run}.json`);
+
+/** Write a ledger with payments made the given number of hours ago */
+function ledgerWith(...payments: Array<{ amountUSDC: number; hoursAgo: number }>): string {
+  const path = ledgerPath();
+  writeFileSync(path, JSON.stringify({
+    entries: payments.map(({ amountUSDC, hoursAgo }) => ({
+      ...transfer(amountUSDC),
+      timestamp: new Date(Date.now() - hoursAgo * HOUR_MS).toISOString(),
+      payer: WALLET,
+      purpose: 'purchase:US',
+    })),
+  }));
+  return path;
+}
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+describe('spend limits', () => {
+  it('refuses a single payment above the per-transaction limit', () => {
+    const guard = createSpendGuard([WALLET], { maxTransactionUSDC: 5 }, ledgerPath());
+    expect(() => guard.check(usdc(5))).not.toThrow();
+    expect(() => guard.check(usdc(5.01))).toThrow(SpendLimitError);
+    expect(() => guard.check(usdc(6))).toThrow('per-transaction spend limit');
+  });
+
+  it('counts only the last 24 hours against the daily limit', () => {
+    const guard = createSpendGuard([WALLET], { maxDailySpendUSDC: 10 }, ledgerWith(
+      { amountUSDC: 50, hoursAgo: 25 },
+      { amountUSDC: 6, hoursAgo: 23 },
+    ));
+    expect(guard.getSummary().spentLast24hUSDC).toBe(6);
+    expect(() => guard.check(usdc(4))).not.toThrow();
+    expect(() => guard.check(usdc(5))).toThrow('24h spend limit ($10.00 USDC, already spent $6.00)');
+  });
+
+  it('counts every payment against the lifetime limit', () => {
+    const guard = createSpendGuard([WALLET], { maxTotalSpendUSDC: 60 }, ledgerWith(
+      { amountUSDC: 50, hoursAgo: 24 * 30 },
+      { amountUSDC: 6, hoursAgo: 1 },
+    ));
+    expect(() => guard.check(usdc(4))).not.toThrow();
+
+    guard.commit(guard.authorize(usdc(4)), transfer(4), WALLET, 'purchase:US');
+    expect(() => guard.check(usdc(0.01))).toThrow('lifetime spend limit');
+  });
+
+  it('reserves in-flight payments until they are committed or released', () => {
+    const guard = createSpendGuard([WALLET], { maxDailySpendUSDC: 10 }, ledgerPath());
+    const first = guard.authorize(usdc(6));
+    expect(() => guard.authorize(usdc(6))).toThrow(SpendLimitError);
+
+    guard.release(first);
+    expect(() => guard.authorize(usdc(6))).not.toThrow();
+  });
+});
+
+describe('spend ledger', () => {
+  it('refuses payments when the ledger is corrupt and keeps the file', () => {
+    const path = ledgerPath();
+    writeFileSync(path, '{"entries": [');
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const guard = createSpendGuard([WALLET], {}, path);
+    expect(() => guard.check(usdc(1))).toThrow(SpendLedgerError);
+    expect(() => guard.authorize(usdc(1))).toThrow('could not be read');
+    expect(guard.getSummary().ledgerError).toContain('could not be read');
+    expect(readFileSync(path, 'utf-8')).toBe('{"entries": [');
+    error.mockRestore();
+  });
+
+  it('refuses payments when the ledger cannot be written', () => {
+    // A file where the ledger directory should be
+    const path = ledgerPath();
+    writeFileSync(join(dir, 'blocker'), '');
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const guard = createSpendGuard([WALLET], {}, join(dir, 'blocker', 'ledger.json'));
+    expect(() => guard.authorize(usdc(1))).toThrow('could not be written');
+
+    // Writable again: payments resume
+    const writable = createSpendGuard([WALLET], {}, path);
+    expect(() => writable.authorize(usdc(1))).not.toThrow();
+    error.mockRestore();
+  });
+});
+
+describe('x402 client with spend limits', () => {
+  const api = createServer((_req, res) => {
+    res.writeHead(402, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      paymentRequirement: { accepts: [{ network: 'base', payTo: '0xrecipient', maxAmountRequired: usdc(8) }] },
+    }));
+  });
+  let baseUrl = '';
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => api.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(api.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    api.close();
+  });
+
+  const wallet = () => ({
+    address: WALLET,
+    getNetwork: () => 'base',
+    hasSufficientBalance: async () => true,
+    sendUSDC: vi.fn(async (recipient: string, amount: string) => ({ transactionHash: '0xtx', network: 'base', amount, recipient })),
+  });
+
+  it('refuses before sending USDC when a limit would be exceeded', async () => {
+    const w = wallet();
+    const guard = createSpendGuard([WALLET], { maxTransactionUSDC: 5 }, ledgerPath());
+    const client = createX402Client(w as unknown as X402Wallet, baseUrl, 'base', guard);
+
+    await expect(client.purchaseProxy({ country: 'us', trafficGB: 2 })).rejects.toThrow(SpendLimitError);
+    expect(w.sendUSDC).not.toHaveBeenCalled();
+  });
+
+  it('refuses before sending USDC when the ledger is unreadable', async () => {
+    const path = ledgerPath();
+    writeFileSync(path, 'not json');
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const w = wallet();
+    const client = createX402Client(w as unknown as X402Wallet, baseUrl, 'base', createSpendGuard([WALLET], {}, path));
+
+    await expect(client.purchaseProxy({ country: 'us', trafficGB: 2 })).rejects.toThrow(SpendLedgerError);
+    expect(w.sendUSDC).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it('counts a transfer with an unknown outcome against the limits', async () => {
+    const w = wallet();
+    w.sendUSDC.mockRejectedValue(new Error('USDC transfer failed: socket hang up'));
+    const guard = createSpendGuard([WALLET], {}, ledgerPath());
+    const client = createX402Client(w as unknown as X402Wallet, baseUrl, 'base', guard);
+
+    await expect(client.purchaseProxy({ country: 'us', trafficGB: 2 })).rejects.toThrow('socket hang up');
+    expect(guard.getSummary().spentTotalUSDC).toBe(8);
+  });
+});
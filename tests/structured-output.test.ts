@@ -0,0 +1,136 @@
+/**
+ * Structured tool output: format argument, versioned envelope and outputSchema (local mock API, in-memory MCP client)
+ */
+
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createMcpServer, type McpServerConfig } from '../src/server.js';
+import { TOOL_OUTPUT_VERSION, toolOutputSchema } from '../src/utils/output.js';
+
+const account = { balance: 12.5, currency: 'USD', alerts: [] };
+
+describe('structured tool output', () => {
+  const api = createServer((req, res) => {
+    const reply = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url === '/v1/account/summary') return reply(200, account);
+    if (req.url === '/v1/ports/p1/can-rotate') return reply(200, { canRotate: false, reason: 'Rotation cooldown' });
+    reply(404, { message: 'Port not found' });
+  });
+  let baseUrl = '';
+  const clients: Client[] = [];
+
+  /** MCP client connected in memory to a server over the mock API */
+  async function connect(config: Partial<McpServerConfig> = {}): Promise<Client> {
+    const { server } = await createMcpServer({
+      apiKey: 'test-key',
+      apiKeyScopes: ['account:read', 'ports:read', 'ports:rotate'],
+      baseUrl,
+      apiMaxRetries: 0,
+      auditLog: false,
+      alertIntervalSeconds: 0,
+      ...config,
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+    clients.push(client);
+
+    // Listing the tools makes the client validate structuredContent against each outputSchema
+    await client.listTools();
+    return client;
+  }
+
+  const text = (result: Awaited<ReturnType<Client['callTool']>>) => (result.content as Array<{ text: string }>)[0].text;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await new Promise<void>(resolve => api.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(api.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await Promise.all(clients.map(client => client.close()));
+    api.close();
+    vi.restoreAllMocks();
+  });
+
+  it('declares the envelope as outputSchema and a format argument on every tool', async () => {
+    const client = await connect();
+    const { tools } = await client.listTools();
+
+    expect(tools.length).toBeGreaterThan(0);
+    for (const tool of tools) {
+      expect(tool.outputSchema).toEqual(toolOutputSchema);
+      expect(tool.inputSchema.properties).toHaveProperty('format');
+    }
+  });
+
+  it('returns text by default with the envelope as structuredContent', async () => {
+    const client = await connect();
+    const result = await client.callTool({ name: 'get_account_summary', arguments: {} });
+
+    expect(text(result)).not.toMatch(/^\{/);
+    expect(result.structuredContent).toEqual({
+      version: TOOL_OUTPUT_VERSION,
+      tool: 'get_account_summary',
+      ok: true,
+      data: { account },
+    });
+  });
+
+  it('returns the envelope as text with format: "json"', async () => {
+    const client = await connect();
+    const result = await client.callTool({ name: 'get_account_summary', arguments: { format: 'json' } });
+
+    expect(JSON.parse(text(result))).toEqual(result.structuredContent);
+  });
+
+  it('uses the server-wide output format unless the call overrides it', async () => {
+    const client = await connect({ outputFormat: 'json' });
+
+    const json = await client.callTool({ name: 'get_account_summary', arguments: {} });
+    expect(JSON.parse(text(json))).toMatchObject({ tool: 'get_account_summary', ok: true });
+
+    const plain = await client.callTool({ name: 'get_account_summary', arguments: { format: 'text' } });
+    expect(text(plain)).not.toMatch(/^\{/);
+  });
+
+  it('marks handled failures with ok: false without an MCP error', async () => {
+    const client = await connect();
+    const result = await client.callTool({ name: 'rotate_port', arguments: { portId: 'p1', format: 'json' } });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toMatchObject({
+      ok: false,
+      data: { rotated: false, availability: { canRotate: false, reason: 'Rotation cooldown' } },
+    });
+  });
+
+  it('wraps thrown errors in the envelope', async () => {
+    const client = await connect();
+    const result = await client.callTool({ name: 'rotate_port', arguments: { portId: 'p2' } });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toBe('Error: Failed to rotate port: Port not found');
+    expect(result.structuredContent).toEqual({
+      version: TOOL_OUTPUT_VERSION,
+      tool: 'rotate_port',
+      ok: false,
+      data: { error: 'Failed to rotate port: Port not found' },
+    });
+  });
+
+  it('rejects an unknown format', async () => {
+    const client = await connect();
+    await expect(client.callTool({ name: 'get_account_summary', arguments: { format: 'xml' } }))
+      .rejects.toThrow('format must be "text" or "json"');
+  });
+});
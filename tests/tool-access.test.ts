@@ -0,0 +1,51 @@
+/**
+ * Tool access policy (no network)
+ */
+
+import { describe, expect, it } from 'vitest';
+import { allToolDefinitions, createToolAccessPolicy, toolGroups, type ToolDefinition } from '../src/tools/index.js';
+import { x402ToolDefinitions } from '../src/x402/tools.js';
+
+const tools: ToolDefinition[] = [...allToolDefinitions, ...x402ToolDefinitions];
+const tool = (name: string) => tools.find(t => t.name === name)!;
+
+describe('tool access policy', () => {
+  it('hides every mutating tool in read-only mode', () => {
+    const policy = createToolAccessPolicy({ readOnly: true });
+    expect(policy.isExposed(tool('delete_port'))).toBe(false);
+    expect(policy.isExposed(tool('purchase_private_traffic'))).toBe(false);
+    expect(policy.isExposed(tool('x402_get_proxy'))).toBe(false);
+    expect(policy.isExposed(tool('list_ports'))).toBe(true);
+    expect(policy.isExposed(tool('get_account_summary'))).toBe(true);
+    expect(policy.hiddenReason(tool('delete_port'))).toBe('the server is in read-only mode');
+  });
+
+  it('accepts groups and tool names on the allow-list', () => {
+    const policy = createToolAccessPolicy({ allow: ['ports', 'get_account_summary'] });
+    const exposed = tools.filter(t => policy.isExposed(t)).map(t => t.name);
+    expect(exposed).toHaveLength(toolGroups.ports.length + 1);
+    expect(policy.hiddenReason(tool('purchase_shared_traffic'))).toBe('purchase_shared_traffic is not on the allow-list');
+  });
+
+  it('lets the deny-list win over the allow-list', () => {
+    const policy = createToolAccessPolicy({ allow: ['ports'], deny: ['delete_port', 'bulk_rotate_ports'] });
+    expect(policy.isExposed(tool('delete_port'))).toBe(false);
+    expect(policy.isExposed(tool('create_port'))).toBe(true);
+    expect(policy.describe()).toBe('allow: ports; deny: delete_port, bulk_rotate_ports');
+  });
+
+  it('hides tools needing scopes the API key lacks', () => {
+    const policy = createToolAccessPolicy({ scopes: ['ports:read', 'account:read'] });
+    expect(policy.isExposed(tool('list_ports'))).toBe(true);
+    expect(policy.isExposed(tool('list_available_countries'))).toBe(true);
+    expect(policy.hiddenReason(tool('rotate_port'))).toBe('the API key lacks the ports:rotate scope');
+    expect(policy.missingScopes(tool('purchase_shared_traffic'))).toEqual(['billing:read', 'billing:write']);
+    expect(policy.isExposed(tool('x402_get_proxy'))).toBe(true);
+    expect(createToolAccessPolicy({ scopes: ['admin:full'] }).isExposed(tool('delete_port'))).toBe(true);
+  });
+
+  it('rejects unknown entries', () => {
+    expect(() => createToolAccessPolicy({ deny: ['delete_ports'] })).toThrow(/"delete_ports".*Groups: account, ports/s);
+    expect(createToolAccessPolicy().describe()).toBeUndefined();
+  });
+});
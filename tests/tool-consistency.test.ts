@@ -0,0 +1,145 @@
+/**
+ * Consistency of all tool registrations
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { ProxiesApi } from '../src/api/index.js';
+import {
+  allToolDefinitions,
+  allSchemas,
+  createAllToolHandlers,
+  createAllToolPreviews,
+  createPlannerToolHandlers,
+  createPlannerToolPreviews,
+  plannerToolDefinitions,
+  plannerSchemas,
+  createAuditToolHandlers,
+  auditToolDefinitions,
+  auditSchemas,
+  toolGroups,
+  type ToolDefinition,
+} from '../src/tools/index.js';
+import { x402ToolDefinitions, x402Schemas } from '../src/x402/tools.js';
+import { createX402ToolHandlers, createX402ToolPreviews } from '../src/x402/handlers.js';
+
+// Handler factories only capture their dependencies, so stubs are enough
+const apiHandlers = createAllToolHandlers({} as ProxiesApi, 'https://api.proxies.sx');
+const x402Handlers = createX402ToolHandlers({} as never, {} as never, {} as never, 'https://api.proxies.sx');
+const plannerHandlers = createPlannerToolHandlers({});
+const auditHandlers = createAuditToolHandlers({} as never);
+
+// Dry-run previews of the state-changing tools
+const apiPreviews = createAllToolPreviews({} as ProxiesApi);
+const x402Previews = createX402ToolPreviews({} as never, {} as never, {} as never);
+const plannerPreviews = createPlannerToolPreviews({});
+
+type ToolSet = {
+  label: string;
+  definitions: ToolDefinition[];
+  schemas: Record<string, unknown>;
+  handlers: Record<string, unknown>;
+  previews: Record<string, unknown>;
+};
+
+const toolSets: ToolSet[] = [
+  { label: 'API', definitions: [...allToolDefinitions], schemas: allSchemas, handlers: apiHandlers, previews: apiPreviews },
+  { label: 'x402', definitions: x402ToolDefinitions, schemas: x402Schemas, handlers: x402Handlers, previews: x402Previews },
+  { label: 'planner', definitions: plannerToolDefinitions, schemas: plannerSchemas, handlers: plannerHandlers, previews: plannerPreviews },
+  { label: 'audit', definitions: auditToolDefinitions, schemas: auditSchemas, handlers: auditHandlers, previews: {} },
+];
+
+const allTools = toolSets.flatMap(set => set.definitions);
+
+/**
+ * Arguments that fill a tool's required parameters
+ */
+function sampleArgs({ inputSchema }: ToolDefinition): Record<string, unknown> {
+  return Object.fromEntries(inputSchema.required.map(param => {
+    const schema = inputSchema.properties[param] as { type?: string; enum?: unknown[]; minimum?: number };
+    const samples: Record<string, unknown> = { string: 'x', number: schema.minimum ?? 1, integer: schema.minimum ?? 1, boolean: false, array: [] };
+    return [param, schema.enum?.[0] ?? samples[schema.type ?? 'string']];
+  }));
+}
+
+describe.each(toolSets)('$label tools', ({ label, definitions, schemas, handlers, previews }) => {
+  const defined = new Set(definitions.map(t => t.name));
+
+  it('have a description, schema and handler', () => {
+    const problems: string[] = [];
+    for (const { name, description, inputSchema } of definitions) {
+      if (description.trim().length === 0) problems.push(`${name}: missing description`);
+      if (!(name in schemas)) problems.push(`${name}: no validation schema`);
+      if (typeof handlers[name] !== 'function') problems.push(`${name}: no handler`);
+
+      if (inputSchema.type !== 'object') problems.push(`${name}: inputSchema is not an object schema`);
+      for (const param of inputSchema.required) {
+        if (!(param in inputSchema.properties)) problems.push(`${name}: required parameter "${param}" is not a property`);
+      }
+      for (const [param, schema] of Object.entries(inputSchema.properties)) {
+        if (!(schema as { description?: string }).description) problems.push(`${name}: parameter "${param}" has no description`);
+      }
+    }
+    expect(problems).toEqual([]);
+  });
+
+  it('have no schemas, handlers or previews without a definition', () => {
+    const orphans = [...Object.keys(schemas), ...Object.keys(handlers), ...Object.keys(previews)].filter(name => !defined.has(name));
+    expect(orphans, `${label} registrations without a tool definition`).toEqual([]);
+  });
+
+  it('have a preview for every mutating or confirmed tool, and only for mutating tools', () => {
+    const changing = definitions.filter(t => !t.annotations.readOnlyHint || t.confirm);
+    expect(changing.filter(t => !(t.name in previews)).map(t => t.name), `${label} tools without a dry-run preview`).toEqual([]);
+    for (const [name, preview] of Object.entries(previews)) {
+      expect(typeof preview, `${name}: preview`).toBe('function');
+      expect(definitions.find(t => t.name === name)?.annotations.readOnlyHint, `${name}: has a dry-run preview but is not marked mutating`).toBe(false);
+    }
+  });
+});
+
+describe('all tools', () => {
+  it('are registered once', () => {
+    const names = allTools.map(t => t.name);
+    expect(names.filter((name, i) => names.indexOf(name) !== i)).toEqual([]);
+  });
+
+  it('declare the API key scopes they need when calling the API with the account key', () => {
+    const tools = [...toolGroups.account, ...toolGroups.ports, ...toolGroups.billing, ...toolGroups.support];
+    expect(tools.filter(t => !t.scopes?.length).map(t => t.name)).toEqual([]);
+  });
+
+  it('declare API key scopes when their handler calls the API', async () => {
+    // Every API method records the tool being called and fails
+    const calling = new Set<string>();
+    let current = '';
+    const api = new Proxy({}, {
+      get: () => new Proxy({}, {
+        get: () => () => {
+          calling.add(current);
+          // Handled here too, for handlers that use the result as an iterator
+          const failure = Promise.reject(new Error('offline'));
+          failure.catch(() => undefined);
+          return failure;
+        },
+      }),
+    }) as ProxiesApi;
+    const handlers = createAllToolHandlers(api, 'https://api.proxies.sx');
+
+    for (const tool of allToolDefinitions) {
+      current = tool.name;
+      await Promise.resolve(handlers[tool.name](sampleArgs(tool))).catch(() => undefined);
+    }
+
+    // x402 session tools authenticate with the session token, not the account key
+    const sessionTools = new Set(toolGroups.x402.map(t => t.name));
+    const unscoped = allToolDefinitions.filter(t => calling.has(t.name) && !sessionTools.has(t.name) && !t.scopes?.length).map(t => t.name);
+    expect(calling.size).toBeGreaterThan(0);
+    expect(unscoped).toEqual([]);
+  });
+
+  it('belong to exactly one access group', () => {
+    const grouped = Object.values(toolGroups).flat().map(t => t.name);
+    const misgrouped = allTools.map(t => t.name).filter(name => grouped.filter(g => g === name).length !== 1);
+    expect(misgrouped).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * x402 local state shared by several wallets (temp files, no network)
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+import {
+  createPendingPayments,
+  createSessionCache,
+  createSpendGuard,
+  type CachedSession,
+  type PendingPayment,
+  type TransferResult,
+} from '../src/x402/index.js';
+
+const BASE = '0xBaseWallet';
+const SOLANA = 'So1anaWa11et';
+const OTHER = '0xOtherWallet';
+
+const transfer = (amountUSDC: number, network: TransferResult['network']): TransferResult => ({
+  transactionHash: `tx_${network}_${amountUSDC}`,
+  network,
+  amount: String(amountUSDC * 1e6),
+  recipient: 'recipient',
+});
+
+describe('x402 state across wallets', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'wallet-state-'));
+  let run = 0;
+  const path = (name: string) => join(dir, `${name}-${++run}.json`);
+
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('counts payments of every configured wallet against the spend limits', () => {
+    const ledgerPath = path('ledger');
+    const guard = createSpendGuard([BASE, SOLANA], { maxDailySpendUSDC: 10 }, ledgerPath);
+    guard.commit(guard.authorize('4000000'), transfer(4, 'base'), BASE, 'purchase:US');
+    guard.commit(guard.authorize('4000000'), transfer(4, 'solana'), SOLANA, 'purchase:DE');
+
+    expect(() => guard.check('4000000')).toThrow('24h spend limit');
+
+    // Preferring the other network configures the same wallets in another order
+    const reloaded = createSpendGuard([SOLANA, BASE], { maxDailySpendUSDC: 10 }, ledgerPath);
+    expect(reloaded.getSummary().spentLast24hUSDC).toBe(8);
+  });
+
+  it('keeps the ledger entries of wallets that are no longer configured', () => {
+    const ledgerPath = path('ledger');
+    const before = createSpendGuard([BASE], {}, ledgerPath);
+    before.commit(before.authorize('2000000'), transfer(2, 'base'), BASE, 'purchase:US');
+
+    const other = createSpendGuard([OTHER], {}, ledgerPath);
+    expect(other.getSummary().spentTotalUSDC).toBe(0);
+    other.commit(other.authorize('1000000'), transfer(1, 'base'), OTHER, 'purchase:FR');
+
+    const entries = JSON.parse(readFileSync(ledgerPath, 'utf-8')).entries as Array<{ payer: string }>;
+    expect(entries.map(e => e.payer)).toEqual([BASE, OTHER]);
+    expect(createSpendGuard([BASE], {}, ledgerPath).getSummary().spentTotalUSDC).toBe(2);
+  });
+
+  it('reads ledgers written for a single wallet', () => {
+    const ledgerPath = path('ledger');
+    writeFileSync(ledgerPath, JSON.stringify({
+      walletAddress: BASE.toLowerCase(),
+      entries: [{ timestamp: new Date().toISOString(), amount: '3000000', transactionHash: '0x1', network: 'base', recipient: 'r', purpose: 'purchase:US' }],
+    }));
+
+    expect(createSpendGuard([BASE, SOLANA], {}, ledgerPath).getSummary().spentTotalUSDC).toBe(3);
+  });
+
+  it('shows only the pending payments of the configured wallets', () => {
+    const journalPath = path('pending');
+    const payment = (id: string, payer: string) => ({
+      id, key: `purchase:${id}`, payer, status: 'sent', transactionHash: `0x${id}`, createdAt: new Date().toISOString(), attempts: 0,
+    }) as PendingPayment;
+
+    createPendingPayments([BASE], journalPath).add(payment('pay_base', BASE));
+    createPendingPayments([OTHER], journalPath).add(payment('pay_other', OTHER));
+
+    expect(createPendingPayments([SOLANA, BASE], journalPath).list().map(p => p.id)).toEqual(['pay_base']);
+    expect(createPendingPayments([OTHER], journalPath).get('purchase:pay_other')?.id).toBe('pay_other');
+  });
+
+  it('keeps the cached sessions of other wallets when clearing', () => {
+    const cachePath = path('sessions');
+    const session = (id: string, walletAddress: string) =>
+      ({ id, walletAddress, expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString() }) as CachedSession;
+
+    createSessionCache([BASE], cachePath).addSession(session('sess_base', BASE));
+    const other = createSessionCache([OTHER], cachePath);
+    other.addSession(session('sess_other', OTHER));
+    expect(other.getActiveSessions().map(s => s.id)).toEqual(['sess_other']);
+
+    other.clear();
+    expect(createSessionCache([BASE, SOLANA], cachePath).getActiveSessions().map(s => s.id)).toEqual(['sess_base']);
+  });
+});